@@ -1,211 +1,394 @@
 
-import React, { useState } from 'react';
-import { CabinetModel, SOP, AuditEntry, SalesFeedback } from './types';
-import { CABINET_CATALOG, ACTIVE_SOPS as MOCK_ACTIVE, PROPOSED_CHANGES as MOCK_DRAFTS, AUDIT_LOG as MOCK_AUDIT, CHANGE_REQUESTS } from './constants';
+import React, { useState, useEffect, useRef } from 'react';
+import { CabinetModel, SOP, SalesFeedback, FeedbackStatus, SopWorkflowRule, ChangeRequest, User, ChatSession, ChatSessionSummary, ChatSessionMeta, SessionFile } from './types';
+import { CABINET_CATALOG, ACTIVE_SOPS as MOCK_ACTIVE, PROPOSED_CHANGES as MOCK_DRAFTS } from './constants';
 import Header from './components/Header';
 import ChatInterface from './components/ChatInterface';
 import AdminPanel from './components/AdminPanel';
 import Login from './components/Login';
 import Sidebar from './components/Sidebar';
+import ShareSessionModal from './components/ShareSessionModal';
+import SharedSessionView from './components/SharedSessionView';
 import { Message, DatasheetReference } from './types';
-
-interface ChatSession {
-  id: string;
-  title: string;
-  messages: Message[];
-  datasheets: DatasheetReference[];
-  timestamp: Date;
-}
+import { getCurrentUser, SESSION_EXPIRED_EVENT } from './lib/api';
+import { login, logout, fetchCurrentUser } from './lib/authApi';
+import { fetchFeedback, submitFeedback, updateFeedback, addFeedbackComment, FeedbackSubmission } from './lib/feedbackApi';
+import { fetchChangeRequests, promoteFeedback, linkSopDraft } from './lib/changeRequestApi';
+import { fetchSops, fetchSopWorkflow, proposeSop, reviewSop, deprecateSop, SopProposal, SopReviewInput } from './lib/sopApi';
+import { fetchChatSessions, fetchChatSession, saveChatSession, updateChatSessionMeta, deleteChatSession } from './lib/chatSessionApi';
+import { getCachedSessions, getCachedSession, cacheSession, uncacheSession, clearCachedSessions, withCachedFiles } from './lib/sessionCache';
+import { resolveActiveSops } from './shared/activeSops.js';
 
 type View = 'assistant' | 'admin';
 
+// Share links look like /share/<token>
+const shareTokenFromPath = () => window.location.pathname.match(/^\/share\/([\w-]+)\/?$/)?.[1] || null;
+
+const createSession = (title: string, greeting: string): ChatSession => ({
+  id: `session-${crypto.randomUUID()}`,
+  title,
+  messages: [{ role: 'assistant', content: greeting, timestamp: new Date() }],
+  datasheets: [],
+  sessionFiles: [],
+  timestamp: new Date()
+});
+
+const toSummary = ({ id, title, pinned, archived, tags, timestamp, updatedAt, messages }: ChatSession): ChatSessionSummary => ({
+  id, title, pinned, archived, tags, timestamp, updatedAt, messageCount: messages.length
+});
+
 const App: React.FC = () => {
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(() => {
-    return localStorage.getItem('jb_authenticated') === 'true';
-  });
+  const [currentUser, setCurrentUser] = useState<User | null>(() => getCurrentUser());
+  const isAuthenticated = !!currentUser;
   const [catalog] = useState<CabinetModel[]>(CABINET_CATALOG);
-  const [activeSops, setActiveSops] = useState<SOP[]>(MOCK_ACTIVE);
-  const [draftSops, setDraftSops] = useState<SOP[]>(MOCK_DRAFTS);
-  const [auditLog, setAuditLog] = useState<AuditEntry[]>(MOCK_AUDIT);
+  // Seed data until the server's SOP library has loaded
+  const [sops, setSops] = useState<SOP[]>([...MOCK_ACTIVE, ...MOCK_DRAFTS]);
+  const [sopWorkflow, setSopWorkflow] = useState<SopWorkflowRule[]>([]);
+  // Bumped after anything that writes to the audit log so the admin view refetches
+  const [auditRevision, setAuditRevision] = useState(0);
   const [salesFeedback, setSalesFeedback] = useState<SalesFeedback[]>([]);
+  const [changeRequests, setChangeRequests] = useState<ChangeRequest[]>([]);
+
+  const refreshSops = async () => {
+    try {
+      setSops(await fetchSops());
+    } catch (error) {
+      console.error('Failed to load SOPs:', error);
+    }
+  };
+
+  const refreshAuditLog = () => setAuditRevision(r => r + 1);
+
+  const refreshFeedback = async () => {
+    try {
+      setSalesFeedback(await fetchFeedback());
+    } catch (error) {
+      console.error('Failed to load feedback:', error);
+    }
+  };
+
+  const refreshChangeRequests = async () => {
+    try {
+      setChangeRequests(await fetchChangeRequests());
+    } catch (error) {
+      console.error('Failed to load change requests:', error);
+    }
+  };
+
+  // The server can end a session at any time (expiry, logout elsewhere, account disabled)
+  useEffect(() => {
+    const handleExpired = () => setCurrentUser(null);
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    // Pick up role or name changes made since the session was stored
+    fetchCurrentUser().then(setCurrentUser).catch(error => console.error('Failed to refresh current user:', error));
+    refreshSops();
+    refreshFeedback();
+    refreshChangeRequests();
+    fetchSopWorkflow().then(setSopWorkflow).catch(error => console.error('Failed to load SOP workflow:', error));
+  }, [isAuthenticated]);
 
   const [selectedModel, setSelectedModel] = useState<CabinetModel | null>(null);
   const [currentView, setCurrentView] = useState<View>('assistant');
+  const [shareToken, setShareToken] = useState<string | null>(shareTokenFromPath);
+  const [showShareModal, setShowShareModal] = useState(false);
+
+  useEffect(() => {
+    const handlePopState = () => setShareToken(shareTokenFromPath());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const handleCloseShared = () => {
+    window.history.pushState({}, '', '/');
+    setShareToken(null);
+  };
+
+  // Chat sessions: the sidebar lists summaries, full sessions are loaded when opened (IndexedDB first, then
+  // the server). Changed sessions are queued in unsavedIds and saved once the state update has landed.
+  const [sessionList, setSessionList] = useState<ChatSessionSummary[]>([]);
+  const [loadedSessions, setLoadedSessions] = useState<Record<string, ChatSession>>({});
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [isLoadingSessions, setIsLoadingSessions] = useState(false);
+  const [focusTarget, setFocusTarget] = useState<{ sessionId: string; index: number; nonce: number } | null>(null);
+  const unsavedIds = useRef(new Set<string>());
+
+  const activeSession = activeSessionId ? loadedSessions[activeSessionId] : undefined;
+  const owner = currentUser?.username;
+
+  const rememberSession = (session: ChatSession) => setLoadedSessions(prev => ({ ...prev, [session.id]: session }));
+
+  const upsertSummary = (summary: ChatSessionSummary) => setSessionList(prev => prev.some(s => s.id === summary.id)
+    ? prev.map(s => s.id === summary.id ? summary : s)
+    : [summary, ...prev]);
+
+  const startNewSession = (title: string, greeting: string) => {
+    const session = createSession(title, greeting);
+    rememberSession(session);
+    upsertSummary(toSummary(session));
+    setActiveSessionId(session.id);
+  };
 
-  // Multi-session state
-  const [sessions, setSessions] = useState<ChatSession[]>(() => {
-    const defaultSession: ChatSession = {
-      id: 'session-1',
-      title: 'New Selection',
-      messages: [{ role: 'assistant', content: "Hi, how can I help you?", timestamp: new Date() }],
-      datasheets: [],
-      timestamp: new Date()
-    };
-    return [defaultSession];
-  });
-  const [activeSessionId, setActiveSessionId] = useState<string>('session-1');
-
-  const activeSession = sessions.find(s => s.id === activeSessionId) || sessions[0];
+  // Use the cached copy if it is as new as the server's, otherwise fetch (and cache) the server copy
+  const openSession = async (summary: ChatSessionSummary) => {
+    setActiveSessionId(summary.id);
+    if (!owner) return;
+    const loaded = loadedSessions[summary.id];
+    if (loaded && (!summary.updatedAt || loaded.updatedAt === summary.updatedAt)) return;
+    try {
+      const cached = await getCachedSession(owner, summary.id);
+      if (cached && cached.updatedAt === summary.updatedAt) {
+        rememberSession(cached);
+        return;
+      }
+      const session = withCachedFiles(await fetchChatSession(summary.id), cached);
+      rememberSession(session);
+      await cacheSession(owner, session);
+    } catch (error) {
+      console.error('Failed to load chat session:', error);
+    }
+  };
+
+  // Restore on sign-in: cached sessions show immediately, then the server's list replaces them
+  useEffect(() => {
+    if (!owner) return;
+    let cancelled = false;
+    setIsLoadingSessions(true);
+    (async () => {
+      const cached = await getCachedSessions(owner);
+      if (cancelled) return;
+      const byRecent = (a: ChatSessionSummary, b: ChatSessionSummary) => (b.updatedAt || '').localeCompare(a.updatedAt || '');
+      let list = cached.map(toSummary).sort(byRecent);
+      setLoadedSessions(Object.fromEntries(cached.map(c => [c.id, c])));
+      setSessionList(list);
+
+      try {
+        list = await fetchChatSessions();
+        if (cancelled) return;
+        setSessionList(list);
+        // Sessions deleted on another device
+        const remoteIds = new Set(list.map(s => s.id));
+        cached.filter(c => !remoteIds.has(c.id)).forEach(c => uncacheSession(owner, c.id));
+      } catch (error) {
+        console.error('Failed to load chat sessions:', error);
+      } finally {
+        if (!cancelled) setIsLoadingSessions(false);
+      }
+
+      if (cancelled) return;
+      if (list.length > 0) {
+        const latest = list[0];
+        const local = cached.find(c => c.id === latest.id);
+        setActiveSessionId(latest.id);
+        if (!local || local.updatedAt !== latest.updatedAt) {
+          fetchChatSession(latest.id)
+            .then(fetched => {
+              if (cancelled) return;
+              const session = withCachedFiles(fetched, local);
+              rememberSession(session);
+              cacheSession(owner, session);
+            })
+            .catch(error => console.error('Failed to load chat session:', error));
+        }
+      } else {
+        startNewSession('New Selection', 'Hi, how can I help you?');
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [owner]);
+
+  const persistSession = async (session: ChatSession) => {
+    if (!owner) return;
+    upsertSummary(toSummary(session));
+    try {
+      const saved = await saveChatSession(session);
+      setLoadedSessions(prev => prev[session.id] ? { ...prev, [session.id]: { ...prev[session.id], updatedAt: saved.updatedAt } } : prev);
+      setSessionList(prev => prev.map(s => s.id === saved.id ? saved : s));
+      await cacheSession(owner, { ...session, updatedAt: saved.updatedAt });
+    } catch (error) {
+      console.error('Failed to save chat session:', error);
+      await cacheSession(owner, session);
+    }
+  };
+
+  useEffect(() => {
+    unsavedIds.current.forEach(id => {
+      if (loadedSessions[id]) persistSession(loadedSessions[id]);
+    });
+    unsavedIds.current.clear();
+  }, [loadedSessions]);
 
   const handleNewChat = () => {
-    const newId = `session-${Date.now()}`;
-    const newSession: ChatSession = {
-      id: newId,
-      title: `New Chat ${sessions.length + 1}`,
-      messages: [{ role: 'assistant', content: "Hi, I'm ready to help with another cabinet selection. What are you looking for?", timestamp: new Date() }],
-      datasheets: [],
-      timestamp: new Date()
-    };
-    setSessions(prev => [newSession, ...prev]);
-    setActiveSessionId(newId);
+    startNewSession(`New Chat ${sessionList.length + 1}`, "Hi, I'm ready to help with another cabinet selection. What are you looking for?");
+  };
+
+  const handleSelectSession = (id: string) => {
+    const summary = sessionList.find(s => s.id === id);
+    if (summary) openSession(summary);
   };
 
-  const handleSelectSession = (id: string) => setActiveSessionId(id);
+  // Search hit: open its session and scroll to the matching message
+  const handleOpenSearchResult = (sessionId: string, messageIndex?: number) => {
+    const summary = sessionList.find(s => s.id === sessionId);
+    if (!summary) return;
+    openSession(summary);
+    setFocusTarget(messageIndex === undefined ? null : { sessionId, index: messageIndex, nonce: Date.now() });
+  };
+
+  // Sessions never saved just carry the change into their first save; saved ones are patched
+  const handleUpdateSessionMeta = async (id: string, patch: Partial<ChatSessionMeta>) => {
+    const summary = sessionList.find(s => s.id === id);
+    setSessionList(prev => prev.map(s => s.id === id ? { ...s, ...patch } : s));
+    setLoadedSessions(prev => prev[id] ? { ...prev, [id]: { ...prev[id], ...patch } } : prev);
+    if (!summary?.updatedAt) {
+      unsavedIds.current.add(id);
+      return;
+    }
+    try {
+      const saved = await updateChatSessionMeta(id, patch);
+      setSessionList(prev => prev.map(s => s.id === id ? saved : s));
+      setLoadedSessions(prev => prev[id] ? { ...prev, [id]: { ...prev[id], updatedAt: saved.updatedAt } } : prev);
+      const cached = owner ? await getCachedSession(owner, id) : undefined;
+      if (owner && cached) await cacheSession(owner, { ...cached, ...patch, updatedAt: saved.updatedAt });
+    } catch (error) {
+      console.error('Failed to update chat session:', error);
+      setSessionList(prev => prev.map(s => s.id === id ? summary : s));
+    }
+  };
 
   const handleDeleteSession = (id: string) => {
-    setSessions(prev => {
-      const filtered = prev.filter(s => s.id !== id);
-      if (filtered.length === 0) {
-        return [{
-          id: 'session-default',
-          title: 'New Selection',
-          messages: [{ role: 'assistant', content: "Hi, how can I help you?", timestamp: new Date() }],
-          datasheets: [],
-          timestamp: new Date()
-        }];
-      }
-      return filtered;
+    const remaining = sessionList.filter(s => s.id !== id);
+    setSessionList(remaining);
+    setLoadedSessions(prev => {
+      const { [id]: _deleted, ...rest } = prev;
+      return rest;
     });
     if (activeSessionId === id) {
-      setActiveSessionId(sessions.find(s => s.id !== id)?.id || 'session-default');
+      if (remaining.length > 0) openSession(remaining[0]);
+      else startNewSession('New Selection', 'Hi, how can I help you?');
     }
+    if (owner) uncacheSession(owner, id);
+    deleteChatSession(id).catch(error => console.error('Failed to delete chat session:', error));
   };
 
-  const updateActiveSession = (newMessages: Message[], newDatasheets?: DatasheetReference[]) => {
-    setSessions(prev => prev.map(s => {
-      if (s.id === activeSessionId) {
-        // Dynamic title based on first user message if title is still default
-        let title = s.title;
-        if ((title.startsWith('New Chat') || title === 'New Selection') && newMessages.length > 1) {
-          const firstUserMsg = newMessages.find(m => m.role === 'user');
-          if (firstUserMsg) {
-            // Extract key product topics for a meaningful summary
-            const content = firstUserMsg.content.toLowerCase();
-            const topics: string[] = [];
-
-            // Check for common product categories
-            if (content.includes('life jacket') || content.includes('immersion')) topics.push('Life Jackets');
-            if (content.includes('fire hose') || content.includes('hose cabinet')) topics.push('Fire Hose');
-            if (content.includes('scba') || content.includes('breathing apparatus') || content.includes('ba cabinet')) topics.push('SCBA');
-            if (content.includes('stretcher') || content.includes('duofold')) topics.push('Stretcher');
-            if (content.includes('arctic') || content.includes('heater') || content.includes('insulation')) topics.push('Arctic');
-            if (content.includes('marine') || content.includes('offshore') || content.includes('vessel')) topics.push('Marine');
-
-            if (topics.length > 0) {
-              title = topics.slice(0, 2).join(' & ') + ' Enquiry';
-            } else {
-              // Fallback: Use first meaningful words
-              title = firstUserMsg.content.slice(0, 35) + (firstUserMsg.content.length > 35 ? '...' : '');
-            }
+  const updateActiveSession = (newMessages: Message[], newDatasheets?: DatasheetReference[], sessionFiles?: SessionFile[]) => {
+    if (!activeSessionId) return;
+    unsavedIds.current.add(activeSessionId);
+    setLoadedSessions(prev => {
+      const s = prev[activeSessionId];
+      if (!s) return prev;
+      // Dynamic title based on first user message if title is still default
+      let title = s.title;
+      if ((title.startsWith('New Chat') || title === 'New Selection') && newMessages.length > 1) {
+        const firstUserMsg = newMessages.find(m => m.role === 'user');
+        if (firstUserMsg) {
+          // Extract key product topics for a meaningful summary
+          const content = firstUserMsg.content.toLowerCase();
+          const topics: string[] = [];
+
+          // Check for common product categories
+          if (content.includes('life jacket') || content.includes('immersion')) topics.push('Life Jackets');
+          if (content.includes('fire hose') || content.includes('hose cabinet')) topics.push('Fire Hose');
+          if (content.includes('scba') || content.includes('breathing apparatus') || content.includes('ba cabinet')) topics.push('SCBA');
+          if (content.includes('stretcher') || content.includes('duofold')) topics.push('Stretcher');
+          if (content.includes('arctic') || content.includes('heater') || content.includes('insulation')) topics.push('Arctic');
+          if (content.includes('marine') || content.includes('offshore') || content.includes('vessel')) topics.push('Marine');
+
+          if (topics.length > 0) {
+            title = topics.slice(0, 2).join(' & ') + ' Enquiry';
+          } else {
+            // Fallback: Use first meaningful words
+            title = firstUserMsg.content.slice(0, 35) + (firstUserMsg.content.length > 35 ? '...' : '');
           }
         }
-        // Merge datasheets instead of replacing, deduplicating by filename
-        let datasheets = s.datasheets;
-        if (newDatasheets) {
-          const merged = [...s.datasheets];
-          newDatasheets.forEach(ds => {
-            const isDuplicate = merged.find(m =>
-              m.filename.toLowerCase().trim() === ds.filename.toLowerCase().trim()
-            );
-            if (!isDuplicate) {
-              merged.push(ds);
-            }
-          });
-          datasheets = merged;
-        }
+      }
+      // The chat sends the full list for the branch being shown (switching branches can drop datasheets)
+      const datasheets = newDatasheets || s.datasheets;
 
-        return {
+      return {
+        ...prev,
+        [s.id]: {
           ...s,
           messages: newMessages,
           datasheets: datasheets,
+          sessionFiles: sessionFiles || s.sessionFiles,
           title
-        };
-      }
-      return s;
-    }));
+        }
+      };
+    });
   };
 
-  const handleLogin = async (password: string): Promise<boolean> => {
+  const handleLogin = async (username: string, password: string): Promise<boolean> => {
     try {
-      const response = await fetch('/api/verify-password', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ password })
-      });
-
-      if (!response.ok) {
-        return false;
-      }
-
-      const data = await response.json();
-      if (data.valid) {
-        setIsAuthenticated(true);
-        localStorage.setItem('jb_authenticated', 'true');
-        return true;
-      }
-      return false;
+      const session = await login(username, password);
+      setCurrentUser(session.user);
+      return true;
     } catch (error) {
-      console.error('Login verification failed:', error);
+      console.error('Sign-in failed:', error);
       return false;
     }
   };
 
-  const handleLogout = () => {
-    setIsAuthenticated(false);
-    localStorage.removeItem('jb_authenticated');
+  const handleLogout = async () => {
+    await logout().catch(error => console.error('Sign-out request failed:', error));
+    if (owner) await clearCachedSessions(owner);
+    setSessionList([]);
+    setLoadedSessions({});
+    setActiveSessionId(null);
+    setCurrentUser(null);
   };
 
-  const addAuditEntry = (action: string, detail: string) => {
-    const newEntry: AuditEntry = {
-      id: `LOG-${Math.floor(Math.random() * 9000) + 1000}`,
-      user: 'admin_current',
-      action,
-      timestamp: new Date().toISOString().replace('T', ' ').substring(0, 16),
-      changeDetail: detail
-    };
-    setAuditLog(prev => [newEntry, ...prev]);
+  // Proposals and reviews can link or close change requests (and resolve their feedback), so refetch those too
+  const handleProposeSop = async (proposal: SopProposal) => {
+    await proposeSop(proposal);
+    await Promise.all([refreshSops(), refreshChangeRequests()]);
+    refreshAuditLog();
   };
 
-  const handleProposeSop = (newSop: SOP) => {
-    setDraftSops(prev => [...prev, newSop]);
-    addAuditEntry('Propose SOP', `New draft created: ${newSop.id}`);
+  const handleReviewSop = async (id: string, review: SopReviewInput) => {
+    await reviewSop(id, review);
+    await Promise.all([refreshSops(), refreshChangeRequests(), refreshFeedback()]);
+    refreshAuditLog();
   };
 
-  const handleApproveSop = (draftId: string) => {
-    const draft = draftSops.find(d => d.id === draftId);
-    if (!draft) return;
-    const newActive: SOP = {
-      ...draft,
-      status: 'Active',
-      version: draft.version.replace('-draft', ''),
-      lastUpdated: new Date().toISOString().split('T')[0]
-    };
-    if (draft.replacesId) {
-      setActiveSops(prev => prev.map(s => s.id === draft.replacesId ? { ...s, status: 'Deprecated' } : s));
-    }
-    setActiveSops(prev => [...prev.filter(s => s.id !== draft.id), newActive]);
-    setDraftSops(prev => prev.filter(d => d.id !== draftId));
-    addAuditEntry('Approve SOP', `SOP ${draft.id} published to Active`);
+  const handleDeprecateSop = async (id: string, reason: string) => {
+    await deprecateSop(id, reason);
+    await refreshSops();
+    refreshAuditLog();
   };
 
-  const handleDeprecateSop = (id: string, reason: string) => {
-    setActiveSops(prev => prev.map(s => s.id === id ? { ...s, status: 'Deprecated', changeReason: reason } : s));
-    addAuditEntry('Deprecate SOP', `SOP ${id} marked as Deprecated`);
+  const handleSubmitFeedback = async (feedback: FeedbackSubmission) => {
+    await submitFeedback(feedback);
+    await refreshFeedback();
+    refreshAuditLog();
   };
 
-  const handleSubmitFeedback = (feedback: SalesFeedback) => {
-    setSalesFeedback(prev => [feedback, ...prev]);
-    addAuditEntry('Submit Feedback', `Feedback received from ${feedback.userId}`);
+  const handleUpdateFeedback = async (id: string, patch: { status?: FeedbackStatus; assignee?: string }) => {
+    await updateFeedback(id, patch);
+    await refreshFeedback();
+    refreshAuditLog();
+  };
+
+  const handleCommentFeedback = async (id: string, text: string) => {
+    await addFeedbackComment(id, text);
+    await refreshFeedback();
+    refreshAuditLog();
+  };
+
+  const handlePromoteFeedback = async (id: string, suggestion: string) => {
+    await promoteFeedback(id, suggestion || undefined);
+    await Promise.all([refreshFeedback(), refreshChangeRequests()]);
+    refreshAuditLog();
+  };
+
+  const handleLinkSop = async (changeRequestId: string, sopId: string) => {
+    await linkSopDraft(changeRequestId, sopId);
+    await refreshChangeRequests();
+    refreshAuditLog();
   };
 
   if (!isAuthenticated) {
@@ -215,7 +398,10 @@ const App: React.FC = () => {
   return (
     <div className="min-h-screen flex flex-col font-sans bg-white">
       <Header />
-      <div className="absolute top-4 right-4 z-50">
+      <div className="absolute top-4 right-4 z-50 flex items-center gap-4">
+        <span className="text-jobird-navy/60 font-black uppercase text-[9px] tracking-widest">
+          {currentUser.name} · {currentUser.role}
+        </span>
         <button
           onClick={handleLogout}
           className="text-jobird-navy/60 hover:text-jobird-red font-black uppercase text-[9px] tracking-widest transition-colors"
@@ -224,42 +410,78 @@ const App: React.FC = () => {
         </button>
       </div>
 
-      {currentView === 'assistant' ? (
+      {shareToken ? (
+        <SharedSessionView
+          key={shareToken}
+          token={shareToken}
+          catalog={catalog}
+          activeSops={resolveActiveSops(sops)}
+          onClose={handleCloseShared}
+        />
+      ) : currentView === 'assistant' ? (
         <main className="flex-1 flex overflow-hidden">
           <Sidebar
-            sessions={sessions}
+            sessions={sessionList}
+            isLoading={isLoadingSessions}
             activeSessionId={activeSessionId}
             onSelectSession={handleSelectSession}
             onNewChat={handleNewChat}
             onDeleteSession={handleDeleteSession}
+            onOpenSearchResult={handleOpenSearchResult}
+            onUpdateSession={handleUpdateSessionMeta}
           />
           <div className="flex-1 p-4 lg:p-6 overflow-y-auto bg-slate-50/30">
-            <ChatInterface
-              key={activeSessionId}
-              catalog={catalog}
-              activeSops={activeSops.filter(s => s.status === 'Active')}
-              onSubmitFeedback={handleSubmitFeedback}
-              selectedModel={selectedModel}
-              onOpenAdmin={() => setCurrentView('admin')}
-              initialMessages={activeSession.messages}
-              initialDatasheets={activeSession.datasheets}
-              onSessionUpdate={updateActiveSession}
-            />
+            {activeSession ? (
+              <ChatInterface
+                key={activeSession.id}
+                catalog={catalog}
+                activeSops={resolveActiveSops(sops)}
+                onSubmitFeedback={handleSubmitFeedback}
+                selectedModel={selectedModel}
+                onOpenAdmin={() => setCurrentView('admin')}
+                onShare={() => setShowShareModal(true)}
+                title={activeSession.title}
+                initialMessages={activeSession.messages}
+                initialDatasheets={activeSession.datasheets}
+                initialFiles={activeSession.sessionFiles}
+                focusMessage={focusTarget?.sessionId === activeSession.id ? focusTarget : undefined}
+                onSessionUpdate={updateActiveSession}
+              />
+            ) : (
+              <div className="h-full flex items-center justify-center text-slate-300">
+                <i className="fas fa-circle-notch fa-spin text-3xl"></i>
+              </div>
+            )}
           </div>
         </main>
       ) : (
         <AdminPanel
           onBack={() => setCurrentView('assistant')}
-          activeSops={activeSops}
-          draftSops={draftSops}
-          auditLog={auditLog}
+          activeSops={sops.filter(s => s.status === 'Active')}
+          pendingSops={sops.filter(s => s.status === 'Draft' || s.status === 'Approved' || s.status === 'Rejected')}
+          sopWorkflow={sopWorkflow}
+          currentUser={currentUser}
+          auditRevision={auditRevision}
+          onAuditChanged={refreshAuditLog}
           salesFeedback={salesFeedback}
-          changeRequests={CHANGE_REQUESTS}
+          changeRequests={changeRequests}
           onPropose={handleProposeSop}
-          onApprove={handleApproveSop}
+          onReview={handleReviewSop}
+          onUpdateFeedback={handleUpdateFeedback}
+          onCommentFeedback={handleCommentFeedback}
+          onPromoteFeedback={handlePromoteFeedback}
+          onLinkSop={handleLinkSop}
           onDeprecate={handleDeprecateSop}
         />
       )}
+
+      {showShareModal && activeSession && (
+        <ShareSessionModal
+          sessionId={activeSession.id}
+          title={activeSession.title}
+          onClose={() => setShowShareModal(false)}
+        />
+      )}
     </div>
   );
 };
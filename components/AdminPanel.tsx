@@ -1,25 +1,47 @@
 
 import React, { useState } from 'react';
-import { SOP, ChangeRequest, AuditEntry, SalesFeedback } from '../types';
+import { SOP, SalesFeedback, FeedbackStatus, SopWorkflowRule, ChangeRequest, User, Permission } from '../types';
+import { SopProposal, SopReviewInput } from '../lib/sopApi';
+import { reviewProgress } from '../shared/sopWorkflow.js';
+import { can } from '../shared/permissions.js';
+import SopHistoryModal from './SopHistoryModal';
+import SopReviewModal from './SopReviewModal';
+import AuditLogSection from './AuditLogSection';
+import FeedbackBoard from './FeedbackBoard';
+import ChangeRequestSection from './ChangeRequestSection';
+import UsersSection from './UsersSection';
+import ApiKeysSection from './ApiKeysSection';
 
 interface AdminPanelProps {
   onBack: () => void;
+  currentUser: User;
   activeSops: SOP[];
-  draftSops: SOP[];
-  auditLog: AuditEntry[];
+  pendingSops: SOP[]; // Draft, Approved (scheduled) and Rejected
+  sopWorkflow: SopWorkflowRule[];
+  auditRevision: number;
+  onAuditChanged: () => void;
   salesFeedback: SalesFeedback[];
   changeRequests: ChangeRequest[];
-  onPropose: (sop: SOP) => void;
-  onApprove: (id: string) => void;
-  onDeprecate: (id: string, reason: string) => void;
+  onPropose: (proposal: SopProposal) => Promise<void>;
+  onReview: (id: string, review: SopReviewInput) => Promise<void>;
+  onDeprecate: (id: string, reason: string) => Promise<void>;
+  onUpdateFeedback: (id: string, patch: { status?: FeedbackStatus; assignee?: string }) => Promise<void>;
+  onCommentFeedback: (id: string, text: string) => Promise<void>;
+  onPromoteFeedback: (id: string, suggestion: string) => Promise<void>;
+  onLinkSop: (changeRequestId: string, sopId: string) => Promise<void>;
 }
 
 const AdminPanel: React.FC<AdminPanelProps> = ({
-  onBack, activeSops, draftSops, auditLog, salesFeedback, changeRequests,
-  onPropose, onApprove, onDeprecate
+  onBack, currentUser, activeSops, pendingSops, sopWorkflow, auditRevision, onAuditChanged, salesFeedback, changeRequests,
+  onPropose, onReview, onDeprecate, onUpdateFeedback, onCommentFeedback, onPromoteFeedback, onLinkSop
 }) => {
   const [showForm, setShowForm] = useState(false);
-  const [editingSop, setEditingSop] = useState<Partial<SOP> | null>(null);
+  const [editingSop, setEditingSop] = useState<(Partial<SOP> & { changeRequestId?: string }) | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [historySopId, setHistorySopId] = useState<string | null>(null);
+  const [reviewingSop, setReviewingSop] = useState<SOP | null>(null);
 
   const handleStartPropose = (existing?: SOP) => {
     setEditingSop(existing ? {
@@ -28,35 +50,67 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
       version: `${existing.version}-draft`,
       status: 'Draft',
       replacesId: existing.id,
-      proposedBy: 'admin_user',
       lastUpdated: new Date().toISOString().split('T')[0]
     } : {
       id: 'SOP-JB-',
       version: '1.0.0-draft',
       status: 'Draft',
-      proposedBy: 'admin_user',
       lastUpdated: new Date().toISOString().split('T')[0]
     });
+    setFormError(null);
     setShowForm(true);
   };
 
-  const formatDate = (ts: string) => {
+  // New draft answering a change request; the server links it on creation
+  const handleStartDraftForRequest = (cr: ChangeRequest) => {
+    setEditingSop({
+      id: 'SOP-JB-',
+      version: '1.0.0-draft',
+      status: 'Draft',
+      changeReason: `${cr.id}: ${cr.suggestion}`,
+      changeRequestId: cr.id,
+      lastUpdated: new Date().toISOString().split('T')[0]
+    });
+    setFormError(null);
+    setShowForm(true);
+  };
+
+  const allowed = (permission: Permission) => can(currentUser.role, permission);
+
+  const updateEditing = (patch: Partial<SOP>) => setEditingSop(prev => ({ ...prev, ...patch }));
+
+  const handleSubmitProposal = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingSop) return;
+    setFormError(null);
     try {
-      // Assuming ts is "YYYY-MM-DD HH:mm"
-      const [datePart, timePart] = ts.split(' ');
-      const [y, m, d] = datePart.split('-');
-      const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-      return `${parseInt(d)} ${months[parseInt(m) - 1]} ${y} · ${timePart}`;
-    } catch (e) {
-      return ts;
+      await onPropose(editingSop as SopProposal);
+      setShowForm(false);
+      setEditingSop(null);
+    } catch (error: any) {
+      setFormError(error.message || 'Failed to submit proposal');
     }
   };
 
-  const getPriorityEmoji = (urgency: string) => {
-    switch (urgency) {
-      case 'High': return '🟥';
-      case 'Medium': return '🟨';
-      default: return '🟦';
+  // Which change request each SOP draft was written for
+  const requestBySop = new Map(changeRequests.flatMap(cr => cr.sopIds.map(sopId => [sopId, cr.id] as const)));
+
+  const pendingBadge: Record<string, string> = {
+    Draft: 'bg-amber-100 text-amber-800',
+    Approved: 'bg-blue-100 text-blue-800',
+    Rejected: 'bg-red-100 text-red-800'
+  };
+
+  // Retire goes straight to the server; failures are shown above the SOP table
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setActionError(null);
+    setPendingId(id);
+    try {
+      await action();
+    } catch (error: any) {
+      setActionError(`${id}: ${error.message || 'Request failed'}`);
+    } finally {
+      setPendingId(null);
     }
   };
 
@@ -77,13 +131,24 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
 
       <div className="grid grid-cols-1 xl:grid-cols-12 gap-8">
         {/* Active SOPs */}
-        <section className="bg-white xl:col-span-7 shadow-sm border border-slate-200 overflow-hidden rounded-sm">
+        <section className="bg-white xl:col-span-12 shadow-sm border border-slate-200 overflow-hidden rounded-sm">
           <div className="p-6 border-b border-slate-100 flex items-center justify-between">
             <div className="flex items-center gap-3">
               <i className="fas fa-file-shield text-jobird-red text-xl"></i>
               <h3 className="font-black text-slate-700 text-[13px] uppercase tracking-widest">Standard Operating Procedures</h3>
             </div>
+            {allowed('sop.propose') && (
+              <button onClick={() => handleStartPropose()} className="text-jobird-red font-black hover:text-red-700 uppercase text-[10px] tracking-widest transition-colors flex items-center gap-2">
+                <i className="fas fa-plus"></i> Propose SOP
+              </button>
+            )}
           </div>
+          {actionError && (
+            <div className="px-8 py-3 bg-red-50 border-b border-red-100 text-[12px] font-bold text-jobird-red flex items-center gap-2">
+              <i className="fas fa-triangle-exclamation"></i>
+              {actionError}
+            </div>
+          )}
           <div className="p-0 overflow-x-auto custom-scrollbar">
             <table className="w-full text-left text-xs">
               <thead className="bg-slate-50 text-slate-500 font-black uppercase tracking-widest border-b border-slate-100">
@@ -97,14 +162,64 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
               <tbody className="divide-y divide-slate-50">
                 {activeSops.filter(s => s.status === 'Active').map(sop => (
                   <tr key={sop.id} className="hover:bg-slate-50/50 transition-colors group">
-                    <td className="px-8 py-6 font-black text-slate-700">{sop.id}</td>
+                    <td className="px-8 py-6 font-black text-slate-700">
+                      {sop.id}
+                      {sop.rules && sop.rules.length > 0 && (
+                        <span className="ml-3 text-[9px] font-black bg-slate-100 text-slate-500 px-2 py-0.5 rounded-sm uppercase tracking-widest" title={sop.rules.map(r => r.kind).join(', ')}>
+                          {sop.rules.length} rule{sop.rules.length !== 1 ? 's' : ''}
+                        </span>
+                      )}
+                    </td>
                     <td className="px-8 py-6 font-mono text-slate-500 font-bold">{sop.version}</td>
                     <td className="px-8 py-6">
                       <span className="bg-green-100 text-green-800 px-3 py-1 rounded-sm font-black text-[10px] uppercase tracking-widest">Active</span>
                     </td>
                     <td className="px-8 py-6 text-right flex justify-end gap-6">
-                      <button onClick={() => handleStartPropose(sop)} className="text-jobird-red font-black hover:text-red-700 uppercase text-[10px] tracking-widest transition-colors">Update</button>
-                      <button onClick={() => onDeprecate(sop.id, 'Administrative Decision')} className="text-slate-400 font-black hover:text-jobird-red transition-colors uppercase text-[10px] tracking-widest">Retire</button>
+                      <button onClick={() => setHistorySopId(sop.id)} className="text-slate-400 font-black hover:text-jobird-navy uppercase text-[10px] tracking-widest transition-colors">History</button>
+                      {allowed('sop.propose') && (
+                        <button onClick={() => handleStartPropose(sop)} className="text-jobird-red font-black hover:text-red-700 uppercase text-[10px] tracking-widest transition-colors">Update</button>
+                      )}
+                      {allowed('sop.deprecate') && (
+                        <button disabled={pendingId === sop.id} onClick={() => runAction(sop.id, () => onDeprecate(sop.id, 'Administrative Decision'))} className="text-slate-400 font-black hover:text-jobird-red transition-colors uppercase text-[10px] tracking-widest disabled:opacity-40">Retire</button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {pendingSops.map(sop => (
+                  <tr key={sop.id} className={`${sop.status === 'Rejected' ? 'opacity-60' : 'bg-amber-50/30 hover:bg-amber-50/60'} transition-colors`}>
+                    <td className="px-8 py-6 font-black text-slate-700">
+                      {sop.id}
+                      <span className="block text-[10px] text-slate-400 font-bold mt-1">
+                        {sop.title}{sop.replacesId && ` · replaces ${sop.replacesId}`}{sop.proposedBy && ` · by ${sop.proposedBy}`}
+                        {requestBySop.has(sop.id) && <span className="text-blue-700"> · <i className="fas fa-code-branch"></i> {requestBySop.get(sop.id)}</span>}
+                      </span>
+                      {sop.status === 'Draft' && (
+                        <span className="flex gap-2 mt-2">
+                          {reviewProgress(sop, sopWorkflow).map(p => (
+                            <span key={p.role} className={`text-[9px] font-black px-2 py-0.5 rounded-sm uppercase tracking-widest ${p.approvals.length >= p.count ? 'bg-green-100 text-green-800' : 'bg-slate-100 text-slate-500'}`}>
+                              {p.role} {p.approvals.length}/{p.count}
+                            </span>
+                          ))}
+                        </span>
+                      )}
+                      {sop.status === 'Rejected' && sop.rejectionReason && (
+                        <span className="block text-[11px] italic text-jobird-red font-bold mt-1">Rejected: "{sop.rejectionReason}"</span>
+                      )}
+                    </td>
+                    <td className="px-8 py-6 font-mono text-slate-500 font-bold">{sop.version}</td>
+                    <td className="px-8 py-6">
+                      <span className={`${pendingBadge[sop.status]} px-3 py-1 rounded-sm font-black text-[10px] uppercase tracking-widest`}>
+                        {sop.status === 'Approved' ? 'Scheduled' : sop.status}
+                      </span>
+                      {sop.status === 'Approved' && sop.effectiveDate && (
+                        <span className="block text-[10px] text-slate-400 font-bold mt-2">Effective {sop.effectiveDate}</span>
+                      )}
+                    </td>
+                    <td className="px-8 py-6 text-right flex justify-end gap-6">
+                      <button onClick={() => setHistorySopId(sop.id)} className="text-slate-400 font-black hover:text-jobird-navy uppercase text-[10px] tracking-widest transition-colors">History</button>
+                      {sop.status === 'Draft' && allowed('sop.review') && (
+                        <button onClick={() => setReviewingSop(sop)} className="text-green-700 font-black hover:text-green-900 uppercase text-[10px] tracking-widest transition-colors">Review</button>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -114,84 +229,108 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
         </section>
 
         {/* Sales Feedback */}
-        <section className="bg-white xl:col-span-5 shadow-sm border border-slate-200 overflow-hidden flex flex-col rounded-sm">
-          <div className="p-6 bg-jobird-red border-b border-jobird-red flex items-center gap-3">
-            <i className="fas fa-tower-observation text-white text-xl"></i>
-            <h3 className="font-black text-white text-[13px] uppercase tracking-widest">Feedback & Change Requests</h3>
-          </div>
-          <div className="divide-y divide-slate-100 max-h-[500px] overflow-y-auto custom-scrollbar bg-white">
-            {salesFeedback.length === 0 && changeRequests.length === 0 && (
-              <div className="flex flex-col items-center justify-center py-24 text-slate-300">
-                <i className="fas fa-clipboard-check text-5xl mb-4"></i>
-                <p className="text-xs font-black uppercase tracking-widest text-slate-400">No pending reports</p>
-              </div>
-            )}
-            {salesFeedback.map(fb => (
-              <div key={fb.id} className="p-8 hover:bg-slate-50 transition-colors border-b border-slate-100 last:border-b-0">
-                <div className="mb-6">
-                  <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-6">Feedback Request</h4>
-
-                  <div className="space-y-5">
-                    <div>
-                      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Reported Issue:</p>
-                      <p className="text-sm font-bold text-slate-800">{fb.issue}</p>
-                    </div>
-
-                    <div>
-                      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Affected Item:</p>
-                      <p className="text-sm font-bold text-slate-800">{fb.task}</p>
-                    </div>
-
-                    <div>
-                      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Reported by:</p>
-                      <p className="text-sm font-bold text-slate-800">{fb.userId.replace('_', ' ')}</p>
-                      <p className="text-[11px] text-slate-500 font-medium mt-0.5">{formatDate(fb.timestamp)}</p>
-                    </div>
-
-                    <div>
-                      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Priority:</p>
-                      <p className="text-sm font-bold text-slate-800 flex items-center gap-2">
-                        <span>{getPriorityEmoji(fb.urgency)}</span>
-                        {fb.urgency} Priority
-                      </p>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            ))}
-          </div>
-        </section>
+        <FeedbackBoard
+          feedback={salesFeedback}
+          canTriage={allowed('feedback.triage')}
+          canPromote={allowed('changeRequest.manage')}
+          onUpdate={onUpdateFeedback}
+          onComment={onCommentFeedback}
+          onPromote={onPromoteFeedback}
+        />
+
+        {/* Change Requests */}
+        <ChangeRequestSection
+          changeRequests={changeRequests}
+          feedback={salesFeedback}
+          sops={[...activeSops, ...pendingSops]}
+          canManage={allowed('changeRequest.manage')}
+          onDraftSop={handleStartDraftForRequest}
+          onLinkSop={onLinkSop}
+        />
+
+        {/* User Accounts */}
+        {allowed('users.manage') && <UsersSection currentUser={currentUser} onChanged={onAuditChanged} />}
+
+        {/* API Keys */}
+        {allowed('apiKeys.manage') && <ApiKeysSection onChanged={onAuditChanged} />}
 
         {/* Audit Log */}
-        <section className="bg-white shadow-sm border border-slate-200 overflow-hidden xl:col-span-12 rounded-sm">
-          <div className="p-6 bg-slate-700 border-b border-slate-600 flex items-center gap-3">
-            <i className="fas fa-fingerprint text-white/50 text-xl"></i>
-            <h3 className="font-black text-white text-[13px] uppercase tracking-widest">Document Change Log</h3>
-          </div>
-          <div className="max-h-[350px] overflow-y-auto custom-scrollbar">
-            {auditLog.map((log, idx) => (
-              <div key={log.id} className={`p-6 flex items-center justify-between gap-10 ${idx % 2 === 0 ? 'bg-white' : 'bg-slate-50/50'} border-b border-slate-100`}>
-                <div className="flex items-center gap-12 flex-1 min-w-0">
-                  <div className="w-32 flex-shrink-0">
-                    <p className="font-black text-slate-700 text-[11px] uppercase tracking-widest truncate">{log.user}</p>
-                    <p className="text-[10px] text-slate-400 font-bold tracking-tighter uppercase mt-1">{log.timestamp}</p>
+        {allowed('audit.view') && <AuditLogSection revision={auditRevision} />}
+      </div>
+      {historySopId && <SopHistoryModal sopId={historySopId} onClose={() => setHistorySopId(null)} />}
+
+      {reviewingSop && (
+        <SopReviewModal
+          sop={reviewingSop}
+          workflow={sopWorkflow}
+          reviewer={currentUser}
+          onSubmit={review => onReview(reviewingSop.id, review)}
+          onClose={() => setReviewingSop(null)}
+        />
+      )}
+
+      {showForm && editingSop && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white w-full max-w-lg shadow-2xl animate-in fade-in zoom-in-95 duration-300 border-t-4 border-jobird-red">
+            <form onSubmit={handleSubmitProposal}>
+              <div className="p-4 bg-jobird-lightGrey border-b border-slate-200 flex justify-between items-center">
+                <h3 className="font-black text-slate-900 uppercase tracking-widest text-[10px]">
+                  {editingSop.replacesId ? `Propose revision of ${editingSop.replacesId}` : 'Propose new SOP'}
+                  {editingSop.changeRequestId && ` for ${editingSop.changeRequestId}`}
+                </h3>
+                <button type="button" onClick={() => setShowForm(false)} className="text-slate-400 hover:text-jobird-red"><i className="fas fa-times"></i></button>
+              </div>
+              <div className="p-6 space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">SOP ID</label>
+                    <input required value={editingSop.id || ''} onChange={e => updateEditing({ id: e.target.value })} className="w-full p-2.5 bg-jobird-lightGrey border border-slate-200 font-bold text-xs outline-none focus:border-jobird-red" />
                   </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-4 mb-2">
-                      <span className="text-[10px] font-black bg-slate-200 text-slate-700 px-2.5 py-1 rounded uppercase tracking-widest whitespace-nowrap">{log.action}</span>
-                      <span className="text-[10px] font-black text-slate-300 uppercase tracking-[0.2em]">{log.id}</span>
-                    </div>
-                    <p className="text-[13px] text-slate-700 font-bold truncate italic">"{log.changeDetail}"</p>
+                  <div>
+                    <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Version</label>
+                    <input required value={editingSop.version || ''} onChange={e => updateEditing({ version: e.target.value })} className="w-full p-2.5 bg-jobird-lightGrey border border-slate-200 font-mono font-bold text-xs outline-none focus:border-jobird-red" />
                   </div>
                 </div>
-                <div className="hidden md:block">
-                  <i className="fas fa-check-circle text-green-500/40 text-2xl"></i>
+                <div>
+                  <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Title</label>
+                  <input required value={editingSop.title || ''} onChange={e => updateEditing({ title: e.target.value })} className="w-full p-2.5 bg-jobird-lightGrey border border-slate-200 font-bold text-xs outline-none focus:border-jobird-red" />
+                </div>
+                <div>
+                  <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Category</label>
+                  <input required value={editingSop.category || ''} onChange={e => updateEditing({ category: e.target.value })} placeholder="e.g. Engineering" className="w-full p-2.5 bg-jobird-lightGrey border border-slate-200 font-bold text-xs outline-none focus:border-jobird-red" />
+                </div>
+                <div>
+                  <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Procedure</label>
+                  <textarea required value={editingSop.description || ''} onChange={e => updateEditing({ description: e.target.value })} rows={3} className="w-full p-2.5 bg-jobird-lightGrey border border-slate-200 text-xs font-medium outline-none focus:border-jobird-red" />
                 </div>
+                <div>
+                  <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Reason for change</label>
+                  <input value={editingSop.changeReason || ''} onChange={e => updateEditing({ changeReason: e.target.value })} className="w-full p-2.5 bg-jobird-lightGrey border border-slate-200 font-bold text-xs outline-none focus:border-jobird-red" />
+                </div>
+                <div>
+                  <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Requested effective date</label>
+                  <input type="date" value={editingSop.effectiveDate || ''} onChange={e => updateEditing({ effectiveDate: e.target.value || undefined })} className="w-full p-2.5 bg-jobird-lightGrey border border-slate-200 font-bold text-xs outline-none focus:border-jobird-red" />
+                </div>
+                {editingSop.rules && editingSop.rules.length > 0 && (
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    Carries {editingSop.rules.length} structured rule{editingSop.rules.length !== 1 ? 's' : ''} from {editingSop.replacesId}
+                  </p>
+                )}
+                {formError && (
+                  <p className="text-[12px] font-bold text-jobird-red flex items-center gap-2">
+                    <i className="fas fa-triangle-exclamation"></i>
+                    {formError}
+                  </p>
+                )}
+              </div>
+              <div className="p-4 bg-jobird-lightGrey border-t border-slate-200 flex justify-end gap-4">
+                <button type="button" onClick={() => setShowForm(false)} className="px-3 py-2 font-black text-slate-400 uppercase text-[9px] tracking-widest">Cancel</button>
+                <button type="submit" className="px-6 py-2.5 bg-jobird-red text-white font-black uppercase text-[9px] tracking-widest shadow-xl">Submit draft</button>
               </div>
-            ))}
+            </form>
           </div>
-        </section>
-      </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { ApiKey } from '../types';
+import { fetchApiKeys, createApiKey, revokeApiKey } from '../lib/apiKeyApi';
+
+interface ApiKeysSectionProps {
+  onChanged: () => void; // Key changes are audited, so the parent refreshes the log
+}
+
+// Keys for the quoting system and partner portals calling /api/v1
+const ApiKeysSection: React.FC<ApiKeysSectionProps> = ({ onChanged }) => {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [name, setName] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [newKey, setNewKey] = useState<{ name: string; key: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const load = () => fetchApiKeys()
+    .then(setApiKeys)
+    .catch(err => setError(err.message || 'Failed to load API keys'));
+
+  useEffect(() => { load(); }, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await action();
+      await load();
+      onChanged();
+    } catch (err: any) {
+      setError(err.message || 'Request failed');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const created = await createApiKey(name);
+      setNewKey({ name: created.name, key: created.key });
+      setName('');
+      setShowForm(false);
+    });
+  };
+
+  const handleRevoke = (apiKey: ApiKey) => {
+    if (window.confirm(`Revoke the API key for "${apiKey.name}"? Anything using it will stop working immediately.`)) {
+      run(() => revokeApiKey(apiKey.id));
+    }
+  };
+
+  return (
+    <section className="bg-white xl:col-span-12 shadow-sm border border-slate-200 overflow-hidden rounded-sm">
+      <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <i className="fas fa-key text-jobird-red text-xl"></i>
+          <h3 className="font-black text-slate-700 text-[13px] uppercase tracking-widest">API Keys</h3>
+        </div>
+        <button onClick={() => setShowForm(v => !v)} className="text-jobird-red font-black hover:text-red-700 uppercase text-[10px] tracking-widest transition-colors flex items-center gap-2">
+          <i className={`fas ${showForm ? 'fa-times' : 'fa-plus'}`}></i> {showForm ? 'Cancel' : 'New key'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="px-8 py-3 bg-red-50 border-b border-red-100 text-[12px] font-bold text-jobird-red flex items-center gap-2">
+          <i className="fas fa-triangle-exclamation"></i>
+          {error}
+        </div>
+      )}
+
+      {newKey && (
+        <div className="px-8 py-4 bg-amber-50 border-b border-amber-100">
+          <p className="text-[11px] font-bold text-slate-700 mb-2">
+            Key for "{newKey.name}". Copy it now: it is not stored and won't be shown again.
+          </p>
+          <div className="flex items-center gap-3">
+            <input readOnly value={newKey.key} onFocus={e => e.target.select()} className="flex-1 p-2 bg-white border border-slate-200 font-mono text-[12px] text-slate-700 outline-none" />
+            <button onClick={() => setNewKey(null)} className="font-black text-slate-400 hover:text-jobird-red uppercase text-[9px] tracking-widest">Done</button>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="px-8 py-5 bg-slate-50 border-b border-slate-100 flex gap-4 items-end">
+          <div className="flex-1">
+            <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Used by</label>
+            <input required value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Quoting system" className="w-full p-2.5 bg-jobird-lightGrey border border-slate-200 font-bold text-xs outline-none focus:border-jobird-red" />
+          </div>
+          <button type="submit" disabled={isSaving} className="px-6 py-2.5 bg-jobird-red text-white font-black uppercase text-[9px] tracking-widest shadow-xl disabled:opacity-50">Create</button>
+        </form>
+      )}
+
+      {apiKeys.length === 0 ? (
+        <p className="px-8 py-6 text-[12px] text-slate-400 italic">No API keys yet.</p>
+      ) : (
+        <table className="w-full text-left text-xs">
+          <thead className="bg-slate-50 text-slate-500 font-black uppercase tracking-widest border-b border-slate-100">
+            <tr>
+              <th className="px-8 py-4">Used by</th>
+              <th className="px-8 py-4">Key</th>
+              <th className="px-8 py-4">Last used</th>
+              <th className="px-8 py-4 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {apiKeys.map(apiKey => (
+              <tr key={apiKey.id} className={apiKey.revokedAt ? 'opacity-50' : ''}>
+                <td className="px-8 py-4">
+                  <span className="font-black text-slate-700">{apiKey.name}</span>
+                  <span className="block text-[10px] text-slate-400 font-bold mt-0.5">Created by {apiKey.createdBy} · {new Date(apiKey.createdAt).toLocaleDateString()}</span>
+                </td>
+                <td className="px-8 py-4 font-mono text-slate-500">{apiKey.prefix}…</td>
+                <td className="px-8 py-4 text-slate-500 font-bold">{apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : 'Never'}</td>
+                <td className="px-8 py-4 text-right">
+                  {apiKey.revokedAt ? (
+                    <span className="px-3 py-1 rounded-sm font-black text-[10px] uppercase tracking-widest bg-slate-200 text-slate-500">Revoked</span>
+                  ) : (
+                    <button disabled={isSaving} onClick={() => handleRevoke(apiKey)} className="text-slate-400 font-black hover:text-jobird-red uppercase text-[10px] tracking-widest transition-colors disabled:opacity-40">Revoke</button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+};
+
+export default ApiKeysSection;
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { AuditPage, AuditQuery, AuditVerification } from '../types';
+import { fetchAuditLog, verifyAuditLog, exportAuditLog } from '../lib/auditApi';
+
+interface AuditLogSectionProps {
+  revision: number; // Bumped by the parent after any action that writes to the log
+}
+
+const PAGE_SIZE = 25;
+
+const AuditLogSection: React.FC<AuditLogSectionProps> = ({ revision }) => {
+  const [filters, setFilters] = useState<AuditQuery>({});
+  const [searchText, setSearchText] = useState('');
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<AuditPage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [auditCheck, setAuditCheck] = useState<AuditVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  // Debounce free-text search so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(prev => ({ ...prev, q: searchText || undefined }));
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  useEffect(() => {
+    fetchAuditLog({ ...filters, page, pageSize: PAGE_SIZE })
+      .then(data => { setResult(data); setError(null); })
+      .catch(err => setError(err.message || 'Failed to load audit log'));
+  }, [filters, page, revision]);
+
+  const updateFilter = (patch: Partial<AuditQuery>) => {
+    setFilters(prev => ({ ...prev, ...patch }));
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setFilters({});
+    setSearchText('');
+    setPage(1);
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    try {
+      setAuditCheck(await verifyAuditLog());
+    } catch (err: any) {
+      setAuditCheck({ valid: false, checked: 0, total: result?.total || 0, firstInvalid: { seq: 0, id: null, reason: err.message || 'Verification request failed' } });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    exportAuditLog(filters, format).catch(err => setError(err.message || 'Export failed'));
+  };
+
+  const hasFilters = Object.values(filters).some(Boolean);
+  const inputClass = 'p-2 bg-jobird-lightGrey border border-slate-200 font-bold text-[11px] outline-none focus:border-jobird-red';
+
+  return (
+    <section className="bg-white shadow-sm border border-slate-200 overflow-hidden xl:col-span-12 rounded-sm">
+      <div className="p-6 bg-slate-700 border-b border-slate-600 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <i className="fas fa-fingerprint text-white/50 text-xl"></i>
+          <h3 className="font-black text-white text-[13px] uppercase tracking-widest">Document Change Log</h3>
+        </div>
+        <div className="flex items-center gap-6">
+          <button onClick={() => handleExport('csv')} className="text-white/70 hover:text-white font-black uppercase text-[10px] tracking-widest transition-colors flex items-center gap-2">
+            <i className="fas fa-file-csv"></i> CSV
+          </button>
+          <button onClick={() => handleExport('json')} className="text-white/70 hover:text-white font-black uppercase text-[10px] tracking-widest transition-colors flex items-center gap-2">
+            <i className="fas fa-file-code"></i> JSON
+          </button>
+          <button
+            onClick={handleVerify}
+            disabled={isVerifying}
+            className="text-white/70 hover:text-white font-black uppercase text-[10px] tracking-widest transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <i className="fas fa-link"></i> {isVerifying ? 'Verifying...' : 'Verify integrity'}
+          </button>
+        </div>
+      </div>
+
+      {auditCheck && (
+        <div className={`px-6 py-3 text-[12px] font-bold flex items-center gap-2 border-b ${auditCheck.valid ? 'bg-green-50 text-green-800 border-green-100' : 'bg-red-50 text-jobird-red border-red-100'}`}>
+          <i className={`fas ${auditCheck.valid ? 'fa-shield-halved' : 'fa-triangle-exclamation'}`}></i>
+          {auditCheck.valid
+            ? `Hash chain intact: ${auditCheck.total} entries verified${auditCheck.headHash ? ` (head ${auditCheck.headHash.slice(0, 12)}…)` : ''}`
+            : `Tampering detected at ${auditCheck.firstInvalid?.id || `entry ${auditCheck.firstInvalid?.seq}`}: ${auditCheck.firstInvalid?.reason}`}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="px-6 py-4 bg-slate-50 border-b border-slate-100 flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-[200px]">
+          <label className="block text-[9px] font-black text-slate-400 uppercase mb-1 tracking-widest">Search details</label>
+          <input value={searchText} onChange={e => setSearchText(e.target.value)} placeholder="e.g. JB15" className={`${inputClass} w-full`} />
+        </div>
+        <div>
+          <label className="block text-[9px] font-black text-slate-400 uppercase mb-1 tracking-widest">User</label>
+          <select value={filters.user || ''} onChange={e => updateFilter({ user: e.target.value || undefined })} className={inputClass}>
+            <option value="">All users</option>
+            {result?.users.map(u => <option key={u} value={u}>{u}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-[9px] font-black text-slate-400 uppercase mb-1 tracking-widest">Action</label>
+          <select value={filters.action || ''} onChange={e => updateFilter({ action: e.target.value || undefined })} className={inputClass}>
+            <option value="">All actions</option>
+            {result?.actions.map(a => <option key={a} value={a}>{a}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-[9px] font-black text-slate-400 uppercase mb-1 tracking-widest">From</label>
+          <input type="date" value={filters.from || ''} onChange={e => updateFilter({ from: e.target.value || undefined })} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-[9px] font-black text-slate-400 uppercase mb-1 tracking-widest">To</label>
+          <input type="date" value={filters.to || ''} onChange={e => updateFilter({ to: e.target.value || undefined })} className={inputClass} />
+        </div>
+        {hasFilters && (
+          <button onClick={clearFilters} className="pb-2 text-[9px] font-black text-slate-400 hover:text-jobird-red uppercase tracking-widest">
+            Clear
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="px-6 py-3 bg-red-50 border-b border-red-100 text-[12px] font-bold text-jobird-red flex items-center gap-2">
+          <i className="fas fa-triangle-exclamation"></i>
+          {error}
+        </div>
+      )}
+
+      <div className="max-h-[450px] overflow-y-auto custom-scrollbar">
+        {result && result.entries.length === 0 && (
+          <div className="py-12 text-center text-[11px] font-black text-slate-400 uppercase tracking-widest">
+            {hasFilters ? 'No entries match these filters' : 'No audit entries yet'}
+          </div>
+        )}
+        {result?.entries.map((log, idx) => (
+          <div key={log.id} className={`p-6 flex items-center justify-between gap-10 ${idx % 2 === 0 ? 'bg-white' : 'bg-slate-50/50'} border-b border-slate-100`}>
+            <div className="flex items-center gap-12 flex-1 min-w-0">
+              <div className="w-32 flex-shrink-0">
+                <p className="font-black text-slate-700 text-[11px] uppercase tracking-widest truncate">{log.user}</p>
+                <p className="text-[10px] text-slate-400 font-bold tracking-tighter uppercase mt-1">{new Date(log.timestamp).toLocaleString()}</p>
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-4 mb-2">
+                  <span className="text-[10px] font-black bg-slate-200 text-slate-700 px-2.5 py-1 rounded uppercase tracking-widest whitespace-nowrap">{log.action}</span>
+                  <span className="text-[10px] font-black text-slate-300 uppercase tracking-[0.2em]">{log.id}</span>
+                  <span className="text-[10px] font-mono text-slate-300" title={log.hash}>#{log.hash.slice(0, 10)}</span>
+                </div>
+                <p className="text-[13px] text-slate-700 font-bold truncate italic" title={log.changeDetail}>"{log.changeDetail}"</p>
+              </div>
+            </div>
+            <div className="hidden md:block">
+              <i className="fas fa-check-circle text-green-500/40 text-2xl"></i>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {result && result.total > 0 && (
+        <div className="px-6 py-3 border-t border-slate-100 flex items-center justify-between text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          <span>
+            {(result.page - 1) * result.pageSize + 1}–{Math.min(result.page * result.pageSize, result.total)} of {result.total}
+          </span>
+          <div className="flex items-center gap-4">
+            <button disabled={result.page <= 1} onClick={() => setPage(p => p - 1)} className="hover:text-jobird-red disabled:opacity-30">
+              <i className="fas fa-chevron-left mr-1"></i> Prev
+            </button>
+            <span>Page {result.page} / {result.pages}</span>
+            <button disabled={result.page >= result.pages} onClick={() => setPage(p => p + 1)} className="hover:text-jobird-red disabled:opacity-30">
+              Next <i className="fas fa-chevron-right ml-1"></i>
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default AuditLogSection;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { ChangeRequest, SalesFeedback, SOP } from '../types';
+
+interface ChangeRequestSectionProps {
+  changeRequests: ChangeRequest[];
+  feedback: SalesFeedback[];
+  sops: SOP[];
+  canManage: boolean; // Draft or link SOPs against a request
+  onDraftSop: (cr: ChangeRequest) => void;
+  onLinkSop: (id: string, sopId: string) => Promise<void>;
+}
+
+const STATUS_CLASSES: Record<ChangeRequest['status'], string> = {
+  open: 'bg-amber-100 text-amber-800',
+  'in-review': 'bg-blue-100 text-blue-800',
+  closed: 'bg-green-100 text-green-800'
+};
+
+const SOP_STATUS_CLASSES: Record<SOP['status'], string> = {
+  Active: 'text-green-700',
+  Draft: 'text-amber-700',
+  Approved: 'text-blue-700',
+  Rejected: 'text-jobird-red line-through',
+  Deprecated: 'text-slate-400'
+};
+
+// Traceability view: which field report raised each request and which SOP versions answered it
+const ChangeRequestSection: React.FC<ChangeRequestSectionProps> = ({ changeRequests, feedback, sops, canManage, onDraftSop, onLinkSop }) => {
+  const [error, setError] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const drafts = sops.filter(s => s.status === 'Draft');
+
+  const handleLink = async (id: string, sopId: string) => {
+    if (!sopId) return;
+    setError(null);
+    setPendingId(id);
+    try {
+      await onLinkSop(id, sopId);
+    } catch (err: any) {
+      setError(`${id}: ${err.message || 'Request failed'}`);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <section className="bg-white xl:col-span-12 shadow-sm border border-slate-200 overflow-hidden flex flex-col rounded-sm">
+      <div className="p-6 bg-jobird-navy border-b border-jobird-navy flex items-center gap-3">
+        <i className="fas fa-code-branch text-white text-xl"></i>
+        <h3 className="font-black text-white text-[13px] uppercase tracking-widest">Change Requests</h3>
+      </div>
+      {error && (
+        <div className="px-8 py-3 bg-red-50 border-b border-red-100 text-[12px] font-bold text-jobird-red flex items-center gap-2">
+          <i className="fas fa-triangle-exclamation"></i>
+          {error}
+        </div>
+      )}
+      <div className="divide-y divide-slate-100 max-h-[500px] overflow-y-auto custom-scrollbar">
+        {changeRequests.length === 0 && (
+          <div className="flex flex-col items-center justify-center py-16 text-slate-300">
+            <i className="fas fa-clipboard-check text-5xl mb-4"></i>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400">No change requests</p>
+          </div>
+        )}
+        {changeRequests.map(cr => {
+          const origin = cr.feedbackId ? feedback.find(fb => fb.id === cr.feedbackId) : undefined;
+          const linkable = drafts.filter(s => !cr.sopIds.includes(s.id));
+          return (
+            <div key={cr.id} className="p-6 grid grid-cols-1 lg:grid-cols-12 gap-6">
+              <div className="lg:col-span-5">
+                <div className="flex items-center gap-3 mb-2">
+                  <span className="font-black text-slate-700 text-[12px]">{cr.id}</span>
+                  <span className={`px-2 py-0.5 rounded-sm font-black text-[9px] uppercase tracking-widest ${STATUS_CLASSES[cr.status]}`}>{cr.status}</span>
+                  {cr.urgency && <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{cr.urgency}</span>}
+                </div>
+                <p className="text-[13px] font-bold text-slate-800">{cr.suggestion}</p>
+                <p className="text-[11px] text-slate-400 font-bold mt-1">
+                  {cr.source} · {new Date(cr.timestamp).toLocaleDateString()}{cr.createdBy && ` · raised by ${cr.createdBy}`}
+                </p>
+                {cr.linkedConfig && <p className="text-[11px] font-mono font-bold text-jobird-navy mt-1">{cr.linkedConfig}</p>}
+              </div>
+
+              <div className="lg:col-span-4">
+                <p className="text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Field report</p>
+                {origin ? (
+                  <>
+                    <p className="text-[12px] font-bold text-slate-700">{origin.task}</p>
+                    <p className="text-[12px] text-slate-500 italic line-clamp-3">"{origin.issue}"</p>
+                    <p className="text-[10px] text-slate-400 font-bold mt-1">{origin.userId} · {origin.status}</p>
+                  </>
+                ) : (
+                  <p className="text-[12px] text-slate-300">{cr.feedbackId || 'Logged directly'}</p>
+                )}
+              </div>
+
+              <div className="lg:col-span-3">
+                <p className="text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">SOP changes</p>
+                {cr.sopIds.length === 0 && <p className="text-[12px] text-slate-300">None yet</p>}
+                {cr.sopIds.map(sopId => {
+                  const sop = sops.find(s => s.id === sopId);
+                  return (
+                    <p key={sopId} className={`text-[12px] font-bold ${sop ? SOP_STATUS_CLASSES[sop.status] : 'text-slate-400'}`}>
+                      {sopId}{sop && <span className="font-mono"> v{sop.version} · {sop.status}</span>}
+                    </p>
+                  );
+                })}
+                {cr.resolution && <p className="text-[11px] text-green-800 font-bold mt-1">{cr.resolution}</p>}
+                {canManage && cr.status !== 'closed' && (
+                  <div className="flex flex-col gap-2 mt-3">
+                    <button onClick={() => onDraftSop(cr)} className="text-left text-jobird-red font-black hover:text-red-700 uppercase text-[10px] tracking-widest transition-colors">
+                      <i className="fas fa-plus mr-1"></i> Draft SOP
+                    </button>
+                    {linkable.length > 0 && (
+                      <select
+                        value=""
+                        disabled={pendingId === cr.id}
+                        onChange={e => handleLink(cr.id, e.target.value)}
+                        className="p-1.5 bg-jobird-lightGrey border border-slate-200 font-bold text-[10px] outline-none focus:border-jobird-red"
+                      >
+                        <option value="">Link existing draft...</option>
+                        {linkable.map(s => <option key={s.id} value={s.id}>{s.id} v{s.version}</option>)}
+                      </select>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default ChangeRequestSection;
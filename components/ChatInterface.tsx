@@ -1,27 +1,45 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { Message, CabinetModel, SOP, SalesFeedback, DatasheetReference } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Message, CabinetModel, SOP, DatasheetReference, EquipmentItem, SopCitation, SessionFile, SelectionStageEvent } from '../types';
 import { getSelectionResponse, getSelectionResponseStream } from '../geminiService';
+import { checkEquipmentFit, summarizeFitCheck } from '../shared/fitCheck.js';
+import { planChestStacking, summarizeStackingPlan } from '../shared/stacking.js';
+import { getInsulationSop } from '../shared/insulation.js';
+import { FeedbackSubmission } from '../lib/feedbackApi';
+import { deriveFeedbackContext } from '../lib/feedbackContext';
+import { downloadSelectionReport } from '../lib/reportApi';
+import { branchFromEdit, mergeDatasheets, switchBranch, versionCount } from '../lib/branches';
+import FitCheckCard from './FitCheckCard';
+import StackingPlanCard from './StackingPlanCard';
+import SelectionProgress from './SelectionProgress';
 
 
 interface ChatInterfaceProps {
   catalog: CabinetModel[];
   activeSops: SOP[];
-  onSubmitFeedback: (feedback: SalesFeedback) => void;
+  onSubmitFeedback?: (feedback: FeedbackSubmission) => Promise<void>;
   selectedModel: CabinetModel | null;
-  onOpenAdmin: () => void;
+  onOpenAdmin?: () => void;
+  onShare?: () => void;
+  title?: string; // Session title, used to name the PDF report
   initialMessages?: Message[];
   initialDatasheets?: DatasheetReference[];
-  onSessionUpdate?: (messages: Message[], datasheets?: DatasheetReference[]) => void;
+  initialFiles?: SessionFile[];
+  focusMessage?: { index: number; nonce: number }; // Scroll to (and flash) a message, e.g. a search hit
+  onSessionUpdate?: (messages: Message[], datasheets?: DatasheetReference[], sessionFiles?: SessionFile[]) => void; // datasheets: the full list, replacing the session's
+  readOnly?: boolean; // Shared snapshot: no input, tools or follow-ups
 }
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({
-  catalog, activeSops, onSubmitFeedback, selectedModel, onOpenAdmin,
-  initialMessages, initialDatasheets, onSessionUpdate
+  catalog, activeSops, onSubmitFeedback, selectedModel, onOpenAdmin, onShare, title,
+  initialMessages, initialDatasheets, initialFiles, focusMessage, onSessionUpdate, readOnly
 }) => {
   const [messages, setMessages] = useState<Message[]>(initialMessages);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [stages, setStages] = useState<SelectionStageEvent[]>([]); // Progress of the answer being prepared
+  const stopRef = useRef<AbortController | null>(null); // Stops the answer being streamed
+  const [editing, setEditing] = useState<{ index: number; text: string } | null>(null);
   const [showFeedbackModal, setShowFeedbackModal] = useState(false);
   const [referencedDatasheets, setReferencedDatasheets] = useState<DatasheetReference[]>(
     [...(initialDatasheets || [])].sort((a, b) => a.filename.localeCompare(b.filename))
@@ -30,6 +48,18 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const [feedbackTask, setFeedbackTask] = useState('');
   const [feedbackIssue, setFeedbackIssue] = useState('');
   const [feedbackUrgency, setFeedbackUrgency] = useState<'Low' | 'Medium' | 'High'>('Medium');
+  const [feedbackError, setFeedbackError] = useState<string | null>(null);
+  const [isSubmittingFeedback, setIsSubmittingFeedback] = useState(false);
+  const feedbackContext = useMemo(() => deriveFeedbackContext(messages, catalog, selectedModel), [messages, catalog, selectedModel]);
+
+  const emptyEquipment = (): EquipmentItem => ({ type: '', qty: 1, dims: { h: 0, w: 0, d: 0 }, weight: 0 });
+  const [showFitCheckModal, setShowFitCheckModal] = useState(false);
+  const [fitEquipment, setFitEquipment] = useState<EquipmentItem[]>([emptyEquipment()]);
+  const [fitInsulation, setFitInsulation] = useState(0);
+
+  const [showStackingModal, setShowStackingModal] = useState(false);
+  const [stackingLifejackets, setStackingLifejackets] = useState('');
+  const [stackingDeckHeight, setStackingDeckHeight] = useState('');
 
   const scrollRef = useRef<HTMLDivElement>(null);
   useEffect(() => {
@@ -38,8 +68,19 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   }, [messages]);
 
+  const [flashIndex, setFlashIndex] = useState<number | null>(null);
+  useEffect(() => {
+    if (!focusMessage) return;
+    const el = scrollRef.current?.querySelector(`[data-message-index="${focusMessage.index}"]`);
+    if (!el) return;
+    el.scrollIntoView({ block: 'center' });
+    setFlashIndex(focusMessage.index);
+    const timer = setTimeout(() => setFlashIndex(null), 2000);
+    return () => clearTimeout(timer);
+  }, [focusMessage?.nonce]);
+
   const [followUpQuestions, setFollowUpQuestions] = useState<string[]>([]);
-  const [sessionFiles, setSessionFiles] = useState<{ name: string, content: string }[]>([]);
+  const [sessionFiles, setSessionFiles] = useState<SessionFile[]>(initialFiles || []);
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -60,6 +101,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
       const newHistory = [...messages, assistantMsg];
       setMessages(newHistory);
+      onSessionUpdate(newHistory, undefined, updatedFiles);
 
       // Automatically trigger synthesis using the new file context
       // Use a clear, technical prompt to get the best results from the pinned context
@@ -68,12 +110,16 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     reader.readAsText(file);
   };
 
-  const processQuery = async (query: string, currentHistory: Message[], filesToUse = sessionFiles) => {
+  // `datasheets` are those of the conversation being answered (a new branch starts with its own)
+  const processQuery = async (query: string, currentHistory: Message[], filesToUse = sessionFiles, datasheets = referencedDatasheets) => {
     if (isLoading) return;
     setIsLoading(true);
+    const controller = new AbortController();
+    stopRef.current = controller;
 
-    // Add a placeholder message for streaming with loading text
-    const placeholderMsg: Message = { role: 'assistant', content: 'Searching database...', timestamp: new Date() };
+    // Add an empty placeholder for the streamed answer; pipeline progress shows in it until the first chunk
+    setStages([]);
+    const placeholderMsg: Message = { role: 'assistant', content: '', timestamp: new Date() };
     const newHistory = [...currentHistory, placeholderMsg];
     setMessages(newHistory);
 
@@ -82,7 +128,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       let pendingDatasheets: DatasheetReference[] = [];
 
       // Use streaming with callback to update message progressively
-      await getSelectionResponseStream(query, currentHistory, (text, datasheets) => {
+      const result = await getSelectionResponseStream(query, currentHistory, (text, datasheets) => {
         // Update the last message (our placeholder) with new text
         setMessages(prev => {
           const updated = [...prev];
@@ -116,41 +162,43 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         if (datasheets.length > 0) {
           pendingDatasheets = datasheets;
         }
-      }, filesToUse);
+      }, { files: filesToUse, onStage: stage => setStages(prev => [...prev, stage]), signal: controller.signal });
+
+      // Update referenced datasheets only after response is complete
+      const mergedDatasheets = mergeDatasheets(datasheets, pendingDatasheets);
+      setReferencedDatasheets(mergedDatasheets);
 
       // Final local state sync for history
       setMessages(prev => {
         const updated = [...prev];
         const lastIdx = updated.length - 1;
         if (lastIdx >= 0 && updated[lastIdx].role === 'assistant') {
-          const finalHistory = updated;
-
-          // Update referenced datasheets only after response is complete
-          if (pendingDatasheets.length > 0) {
-            setReferencedDatasheets(prevDs => {
-              const merged = [...prevDs];
-              pendingDatasheets.forEach(ds => {
-                // Normalize for comparison: lowercase, trim, remove .pdf extension
-                const normalizedNew = ds.filename.toLowerCase().trim().replace(/\.pdf$/i, '');
-                const isDuplicate = merged.some(m =>
-                  m.filename.toLowerCase().trim().replace(/\.pdf$/i, '') === normalizedNew
-                );
-                if (!isDuplicate) {
-                  merged.push(ds);
-                }
-              });
-              // Sort alphabetically by filename
-              return merged.sort((a, b) => a.filename.localeCompare(b.filename));
-            });
-            onSessionUpdate(finalHistory, pendingDatasheets);
-          } else {
-            onSessionUpdate(finalHistory);
-          }
+          updated[lastIdx] = {
+            ...updated[lastIdx],
+            citedSops: result.citedSops?.length ? result.citedSops : undefined,
+            sopWarnings: result.sopWarnings?.length ? result.sopWarnings : undefined,
+            datasheets: pendingDatasheets.length ? pendingDatasheets : undefined
+          };
+          onSessionUpdate(updated, mergedDatasheets);
         }
         return updated;
       });
 
     } catch (error: any) {
+      if (controller.signal.aborted) {
+        // Stopped: keep whatever was streamed so far
+        setMessages(prev => {
+          const updated = [...prev];
+          const lastIdx = updated.length - 1;
+          if (lastIdx >= 0 && updated[lastIdx].role === 'assistant') {
+            updated[lastIdx] = { ...updated[lastIdx], content: updated[lastIdx].content || 'Stopped before the answer started.', stopped: true };
+            onSessionUpdate(updated, datasheets);
+          }
+          return updated;
+        });
+        setFollowUpQuestions([]);
+        return;
+      }
       console.error("Selection Error:", error);
       // Update the placeholder message with the error
       setMessages(prev => {
@@ -165,10 +213,13 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         return updated;
       });
     } finally {
+      stopRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const handleStop = () => stopRef.current?.abort();
+
   const handleSend = async () => {
     if (!input.trim() || isLoading) return;
     const userMsg: Message = { role: 'user', content: input, timestamp: new Date() };
@@ -181,7 +232,42 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     await processQuery(queryText, newHistory);
   };
 
+  // Answers `content` again from the user message at `index`; the conversation after it is kept as another version
+  const resendFrom = (index: number, content: string) => {
+    if (isLoading || !content.trim()) return;
+    const view = branchFromEdit({ messages, datasheets: referencedDatasheets }, index, content);
+    setMessages(view.messages);
+    setReferencedDatasheets(view.datasheets);
+    setFollowUpQuestions([]);
+    setEditing(null);
+    processQuery(content, view.messages, sessionFiles, view.datasheets);
+  };
+
+  const handleRegenerate = () => resendFrom(messages.length - 2, messages[messages.length - 2].content);
+
+  const handleSwitchBranch = (index: number, target: number) => {
+    const view = switchBranch({ messages, datasheets: referencedDatasheets }, index, target);
+    setMessages(view.messages);
+    setReferencedDatasheets(view.datasheets);
+    setFollowUpQuestions([]);
+    onSessionUpdate?.(view.messages, view.datasheets);
+  };
+
+  // Tool requests (fit check, stacking plan) are answered locally, so only questions can be edited or regenerated
+  const isToolResult = (msg?: Message) => !!(msg?.fitCheck || msg?.stackingPlan);
+  const canEdit = (idx: number) => !readOnly && !isLoading && messages[idx].role === 'user' && !isToolResult(messages[idx + 1]);
+  const canRegenerate = (idx: number) => !readOnly && !isLoading && idx === messages.length - 1 && idx > 0
+    && messages[idx].role === 'assistant' && !isToolResult(messages[idx]) && messages[idx - 1].role === 'user';
+
+  // SOPs cited anywhere in the conversation, newest version of each first
+  const citedSops = useMemo(() => {
+    const byKey = new Map<string, SopCitation>();
+    messages.forEach(msg => (msg.citedSops || []).forEach(ref => byKey.set(`${ref.sopId}@${ref.sopVersion}`, ref)));
+    return [...byKey.values()].sort((a, b) => a.sopId.localeCompare(b.sopId) || b.sopVersion.localeCompare(a.sopVersion));
+  }, [messages]);
+
   const handleDatasheetClick = (datasheet: DatasheetReference) => {
+    if (readOnly) return;
     setInput(`Tell me more about ${datasheet.displayName}`);
   };
 
@@ -193,20 +279,60 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   };
 
-  const handleFeedbackSubmit = (e: React.FormEvent) => {
+  const handleFeedbackSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const feedback: SalesFeedback = {
-      id: `FB-${Math.floor(Math.random() * 9000) + 1000}`,
-      userId: 'Sales_User',
-      timestamp: new Date().toISOString().replace('T', ' ').substring(0, 16),
-      context: { cabinetId: selectedModel?.id || 'GLOBAL' },
-      task: feedbackTask,
-      issue: feedbackIssue,
-      urgency: feedbackUrgency
+    setFeedbackError(null);
+    setIsSubmittingFeedback(true);
+    try {
+      await onSubmitFeedback?.({ task: feedbackTask, issue: feedbackIssue, urgency: feedbackUrgency, context: feedbackContext });
+      setShowFeedbackModal(false);
+      setFeedbackTask('');
+      setFeedbackIssue('');
+      setMessages(prev => [...prev, { role: 'assistant', content: "Thank you. Feedback has been received and will be reviewed", timestamp: new Date() }]);
+    } catch (err: any) {
+      setFeedbackError(err.message || 'Failed to submit feedback');
+    } finally {
+      setIsSubmittingFeedback(false);
+    }
+  };
+
+  const updateFitEquipment = (idx: number, patch: Partial<EquipmentItem>) => {
+    setFitEquipment(prev => prev.map((it, i) => i === idx ? { ...it, ...patch, dims: { ...it.dims, ...patch.dims } } : it));
+  };
+
+  const handleFitCheckSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = checkEquipmentFit(fitEquipment, catalog, activeSops, fitInsulation);
+    if (result.equipment.length === 0) return;
+
+    const summary = summarizeFitCheck(result);
+    const userMsg: Message = {
+      role: 'user',
+      content: `Fit check: ${result.equipment.map(it => `${it.qty} x ${it.type}`).join(', ')}`,
+      timestamp: new Date()
+    };
+    const assistantMsg: Message = { role: 'assistant', content: summary, timestamp: new Date(), fitCheck: result };
+    const newHistory = [...messages, userMsg, assistantMsg];
+    setMessages(newHistory);
+    onSessionUpdate(newHistory);
+    setShowFitCheckModal(false);
+    setFitEquipment([emptyEquipment()]);
+  };
+
+  const handleStackingSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = planChestStacking(Number(stackingLifejackets), Number(stackingDeckHeight), catalog, activeSops);
+
+    const userMsg: Message = {
+      role: 'user',
+      content: `Stacking plan: ${result.lifejackets} lifejackets, ${result.deckHeightMm}mm deck height`,
+      timestamp: new Date()
     };
-    onSubmitFeedback(feedback);
-    setShowFeedbackModal(false);
-    setMessages(prev => [...prev, { role: 'assistant', content: "Thank you. Feedback has been received and will be reviewed", timestamp: new Date() }]);
+    const assistantMsg: Message = { role: 'assistant', content: summarizeStackingPlan(result), timestamp: new Date(), stackingPlan: result };
+    const newHistory = [...messages, userMsg, assistantMsg];
+    setMessages(newHistory);
+    onSessionUpdate(newHistory);
+    setShowStackingModal(false);
   };
 
   const handleExportChat = () => {
@@ -218,7 +344,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       const role = msg.role.toUpperCase();
       // Remove internal highlight tags for export
       const cleanContent = msg.content.replace(/\[\[HIGHLIGHT\]\]/g, '').replace(/\[\[\/HIGHLIGHT\]\]/g, '');
-      return `[${timestamp}] ${role}:\n${cleanContent}`;
+      const sopRefs = msg.citedSops?.length ? `\nSOPs: ${msg.citedSops.map(r => `${r.sopId} v${r.sopVersion}`).join(', ')}` : '';
+      const sopWarnings = msg.sopWarnings?.length ? `\nSOP CONFLICTS: ${msg.sopWarnings.join('; ')}` : '';
+      return `[${timestamp}] ${role}:\n${cleanContent}${sopRefs}${sopWarnings}`;
     }).join(separator);
 
     const blob = new window.Blob([header + content], { type: 'text/plain' });
@@ -232,6 +360,26 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     URL.revokeObjectURL(url);
   };
 
+  const [isExportingReport, setIsExportingReport] = useState(false);
+  const [reportError, setReportError] = useState<string | null>(null);
+
+  const handleExportReport = async () => {
+    setReportError(null);
+    setIsExportingReport(true);
+    try {
+      await downloadSelectionReport({
+        title: title || 'Cabinet selection',
+        messages,
+        datasheets: referencedDatasheets,
+        selectedModelId: selectedModel?.id
+      });
+    } catch (err: any) {
+      setReportError(err.message || 'Failed to create the PDF report');
+    } finally {
+      setIsExportingReport(false);
+    }
+  };
+
   // Render markdown links [text](url) as clickable <a> elements
   const renderLinks = (text: string): React.ReactNode[] => {
     const linkPattern = /\[([^\]]+)\]\((https?:\/\/[^)]+)\)/g;
@@ -436,7 +584,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       <div className="flex-1 flex flex-col bg-white border border-slate-200 shadow-2xl relative">
         <div ref={scrollRef} className="flex-1 overflow-y-auto p-5 space-y-4 bg-white custom-scrollbar">
           {messages.map((msg, idx) => (
-            <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div key={idx} data-message-index={idx} className={`flex transition-colors duration-700 ${msg.role === 'user' ? 'justify-end' : 'justify-start'} ${flashIndex === idx ? 'bg-amber-50 ring-2 ring-amber-200' : ''}`}>
               <div className={`max-w-[90%] flex gap-3 ${msg.role === 'user' ? 'flex-row-reverse text-right' : 'flex-row'}`}>
                 <div className={`w-8 h-8 flex-shrink-0 flex items-center justify-center border-2 text-xs ${msg.role === 'user' ? 'bg-white border-slate-200 text-slate-400' : 'bg-jobird-red border-jobird-red text-white'
                   }`}>
@@ -445,8 +593,97 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 <div className="relative group">
                   <div className={`py-2 px-4 border ${msg.role === 'user' ? 'bg-slate-50 border-slate-100 text-slate-600' : 'bg-white border-slate-200 shadow-sm text-slate-800'
                     }`}>
-                    {msg.role === 'assistant' ? formatContent(msg.content) : <div className="text-[15px] font-bold">{highlightSpecialTerms(msg.content)}</div>}
+                    {editing?.index === idx ? (
+                      <form onSubmit={e => { e.preventDefault(); resendFrom(idx, editing.text); }} className="text-left min-w-[320px]">
+                        <textarea
+                          autoFocus
+                          value={editing.text}
+                          onChange={e => setEditing({ index: idx, text: e.target.value })}
+                          rows={3}
+                          className="w-full p-2.5 bg-white border border-slate-200 text-[15px] font-bold text-slate-700 outline-none focus:border-jobird-red"
+                        />
+                        <div className="flex justify-end gap-4 mt-2">
+                          <button type="button" onClick={() => setEditing(null)} className="font-black text-slate-400 hover:text-jobird-red uppercase text-[9px] tracking-widest">Cancel</button>
+                          <button type="submit" disabled={!editing.text.trim()} className="px-4 py-1.5 bg-jobird-red text-white font-black uppercase text-[9px] tracking-widest disabled:opacity-50">Save & resend</button>
+                        </div>
+                      </form>
+                    ) : msg.role === 'assistant' && !msg.content && isLoading && idx === messages.length - 1
+                      ? <SelectionProgress stages={stages} />
+                      : msg.fitCheck
+                      ? <FitCheckCard result={msg.fitCheck} />
+                      : msg.stackingPlan
+                      ? <StackingPlanCard result={msg.stackingPlan} />
+                      : msg.role === 'assistant' ? formatContent(msg.content) : <div className="text-[15px] font-bold">{highlightSpecialTerms(msg.content)}</div>}
+                    {msg.sopWarnings && msg.sopWarnings.length > 0 && (
+                      <div className="mt-3 p-3 bg-red-50 border-l-4 border-jobird-red">
+                        <p className="text-[10px] font-black text-jobird-red uppercase tracking-widest mb-1 flex items-center gap-2">
+                          <i className="fas fa-triangle-exclamation"></i>
+                          Conflicts with SOP in force — verify before quoting
+                        </p>
+                        {msg.sopWarnings.map((w, i) => (
+                          <p key={i} className="text-[12px] font-bold text-slate-700">{w}</p>
+                        ))}
+                      </div>
+                    )}
+                    {msg.citedSops && msg.citedSops.length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-1.5">
+                        {msg.citedSops.map(ref => (
+                          <span key={ref.sopId} className="px-2 py-0.5 bg-jobird-lightGrey border border-slate-200 text-[10px] font-black text-jobird-navy uppercase tracking-widest">
+                            {ref.sopId} v{ref.sopVersion}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {msg.stopped && (
+                      <p className="mt-2 text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                        <i className="fas fa-stop"></i>
+                        Stopped
+                      </p>
+                    )}
                   </div>
+                  {editing?.index !== idx && (versionCount(msg) > 1 || canEdit(idx) || canRegenerate(idx)) && (
+                    <div className={`flex items-center gap-4 mt-1 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                      {versionCount(msg) > 1 && (
+                        <span className="flex items-center gap-2 text-[10px] font-black text-slate-400 tracking-widest">
+                          <button
+                            onClick={() => handleSwitchBranch(idx, (msg.branchIndex || 0) - 1)}
+                            disabled={isLoading || !msg.branchIndex}
+                            className="hover:text-jobird-red disabled:opacity-30"
+                            title="Previous version"
+                          >
+                            <i className="fas fa-chevron-left"></i>
+                          </button>
+                          {(msg.branchIndex || 0) + 1}/{versionCount(msg)}
+                          <button
+                            onClick={() => handleSwitchBranch(idx, (msg.branchIndex || 0) + 1)}
+                            disabled={isLoading || (msg.branchIndex || 0) >= versionCount(msg) - 1}
+                            className="hover:text-jobird-red disabled:opacity-30"
+                            title="Next version"
+                          >
+                            <i className="fas fa-chevron-right"></i>
+                          </button>
+                        </span>
+                      )}
+                      {canEdit(idx) && (
+                        <button
+                          onClick={() => setEditing({ index: idx, text: msg.content })}
+                          className="opacity-0 group-hover:opacity-100 text-[9px] font-black text-slate-400 hover:text-jobird-red uppercase tracking-widest flex items-center gap-2 transition-all"
+                        >
+                          <i className="fas fa-pen"></i>
+                          Edit
+                        </button>
+                      )}
+                      {canRegenerate(idx) && (
+                        <button
+                          onClick={handleRegenerate}
+                          className="text-[9px] font-black text-slate-400 hover:text-jobird-red uppercase tracking-widest flex items-center gap-2 transition-all"
+                        >
+                          <i className="fas fa-rotate-right"></i>
+                          Regenerate
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -479,6 +716,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
         </div>
 
+        {!readOnly && (
         <div className="p-5 border-t border-slate-100 bg-jobird-lightGrey">
           <div className="flex gap-3 items-center">
             <label className="w-[48px] h-[48px] flex-shrink-0 flex items-center justify-center bg-white border border-slate-200 text-slate-400 hover:text-jobird-red cursor-pointer transition-all transition-all">
@@ -493,13 +731,23 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
               placeholder="Ask me anything..."
               className="flex-1 px-4 py-3 bg-white border border-slate-200 outline-none text-[15px] font-bold placeholder:text-slate-300 transition-all focus:border-jobird-red disabled:bg-slate-100 shadow-inner"
             />
-            <button
-              onClick={handleSend}
-              disabled={!input.trim() || isLoading}
-              className="bg-jobird-red text-white px-8 h-[48px] flex items-center justify-center font-black uppercase text-[11px] tracking-[0.2em] shadow-lg hover:bg-red-700 disabled:opacity-50 transition-all active:scale-95"
-            >
-              Submit
-            </button>
+            {isLoading ? (
+              <button
+                onClick={handleStop}
+                className="bg-jobird-navy text-white px-8 h-[48px] flex items-center justify-center gap-2 font-black uppercase text-[11px] tracking-[0.2em] shadow-lg hover:bg-slate-800 transition-all active:scale-95"
+              >
+                <i className="fas fa-stop"></i>
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={handleSend}
+                disabled={!input.trim()}
+                className="bg-jobird-red text-white px-8 h-[48px] flex items-center justify-center font-black uppercase text-[11px] tracking-[0.2em] shadow-lg hover:bg-red-700 disabled:opacity-50 transition-all active:scale-95"
+              >
+                Submit
+              </button>
+            )}
           </div>
           <div className="flex justify-center gap-6 mt-4">
             <button
@@ -509,6 +757,37 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
               <i className="fas fa-file-export"></i>
               Export chat
             </button>
+            <button
+              onClick={handleExportReport}
+              disabled={isExportingReport}
+              className="text-[9px] font-black text-slate-400 hover:text-jobird-red uppercase tracking-widest flex items-center gap-2 transition-all disabled:opacity-50"
+            >
+              <i className={`fas ${isExportingReport ? 'fa-circle-notch fa-spin' : 'fa-file-pdf'}`}></i>
+              PDF report
+            </button>
+            {onShare && (
+              <button
+                onClick={onShare}
+                className="text-[9px] font-black text-slate-400 hover:text-jobird-red uppercase tracking-widest flex items-center gap-2 transition-all"
+              >
+                <i className="fas fa-share-nodes"></i>
+                Share
+              </button>
+            )}
+            <button
+              onClick={() => setShowFitCheckModal(true)}
+              className="text-[9px] font-black text-slate-400 hover:text-jobird-red uppercase tracking-widest flex items-center gap-2 transition-all"
+            >
+              <i className="fas fa-ruler-combined"></i>
+              Fit check
+            </button>
+            <button
+              onClick={() => setShowStackingModal(true)}
+              className="text-[9px] font-black text-slate-400 hover:text-jobird-red uppercase tracking-widest flex items-center gap-2 transition-all"
+            >
+              <i className="fas fa-layer-group"></i>
+              Stacking plan
+            </button>
             <button
               onClick={() => setShowFeedbackModal(true)}
               className="text-[9px] font-black text-slate-400 hover:text-jobird-red uppercase tracking-widest flex items-center gap-2 transition-all"
@@ -524,7 +803,14 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
               Admin
             </button>
           </div>
+          {reportError && (
+            <p className="mt-3 text-center text-[11px] font-bold text-jobird-red flex items-center justify-center gap-2">
+              <i className="fas fa-triangle-exclamation"></i>
+              {reportError}
+            </p>
+          )}
         </div>
+        )}
 
         {showFeedbackModal && (
           <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -559,10 +845,116 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                       ))}
                     </div>
                   </div>
+                  <div>
+                    <p className="text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Captured from this session</p>
+                    <dl className="grid grid-cols-[90px_1fr] gap-x-3 gap-y-1 p-2.5 bg-slate-50 border border-slate-100 text-[11px]">
+                      {([['Cabinet', feedbackContext.cabinetId], ['Equipment', feedbackContext.equipment], ['Insulation', feedbackContext.insulation], ['SOPs', feedbackContext.sopVersion]] as const).map(([label, value]) => (
+                        <React.Fragment key={label}>
+                          <dt className="font-black text-slate-400 uppercase tracking-widest text-[9px] pt-0.5">{label}</dt>
+                          <dd className={value ? 'font-bold text-slate-700' : 'text-slate-300'}>{value || '—'}</dd>
+                        </React.Fragment>
+                      ))}
+                    </dl>
+                  </div>
+                  {feedbackError && (
+                    <p className="text-[12px] font-bold text-jobird-red flex items-center gap-2">
+                      <i className="fas fa-triangle-exclamation"></i>
+                      {feedbackError}
+                    </p>
+                  )}
                 </div>
                 <div className="p-4 bg-jobird-lightGrey border-t border-slate-200 flex justify-end gap-4">
                   <button type="button" onClick={() => setShowFeedbackModal(false)} className="px-3 py-2 font-black text-slate-400 uppercase text-[9px] tracking-widest">Cancel</button>
-                  <button type="submit" className="px-6 py-2.5 bg-jobird-red text-white font-black uppercase text-[9px] tracking-widest shadow-xl">Submit</button>
+                  <button type="submit" disabled={isSubmittingFeedback} className="px-6 py-2.5 bg-jobird-red text-white font-black uppercase text-[9px] tracking-widest shadow-xl disabled:opacity-50">Submit</button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+
+        {showFitCheckModal && (
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="bg-white w-full max-w-2xl shadow-2xl animate-in fade-in zoom-in-95 duration-300 border-t-4 border-jobird-red">
+              <form onSubmit={handleFitCheckSubmit}>
+                <div className="p-4 bg-jobird-lightGrey border-b border-slate-200 flex justify-between items-center">
+                  <h3 className="font-black text-slate-900 uppercase tracking-widest text-[10px]">Equipment fit check</h3>
+                  <button type="button" onClick={() => setShowFitCheckModal(false)} className="text-slate-400 hover:text-jobird-red"><i className="fas fa-times"></i></button>
+                </div>
+                <div className="p-6 space-y-3 max-h-[400px] overflow-y-auto custom-scrollbar">
+                  <div className="flex items-center gap-3 pb-2">
+                    <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Insulation</label>
+                    <select value={fitInsulation} onChange={e => setFitInsulation(Number(e.target.value))} className="p-2 bg-jobird-lightGrey border border-slate-200 font-bold text-xs outline-none focus:border-jobird-red">
+                      <option value={0}>None</option>
+                      {(getInsulationSop(activeSops)?.rules || []).map(r => (
+                        <option key={r.thicknessMm} value={r.thicknessMm}>{r.thicknessMm}mm</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-12 gap-2 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                    <span className="col-span-3">Equipment</span>
+                    <span className="col-span-1">Qty</span>
+                    <span className="col-span-2">H (mm)</span>
+                    <span className="col-span-2">W (mm)</span>
+                    <span className="col-span-2">D (mm)</span>
+                    <span className="col-span-1">kg</span>
+                    <span className="col-span-1">Place</span>
+                  </div>
+                  {fitEquipment.map((it, idx) => (
+                    <div key={idx} className="grid grid-cols-12 gap-2 items-center">
+                      <input required value={it.type} onChange={e => updateFitEquipment(idx, { type: e.target.value })} placeholder="e.g. 9kg extinguisher" className="col-span-3 p-2 bg-jobird-lightGrey border border-slate-200 font-bold text-xs outline-none focus:border-jobird-red" />
+                      <input required type="number" min={1} value={it.qty} onChange={e => updateFitEquipment(idx, { qty: Number(e.target.value) })} className="col-span-1 p-2 bg-jobird-lightGrey border border-slate-200 font-bold text-xs outline-none focus:border-jobird-red" />
+                      {(['h', 'w', 'd'] as const).map(axis => (
+                        <input key={axis} required type="number" min={1} value={it.dims[axis] || ''} onChange={e => updateFitEquipment(idx, { dims: { ...it.dims, [axis]: Number(e.target.value) } })} className="col-span-2 p-2 bg-jobird-lightGrey border border-slate-200 font-bold text-xs outline-none focus:border-jobird-red" />
+                      ))}
+                      <input type="number" min={0} step="0.1" value={it.weight || ''} onChange={e => updateFitEquipment(idx, { weight: Number(e.target.value) })} className="col-span-1 p-2 bg-jobird-lightGrey border border-slate-200 font-bold text-xs outline-none focus:border-jobird-red" />
+                      <select value={it.placement || ''} onChange={e => updateFitEquipment(idx, { placement: (e.target.value || undefined) as EquipmentItem['placement'] })} className="col-span-1 p-2 bg-jobird-lightGrey border border-slate-200 font-bold text-[10px] outline-none focus:border-jobird-red">
+                        <option value="">Any</option>
+                        <option value="base">Base</option>
+                        <option value="shelf">Shelf</option>
+                      </select>
+                    </div>
+                  ))}
+                  <div className="flex gap-4 pt-2">
+                    <button type="button" onClick={() => setFitEquipment(prev => [...prev, emptyEquipment()])} className="text-[9px] font-black text-jobird-red uppercase tracking-widest">
+                      <i className="fas fa-plus mr-1"></i> Add item
+                    </button>
+                    {fitEquipment.length > 1 && (
+                      <button type="button" onClick={() => setFitEquipment(prev => prev.slice(0, -1))} className="text-[9px] font-black text-slate-400 hover:text-jobird-red uppercase tracking-widest">
+                        <i className="fas fa-minus mr-1"></i> Remove last
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="p-4 bg-jobird-lightGrey border-t border-slate-200 flex justify-end gap-4">
+                  <button type="button" onClick={() => setShowFitCheckModal(false)} className="px-3 py-2 font-black text-slate-400 uppercase text-[9px] tracking-widest">Cancel</button>
+                  <button type="submit" className="px-6 py-2.5 bg-jobird-red text-white font-black uppercase text-[9px] tracking-widest shadow-xl">Check fit</button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+
+        {showStackingModal && (
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="bg-white w-full max-w-md shadow-2xl animate-in fade-in zoom-in-95 duration-300 border-t-4 border-jobird-red">
+              <form onSubmit={handleStackingSubmit}>
+                <div className="p-4 bg-jobird-lightGrey border-b border-slate-200 flex justify-between items-center">
+                  <h3 className="font-black text-slate-900 uppercase tracking-widest text-[10px]">Lifejacket chest stacking</h3>
+                  <button type="button" onClick={() => setShowStackingModal(false)} className="text-slate-400 hover:text-jobird-red"><i className="fas fa-times"></i></button>
+                </div>
+                <div className="p-6 space-y-4">
+                  <div>
+                    <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Number of lifejackets</label>
+                    <input required type="number" min={1} value={stackingLifejackets} onChange={e => setStackingLifejackets(e.target.value)} placeholder="e.g. 120" className="w-full p-2.5 bg-jobird-lightGrey border border-slate-200 font-bold text-xs outline-none focus:border-jobird-red" />
+                  </div>
+                  <div>
+                    <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Available deck height (mm)</label>
+                    <input required type="number" min={1} value={stackingDeckHeight} onChange={e => setStackingDeckHeight(e.target.value)} placeholder="e.g. 2400" className="w-full p-2.5 bg-jobird-lightGrey border border-slate-200 font-bold text-xs outline-none focus:border-jobird-red" />
+                  </div>
+                </div>
+                <div className="p-4 bg-jobird-lightGrey border-t border-slate-200 flex justify-end gap-4">
+                  <button type="button" onClick={() => setShowStackingModal(false)} className="px-3 py-2 font-black text-slate-400 uppercase text-[9px] tracking-widest">Cancel</button>
+                  <button type="submit" className="px-6 py-2.5 bg-jobird-red text-white font-black uppercase text-[9px] tracking-widest shadow-xl">Plan stacking</button>
                 </div>
               </form>
             </div>
@@ -601,12 +993,14 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                   </div>
                 </button>
                 <div className="flex gap-2 mt-2 pl-5">
-                  <button
-                    onClick={() => handleDatasheetClick(ds)}
-                    className="text-[11px] font-bold text-slate-400 hover:text-jobird-red uppercase tracking-wide"
-                  >
-                    Ask more
-                  </button>
+                  {!readOnly && (
+                    <button
+                      onClick={() => handleDatasheetClick(ds)}
+                      className="text-[11px] font-bold text-slate-400 hover:text-jobird-red uppercase tracking-wide"
+                    >
+                      Ask more
+                    </button>
+                  )}
                   {ds.url && (
                     <button
                       onClick={(e) => handleViewPdf(ds, e)}
@@ -621,6 +1015,24 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             ))
           )}
         </div>
+        {citedSops.length > 0 && (
+          <div className="border-t border-slate-200">
+            <div className="p-4 bg-jobird-lightGrey border-b border-slate-200">
+              <h3 className="font-black text-slate-700 uppercase tracking-widest text-[12px] flex items-center gap-2">
+                <i className="fas fa-clipboard-check text-jobird-navy"></i>
+                Applied SOPs
+              </h3>
+            </div>
+            <div className="p-3 space-y-2 max-h-48 overflow-y-auto">
+              {citedSops.map(ref => (
+                <div key={`${ref.sopId}@${ref.sopVersion}`} className="p-3 bg-slate-50 border border-slate-100">
+                  <div className="text-[11px] font-black text-jobird-navy uppercase tracking-widest">{ref.sopId} v{ref.sopVersion}</div>
+                  <div className="text-[13px] font-bold text-slate-700 leading-tight mt-0.5">{ref.title}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
         {referencedDatasheets.length > 0 && (
           <div className="p-3 border-t border-slate-100">
             <div className="text-[11px] text-slate-400 text-center">
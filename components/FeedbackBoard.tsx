@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { SalesFeedback, FeedbackStatus } from '../types';
+import { FEEDBACK_STATUSES } from '../shared/feedbackTriage.js';
+import FeedbackDetailModal from './FeedbackDetailModal';
+
+interface FeedbackBoardProps {
+  feedback: SalesFeedback[];
+  canTriage: boolean;
+  canPromote: boolean;
+  onUpdate: (id: string, patch: { status?: FeedbackStatus; assignee?: string }) => Promise<void>;
+  onComment: (id: string, text: string) => Promise<void>;
+  onPromote: (id: string, suggestion: string) => Promise<void>;
+}
+
+const URGENCY_CLASSES: Record<SalesFeedback['urgency'], string> = {
+  High: 'bg-red-100 text-red-800',
+  Medium: 'bg-amber-100 text-amber-800',
+  Low: 'bg-blue-100 text-blue-800'
+};
+
+const FeedbackBoard: React.FC<FeedbackBoardProps> = ({ feedback, canTriage, canPromote, onUpdate, onComment, onPromote }) => {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [assigneeFilter, setAssigneeFilter] = useState('');
+  const openFeedback = feedback.find(fb => fb.id === openId);
+
+  const visible = assigneeFilter ? feedback.filter(fb => fb.assignee === assigneeFilter) : feedback;
+  const assignees = [...new Set(feedback.map(fb => fb.assignee).filter((a): a is string => !!a))].sort();
+
+  return (
+    <section className="bg-white xl:col-span-12 shadow-sm border border-slate-200 overflow-hidden flex flex-col rounded-sm">
+      <div className="p-6 bg-jobird-red border-b border-jobird-red flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <i className="fas fa-tower-observation text-white text-xl"></i>
+          <h3 className="font-black text-white text-[13px] uppercase tracking-widest">Feedback Triage</h3>
+        </div>
+        <select
+          value={assigneeFilter}
+          onChange={e => setAssigneeFilter(e.target.value)}
+          className="bg-white/10 text-white border border-white/30 font-black uppercase text-[10px] tracking-widest p-1.5 outline-none"
+        >
+          <option value="" className="text-slate-700">All assignees</option>
+          {assignees.map(a => <option key={a} value={a} className="text-slate-700">{a}</option>)}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 divide-y md:divide-y-0 md:divide-x divide-slate-100 bg-slate-50/50">
+        {FEEDBACK_STATUSES.map(({ status, label }) => {
+          const items = visible.filter(fb => fb.status === status);
+          return (
+            <div key={status} className="flex flex-col min-h-[200px]">
+              <div className="px-4 py-3 border-b border-slate-100 flex items-center justify-between">
+                <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{label}</span>
+                <span className="text-[10px] font-black text-slate-300">{items.length}</span>
+              </div>
+              <div className="p-3 space-y-3 max-h-[420px] overflow-y-auto custom-scrollbar">
+                {items.map(fb => (
+                  <button
+                    key={fb.id}
+                    onClick={() => setOpenId(fb.id)}
+                    className="w-full text-left p-3 bg-white border border-slate-200 hover:border-jobird-red transition-colors shadow-sm"
+                  >
+                    <div className="flex items-center justify-between gap-2 mb-2">
+                      <span className="text-[9px] font-black text-slate-300 uppercase tracking-widest">{fb.id}</span>
+                      <span className={`px-1.5 py-0.5 rounded-sm font-black text-[8px] uppercase tracking-widest ${URGENCY_CLASSES[fb.urgency]}`}>{fb.urgency}</span>
+                    </div>
+                    <p className="text-[12px] font-bold text-slate-800 line-clamp-2">{fb.task}</p>
+                    <p className="text-[11px] text-slate-500 mt-1 line-clamp-2">{fb.issue}</p>
+                    {(fb.context.cabinetId || fb.changeRequestId) && (
+                      <p className="flex items-center gap-2 mt-2 text-[10px] font-bold">
+                        {fb.context.cabinetId && <span className="font-mono text-jobird-navy">{fb.context.cabinetId}</span>}
+                        {fb.changeRequestId && <span className="text-blue-700"><i className="fas fa-code-branch mr-1"></i>{fb.changeRequestId}</span>}
+                      </p>
+                    )}
+                    <div className="flex items-center justify-between mt-2 text-[10px] font-bold text-slate-400">
+                      <span className="truncate">{fb.assignee ? <><i className="fas fa-user mr-1"></i>{fb.assignee}</> : 'Unassigned'}</span>
+                      {fb.comments.length > 0 && <span><i className="fas fa-comment mr-1"></i>{fb.comments.length}</span>}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {openFeedback && (
+        <FeedbackDetailModal
+          key={openFeedback.id}
+          feedback={openFeedback}
+          canTriage={canTriage}
+          canPromote={canPromote}
+          onUpdate={onUpdate}
+          onComment={onComment}
+          onPromote={onPromote}
+          onClose={() => setOpenId(null)}
+        />
+      )}
+    </section>
+  );
+};
+
+export default FeedbackBoard;
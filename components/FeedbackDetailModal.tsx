@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { SalesFeedback, FeedbackStatus } from '../types';
+import { FEEDBACK_STATUSES } from '../shared/feedbackTriage.js';
+
+interface FeedbackDetailModalProps {
+  feedback: SalesFeedback;
+  canTriage: boolean;
+  canPromote: boolean;
+  onUpdate: (id: string, patch: { status?: FeedbackStatus; assignee?: string }) => Promise<void>;
+  onComment: (id: string, text: string) => Promise<void>;
+  onPromote: (id: string, suggestion: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const FeedbackDetailModal: React.FC<FeedbackDetailModalProps> = ({ feedback, canTriage, canPromote, onUpdate, onComment, onPromote, onClose }) => {
+  const [assignee, setAssignee] = useState(feedback.assignee || '');
+  const [comment, setComment] = useState('');
+  const [suggestion, setSuggestion] = useState('');
+  const [showPromote, setShowPromote] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Update failed');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleComment = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await onComment(feedback.id, comment);
+      setComment('');
+    });
+  };
+
+  const context = [
+    ['Cabinet', feedback.context.cabinetId],
+    ['Equipment', feedback.context.equipment],
+    ['Insulation', feedback.context.insulation],
+    ['SOPs', feedback.context.sopVersion]
+  ].filter(([, value]) => value);
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-2xl max-h-[85vh] flex flex-col shadow-2xl animate-in fade-in zoom-in-95 duration-300 border-t-4 border-jobird-red">
+        <div className="p-4 bg-jobird-lightGrey border-b border-slate-200 flex justify-between items-center">
+          <h3 className="font-black text-slate-900 uppercase tracking-widest text-[10px]">Feedback {feedback.id} · {feedback.urgency} priority</h3>
+          <button type="button" onClick={onClose} className="text-slate-400 hover:text-jobird-red"><i className="fas fa-times"></i></button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto custom-scrollbar">
+          <div>
+            <p className="text-[13px] font-bold text-slate-800">{feedback.task}</p>
+            <p className="text-[13px] text-slate-600 mt-1 whitespace-pre-wrap">{feedback.issue}</p>
+            <p className="text-[11px] text-slate-400 font-bold mt-2">Reported by {feedback.userId} · {new Date(feedback.timestamp).toLocaleString()}</p>
+          </div>
+
+          {context.length > 0 && (
+            <dl className="grid grid-cols-[90px_1fr] gap-x-3 gap-y-1 p-3 bg-slate-50 border border-slate-100 text-[12px]">
+              {context.map(([label, value]) => (
+                <React.Fragment key={label}>
+                  <dt className="font-black text-slate-400 uppercase tracking-widest text-[9px] pt-0.5">{label}</dt>
+                  <dd className="font-bold text-slate-700">{value}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Status</label>
+              <select
+                value={feedback.status}
+                disabled={isSaving || !canTriage}
+                onChange={e => run(() => onUpdate(feedback.id, { status: e.target.value as FeedbackStatus }))}
+                className="w-full p-2.5 bg-jobird-lightGrey border border-slate-200 font-bold text-xs outline-none focus:border-jobird-red"
+              >
+                {FEEDBACK_STATUSES.map(s => <option key={s.status} value={s.status}>{s.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Assignee</label>
+              <div className="flex gap-2">
+                <input value={assignee} disabled={!canTriage} onChange={e => setAssignee(e.target.value)} placeholder="Unassigned" className="flex-1 min-w-0 p-2.5 bg-jobird-lightGrey border border-slate-200 font-bold text-xs outline-none focus:border-jobird-red" />
+                <button
+                  type="button"
+                  disabled={isSaving || !canTriage || assignee.trim() === (feedback.assignee || '')}
+                  onClick={() => run(() => onUpdate(feedback.id, { assignee: assignee.trim() }))}
+                  className="px-3 bg-jobird-navy text-white font-black uppercase text-[9px] tracking-widest disabled:opacity-30"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {feedback.changeRequestId ? (
+            <p className="p-3 bg-blue-50 border border-blue-100 text-[12px] font-bold text-blue-900 flex items-center gap-2">
+              <i className="fas fa-code-branch"></i>
+              Promoted to change request {feedback.changeRequestId}
+            </p>
+          ) : canPromote && feedback.status !== 'resolved' && feedback.status !== 'wont-fix' && (
+            showPromote ? (
+              <div className="p-3 bg-slate-50 border border-slate-100 space-y-2">
+                <label className="block text-[9px] font-black text-slate-400 uppercase tracking-widest">Proposed procedure change (blank = use the report)</label>
+                <textarea value={suggestion} onChange={e => setSuggestion(e.target.value)} rows={2} className="w-full p-2.5 bg-white border border-slate-200 text-xs font-medium outline-none focus:border-jobird-red" />
+                <div className="flex justify-end gap-3">
+                  <button type="button" onClick={() => setShowPromote(false)} className="px-3 py-2 font-black text-slate-400 uppercase text-[9px] tracking-widest">Cancel</button>
+                  <button
+                    type="button"
+                    disabled={isSaving}
+                    onClick={() => run(() => onPromote(feedback.id, suggestion))}
+                    className="px-4 py-2 bg-jobird-navy text-white font-black uppercase text-[9px] tracking-widest disabled:opacity-50"
+                  >
+                    Create change request
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button type="button" onClick={() => setShowPromote(true)} className="text-jobird-navy font-black hover:text-jobird-red uppercase text-[10px] tracking-widest transition-colors flex items-center gap-2">
+                <i className="fas fa-code-branch"></i> Promote to change request
+              </button>
+            )
+          )}
+
+          <div className="space-y-2">
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Comments ({feedback.comments.length})</p>
+            {feedback.comments.map((c, i) => (
+              <div key={i} className="p-3 bg-slate-50 border border-slate-100">
+                <p className="text-[11px] font-black text-slate-700 uppercase tracking-widest">{c.author}</p>
+                <p className="text-[12px] text-slate-600 mt-1 whitespace-pre-wrap">{c.text}</p>
+                <p className="text-[10px] text-slate-400 font-bold mt-1">{new Date(c.timestamp).toLocaleString()}</p>
+              </div>
+            ))}
+            <form onSubmit={handleComment} className="flex gap-2 pt-1">
+              <textarea required value={comment} onChange={e => setComment(e.target.value)} rows={2} placeholder="Add a comment..." className="flex-1 p-2.5 bg-jobird-lightGrey border border-slate-200 text-xs font-medium outline-none focus:border-jobird-red" />
+              <button type="submit" disabled={isSaving} className="px-4 bg-jobird-red text-white font-black uppercase text-[9px] tracking-widest disabled:opacity-50">Post</button>
+            </form>
+          </div>
+
+          {error && (
+            <p className="text-[12px] font-bold text-jobird-red flex items-center gap-2">
+              <i className="fas fa-triangle-exclamation"></i>
+              {error}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FeedbackDetailModal;
@@ -0,0 +1,117 @@
+import React from 'react';
+import { FitCheckResult } from '../types';
+
+interface FitCheckCardProps {
+  result: FitCheckResult;
+}
+
+const FitCheckCard: React.FC<FitCheckCardProps> = ({ result }) => {
+  const clearanceClass = (mm: number) =>
+    mm < 20 ? 'text-jobird-red' : mm < 50 ? 'text-amber-600' : 'text-jobird-green';
+
+  return (
+    <div className="border border-slate-200 border-t-4 border-t-jobird-navy bg-white shadow-sm w-full">
+      <div className="px-4 py-3 bg-jobird-lightGrey border-b border-slate-200 flex items-center justify-between">
+        <h4 className="font-black text-slate-700 uppercase tracking-widest text-[11px] flex items-center gap-2">
+          <i className="fas fa-ruler-combined text-jobird-navy"></i>
+          Fit Check
+        </h4>
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          {result.fits.length} of {result.fits.length + result.rejected.length} models fit
+        </span>
+      </div>
+
+      <div className="px-4 py-3 border-b border-slate-100">
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">
+          Equipment{result.insulationMm ? ` · ${result.insulationMm}mm insulation` : ''}
+        </p>
+        {result.equipment.map((it, i) => (
+          <p key={i} className="text-[13px] font-bold text-slate-700">
+            {it.qty} × {it.type}
+            <span className="text-slate-400 font-medium ml-2">{it.dims.h} × {it.dims.w} × {it.dims.d} mm · {it.weight} kg</span>
+          </p>
+        ))}
+      </div>
+
+      {result.fits.length === 0 ? (
+        <div className="px-4 py-6 text-[13px] text-slate-500 italic">
+          No standard model can hold this equipment. Consider splitting the load or a custom build.
+        </div>
+      ) : (
+        <table className="w-full text-left text-[12px]">
+          <thead className="bg-slate-50 text-slate-500 font-black uppercase tracking-widest text-[10px] border-b border-slate-100">
+            <tr>
+              <th className="px-4 py-2">#</th>
+              <th className="px-4 py-2">Model</th>
+              <th className="px-4 py-2 text-right">Spare H</th>
+              <th className="px-4 py-2 text-right">Spare W</th>
+              <th className="px-4 py-2 text-right">Spare D</th>
+              <th className="px-4 py-2 text-right">Fill</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {result.fits.map((fit, rank) => (
+              <tr key={fit.modelId} className={rank === 0 ? 'bg-green-50/40' : ''}>
+                <td className="px-4 py-2 font-black text-slate-400">{rank + 1}</td>
+                <td className="px-4 py-2">
+                  <span className="font-black text-jobird-red">{fit.modelId}</span>
+                  <span className="text-slate-500 font-medium ml-2">{fit.title}</span>
+                  {fit.appliedSops && fit.appliedSops.length > 0 && (
+                    <span className="block text-[10px] text-slate-400 font-bold">
+                      {fit.appliedSops.map(r => `${r.sopId} v${r.sopVersion}`).join(' · ')}
+                    </span>
+                  )}
+                </td>
+                {(['h', 'w', 'd'] as const).map(axis => (
+                  <td key={axis} className={`px-4 py-2 text-right font-mono font-bold ${clearanceClass(fit.clearance[axis])}`}>
+                    {fit.clearance[axis]} mm
+                  </td>
+                ))}
+                <td className="px-4 py-2 text-right font-mono text-slate-500">{fit.utilisation}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {result.placement && (
+        <div className="px-4 py-3 border-t border-slate-100">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">
+            Placement · {result.placement.sopId} v{result.placement.sopVersion}
+          </p>
+          {result.placement.items.map((it, i) => (
+            <div key={i} className="flex justify-between text-[12px] py-0.5">
+              <span className="font-bold text-slate-700">{it.type} <span className="text-slate-400 font-medium">({it.weight} kg)</span></span>
+              <span className={`font-black uppercase tracking-widest text-[10px] ${it.mandatory ? 'text-jobird-red' : 'text-slate-500'}`}>
+                {it.suggested === 'base' ? 'Base' : 'Shelf'}{it.mandatory && ' · mandatory'}
+              </span>
+            </div>
+          ))}
+          {result.placement.violations.map((v, i) => (
+            <p key={i} className="mt-2 text-[12px] font-bold text-jobird-red flex items-start gap-2">
+              <i className="fas fa-triangle-exclamation mt-0.5"></i>
+              {v.message} ({v.sopId} v{v.sopVersion})
+            </p>
+          ))}
+        </div>
+      )}
+
+      {result.rejected.length > 0 && (
+        <details className="px-4 py-3 border-t border-slate-100">
+          <summary className="text-[10px] font-black text-slate-400 uppercase tracking-widest cursor-pointer">
+            {result.rejected.length} model{result.rejected.length !== 1 ? 's' : ''} ruled out
+          </summary>
+          <ul className="mt-2 space-y-1">
+            {result.rejected.map(r => (
+              <li key={r.modelId} className="text-[12px] text-slate-500">
+                <span className="font-bold text-slate-600">{r.modelId}</span>: {r.reason}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default FitCheckCard;
@@ -1,10 +1,11 @@
 import React, { useState } from 'react';
 
 interface LoginProps {
-    onLogin: (password: string) => Promise<boolean>;
+    onLogin: (username: string, password: string) => Promise<boolean>;
 }
 
 const Login: React.FC<LoginProps> = ({ onLogin }) => {
+    const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
     const [error, setError] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
@@ -15,7 +16,7 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
         setError(false);
 
         try {
-            const success = await onLogin(password);
+            const success = await onLogin(username, password);
             if (success) {
                 setError(false);
             } else {
@@ -45,26 +46,47 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
                     </div>
 
                     <form onSubmit={handleSubmit} className="space-y-6">
+                        <div>
+                            <label
+                                htmlFor="username"
+                                className="block text-[10px] font-black text-jobird-navy uppercase tracking-widest mb-3"
+                            >
+                                Username
+                            </label>
+                            <input
+                                id="username"
+                                type="text"
+                                required
+                                value={username}
+                                onChange={(e) => setUsername(e.target.value)}
+                                disabled={isLoading}
+                                className="w-full px-5 py-4 bg-slate-50 border-2 border-slate-100 focus:border-jobird-navy outline-none transition-all font-bold text-sm shadow-inner rounded-sm disabled:opacity-50"
+                                placeholder="e.g. j.smith"
+                                autoComplete="username"
+                                autoFocus
+                            />
+                        </div>
                         <div>
                             <label
                                 htmlFor="password"
                                 className="block text-[10px] font-black text-jobird-navy uppercase tracking-widest mb-3"
                             >
-                                Access Password
+                                Password
                             </label>
                             <input
                                 id="password"
                                 type="password"
+                                required
                                 value={password}
                                 onChange={(e) => setPassword(e.target.value)}
                                 disabled={isLoading}
                                 className={`w-full px-5 py-4 bg-slate-50 border-2 ${error ? 'border-jobird-red' : 'border-slate-100'} focus:border-jobird-navy outline-none transition-all font-mono text-sm shadow-inner rounded-sm disabled:opacity-50`}
                                 placeholder="••••••••"
-                                autoFocus
+                                autoComplete="current-password"
                             />
                             {error && (
                                 <p className="text-jobird-red text-[10px] font-black uppercase tracking-widest mt-3 animate-bounce">
-                                    Access Denied. Please try again.
+                                    Invalid username or password.
                                 </p>
                             )}
                         </div>
@@ -1,14 +1,16 @@
 
 import React from 'react';
-import { CabinetModel } from '../types';
+import { CabinetModel, SOP } from '../types';
+import { getInsulatedDimensions } from '../shared/insulation.js';
 
 interface ProductCatalogProps {
   catalog: CabinetModel[];
+  activeSops: SOP[];
   onSelect: (model: CabinetModel) => void;
   activeId?: string;
 }
 
-const ProductCatalog: React.FC<ProductCatalogProps> = ({ catalog, onSelect, activeId }) => {
+const ProductCatalog: React.FC<ProductCatalogProps> = ({ catalog, activeSops, onSelect, activeId }) => {
   // Real JoBird product line categories
   const categoryConfigs = [
     { 
@@ -57,21 +59,40 @@ const ProductCatalog: React.FC<ProductCatalogProps> = ({ catalog, onSelect, acti
             {/* Product List */}
             <div className="bg-white">
               {filteredItems.map(model => (
-                <button
-                  key={model.id}
-                  onClick={() => onSelect(model)}
-                  className={`w-full text-left px-8 py-3.5 text-[12px] font-bold border-b border-slate-50 transition-all duration-200 group flex items-center justify-between ${
-                    activeId === model.id 
-                      ? 'text-jobird-red bg-slate-50 border-l-4 border-l-jobird-red' 
-                      : 'text-slate-600 hover:text-jobird-red hover:bg-slate-50 border-l-4 border-l-transparent'
-                  }`}
-                >
-                  <span>
-                    <span className="opacity-50 mr-2">{model.id}</span>
-                    {model.title}
-                  </span>
-                  <i className={`fas fa-chevron-right text-[8px] transition-transform ${activeId === model.id ? 'translate-x-1 opacity-100' : 'opacity-0 group-hover:opacity-40'}`}></i>
-                </button>
+                <React.Fragment key={model.id}>
+                  <button
+                    onClick={() => onSelect(model)}
+                    className={`w-full text-left px-8 py-3.5 text-[12px] font-bold border-b border-slate-50 transition-all duration-200 group flex items-center justify-between ${
+                      activeId === model.id 
+                        ? 'text-jobird-red bg-slate-50 border-l-4 border-l-jobird-red' 
+                        : 'text-slate-600 hover:text-jobird-red hover:bg-slate-50 border-l-4 border-l-transparent'
+                    }`}
+                  >
+                    <span>
+                      <span className="opacity-50 mr-2">{model.id}</span>
+                      {model.title}
+                    </span>
+                    <i className={`fas fa-chevron-right text-[8px] transition-transform ${activeId === model.id ? 'translate-x-1 opacity-100' : 'opacity-0 group-hover:opacity-40'}`}></i>
+                  </button>
+                  {activeId === model.id && (() => {
+                    const insulated = getInsulatedDimensions(model, activeSops);
+                    return (
+                      <div className="px-8 py-3 bg-slate-50 border-b border-slate-100 border-l-4 border-l-jobird-red">
+                        <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">
+                          Internal H × W × D (mm){insulated.sopId && ` · ${insulated.sopId} v${insulated.sopVersion}`}
+                        </p>
+                        {insulated.options.map(o => (
+                          <div key={o.thicknessMm} className="flex justify-between text-[11px] font-bold text-slate-600 py-0.5">
+                            <span>{o.thicknessMm ? `${o.thicknessMm}mm insulation` : 'Uninsulated'}</span>
+                            <span className={`font-mono ${o.usable ? '' : 'text-jobird-red line-through'}`}>
+                              {o.internalDims.h} × {o.internalDims.w} × {o.internalDims.d}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  })()}
+                </React.Fragment>
               ))}
             </div>
           </div>
@@ -0,0 +1,39 @@
+import React from 'react';
+import { SelectionStageEvent } from '../types';
+
+interface SelectionProgressProps {
+  stages: SelectionStageEvent[]; // In the order the server reported them
+}
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// Pipeline steps shown in the answer bubble until the first words of the answer arrive
+const SelectionProgress: React.FC<SelectionProgressProps> = ({ stages }) => {
+  if (stages.length === 0) {
+    return (
+      <div className="text-[13px] font-bold text-slate-400 flex items-center gap-2">
+        <i className="fas fa-circle-notch fa-spin text-jobird-red"></i>
+        Connecting...
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-1">
+      {stages.map((stage, i) => {
+        const next = stages[i + 1];
+        return (
+          <li key={i} className={`text-[13px] font-bold flex items-center gap-2 ${next ? 'text-slate-400' : 'text-slate-700'}`}>
+            <i className={`fas w-3 ${next ? 'fa-check text-jobird-green' : 'fa-circle-notch fa-spin text-jobird-red'}`}></i>
+            <span>{stage.message}</span>
+            {next && (
+              <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest">{seconds(next.elapsedMs - stage.elapsedMs)}</span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default SelectionProgress;
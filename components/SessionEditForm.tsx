@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { ChatSessionSummary, SessionTag, SessionTagKind } from '../types';
+
+interface SessionEditFormProps {
+  session: ChatSessionSummary;
+  onSave: (patch: { title: string; tags: SessionTag[] }) => void;
+  onCancel: () => void;
+}
+
+export const TAG_KIND_LABELS: Record<SessionTagKind, string> = {
+  customer: 'Customer',
+  project: 'Project',
+  case: 'Case #'
+};
+
+// Inline rename + customer/project/case tagging for one sidebar entry
+const SessionEditForm: React.FC<SessionEditFormProps> = ({ session, onSave, onCancel }) => {
+  const [title, setTitle] = useState(session.title);
+  const [tags, setTags] = useState<SessionTag[]>(session.tags || []);
+  const [kind, setKind] = useState<SessionTagKind>('customer');
+  const [value, setValue] = useState('');
+
+  const addTag = () => {
+    const trimmed = value.trim();
+    if (!trimmed || tags.some(t => t.kind === kind && t.value.toLowerCase() === trimmed.toLowerCase())) return;
+    setTags([...tags, { kind, value: trimmed }]);
+    setValue('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+    onSave({ title: title.trim(), tags });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} onClick={e => e.stopPropagation()} className="p-3 bg-white border border-jobird-red space-y-2">
+      <input
+        autoFocus
+        required
+        value={title}
+        onChange={e => setTitle(e.target.value)}
+        className="w-full p-1.5 bg-jobird-lightGrey border border-slate-200 font-bold text-[13px] outline-none focus:border-jobird-red"
+      />
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tags.map((t, i) => (
+            <span key={i} className="text-[10px] font-bold bg-slate-100 text-slate-600 px-1.5 py-0.5 flex items-center gap-1">
+              {TAG_KIND_LABELS[t.kind]} {t.value}
+              <button type="button" onClick={() => setTags(tags.filter((_, j) => j !== i))} className="text-slate-400 hover:text-jobird-red">
+                <i className="fas fa-times text-[9px]"></i>
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-1">
+        <select value={kind} onChange={e => setKind(e.target.value as SessionTagKind)} className="p-1 bg-jobird-lightGrey border border-slate-200 text-[11px] font-bold outline-none">
+          {(Object.keys(TAG_KIND_LABELS) as SessionTagKind[]).map(k => <option key={k} value={k}>{TAG_KIND_LABELS[k]}</option>)}
+        </select>
+        <input
+          value={value}
+          onChange={e => setValue(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); addTag(); } }}
+          placeholder="Add tag"
+          className="flex-1 min-w-0 p-1 bg-jobird-lightGrey border border-slate-200 text-[11px] font-medium outline-none focus:border-jobird-red"
+        />
+        <button type="button" onClick={addTag} className="px-2 text-jobird-red hover:text-red-700"><i className="fas fa-plus text-[11px]"></i></button>
+      </div>
+      <div className="flex justify-end gap-3 pt-1">
+        <button type="button" onClick={onCancel} className="font-black text-slate-400 uppercase text-[9px] tracking-widest">Cancel</button>
+        <button type="submit" className="px-3 py-1.5 bg-jobird-red text-white font-black uppercase text-[9px] tracking-widest">Save</button>
+      </div>
+    </form>
+  );
+};
+
+export default SessionEditForm;
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { SessionShare } from '../types';
+import { fetchShares, createShare, revokeShare, shareUrl } from '../lib/shareApi';
+
+interface ShareSessionModalProps {
+  sessionId: string;
+  title: string;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS: { label: string; days?: number }[] = [
+  { label: 'Never' },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 }
+];
+
+const shareState = (share: SessionShare) =>
+  share.revokedAt ? 'Revoked'
+    : share.expiresAt && share.expiresAt < new Date().toISOString() ? 'Expired'
+    : share.expiresAt ? `Expires ${new Date(share.expiresAt).toLocaleDateString()}`
+    : 'No expiry';
+
+// Create and revoke read-only links to a frozen copy of the current session
+const ShareSessionModal: React.FC<ShareSessionModalProps> = ({ sessionId, title, onClose }) => {
+  const [shares, setShares] = useState<SessionShare[]>([]);
+  const [expiry, setExpiry] = useState(0);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchShares(sessionId)
+      .then(setShares)
+      .catch(err => setError(err.message || 'Could not load share links'));
+  }, [sessionId]);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Update failed');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      setCopied(token);
+    } catch {
+      window.prompt('Copy this link:', shareUrl(token));
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    const share = await createShare(sessionId, EXPIRY_OPTIONS[expiry].days);
+    setShares(current => [share, ...current]);
+    await copyLink(share.token);
+  });
+
+  const handleRevoke = (token: string) => run(async () => {
+    const revoked = await revokeShare(token);
+    setShares(current => current.map(s => s.token === token ? revoked : s));
+  });
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-lg max-h-[85vh] flex flex-col shadow-2xl animate-in fade-in zoom-in-95 duration-300 border-t-4 border-jobird-red">
+        <div className="p-4 bg-jobird-lightGrey border-b border-slate-200 flex justify-between items-center">
+          <h3 className="font-black text-slate-900 uppercase tracking-widest text-[10px]">Share "{title}"</h3>
+          <button type="button" onClick={onClose} className="text-slate-400 hover:text-jobird-red"><i className="fas fa-times"></i></button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto custom-scrollbar">
+          <div>
+            <p className="text-[12px] font-medium text-slate-600 mb-4">
+              Colleagues who open the link see the conversation and datasheets as they are now, read-only. Attached files are not shared.
+            </p>
+            <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Link expires after</label>
+            <div className="flex gap-2">
+              {EXPIRY_OPTIONS.map((option, i) => (
+                <button
+                  key={option.label}
+                  type="button"
+                  onClick={() => setExpiry(i)}
+                  className={`flex-1 py-2 text-[9px] font-black uppercase tracking-widest transition-all ${expiry === i ? 'bg-jobird-red text-white' : 'bg-jobird-lightGrey text-slate-400 border border-slate-200'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={isSaving}
+              className="mt-4 w-full py-3 bg-jobird-red text-white font-black uppercase text-[10px] tracking-widest hover:bg-red-700 disabled:opacity-50 transition-all"
+            >
+              <i className="fas fa-link mr-2"></i>
+              Create link
+            </button>
+          </div>
+
+          {shares.length > 0 && (
+            <div>
+              <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Links</label>
+              <div className="space-y-2">
+                {shares.map(share => {
+                  const live = !share.revokedAt && !(share.expiresAt && share.expiresAt < new Date().toISOString());
+                  return (
+                    <div key={share.token} className={`p-3 border border-slate-100 bg-slate-50 ${live ? '' : 'opacity-50'}`}>
+                      <div className="flex items-center gap-2">
+                        <input readOnly value={shareUrl(share.token)} onFocus={e => e.target.select()} className="flex-1 min-w-0 p-1.5 bg-white border border-slate-200 text-[11px] font-mono text-slate-600 outline-none" />
+                        {live && (
+                          <>
+                            <button type="button" onClick={() => copyLink(share.token)} className="text-[9px] font-black text-slate-400 hover:text-jobird-red uppercase tracking-widest">
+                              {copied === share.token ? 'Copied' : 'Copy'}
+                            </button>
+                            <button type="button" onClick={() => handleRevoke(share.token)} disabled={isSaving} className="text-[9px] font-black text-jobird-red hover:text-red-700 uppercase tracking-widest">
+                              Revoke
+                            </button>
+                          </>
+                        )}
+                      </div>
+                      <p className="text-[10px] text-slate-400 font-bold mt-1.5">
+                        Created {new Date(share.createdAt).toLocaleString()} · {shareState(share)} · {share.viewCount} view{share.viewCount === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <p className="text-[12px] font-bold text-jobird-red flex items-center gap-2">
+              <i className="fas fa-triangle-exclamation"></i>
+              {error}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareSessionModal;
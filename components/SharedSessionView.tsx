@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { CabinetModel, SOP, SharedSession } from '../types';
+import { fetchSharedSession } from '../lib/shareApi';
+import ChatInterface from './ChatInterface';
+
+interface SharedSessionViewProps {
+  token: string;
+  catalog: CabinetModel[];
+  activeSops: SOP[];
+  onClose: () => void;
+}
+
+// A colleague's session opened from a share link: the frozen snapshot, read-only
+const SharedSessionView: React.FC<SharedSessionViewProps> = ({ token, catalog, activeSops, onClose }) => {
+  const [shared, setShared] = useState<SharedSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSharedSession(token)
+      .then(setShared)
+      .catch(err => setError(err.message || 'Could not open this share link'));
+  }, [token]);
+
+  return (
+    <main className="flex-1 flex flex-col overflow-hidden">
+      <div className="px-6 py-3 bg-jobird-lightGrey border-b border-slate-200 flex items-center justify-between gap-4">
+        <div className="text-[11px] font-bold text-slate-500 flex items-center gap-2 min-w-0">
+          <i className="fas fa-eye text-jobird-red"></i>
+          {shared ? (
+            <span className="truncate">
+              <span className="font-black text-slate-800">{shared.title}</span>
+              {' '}· Read-only snapshot shared by {shared.sharedBy} on {new Date(shared.createdAt).toLocaleDateString()}
+              {shared.expiresAt && ` · Link expires ${new Date(shared.expiresAt).toLocaleString()}`}
+            </span>
+          ) : (
+            <span>Shared conversation</span>
+          )}
+        </div>
+        <button onClick={onClose} className="text-[9px] font-black text-slate-400 hover:text-jobird-red uppercase tracking-widest flex items-center gap-2 flex-shrink-0">
+          <i className="fas fa-arrow-left"></i>
+          Back to my chats
+        </button>
+      </div>
+      <div className="flex-1 p-4 lg:p-6 overflow-y-auto bg-slate-50/30">
+        {error ? (
+          <div className="h-full flex flex-col items-center justify-center gap-3 text-slate-400">
+            <i className="fas fa-link-slash text-3xl"></i>
+            <p className="text-[13px] font-bold">{error}</p>
+          </div>
+        ) : shared ? (
+          <ChatInterface
+            catalog={catalog}
+            activeSops={activeSops}
+            selectedModel={null}
+            initialMessages={shared.messages}
+            initialDatasheets={shared.datasheets}
+            readOnly
+          />
+        ) : (
+          <div className="h-full flex items-center justify-center text-slate-300">
+            <i className="fas fa-circle-notch fa-spin text-3xl"></i>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default SharedSessionView;
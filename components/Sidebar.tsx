@@ -1,24 +1,72 @@
 
-import React from 'react';
-import { Message, DatasheetReference } from '../types';
-
-interface ChatSession {
-    id: string;
-    title: string;
-    messages: Message[];
-    datasheets: DatasheetReference[];
-    timestamp: Date;
-}
+import React, { useEffect, useState } from 'react';
+import { ChatSessionSummary, ChatSessionMeta, ChatSearchResult, SessionTag } from '../types';
+import { searchChatSessions } from '../lib/chatSessionApi';
+import SessionEditForm, { TAG_KIND_LABELS } from './SessionEditForm';
 
 interface SidebarProps {
-    sessions: ChatSession[];
-    activeSessionId: string;
+    sessions: ChatSessionSummary[];
+    isLoading: boolean; // Saved sessions still being fetched
+    activeSessionId: string | null;
     onSelectSession: (id: string) => void;
     onNewChat: () => void;
     onDeleteSession: (id: string) => void;
+    onOpenSearchResult: (sessionId: string, messageIndex?: number) => void;
+    onUpdateSession: (id: string, patch: Partial<ChatSessionMeta>) => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ sessions, activeSessionId, onSelectSession, onNewChat, onDeleteSession }) => {
+const tagKey = (tag: SessionTag) => `${tag.kind}:${tag.value.toLowerCase()}`;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Wrap every occurrence of the matched terms in <mark>
+const highlight = (text: string, terms: string[]) => {
+    if (terms.length === 0) return text;
+    const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+    return text.split(pattern).map((part, i) => i % 2 === 1
+        ? <mark key={i} className="bg-amber-200 text-slate-900 px-0.5">{part}</mark>
+        : part);
+};
+
+const Sidebar: React.FC<SidebarProps> = ({ sessions, isLoading, activeSessionId, onSelectSession, onNewChat, onDeleteSession, onOpenSearchResult, onUpdateSession }) => {
+    const [query, setQuery] = useState('');
+    const [tagFilter, setTagFilter] = useState('');
+    const [showArchived, setShowArchived] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [search, setSearch] = useState<{ terms: string[]; results: ChatSearchResult[] } | null>(null);
+    const [isSearching, setIsSearching] = useState(false);
+    const [searchError, setSearchError] = useState<string | null>(null);
+
+    // Debounced; a newer query aborts the request still in flight
+    useEffect(() => {
+        if (!query.trim()) {
+            setSearch(null);
+            setSearchError(null);
+            return;
+        }
+        const controller = new AbortController();
+        const timer = setTimeout(() => {
+            setIsSearching(true);
+            searchChatSessions(query, controller.signal)
+                .then(data => { setSearch(data); setSearchError(null); })
+                .catch(err => { if (err.name !== 'AbortError') setSearchError(err.message || 'Search failed'); })
+                .finally(() => setIsSearching(false));
+        }, 250);
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [query]);
+
+    // Every tag in use, for the filter; pinned sessions first, archived ones only on request
+    const allTags = [...new Map<string, SessionTag>(sessions.flatMap(s => s.tags || []).map(t => [tagKey(t), t])).values()]
+        .sort((a, b) => a.kind.localeCompare(b.kind) || a.value.localeCompare(b.value));
+    const archivedCount = sessions.filter(s => s.archived).length;
+    const visible = sessions.filter(s => !!s.archived === showArchived && (!tagFilter || (s.tags || []).some(t => tagKey(t) === tagFilter)));
+    const ordered = [...visible.filter(s => s.pinned), ...visible.filter(s => !s.pinned)];
+
+    const actionClass = 'text-slate-400 hover:text-jobird-red p-1 transition-all';
+
     return (
         <div className="w-64 bg-slate-50 border-r border-slate-200 flex flex-col h-full shadow-inner">
             <div className="p-4 border-b border-slate-200 bg-white">
@@ -29,42 +77,140 @@ const Sidebar: React.FC<SidebarProps> = ({ sessions, activeSessionId, onSelectSe
                     <i className="fas fa-plus"></i>
                     New Chat
                 </button>
+                <div className="relative mt-3">
+                    <i className="fas fa-search absolute left-3 top-1/2 -translate-y-1/2 text-slate-300 text-[12px]"></i>
+                    <input
+                        value={query}
+                        onChange={e => setQuery(e.target.value)}
+                        placeholder="Search conversations..."
+                        className="w-full pl-8 pr-7 py-2 bg-jobird-lightGrey border border-slate-200 text-[13px] font-medium outline-none focus:border-jobird-red"
+                    />
+                    {query && (
+                        <button onClick={() => setQuery('')} className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-400 hover:text-jobird-red p-1">
+                            <i className="fas fa-times text-[11px]"></i>
+                        </button>
+                    )}
+                </div>
             </div>
 
-            <div className="flex-1 overflow-y-auto p-3 space-y-2 custom-scrollbar">
-                <div className="text-[12px] font-black text-slate-400 uppercase tracking-widest mb-3 px-2">History</div>
-                {sessions.map((session) => (
-                    <div
-                        key={session.id}
-                        className={`group relative p-3 rounded-sm border cursor-pointer transition-all ${activeSessionId === session.id
-                            ? 'bg-white border-jobird-red shadow-sm'
-                            : 'bg-transparent border-transparent hover:bg-slate-200/50'
-                            }`}
-                        onClick={() => onSelectSession(session.id)}
-                    >
-                        <div className={`text-[14px] font-bold truncate pr-6 ${activeSessionId === session.id ? 'text-jobird-red' : 'text-slate-600'
-                            }`}>
-                            {session.title}
+            {query.trim() ? (
+                <div className="flex-1 overflow-y-auto p-3 space-y-2 custom-scrollbar">
+                    <div className="text-[12px] font-black text-slate-400 uppercase tracking-widest mb-3 px-2 flex items-center justify-between">
+                        Results{search && ` (${search.results.length})`}
+                        {isSearching && <i className="fas fa-circle-notch fa-spin text-[11px]"></i>}
+                    </div>
+                    {searchError && <div className="text-[12px] text-jobird-red font-bold px-2">{searchError}</div>}
+                    {search?.results.map(result => (
+                        <div key={result.sessionId} className="p-3 rounded-sm border border-slate-200 bg-white">
+                            <div className="text-[13px] font-bold text-slate-700 truncate">{highlight(result.title, search.terms)}</div>
+                            <div className="text-[11px] text-slate-400 mb-2">{new Date(result.updatedAt).toLocaleDateString()}</div>
+                            {result.hits.map((hit, i) => (
+                                <button
+                                    key={i}
+                                    onClick={() => onOpenSearchResult(result.sessionId, hit.messageIndex)}
+                                    className="block w-full text-left text-[12px] text-slate-500 leading-snug p-2 -mx-1 hover:bg-slate-100 transition-colors"
+                                >
+                                    {hit.role && <i className={`fas ${hit.role === 'user' ? 'fa-user-tie' : 'fa-robot'} text-slate-300 mr-1.5`}></i>}
+                                    {highlight(hit.snippet, search.terms)}
+                                </button>
+                            ))}
                         </div>
-                        <div className="text-[11px] text-slate-400 mt-1">
-                            {new Date(session.timestamp).toLocaleDateString()}
+                    ))}
+                    {search && search.results.length === 0 && !isSearching && (
+                        <div className="text-[13px] text-slate-400 italic px-2 py-4">No conversations match</div>
+                    )}
+                </div>
+            ) : (
+                <div className="flex-1 overflow-y-auto p-3 space-y-2 custom-scrollbar">
+                    <div className="text-[12px] font-black text-slate-400 uppercase tracking-widest mb-3 px-2 flex items-center justify-between">
+                        {showArchived ? 'Archived' : 'History'}
+                        {isLoading && <i className="fas fa-circle-notch fa-spin text-[11px]"></i>}
+                    </div>
+                    {(allTags.length > 0 || archivedCount > 0) && (
+                        <div className="flex items-center gap-2 px-2 mb-3">
+                            {allTags.length > 0 && (
+                                <select
+                                    value={tagFilter}
+                                    onChange={e => setTagFilter(e.target.value)}
+                                    className="flex-1 min-w-0 p-1 bg-white border border-slate-200 text-[11px] font-bold text-slate-600 outline-none focus:border-jobird-red"
+                                >
+                                    <option value="">All tags</option>
+                                    {allTags.map(t => <option key={tagKey(t)} value={tagKey(t)}>{TAG_KIND_LABELS[t.kind]} {t.value}</option>)}
+                                </select>
+                            )}
+                            {archivedCount > 0 && (
+                                <button
+                                    onClick={() => setShowArchived(v => !v)}
+                                    className={`text-[10px] font-black uppercase tracking-widest whitespace-nowrap ${showArchived ? 'text-jobird-red' : 'text-slate-400 hover:text-slate-600'}`}
+                                >
+                                    <i className="fas fa-box-archive mr-1"></i>{showArchived ? 'Back' : archivedCount}
+                                </button>
+                            )}
                         </div>
-
-                        <button
-                            onClick={(e) => {
-                                e.stopPropagation();
-                                onDeleteSession(session.id);
+                    )}
+                    {ordered.map((session) => editingId === session.id ? (
+                        <SessionEditForm
+                            key={session.id}
+                            session={session}
+                            onSave={patch => {
+                                onUpdateSession(session.id, patch);
+                                setEditingId(null);
                             }}
-                            className="absolute right-2 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 text-slate-400 hover:text-jobird-red p-1 transition-all"
+                            onCancel={() => setEditingId(null)}
+                        />
+                    ) : (
+                        <div
+                            key={session.id}
+                            className={`group relative p-3 rounded-sm border cursor-pointer transition-all ${activeSessionId === session.id
+                                ? 'bg-white border-jobird-red shadow-sm'
+                                : 'bg-transparent border-transparent hover:bg-slate-200/50'
+                                }`}
+                            onClick={() => onSelectSession(session.id)}
                         >
-                            <i className="fas fa-trash-alt text-[12px]"></i>
-                        </button>
-                    </div>
-                ))}
-                {sessions.length === 0 && (
-                    <div className="text-[13px] text-slate-400 italic px-2 py-4">No recent chats</div>
-                )}
-            </div>
+                            <div className={`text-[14px] font-bold truncate pr-6 ${activeSessionId === session.id ? 'text-jobird-red' : 'text-slate-600'
+                                }`}>
+                                {session.pinned && <i className="fas fa-thumbtack text-[11px] text-jobird-red mr-1.5"></i>}
+                                {session.title}
+                            </div>
+                            {session.tags && session.tags.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-1.5">
+                                    {session.tags.map(t => (
+                                        <span key={tagKey(t)} className="text-[10px] font-bold bg-slate-100 text-slate-500 px-1.5 py-0.5">
+                                            {TAG_KIND_LABELS[t.kind]} {t.value}
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                            <div className="text-[11px] text-slate-400 mt-1">
+                                {new Date(session.timestamp).toLocaleDateString()}
+                            </div>
+
+                            <div
+                                onClick={e => e.stopPropagation()}
+                                className="absolute right-1 top-1 flex opacity-0 group-hover:opacity-100 bg-slate-50/90 transition-all"
+                            >
+                                <button title={session.pinned ? 'Unpin' : 'Pin'} onClick={() => onUpdateSession(session.id, { pinned: !session.pinned })} className={actionClass}>
+                                    <i className="fas fa-thumbtack text-[11px]"></i>
+                                </button>
+                                <button title="Rename and tag" onClick={() => setEditingId(session.id)} className={actionClass}>
+                                    <i className="fas fa-pen text-[11px]"></i>
+                                </button>
+                                <button title={session.archived ? 'Unarchive' : 'Archive'} onClick={() => onUpdateSession(session.id, { archived: !session.archived })} className={actionClass}>
+                                    <i className={`fas ${session.archived ? 'fa-box-open' : 'fa-box-archive'} text-[11px]`}></i>
+                                </button>
+                                <button title="Delete" onClick={() => onDeleteSession(session.id)} className={actionClass}>
+                                    <i className="fas fa-trash-alt text-[11px]"></i>
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                    {ordered.length === 0 && !isLoading && (
+                        <div className="text-[13px] text-slate-400 italic px-2 py-4">
+                            {tagFilter ? 'No chats with this tag' : showArchived ? 'No archived chats' : 'No recent chats'}
+                        </div>
+                    )}
+                </div>
+            )}
 
 
         </div>
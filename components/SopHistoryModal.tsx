@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { SOP } from '../types';
+import { fetchSopHistory } from '../lib/sopApi';
+import { diffSops } from '../lib/sopDiff';
+
+interface SopHistoryModalProps {
+  sopId: string;
+  onClose: () => void;
+}
+
+const STATUS_CLASSES: Record<SOP['status'], string> = {
+  Active: 'bg-green-100 text-green-800',
+  Draft: 'bg-amber-100 text-amber-800',
+  Approved: 'bg-blue-100 text-blue-800',
+  Rejected: 'bg-red-100 text-red-800',
+  Deprecated: 'bg-slate-200 text-slate-500'
+};
+
+const SopHistoryModal: React.FC<SopHistoryModalProps> = ({ sopId, onClose }) => {
+  const [history, setHistory] = useState<SOP[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  // Indices into history; base -1 compares the first version against nothing
+  const [baseIdx, setBaseIdx] = useState(-1);
+  const [targetIdx, setTargetIdx] = useState(0);
+
+  useEffect(() => {
+    fetchSopHistory(sopId)
+      .then(versions => {
+        setHistory(versions);
+        // Default to the newest change: the selected SOP against the version before it
+        const selected = Math.max(0, versions.findIndex(v => v.id === sopId));
+        setTargetIdx(selected);
+        setBaseIdx(selected - 1);
+      })
+      .catch(err => setError(err.message || 'Failed to load history'))
+      .finally(() => setIsLoading(false));
+  }, [sopId]);
+
+  const base = baseIdx >= 0 ? history[baseIdx] : null;
+  const target = history[targetIdx];
+  const diffs = target ? diffSops(base, target) : [];
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-5xl max-h-[85vh] flex flex-col shadow-2xl animate-in fade-in zoom-in-95 duration-300 border-t-4 border-jobird-red">
+        <div className="p-4 bg-jobird-lightGrey border-b border-slate-200 flex justify-between items-center">
+          <h3 className="font-black text-slate-900 uppercase tracking-widest text-[10px]">Version history · {sopId}</h3>
+          <button type="button" onClick={onClose} className="text-slate-400 hover:text-jobird-red"><i className="fas fa-times"></i></button>
+        </div>
+
+        {isLoading ? (
+          <div className="p-12 text-center text-[12px] font-bold text-slate-400 uppercase tracking-widest">Loading history...</div>
+        ) : error ? (
+          <div className="p-8 text-[13px] font-bold text-jobird-red flex items-center gap-2">
+            <i className="fas fa-triangle-exclamation"></i>
+            {error}
+          </div>
+        ) : (
+          <div className="flex-1 grid grid-cols-12 min-h-0">
+            {/* Timeline */}
+            <ol className="col-span-4 border-r border-slate-100 overflow-y-auto custom-scrollbar p-6 space-y-6">
+              {history.map((sop, idx) => (
+                <li key={sop.id} className="relative pl-6">
+                  <span className={`absolute left-0 top-1 w-3 h-3 rounded-full border-2 ${idx === targetIdx ? 'bg-jobird-red border-jobird-red' : 'bg-white border-slate-300'}`}></span>
+                  {idx < history.length - 1 && <span className="absolute left-[5px] top-5 -bottom-6 w-0.5 bg-slate-200"></span>}
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-mono font-black text-slate-700 text-[12px]">v{sop.version}</span>
+                    <span className={`px-2 py-0.5 rounded-sm font-black text-[9px] uppercase tracking-widest ${STATUS_CLASSES[sop.status]}`}>{sop.status}</span>
+                  </div>
+                  <p className="text-[11px] font-bold text-slate-500 mt-1">{sop.id} · {sop.lastUpdated}</p>
+                  <p className="text-[11px] text-slate-500 mt-0.5">Proposed by <span className="font-bold text-slate-700">{sop.proposedBy || 'unknown'}</span></p>
+                  {sop.changeReason && <p className="text-[12px] italic text-slate-600 mt-1">"{sop.changeReason}"</p>}
+                  {sop.effectiveDate && <p className="text-[11px] text-slate-500 mt-0.5">Effective {sop.effectiveDate}</p>}
+                  {sop.reviews && sop.reviews.length > 0 && (
+                    <p className="text-[11px] text-slate-500 mt-0.5">
+                      Reviewed by {sop.reviews.map(r => `${r.reviewer} (${r.role}, ${r.decision === 'approve' ? 'approved' : 'rejected'})`).join(', ')}
+                    </p>
+                  )}
+                  <div className="flex gap-3 mt-2">
+                    <button
+                      disabled={idx >= targetIdx}
+                      onClick={() => setBaseIdx(idx)}
+                      className={`text-[9px] font-black uppercase tracking-widest disabled:opacity-30 ${idx === baseIdx ? 'text-jobird-navy underline' : 'text-slate-400 hover:text-jobird-navy'}`}
+                    >
+                      Compare from
+                    </button>
+                    <button
+                      disabled={idx <= baseIdx}
+                      onClick={() => setTargetIdx(idx)}
+                      className={`text-[9px] font-black uppercase tracking-widest disabled:opacity-30 ${idx === targetIdx ? 'text-jobird-red underline' : 'text-slate-400 hover:text-jobird-red'}`}
+                    >
+                      Compare to
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ol>
+
+            {/* Field-level diff */}
+            <div className="col-span-8 overflow-y-auto custom-scrollbar">
+              <div className="px-6 py-3 bg-slate-50 border-b border-slate-100 text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                {base ? `v${base.version} → v${target?.version}` : `v${target?.version} · first issue`}
+              </div>
+              <table className="w-full text-left text-[12px]">
+                <tbody className="divide-y divide-slate-50">
+                  {diffs.map(d => (
+                    <tr key={d.field} className={d.changed ? 'bg-amber-50/30' : ''}>
+                      <td className="px-6 py-3 w-40 align-top text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                        {d.label}
+                        {d.changed && <i className="fas fa-circle text-[5px] text-amber-500 ml-2 align-middle"></i>}
+                      </td>
+                      <td className="px-6 py-3 whitespace-pre-wrap text-slate-700 font-medium">
+                        {d.segments.length === 0 ? <span className="text-slate-300">—</span> : d.segments.map((seg, i) => (
+                          <span
+                            key={i}
+                            className={seg.type === 'added' ? 'bg-green-100 text-green-900' : seg.type === 'removed' ? 'bg-red-100 text-red-800 line-through' : ''}
+                          >
+                            {seg.text}
+                          </span>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SopHistoryModal;
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { SOP, SopWorkflowRule, User } from '../types';
+import { SopReviewInput } from '../lib/sopApi';
+import { reviewProgress } from '../shared/sopWorkflow.js';
+import { canGiveApproval } from '../shared/permissions.js';
+
+interface SopReviewModalProps {
+  sop: SOP;
+  workflow: SopWorkflowRule[];
+  reviewer: User;
+  onSubmit: (review: SopReviewInput) => Promise<void>;
+  onClose: () => void;
+}
+
+const SopReviewModal: React.FC<SopReviewModalProps> = ({ sop, workflow, reviewer, onSubmit, onClose }) => {
+  const progress = reviewProgress(sop, workflow);
+  const roleProgress = progress.find(p => p.role === reviewer.role);
+  // Approving needs an open slot for the reviewer's role and can't complete the review without an admin;
+  // any reviewer may reject with a reason
+  const awaitsAdmin = !canGiveApproval(reviewer.role, sop, workflow);
+  const canApprove = !!roleProgress && roleProgress.approvals.length < roleProgress.count && !awaitsAdmin;
+  const alreadyReviewed = (sop.reviews || []).some(r => r.reviewer.toLowerCase() === reviewer.username.toLowerCase());
+
+  const [decision, setDecision] = useState<'approve' | 'reject'>(canApprove ? 'approve' : 'reject');
+  const [comment, setComment] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(sop.effectiveDate || '');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await onSubmit({ decision, comment: comment || undefined, effectiveDate: effectiveDate || undefined });
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to submit review');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-lg shadow-2xl animate-in fade-in zoom-in-95 duration-300 border-t-4 border-jobird-red">
+        <form onSubmit={handleSubmit}>
+          <div className="p-4 bg-jobird-lightGrey border-b border-slate-200 flex justify-between items-center">
+            <h3 className="font-black text-slate-900 uppercase tracking-widest text-[10px]">Review {sop.id} v{sop.version}</h3>
+            <button type="button" onClick={onClose} className="text-slate-400 hover:text-jobird-red"><i className="fas fa-times"></i></button>
+          </div>
+          <div className="p-6 space-y-5 max-h-[65vh] overflow-y-auto custom-scrollbar">
+            <div>
+              <p className="text-[13px] font-bold text-slate-800">{sop.title}</p>
+              <p className="text-[12px] text-slate-500 mt-1">{sop.description}</p>
+            </div>
+
+            <div>
+              <p className="text-[9px] font-black text-slate-400 uppercase mb-2 tracking-widest">Required sign-off ({sop.category})</p>
+              <div className="flex flex-wrap gap-2">
+                {progress.map(p => (
+                  <span key={p.role} className={`px-2.5 py-1 rounded-sm font-black text-[10px] uppercase tracking-widest ${p.approvals.length >= p.count ? 'bg-green-100 text-green-800' : 'bg-slate-100 text-slate-500'}`}>
+                    {p.role} {p.approvals.length}/{p.count}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {sop.reviews && sop.reviews.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Reviews</p>
+                {sop.reviews.map((r, i) => (
+                  <div key={i} className="p-3 bg-slate-50 border border-slate-100">
+                    <p className="text-[11px] font-black text-slate-700 uppercase tracking-widest">
+                      <i className={`fas ${r.decision === 'approve' ? 'fa-check text-green-600' : 'fa-times text-jobird-red'} mr-2`}></i>
+                      {r.reviewer} · {r.role}
+                    </p>
+                    {r.comment && <p className="text-[12px] italic text-slate-600 mt-1">"{r.comment}"</p>}
+                    <p className="text-[10px] text-slate-400 font-bold mt-1">{new Date(r.timestamp).toLocaleString()}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <p className="text-[12px] font-bold text-slate-600">
+              Signing as <span className="text-slate-900">{reviewer.name}</span> · <span className="uppercase text-[10px] tracking-widest">{reviewer.role}</span>
+              {!canApprove && !alreadyReviewed && (
+                <span className="block text-[11px] text-slate-400 mt-1">
+                  {!roleProgress
+                    ? `${sop.category} SOPs are not approved by the ${reviewer.role} role.`
+                    : awaitsAdmin
+                      ? 'An admin must approve before your sign-off can complete the review.'
+                      : `The ${reviewer.role} approvals are already complete.`} You can still reject with a reason.
+                </span>
+              )}
+            </p>
+
+            <div className="flex gap-2">
+              {(['approve', 'reject'] as const).map(d => (
+                <button
+                  key={d}
+                  type="button"
+                  disabled={d === 'approve' && !canApprove}
+                  onClick={() => setDecision(d)}
+                  className={`flex-1 py-2 text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-30 ${decision === d ? (d === 'approve' ? 'bg-green-700 text-white' : 'bg-jobird-red text-white') : 'bg-jobird-lightGrey text-slate-400 border border-slate-200'}`}
+                >
+                  {d}
+                </button>
+              ))}
+            </div>
+
+            <div>
+              <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">
+                {decision === 'reject' ? 'Reason for rejection' : 'Comment (optional)'}
+              </label>
+              <textarea required={decision === 'reject'} value={comment} onChange={e => setComment(e.target.value)} rows={3} className="w-full p-2.5 bg-jobird-lightGrey border border-slate-200 text-xs font-medium outline-none focus:border-jobird-red" />
+            </div>
+
+            {decision === 'approve' && (
+              <div>
+                <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Effective date (blank = on final approval)</label>
+                <input type="date" value={effectiveDate} onChange={e => setEffectiveDate(e.target.value)} className="w-full p-2.5 bg-jobird-lightGrey border border-slate-200 font-bold text-xs outline-none focus:border-jobird-red" />
+              </div>
+            )}
+
+            {error && (
+              <p className="text-[12px] font-bold text-jobird-red flex items-center gap-2">
+                <i className="fas fa-triangle-exclamation"></i>
+                {error}
+              </p>
+            )}
+          </div>
+          <div className="p-4 bg-jobird-lightGrey border-t border-slate-200 flex justify-end gap-4">
+            <button type="button" onClick={onClose} className="px-3 py-2 font-black text-slate-400 uppercase text-[9px] tracking-widest">Cancel</button>
+            <button type="submit" disabled={isSubmitting || alreadyReviewed} title={alreadyReviewed ? 'You have already reviewed this draft' : undefined} className="px-6 py-2.5 bg-jobird-red text-white font-black uppercase text-[9px] tracking-widest shadow-xl disabled:opacity-50">Submit review</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SopReviewModal;
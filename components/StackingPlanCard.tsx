@@ -0,0 +1,78 @@
+import React from 'react';
+import { StackingPlanResult } from '../types';
+
+interface StackingPlanCardProps {
+  result: StackingPlanResult;
+}
+
+const LIMIT_LABELS = {
+  sopTiers: 'SOP tier limit',
+  sopHeight: 'SOP height limit',
+  deckHeight: 'Deck height'
+};
+
+const StackingPlanCard: React.FC<StackingPlanCardProps> = ({ result }) => {
+  return (
+    <div className="border border-slate-200 border-t-4 border-t-jobird-navy bg-white shadow-sm w-full">
+      <div className="px-4 py-3 bg-jobird-lightGrey border-b border-slate-200 flex items-center justify-between">
+        <h4 className="font-black text-slate-700 uppercase tracking-widest text-[11px] flex items-center gap-2">
+          <i className="fas fa-layer-group text-jobird-navy"></i>
+          Chest Stacking Plan
+        </h4>
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          {result.lifejackets} lifejackets · {result.deckHeightMm} mm deck height
+        </span>
+      </div>
+
+      {result.plans.length === 0 ? (
+        <div className="px-4 py-6 text-[13px] text-slate-500 italic">
+          No chest model can be used within this deck height.
+        </div>
+      ) : (
+        result.plans.map((plan, rank) => (
+          <div key={plan.modelId} className={`px-4 py-3 border-b border-slate-100 last:border-b-0 ${rank === 0 ? 'bg-green-50/40' : ''}`}>
+            <div className="flex items-baseline justify-between mb-2">
+              <p className="text-[13px]">
+                <span className="font-black text-jobird-red">{plan.chests} × {plan.modelId}</span>
+                <span className="text-slate-500 font-medium ml-2">{plan.title}</span>
+              </p>
+              {plan.sopId && (
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{plan.sopId} v{plan.sopVersion}</span>
+              )}
+            </div>
+            <div className="flex items-end gap-2 mb-3">
+              {plan.stacks.map((height, i) => (
+                <div key={i} className="flex flex-col-reverse gap-0.5">
+                  {Array.from({ length: height }, (_, t) => (
+                    <div key={t} className="w-10 h-4 bg-jobird-navy/80 border border-jobird-navy"></div>
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-4 gap-2 text-[11px]">
+              <div><p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Stacks</p><p className="font-bold text-slate-700">{plan.stacks.join(' / ')}</p></div>
+              <div><p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Max tiers</p><p className="font-bold text-slate-700">{plan.tiers} <span className="text-slate-400 font-medium">({LIMIT_LABELS[plan.limitedBy]})</span></p></div>
+              <div><p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Height</p><p className="font-mono font-bold text-slate-700">{plan.stackHeightMm} mm</p></div>
+              <div><p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Footprint</p><p className="font-mono font-bold text-slate-700">{plan.footprint.w} × {plan.footprint.d} mm</p></div>
+            </div>
+            <p className="text-[11px] text-slate-400 mt-2">
+              {plan.perChest} per chest · {plan.spareCapacity} spare place{plan.spareCapacity !== 1 ? 's' : ''}
+            </p>
+          </div>
+        ))
+      )}
+
+      {result.rejected.length > 0 && (
+        <div className="px-4 py-3 border-t border-slate-100">
+          {result.rejected.map(r => (
+            <p key={r.modelId} className="text-[12px] text-slate-500">
+              <span className="font-bold text-slate-600">{r.modelId}</span>: {r.reason}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StackingPlanCard;
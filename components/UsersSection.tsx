@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { User, UserRole } from '../types';
+import { fetchUsers, createUser, updateUser } from '../lib/authApi';
+
+interface UsersSectionProps {
+  currentUser: User;
+  onChanged: () => void; // Account changes are audited, so the parent refreshes the log
+}
+
+const emptyForm = { username: '', name: '', role: 'sales' as UserRole, password: '' };
+
+const UsersSection: React.FC<UsersSectionProps> = ({ currentUser, onChanged }) => {
+  const [users, setUsers] = useState<User[]>([]);
+  const [roles, setRoles] = useState<UserRole[]>(['sales', 'engineering', 'admin']);
+  const [form, setForm] = useState(emptyForm);
+  const [showForm, setShowForm] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingUser, setPendingUser] = useState<string | null>(null);
+
+  const load = () => fetchUsers()
+    .then(data => { setUsers(data.users); setRoles(data.roles); })
+    .catch(err => setError(err.message || 'Failed to load users'));
+
+  useEffect(() => { load(); }, []);
+
+  const run = async (username: string, action: () => Promise<unknown>) => {
+    setError(null);
+    setPendingUser(username);
+    try {
+      await action();
+      await load();
+      onChanged();
+    } catch (err: any) {
+      setError(`${username}: ${err.message || 'Request failed'}`);
+    } finally {
+      setPendingUser(null);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(form.username, async () => {
+      await createUser(form);
+      setForm(emptyForm);
+      setShowForm(false);
+    });
+  };
+
+  const handleResetPassword = (user: User) => {
+    const password = window.prompt(`New password for ${user.username} (min. 8 characters)`);
+    if (password) run(user.username, () => updateUser(user.username, { password }));
+  };
+
+  const inputClass = 'w-full p-2.5 bg-jobird-lightGrey border border-slate-200 font-bold text-xs outline-none focus:border-jobird-red';
+
+  return (
+    <section className="bg-white xl:col-span-12 shadow-sm border border-slate-200 overflow-hidden rounded-sm">
+      <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <i className="fas fa-users text-jobird-red text-xl"></i>
+          <h3 className="font-black text-slate-700 text-[13px] uppercase tracking-widest">User Accounts</h3>
+        </div>
+        <button onClick={() => setShowForm(v => !v)} className="text-jobird-red font-black hover:text-red-700 uppercase text-[10px] tracking-widest transition-colors flex items-center gap-2">
+          <i className={`fas ${showForm ? 'fa-times' : 'fa-plus'}`}></i> {showForm ? 'Cancel' : 'Add user'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="px-8 py-3 bg-red-50 border-b border-red-100 text-[12px] font-bold text-jobird-red flex items-center gap-2">
+          <i className="fas fa-triangle-exclamation"></i>
+          {error}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="px-8 py-5 bg-slate-50 border-b border-slate-100 grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+          <div>
+            <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Username</label>
+            <input required value={form.username} onChange={e => setForm({ ...form, username: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Name</label>
+            <input required value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Role</label>
+            <select value={form.role} onChange={e => setForm({ ...form, role: e.target.value as UserRole })} className={inputClass}>
+              {roles.map(r => <option key={r} value={r}>{r}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-[9px] font-black text-slate-400 uppercase mb-1.5 tracking-widest">Initial password</label>
+            <input required type="password" minLength={8} autoComplete="new-password" value={form.password} onChange={e => setForm({ ...form, password: e.target.value })} className={inputClass} />
+          </div>
+          <button type="submit" disabled={pendingUser === form.username} className="px-6 py-2.5 bg-jobird-red text-white font-black uppercase text-[9px] tracking-widest shadow-xl disabled:opacity-50">Create</button>
+        </form>
+      )}
+
+      <table className="w-full text-left text-xs">
+        <thead className="bg-slate-50 text-slate-500 font-black uppercase tracking-widest border-b border-slate-100">
+          <tr>
+            <th className="px-8 py-4">User</th>
+            <th className="px-8 py-4">Role</th>
+            <th className="px-8 py-4">Status</th>
+            <th className="px-8 py-4 text-right">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-50">
+          {users.map(user => (
+            <tr key={user.username} className={user.disabled ? 'opacity-50' : ''}>
+              <td className="px-8 py-4">
+                <span className="font-black text-slate-700">{user.name}</span>
+                <span className="block text-[10px] text-slate-400 font-bold mt-0.5">{user.username}{user.username === currentUser.username && ' · you'}</span>
+              </td>
+              <td className="px-8 py-4">
+                <select
+                  value={user.role}
+                  disabled={pendingUser === user.username}
+                  onChange={e => run(user.username, () => updateUser(user.username, { role: e.target.value as UserRole }))}
+                  className="p-1.5 bg-jobird-lightGrey border border-slate-200 font-bold text-[11px] outline-none focus:border-jobird-red"
+                >
+                  {roles.map(r => <option key={r} value={r}>{r}</option>)}
+                </select>
+              </td>
+              <td className="px-8 py-4">
+                <span className={`px-3 py-1 rounded-sm font-black text-[10px] uppercase tracking-widest ${user.disabled ? 'bg-slate-200 text-slate-500' : 'bg-green-100 text-green-800'}`}>
+                  {user.disabled ? 'Disabled' : 'Active'}
+                </span>
+              </td>
+              <td className="px-8 py-4 text-right space-x-6">
+                <button disabled={pendingUser === user.username} onClick={() => handleResetPassword(user)} className="text-slate-400 font-black hover:text-jobird-navy uppercase text-[10px] tracking-widest transition-colors disabled:opacity-40">Reset password</button>
+                {user.username !== currentUser.username && (
+                  <button
+                    disabled={pendingUser === user.username}
+                    onClick={() => run(user.username, () => updateUser(user.username, { disabled: !user.disabled }))}
+                    className="text-slate-400 font-black hover:text-jobird-red uppercase text-[10px] tracking-widest transition-colors disabled:opacity-40"
+                  >
+                    {user.disabled ? 'Enable' : 'Disable'}
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+};
+
+export default UsersSection;
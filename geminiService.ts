@@ -1,122 +1,190 @@
-import { Message, AIResponse, DatasheetReference } from "./types";
+import { Message, AIResponse, DatasheetReference, SopCitation, SelectionStageEvent, SelectionStreamEvent, SessionFile } from "./types";
 
 // No more direct Gemini SDK - all calls go through secure backend
-import { getConfig } from "./lib/config";
+import { callApi, fetchRoute } from "./lib/apiClient";
+import { parseStreamEvent, parseStreamEventId } from "./shared/streamEvents.js";
 
 
+export interface SelectionStreamOptions {
+  files?: SessionFile[];
+  onStage?: (event: SelectionStageEvent) => void; // Pipeline progress until the first chunk
+  signal?: AbortSignal; // Stops the answer, on the server too
+}
+
+// Waits before each reconnect after a dropped connection; the server keeps generating meanwhile
+const RECONNECT_DELAYS = [1000, 2000, 4000, 8000, 15000];
+
+// The server only reads the text of earlier turns (not tool results or other branches)
+const turns = (history: Message[]) => history.map(({ role, content }) => ({ role, content }));
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
+
 export async function getSelectionResponse(
   userQuery: string,
   history: Message[]
 ): Promise<AIResponse> {
-  const response = await fetch('/api/chat', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ query: userQuery, history })
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-    throw new Error(error.error || `Server error: ${response.status}`);
-  }
-
-  return await response.json();
+  return callApi('POST /api/chat', { body: { query: userQuery, history: turns(history) } });
 }
 
 // Streaming version using Server-Sent Events
+// A dropped connection is resumed from the last event received (Last-Event-ID), without rerunning the search
 export async function getSelectionResponseStream(
   userQuery: string,
   history: Message[],
   onChunk: (text: string, referencedDatasheets: DatasheetReference[]) => void,
-  files?: { name: string, content: string }[]
+  { files, onStage, signal }: SelectionStreamOptions = {}
 ): Promise<AIResponse> {
-  // Client-side safety net: abort if total request exceeds 65s
+  // Client-side safety net: give up if the whole answer, reconnects included, takes over 2 minutes
   const controller = new AbortController();
-  const abortTimer = setTimeout(() => controller.abort(), 65000);
+  const abortTimer = setTimeout(() => controller.abort(), 120000);
+
+  let streamId: string | null = null;
+  let lastEventId = '0';
+  let failedReconnects = 0;
 
-  // Inactivity timer: abort if no data received for 30s
-  let inactivityTimer: ReturnType<typeof setTimeout>;
-  const resetInactivity = () => {
-    clearTimeout(inactivityTimer);
-    inactivityTimer = setTimeout(() => controller.abort(), 30000);
+  // Connections close without stopping the generation, so a stop is sent to the server
+  const stop = () => {
+    controller.abort();
+    if (streamId) fetchRoute('DELETE /api/chat/stream/:id', { params: { id: streamId } }).catch(() => { /* it times out on its own */ });
   };
-  resetInactivity();
+  signal?.addEventListener('abort', stop);
+
+  let referencedDatasheets: DatasheetReference[] = [];
+  let citedSops: SopCitation[] = [];
+  let sopWarnings: string[] = [];
+  let fullText = '';
 
   try {
-    const response = await fetch('/api/chat/stream', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ query: userQuery, history, files }),
-      signal: controller.signal
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-      throw new Error(error.error || `Server error: ${response.status}`);
-    }
+    while (true) {
+      // One controller per connection: a stalled connection is dropped without stopping the answer
+      const connection = new AbortController();
+      const dropConnection = () => connection.abort();
+      controller.signal.addEventListener('abort', dropConnection);
+
+      // Inactivity timer: treat the connection as dropped if nothing (not even a keepalive) arrives for 30s
+      let inactivityTimer: ReturnType<typeof setTimeout> | undefined;
+      const resetInactivity = () => {
+        clearTimeout(inactivityTimer);
+        inactivityTimer = setTimeout(dropConnection, 30000);
+      };
+      resetInactivity();
+
+      try {
+        const response = streamId
+          ? await fetchRoute('GET /api/chat/stream/:id', { params: { id: streamId }, headers: { 'Last-Event-ID': lastEventId }, signal: connection.signal })
+          : await fetchRoute('POST /api/chat/stream', { body: { query: userQuery, history: turns(history), files: files?.filter(f => f.content !== undefined) }, signal: connection.signal });
+
+        if (!response.ok) {
+          // Streams live in one server process: a restart (or another instance) no longer knows this one
+          if (streamId && response.status === 404) {
+            throw new Error('The answer was interrupted and could not be resumed. Please try again.');
+          }
+          const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+          throw new Error(error.error || `Server error: ${response.status}`);
+        }
+        streamId = response.headers.get('X-Stream-Id') || streamId;
 
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error('Streaming not supported');
-    }
+        const reader = response.body?.getReader();
+        if (!reader) {
+          throw new Error('Streaming not supported');
+        }
 
-    const decoder = new TextDecoder();
-    let referencedDatasheets: DatasheetReference[] = [];
-    let fullText = '';
-    let lineBuffer = '';
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        resetInactivity(); // Got data, reset inactivity timer
-
-        const chunkText = decoder.decode(value, { stream: true });
-        lineBuffer += chunkText;
-
-        const lines = lineBuffer.split('\n');
-        // Keep the last partial line in the buffer
-        lineBuffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.trim().startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.trim().slice(6));
-
-              if (data.type === 'datasheets') {
-                referencedDatasheets = data.datasheets || [];
-              } else if (data.type === 'chunk') {
-                fullText = data.text || '';
-                onChunk(fullText, referencedDatasheets);
-              } else if (data.type === 'done') {
-                fullText = data.text || fullText;
-                referencedDatasheets = data.datasheets || referencedDatasheets;
-                onChunk(fullText, referencedDatasheets);
-              } else if (data.type === 'error') {
-                throw new Error(data.error);
+        const decoder = new TextDecoder();
+        let lineBuffer = '';
+        let finished = false;
+        // The event being received; its id only counts as seen once the blank line completes it
+        let pendingId: string | null = null;
+        let pendingEvent: SelectionStreamEvent | null = null;
+
+        try {
+          while (!finished) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            resetInactivity(); // Got data, reset inactivity timer
+
+            const chunkText = decoder.decode(value, { stream: true });
+            lineBuffer += chunkText;
+
+            const lines = lineBuffer.split('\n');
+            // Keep the last partial line in the buffer
+            lineBuffer = lines.pop() || '';
+
+            for (const line of lines) {
+              // A blank line ends the event: only then is it handled and its id kept for Last-Event-ID,
+              // so a connection lost halfway through an event resumes from the one before it
+              if (line.trim()) {
+                pendingId = parseStreamEventId(line) ?? pendingId;
+                pendingEvent = parseStreamEvent(line) ?? pendingEvent; // Keepalive comments and malformed lines carry none
+                continue;
               }
-            } catch (parseError) {
-              if (parseError instanceof Error && parseError.message && !parseError.message.includes('JSON')) {
-                throw parseError; // Re-throw actual errors (not JSON parse errors)
+              const event = pendingEvent;
+              const eventId = pendingId;
+              pendingId = null;
+              pendingEvent = null;
+              if (!event) continue;
+              failedReconnects = 0; // The connection works again
+
+              switch (event.type) {
+                case 'stage':
+                  onStage?.(event);
+                  break;
+                case 'chunk':
+                  fullText = event.text || '';
+                  onChunk(fullText, referencedDatasheets);
+                  break;
+                case 'done':
+                  fullText = event.text || fullText;
+                  referencedDatasheets = event.datasheets || referencedDatasheets;
+                  citedSops = event.sops || [];
+                  sopWarnings = event.sopWarnings || [];
+                  onChunk(fullText, referencedDatasheets);
+                  finished = true;
+                  break;
+                case 'error':
+                  throw new Error(event.error);
+                // Event types added by a newer server are skipped
               }
-              // Ignore incomplete JSON if split across lines
+              if (eventId !== null) lastEventId = eventId;
             }
           }
+        } finally {
+          reader.releaseLock();
+        }
+
+        if (finished) {
+          return { text: fullText, referencedDatasheets, citedSops, sopWarnings };
         }
+        // The stream ended before the answer did: reconnect
+      } catch (err: any) {
+        // Network failures (TypeError) and stalled connections are resumed; server errors and stops are not
+        const dropped = err instanceof TypeError || (err.name === 'AbortError' && !controller.signal.aborted);
+        if (!dropped) throw err;
+      } finally {
+        clearTimeout(inactivityTimer);
+        controller.signal.removeEventListener('abort', dropConnection);
       }
-    } finally {
-      reader.releaseLock();
-    }
 
-    return { text: fullText, referencedDatasheets };
+      if (!streamId || failedReconnects >= RECONNECT_DELAYS.length) {
+        throw new Error('Connection lost. Please check your connection and try again.');
+      }
+      console.warn(`[selection] Connection lost, resuming stream ${streamId} after event ${lastEventId}`);
+      await wait(RECONNECT_DELAYS[failedReconnects++], controller.signal);
+    }
   } catch (err: any) {
-    if (err.name === 'AbortError') {
+    // Stopped by the caller: the AbortError is passed on as is
+    if (err.name === 'AbortError' && !signal?.aborted) {
       throw new Error('Request timed out. Please try again.');
     }
     throw err;
   } finally {
     clearTimeout(abortTimer);
-    clearTimeout(inactivityTimer!);
+    signal?.removeEventListener('abort', stop);
   }
 }
-
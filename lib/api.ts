@@ -0,0 +1,57 @@
+// Shared fetch wrapper for the backend API
+// Sends the session token so the server can authenticate the request and attribute audit entries
+
+import { AuthSession, User } from '../types';
+
+const SESSION_KEY = 'jb_session';
+
+// Fired when the server rejects the stored token (expired, logged out elsewhere, account disabled)
+export const SESSION_EXPIRED_EVENT = 'jb:session-expired';
+
+export function getSession(): AuthSession | null {
+    try {
+        const session: AuthSession | null = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+        return session && session.expiresAt > new Date().toISOString() ? session : null;
+    } catch {
+        return null;
+    }
+}
+
+export function setSession(session: AuthSession | null) {
+    if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    else localStorage.removeItem(SESSION_KEY);
+}
+
+export function getCurrentUser(): User | null {
+    return getSession()?.user || null;
+}
+
+export async function apiFetch(url: string, init?: RequestInit): Promise<Response> {
+    const session = getSession();
+    const response = await fetch(url, {
+        ...init,
+        headers: {
+            'Content-Type': 'application/json',
+            ...(session ? { Authorization: `Bearer ${session.token}` } : {}),
+            ...init?.headers
+        }
+    });
+
+    if (response.status === 401 && session) {
+        setSession(null);
+        window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+    }
+    return response;
+}
+
+// JSON request that throws with the server's error message on failure (204 resolves to undefined)
+export async function apiRequest<T>(url: string, init?: RequestInit): Promise<T> {
+    const response = await apiFetch(url, init);
+
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(error.error || `Server error: ${response.status}`);
+    }
+
+    return response.status === 204 ? undefined as T : await response.json();
+}
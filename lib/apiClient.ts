@@ -0,0 +1,150 @@
+// Typed client for the backend API
+// One entry per route in server/openapi.js (keys use the Express path syntax of server/index.js);
+// `npm run test:contract` fails if this map, the spec and the server's routes drift apart.
+
+import {
+    AIResponse, ApiKey, AuditPage, AuditQuery, AuditVerification, AuthSession, CabinetConfiguration, ChangeRequest,
+    ChatSearchResult, ChatSession, ChatSessionMeta, ConversationBranch, ChatSessionSummary, ConfigurationEvaluation, FeedbackStatus, InsulatedDimensions,
+    KnowledgeBaseStats, Message, ProductMatch, RuntimeConfig, SalesFeedback, SessionFile, SessionShare, SharedSession, SOP, SopStatus,
+    SopReviewRequirement, SopWorkflowRule, StackingPlanResult, User, UserRole
+} from '../types';
+import type { FeedbackSubmission } from './feedbackApi';
+import type { SelectionReportInput } from './reportApi';
+import type { SopProposal, SopReviewInput } from './sopApi';
+import { apiFetch, apiRequest } from './api';
+
+// JSON carries dates as ISO strings; wrappers revive them
+export type Wire<T> = Omit<T, 'timestamp'> & { timestamp: string };
+export type WireMessage = Omit<Wire<Message>, 'branches'> & { branches?: (Omit<ConversationBranch, 'messages'> & { messages: WireMessage[] })[] };
+export type WireChatSession = Omit<Wire<ChatSession>, 'messages'> & { messages: WireMessage[] };
+export type WireSharedSession = Omit<Wire<SharedSession>, 'messages'> & { messages: WireMessage[] };
+
+export interface SelectionRequest {
+    query: string;
+    history?: Pick<Message, 'role' | 'content'>[];
+    files?: SessionFile[];
+}
+
+type AuditFilters = Omit<AuditQuery, 'page' | 'pageSize'>;
+
+// Routes without a `response` don't answer with JSON (text, event stream, PDF, CSV); call them with fetchRoute
+export interface ApiRoutes {
+    'GET /api/ping': {};
+    'POST /api/ping': {};
+    'GET /api/openapi.json': { response: Record<string, unknown> };
+    'GET /api/config': { response: RuntimeConfig };
+
+    'POST /api/auth/login': { body: { username: string; password: string }; response: AuthSession };
+    'POST /api/auth/logout': { response: void };
+    'GET /api/auth/me': { response: { user: User; expiresAt: string } };
+
+    'GET /api/users': { response: { users: User[]; roles: UserRole[] } };
+    'POST /api/users': { body: { username: string; name: string; role: UserRole; password: string }; response: User };
+    'PATCH /api/users/:username': { body: { name?: string; role?: UserRole; password?: string; disabled?: boolean }; response: User };
+
+    'GET /api/api-keys': { response: { apiKeys: ApiKey[] } };
+    'POST /api/api-keys': { body: { name: string }; response: ApiKey & { key: string } };
+    'DELETE /api/api-keys/:id': { response: ApiKey };
+
+    'POST /api/chat/stream': { body: SelectionRequest };
+    'GET /api/chat/stream/:id': { headers: { 'Last-Event-ID'?: string } };
+    'DELETE /api/chat/stream/:id': { response: void };
+    'POST /api/chat': { body: SelectionRequest; response: AIResponse };
+    'POST /api/v1/selection': { body: SelectionRequest; response: AIResponse };
+
+    'GET /api/stats': { query: { category?: string }; response: KnowledgeBaseStats };
+    'POST /api/search': { body: { query: string; matchCount?: number }; response: { results: ProductMatch[] } };
+    'GET /api/insulation': { response: { models: InsulatedDimensions[] } };
+    'GET /api/insulation/:modelId': { response: InsulatedDimensions };
+    'POST /api/stacking-plan': { body: { lifejackets: number; deckHeightMm: number }; response: StackingPlanResult };
+    'POST /api/configurations/evaluate': { body: CabinetConfiguration; response: ConfigurationEvaluation };
+
+    'GET /api/audit': { query: AuditQuery; response: AuditPage };
+    'GET /api/audit/export': { query: AuditFilters & { format?: 'csv' | 'json' } };
+    'GET /api/audit/verify': { response: AuditVerification };
+
+    'GET /api/sops/workflow': { response: { workflow: SopWorkflowRule[] } };
+    'PUT /api/sops/workflow/:category': { body: { reviews: SopReviewRequirement[] }; response: SopWorkflowRule };
+    'GET /api/sops': { query: { status?: SopStatus }; response: { sops: SOP[] } };
+    'POST /api/sops': { body: SopProposal; response: SOP };
+    'POST /api/sops/:id/reviews': { body: SopReviewInput; response: SOP };
+    'POST /api/sops/:id/deprecate': { body: { reason: string }; response: SOP };
+    'GET /api/sops/:id/history': { response: { history: SOP[] } };
+
+    'GET /api/feedback': { query: { status?: FeedbackStatus; assignee?: string }; response: { feedback: SalesFeedback[] } };
+    'POST /api/feedback': { body: FeedbackSubmission; response: SalesFeedback };
+    'PATCH /api/feedback/:id': { body: { status?: FeedbackStatus; assignee?: string }; response: SalesFeedback };
+    'POST /api/feedback/:id/comments': { body: { text: string }; response: SalesFeedback };
+
+    'GET /api/change-requests': { response: { changeRequests: ChangeRequest[] } };
+    'POST /api/feedback/:id/promote': { body: { suggestion?: string }; response: ChangeRequest };
+    'POST /api/change-requests/:id/sops': { body: { sopId: string }; response: ChangeRequest };
+
+    'GET /api/chat-sessions': { response: { sessions: Wire<ChatSessionSummary>[] } };
+    'GET /api/chat-sessions/search': { query: { q: string }; response: { terms: string[]; results: ChatSearchResult[] } };
+    'GET /api/chat-sessions/:id': { response: WireChatSession };
+    'PUT /api/chat-sessions/:id': { body: Omit<ChatSession, 'id' | 'updatedAt'>; response: Wire<ChatSessionSummary> };
+    'PATCH /api/chat-sessions/:id': { body: Partial<ChatSessionMeta>; response: Wire<ChatSessionSummary> };
+    'DELETE /api/chat-sessions/:id': { response: void };
+
+    'GET /api/chat-sessions/:id/shares': { response: { shares: SessionShare[] } };
+    'POST /api/chat-sessions/:id/shares': { body: { expiresInDays?: number }; response: SessionShare };
+    'GET /api/shares/:token': { response: WireSharedSession };
+    'DELETE /api/shares/:token': { response: SessionShare };
+
+    'POST /api/reports/selection': { body: SelectionReportInput };
+
+    'GET /api/diag': { response: Record<string, unknown> };
+    'GET /api/test-ai': { response: { result: string } };
+}
+
+export type Route = keyof ApiRoutes;
+type JsonRoute = { [R in Route]: ApiRoutes[R] extends { response: unknown } ? R : never }[Route];
+export type RouteResponse<R extends JsonRoute> = ApiRoutes[R] extends { response: infer T } ? T : never;
+
+type ParamNames<Path extends string> =
+    Path extends `${string}:${infer Name}/${infer Rest}` ? Name | ParamNames<Rest>
+    : Path extends `${string}:${infer Name}` ? Name
+    : never;
+
+export type RouteOptions<R extends Route> =
+    ([ParamNames<R>] extends [never] ? {} : { params: Record<ParamNames<R>, string> })
+    & (ApiRoutes[R] extends { body: infer B } ? { body: B } : {})
+    & (ApiRoutes[R] extends { query: infer Q } ? { query?: Q } : {})
+    & (ApiRoutes[R] extends { headers: infer H } ? { headers?: H } : {})
+    & { signal?: AbortSignal };
+
+// Options can be left out when the route has no path parameters or body
+type OptionsArg<R extends Route> = {} extends RouteOptions<R> ? [options?: RouteOptions<R>] : [options: RouteOptions<R>];
+
+type LooseOptions = { params?: Record<string, string>; body?: unknown; query?: object; headers?: Record<string, string>; signal?: AbortSignal };
+
+export function routeUrl<R extends Route>(route: R, ...[options]: OptionsArg<R>): string {
+    const { params = {}, query = {} } = (options || {}) as LooseOptions;
+    const path = route.slice(route.indexOf(' ') + 1).replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(params[name]));
+    const search = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') search.set(key, String(value));
+    });
+    const queryString = search.toString();
+    return queryString ? `${path}?${queryString}` : path;
+}
+
+function routeInit(route: Route, options?: LooseOptions): RequestInit {
+    return {
+        method: route.slice(0, route.indexOf(' ')),
+        body: options?.body === undefined ? undefined : JSON.stringify(options.body),
+        headers: options?.headers,
+        signal: options?.signal
+    };
+}
+
+// The raw response, for streams, downloads and callers that handle status codes themselves
+export function fetchRoute<R extends Route>(route: R, ...args: OptionsArg<R>): Promise<Response> {
+    return apiFetch(routeUrl(route, ...args), routeInit(route, args[0] as LooseOptions));
+}
+
+// JSON response; throws with the server's error message on failure
+export function callApi<R extends JsonRoute>(route: R, ...args: OptionsArg<R>): Promise<RouteResponse<R>> {
+    return apiRequest<RouteResponse<R>>(routeUrl(route, ...args), routeInit(route, args[0] as LooseOptions));
+}
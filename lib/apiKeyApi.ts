@@ -0,0 +1,18 @@
+// Client wrapper for API key administration (keys for the /api/v1 public API)
+
+import { ApiKey } from '../types';
+import { callApi } from './apiClient';
+
+export async function fetchApiKeys(): Promise<ApiKey[]> {
+    const data = await callApi('GET /api/api-keys');
+    return data.apiKeys;
+}
+
+// The response is the only time the plaintext key is available
+export function createApiKey(name: string): Promise<ApiKey & { key: string }> {
+    return callApi('POST /api/api-keys', { body: { name } });
+}
+
+export function revokeApiKey(id: string): Promise<ApiKey> {
+    return callApi('DELETE /api/api-keys/:id', { params: { id } });
+}
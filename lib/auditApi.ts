@@ -0,0 +1,33 @@
+// Client wrapper for the server-side audit log
+// Entries are written by the server as a side effect of each action; the client only reads them
+
+import { AuditPage, AuditQuery, AuditVerification } from '../types';
+import { callApi, fetchRoute } from './apiClient';
+
+export function fetchAuditLog(query: AuditQuery = {}): Promise<AuditPage> {
+    return callApi('GET /api/audit', { query });
+}
+
+// Downloads every entry matching the filters (ignores pagination)
+export async function exportAuditLog(query: AuditQuery, format: 'csv' | 'json'): Promise<void> {
+    const { page, pageSize, ...filters } = query;
+    const response = await fetchRoute('GET /api/audit/export', { query: { ...filters, format } });
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(error.error || `Server error: ${response.status}`);
+    }
+
+    const blob = await response.blob();
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `jobird_audit_${new Date().toISOString().split('T')[0]}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
+
+export function verifyAuditLog(): Promise<AuditVerification> {
+    return callApi('GET /api/audit/verify');
+}
@@ -0,0 +1,37 @@
+// Client wrapper for sign-in, sign-out and user administration
+
+import { AuthSession, User, UserRole } from '../types';
+import { setSession } from './api';
+import { callApi, fetchRoute } from './apiClient';
+
+export async function login(username: string, password: string): Promise<AuthSession> {
+    const session = await callApi('POST /api/auth/login', { body: { username, password } });
+    setSession(session);
+    return session;
+}
+
+// Ends the session server-side; the local copy is dropped even if the server can't be reached
+export async function logout(): Promise<void> {
+    try {
+        await fetchRoute('POST /api/auth/logout');
+    } finally {
+        setSession(null);
+    }
+}
+
+export async function fetchCurrentUser(): Promise<User> {
+    const data = await callApi('GET /api/auth/me');
+    return data.user;
+}
+
+export function fetchUsers(): Promise<{ users: User[]; roles: UserRole[] }> {
+    return callApi('GET /api/users');
+}
+
+export function createUser(input: { username: string; name: string; role: UserRole; password: string }): Promise<User> {
+    return callApi('POST /api/users', { body: input });
+}
+
+export function updateUser(username: string, patch: { name?: string; role?: UserRole; password?: string; disabled?: boolean }): Promise<User> {
+    return callApi('PATCH /api/users/:username', { params: { username }, body: patch });
+}
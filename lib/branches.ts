@@ -0,0 +1,57 @@
+// Edit-and-resend branches: editing (or regenerating from) a user message starts a new version of the
+// conversation from that point; the earlier versions are kept on the message with their own datasheets
+
+import { ConversationBranch, DatasheetReference, Message } from '../types';
+
+export interface BranchView {
+    messages: Message[];
+    datasheets: DatasheetReference[];
+}
+
+const datasheetKey = (ds: DatasheetReference) => ds.filename.toLowerCase().trim().replace(/\.pdf$/i, '');
+
+// Adds datasheets not referenced yet (same file with or without .pdf), sorted by filename
+export function mergeDatasheets(existing: DatasheetReference[], added: DatasheetReference[]): DatasheetReference[] {
+    const merged = [...existing];
+    added.forEach(ds => {
+        if (!merged.some(m => datasheetKey(m) === datasheetKey(ds))) merged.push(ds);
+    });
+    return merged.sort((a, b) => a.filename.localeCompare(b.filename));
+}
+
+// Number of versions of the conversation from this message on (1 when it was never edited)
+export function versionCount(message: Message): number {
+    return message.branches?.length || 1;
+}
+
+// Saves what is shown from `index` on into the current version's slot
+function stashCurrent(view: BranchView, index: number): ConversationBranch[] {
+    const { branches, branchIndex = 0, ...message } = view.messages[index];
+    const versions = branches ? [...branches] : [{ messages: [], datasheets: [] }];
+    versions[branchIndex] = { messages: [message, ...view.messages.slice(index + 1)], datasheets: view.datasheets };
+    return versions;
+}
+
+// Replaces the user message at `index` and drops everything after it; the answer to `content` comes next.
+// The new version starts with the datasheets cited by the answers before the edited message.
+export function branchFromEdit(view: BranchView, index: number, content: string): BranchView {
+    const versions = [...stashCurrent(view, index), { messages: [], datasheets: [] }];
+    const prefix = view.messages.slice(0, index);
+    const edited: Message = { role: 'user', content, timestamp: new Date(), branches: versions, branchIndex: versions.length - 1 };
+    return {
+        messages: [...prefix, edited],
+        datasheets: prefix.reduce((all, msg) => mergeDatasheets(all, msg.datasheets || []), [] as DatasheetReference[])
+    };
+}
+
+// Shows another version of the conversation from the user message at `index`
+export function switchBranch(view: BranchView, index: number, target: number): BranchView {
+    const versions = stashCurrent(view, index);
+    const [message, ...rest] = versions[target].messages;
+    const datasheets = versions[target].datasheets;
+    versions[target] = { messages: [], datasheets: [] };
+    return {
+        messages: [...view.messages.slice(0, index), { ...message, branches: versions, branchIndex: target }, ...rest],
+        datasheets
+    };
+}
@@ -0,0 +1,19 @@
+// Client wrapper for the change-request endpoints
+// Closing happens server-side when a linked SOP is approved; callers refetch after SOP reviews too
+
+import { ChangeRequest } from '../types';
+import { callApi } from './apiClient';
+
+export async function fetchChangeRequests(): Promise<ChangeRequest[]> {
+    const data = await callApi('GET /api/change-requests');
+    return data.changeRequests;
+}
+
+// suggestion defaults to the feedback's task and issue when blank
+export function promoteFeedback(feedbackId: string, suggestion?: string): Promise<ChangeRequest> {
+    return callApi('POST /api/feedback/:id/promote', { params: { id: feedbackId }, body: { suggestion } });
+}
+
+export function linkSopDraft(id: string, sopId: string): Promise<ChangeRequest> {
+    return callApi('POST /api/change-requests/:id/sops', { params: { id }, body: { sopId } });
+}
@@ -0,0 +1,57 @@
+// Client wrapper for the saved chat session endpoints
+// Dates travel as ISO strings, so sessions are revived into Date-bearing objects here
+
+import { ChatSession, ChatSessionSummary, ChatSessionMeta, ChatSearchResult, Message } from '../types';
+import { callApi, fetchRoute, Wire, WireChatSession, WireMessage } from './apiClient';
+
+const reviveSummary = (s: Wire<ChatSessionSummary>): ChatSessionSummary => ({ ...s, timestamp: new Date(s.timestamp) });
+
+// Including the other versions kept on edited messages
+export const reviveMessage = (m: WireMessage): Message => ({
+    ...m,
+    timestamp: new Date(m.timestamp),
+    branches: m.branches?.map(b => ({ ...b, messages: b.messages.map(reviveMessage) }))
+});
+
+const reviveSession = (s: WireChatSession): ChatSession => ({
+    ...s,
+    timestamp: new Date(s.timestamp),
+    messages: s.messages.map(reviveMessage)
+});
+
+export async function fetchChatSessions(): Promise<ChatSessionSummary[]> {
+    const data = await callApi('GET /api/chat-sessions');
+    return data.sessions.map(reviveSummary);
+}
+
+export async function fetchChatSession(id: string): Promise<ChatSession> {
+    return reviveSession(await callApi('GET /api/chat-sessions/:id', { params: { id } }));
+}
+
+// Create or replace; returns the saved summary (with the server's updatedAt).
+// Uploaded files are sent by name: their text is only kept in this browser's cache.
+export async function saveChatSession(session: ChatSession): Promise<ChatSessionSummary> {
+    const { id, title, pinned, archived, tags, messages, datasheets, sessionFiles, timestamp } = session;
+    const saved = await callApi('PUT /api/chat-sessions/:id', {
+        params: { id },
+        body: { title, pinned, archived, tags, messages, datasheets, sessionFiles: sessionFiles.map(({ name }) => ({ name })), timestamp }
+    });
+    return reviveSummary(saved);
+}
+
+// Rename, pin, archive or retag a saved session
+export async function updateChatSessionMeta(id: string, patch: Partial<ChatSessionMeta>): Promise<ChatSessionSummary> {
+    return reviveSummary(await callApi('PATCH /api/chat-sessions/:id', { params: { id }, body: patch }));
+}
+
+export async function deleteChatSession(id: string): Promise<void> {
+    const response = await fetchRoute('DELETE /api/chat-sessions/:id', { params: { id } });
+    if (!response.ok && response.status !== 404) {
+        throw new Error(`Server error: ${response.status}`);
+    }
+}
+
+// `terms` are the normalised query words the server matched on, for highlighting
+export function searchChatSessions(query: string, signal?: AbortSignal): Promise<{ terms: string[]; results: ChatSearchResult[] }> {
+    return callApi('GET /api/chat-sessions/search', { query: { q: query }, signal });
+}
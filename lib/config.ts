@@ -1,6 +1,8 @@
 // Client-side configuration - ONLY contains safe-to-expose values
 // Sensitive keys (Gemini, Supabase service role) are now SERVER-SIDE ONLY
 
+import { callApi } from './apiClient';
+
 export interface AppConfig {
     VITE_FIREBASE_API_KEY: string;
     VITE_FIREBASE_AUTH_DOMAIN: string;
@@ -14,7 +16,6 @@ export interface AppConfig {
     VITE_GEMINI_API_KEY: string;
     VITE_SUPABASE_URL: string;
     VITE_SUPABASE_SERVICE_ROLE_KEY: string;
-    VITE_APP_PASSWORD: string;
 }
 
 let config: AppConfig | null = null;
@@ -25,26 +26,22 @@ export async function loadConfig(): Promise<AppConfig> {
     // Fetch safe client-side config from the backend API
     // This allows us to inject environment variables at runtime without brittle config files
     try {
-        const response = await fetch('/api/config');
-        if (response.ok) {
-            const runtimeConfig = await response.json();
-            config = {
-                VITE_FIREBASE_API_KEY: runtimeConfig.VITE_FIREBASE_API_KEY || import.meta.env.VITE_FIREBASE_API_KEY || '',
-                VITE_FIREBASE_AUTH_DOMAIN: runtimeConfig.VITE_FIREBASE_AUTH_DOMAIN || import.meta.env.VITE_FIREBASE_AUTH_DOMAIN || '',
-                VITE_FIREBASE_PROJECT_ID: runtimeConfig.VITE_FIREBASE_PROJECT_ID || import.meta.env.VITE_FIREBASE_PROJECT_ID || '',
-                VITE_FIREBASE_STORAGE_BUCKET: runtimeConfig.VITE_FIREBASE_STORAGE_BUCKET || import.meta.env.VITE_FIREBASE_STORAGE_BUCKET || '',
-                VITE_FIREBASE_MESSAGING_SENDER_ID: runtimeConfig.VITE_FIREBASE_MESSAGING_SENDER_ID || import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID || '',
-                VITE_FIREBASE_APP_ID: runtimeConfig.VITE_FIREBASE_APP_ID || import.meta.env.VITE_FIREBASE_APP_ID || '',
-                VITE_FIREBASE_MEASUREMENT_ID: runtimeConfig.VITE_FIREBASE_MEASUREMENT_ID || import.meta.env.VITE_FIREBASE_MEASUREMENT_ID || '',
-                // Main Gemini API key is now SERVER-SIDE ONLY. 
-                // VITE_GEMINI_API_KEY is legacy and should remain empty in production.
-                VITE_GEMINI_API_KEY: '',
-                VITE_SUPABASE_URL: runtimeConfig.VITE_SUPABASE_URL || import.meta.env.VITE_SUPABASE_URL || '',
-                VITE_SUPABASE_SERVICE_ROLE_KEY: '', // NEVER sent to client
-                VITE_APP_PASSWORD: '', // Password verification now done server-side
-            };
-            console.log("Runtime configuration loaded via API");
-        }
+        const runtimeConfig = await callApi('GET /api/config');
+        config = {
+            VITE_FIREBASE_API_KEY: runtimeConfig.VITE_FIREBASE_API_KEY || import.meta.env.VITE_FIREBASE_API_KEY || '',
+            VITE_FIREBASE_AUTH_DOMAIN: runtimeConfig.VITE_FIREBASE_AUTH_DOMAIN || import.meta.env.VITE_FIREBASE_AUTH_DOMAIN || '',
+            VITE_FIREBASE_PROJECT_ID: runtimeConfig.VITE_FIREBASE_PROJECT_ID || import.meta.env.VITE_FIREBASE_PROJECT_ID || '',
+            VITE_FIREBASE_STORAGE_BUCKET: runtimeConfig.VITE_FIREBASE_STORAGE_BUCKET || import.meta.env.VITE_FIREBASE_STORAGE_BUCKET || '',
+            VITE_FIREBASE_MESSAGING_SENDER_ID: runtimeConfig.VITE_FIREBASE_MESSAGING_SENDER_ID || import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID || '',
+            VITE_FIREBASE_APP_ID: runtimeConfig.VITE_FIREBASE_APP_ID || import.meta.env.VITE_FIREBASE_APP_ID || '',
+            VITE_FIREBASE_MEASUREMENT_ID: runtimeConfig.VITE_FIREBASE_MEASUREMENT_ID || import.meta.env.VITE_FIREBASE_MEASUREMENT_ID || '',
+            // Main Gemini API key is now SERVER-SIDE ONLY. 
+            // VITE_GEMINI_API_KEY is legacy and should remain empty in production.
+            VITE_GEMINI_API_KEY: '',
+            VITE_SUPABASE_URL: runtimeConfig.VITE_SUPABASE_URL || import.meta.env.VITE_SUPABASE_URL || '',
+            VITE_SUPABASE_SERVICE_ROLE_KEY: '', // NEVER sent to client
+        };
+        console.log("Runtime configuration loaded via API");
     } catch (e) {
         console.warn("Could not load runtime config via API, falling back to build-time env vars", e);
     }
@@ -65,7 +62,6 @@ export async function loadConfig(): Promise<AppConfig> {
             VITE_GEMINI_API_KEY: '',
             VITE_SUPABASE_URL: env.VITE_SUPABASE_URL || procEnv.VITE_SUPABASE_URL || '',
             VITE_SUPABASE_SERVICE_ROLE_KEY: '', // NEVER load this client-side
-            VITE_APP_PASSWORD: '', // Password verified server-side
         };
     }
 
@@ -0,0 +1,25 @@
+// Client wrapper for the sales feedback triage endpoints
+// The server stamps the reporter, id and timestamps; callers refetch the list after each change
+
+import { SalesFeedback, FeedbackStatus } from '../types';
+import { callApi } from './apiClient';
+
+export type FeedbackSubmission = Pick<SalesFeedback, 'task' | 'issue' | 'urgency' | 'context'>;
+
+export async function fetchFeedback(): Promise<SalesFeedback[]> {
+    const data = await callApi('GET /api/feedback');
+    return data.feedback;
+}
+
+export function submitFeedback(submission: FeedbackSubmission): Promise<SalesFeedback> {
+    return callApi('POST /api/feedback', { body: submission });
+}
+
+// assignee '' unassigns
+export function updateFeedback(id: string, patch: { status?: FeedbackStatus; assignee?: string }): Promise<SalesFeedback> {
+    return callApi('PATCH /api/feedback/:id', { params: { id }, body: patch });
+}
+
+export function addFeedbackComment(id: string, text: string): Promise<SalesFeedback> {
+    return callApi('POST /api/feedback/:id/comments', { params: { id }, body: { text } });
+}
@@ -0,0 +1,35 @@
+// Derives the feedback context (cabinet, equipment, insulation, SOP versions) from the chat session,
+// so a report carries the configuration the salesperson was looking at without them retyping it
+
+import { CabinetModel, FeedbackContext, Message, SopReference } from '../types';
+
+export function deriveFeedbackContext(messages: Message[], catalog: CabinetModel[], selectedModel: CabinetModel | null): FeedbackContext {
+    // Newest first: the most recent tool result or mention wins
+    const recent = [...messages].reverse();
+    const fitCheck = recent.find(m => m.fitCheck)?.fitCheck;
+    const stackingPlan = recent.find(m => m.stackingPlan)?.stackingPlan;
+
+    let cabinetId = selectedModel?.id || fitCheck?.fits[0]?.modelId || stackingPlan?.plans[0]?.modelId;
+    if (!cabinetId) {
+        // Last catalog model named anywhere in the conversation
+        const ids = catalog.map(m => m.id).sort((a, b) => b.length - a.length);
+        for (const msg of recent) {
+            const hit = ids.find(id => new RegExp(`\\b${id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(msg.content));
+            if (hit) { cabinetId = hit; break; }
+        }
+    }
+
+    const equipment = fitCheck
+        ? fitCheck.equipment.map(it => `${it.qty} x ${it.type}`).join(', ')
+        : stackingPlan ? `${stackingPlan.lifejackets} lifejackets` : undefined;
+    const insulation = fitCheck?.insulationMm ? `${fitCheck.insulationMm}mm` : undefined;
+
+    const sopRefs = new Map<string, SopReference>();
+    for (const msg of messages) {
+        (msg.citedSops || []).forEach(ref => sopRefs.set(ref.sopId, ref));
+        (msg.fitCheck?.fits[0]?.appliedSops || []).forEach(ref => sopRefs.set(ref.sopId, ref));
+    }
+    const sopVersion = sopRefs.size > 0 ? [...sopRefs.values()].map(r => `${r.sopId} v${r.sopVersion}`).join(', ') : undefined;
+
+    return { cabinetId, equipment, insulation, sopVersion };
+}
@@ -0,0 +1,30 @@
+// Client wrapper for the server-rendered selection report
+
+import { DatasheetReference, Message } from '../types';
+import { fetchRoute } from './apiClient';
+
+export interface SelectionReportInput {
+    title: string;
+    messages: Message[];
+    datasheets: DatasheetReference[];
+    selectedModelId?: string;
+}
+
+// Fetches the PDF and hands it to the browser as a download
+export async function downloadSelectionReport(input: SelectionReportInput): Promise<void> {
+    const response = await fetchRoute('POST /api/reports/selection', { body: input });
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(error.error || `Server error: ${response.status}`);
+    }
+
+    const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'jobird_selection_report.pdf';
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
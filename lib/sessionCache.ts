@@ -0,0 +1,77 @@
+// IndexedDB cache of the signed-in user's chat sessions
+// Lets the sidebar and the last conversation restore instantly while the server copy loads.
+// Every call degrades to a no-op (or an empty result) where IndexedDB is unavailable.
+
+import { ChatSession } from '../types';
+
+const DB_NAME = 'jobird';
+const STORE = 'chatSessions';
+
+interface CachedSession {
+    key: string; // `${owner}/${session.id}`
+    owner: string;
+    session: ChatSession;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+                store.createIndex('owner', 'owner');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> {
+    if (typeof indexedDB === 'undefined') return Promise.resolve(undefined);
+    return openDb()
+        .then(db => new Promise<T>((resolve, reject) => {
+            const request = fn(db.transaction(STORE, mode).objectStore(STORE));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }))
+        .catch(error => {
+            console.warn('[sessionCache] IndexedDB unavailable:', error);
+            return undefined;
+        });
+}
+
+export async function getCachedSessions(owner: string): Promise<ChatSession[]> {
+    const entries = await run<CachedSession[]>('readonly', store => store.index('owner').getAll(owner));
+    return (entries || []).map(e => e.session);
+}
+
+export async function getCachedSession(owner: string, id: string): Promise<ChatSession | undefined> {
+    const entry = await run<CachedSession>('readonly', store => store.get(`${owner}/${id}`));
+    return entry?.session;
+}
+
+// The server keeps uploaded files by name only; put back the text this browser still has
+export function withCachedFiles(session: ChatSession, cached?: ChatSession): ChatSession {
+    if (!cached) return session;
+    const sessionFiles = session.sessionFiles.map(f => f.content !== undefined ? f : cached.sessionFiles.find(c => c.name === f.name) || f);
+    return { ...session, sessionFiles };
+}
+
+export async function cacheSession(owner: string, session: ChatSession): Promise<void> {
+    await run('readwrite', store => store.put({ key: `${owner}/${session.id}`, owner, session } satisfies CachedSession));
+}
+
+export async function uncacheSession(owner: string, id: string): Promise<void> {
+    await run('readwrite', store => store.delete(`${owner}/${id}`));
+}
+
+// Drop everything cached for a user (on sign-out, so a shared machine doesn't keep their chats)
+export async function clearCachedSessions(owner: string): Promise<void> {
+    const keys = await run<IDBValidKey[]>('readonly', store => store.index('owner').getAllKeys(owner));
+    await Promise.all((keys || []).map(key => run('readwrite', store => store.delete(key))));
+}
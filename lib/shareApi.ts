@@ -0,0 +1,30 @@
+// Client wrapper for read-only session share links
+
+import { SessionShare, SharedSession } from '../types';
+import { callApi } from './apiClient';
+import { reviveMessage } from './chatSessionApi';
+
+export const shareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+export async function fetchShares(sessionId: string): Promise<SessionShare[]> {
+    const data = await callApi('GET /api/chat-sessions/:id/shares', { params: { id: sessionId } });
+    return data.shares;
+}
+
+// Omit expiresInDays for a link that never expires
+export function createShare(sessionId: string, expiresInDays?: number): Promise<SessionShare> {
+    return callApi('POST /api/chat-sessions/:id/shares', { params: { id: sessionId }, body: { expiresInDays } });
+}
+
+export function revokeShare(token: string): Promise<SessionShare> {
+    return callApi('DELETE /api/shares/:token', { params: { token } });
+}
+
+export async function fetchSharedSession(token: string): Promise<SharedSession> {
+    const shared = await callApi('GET /api/shares/:token', { params: { token } });
+    return {
+        ...shared,
+        timestamp: new Date(shared.timestamp),
+        messages: shared.messages.map(reviveMessage)
+    };
+}
@@ -0,0 +1,39 @@
+// Client wrapper for the SOP lifecycle endpoints
+// The server is the source of truth; callers refetch the list after each change
+
+import { SOP, SopReview, SopWorkflowRule } from '../types';
+import { callApi } from './apiClient';
+
+export type SopProposal = Pick<SOP, 'id' | 'title' | 'description' | 'version' | 'category'>
+    & Partial<Pick<SOP, 'replacesId' | 'changeReason' | 'proposedBy' | 'rules' | 'effectiveDate'>>
+    & { changeRequestId?: string }; // Links the new draft to an open change request
+
+// Reviewer and role come from the signed-in account
+export type SopReviewInput = Pick<SopReview, 'decision' | 'comment'> & { effectiveDate?: string };
+
+export async function fetchSops(): Promise<SOP[]> {
+    const data = await callApi('GET /api/sops');
+    return data.sops;
+}
+
+export function proposeSop(proposal: SopProposal): Promise<SOP> {
+    return callApi('POST /api/sops', { body: proposal });
+}
+
+export function reviewSop(id: string, review: SopReviewInput): Promise<SOP> {
+    return callApi('POST /api/sops/:id/reviews', { params: { id }, body: review });
+}
+
+export function deprecateSop(id: string, reason: string): Promise<SOP> {
+    return callApi('POST /api/sops/:id/deprecate', { params: { id }, body: { reason } });
+}
+
+export async function fetchSopHistory(id: string): Promise<SOP[]> {
+    const data = await callApi('GET /api/sops/:id/history', { params: { id } });
+    return data.history;
+}
+
+export async function fetchSopWorkflow(): Promise<SopWorkflowRule[]> {
+    const data = await callApi('GET /api/sops/workflow');
+    return data.workflow;
+}
@@ -0,0 +1,76 @@
+// Field-level diff between two SOP versions
+// Text fields are diffed word by word, structured rules line by line (one line per rule)
+
+import { SOP } from '../types';
+import { describeRule } from '../shared/sopRules.js';
+
+export interface DiffSegment {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+export interface SopFieldDiff {
+    field: string;
+    label: string;
+    changed: boolean;
+    segments: DiffSegment[];
+}
+
+const DIFF_FIELDS: { field: keyof SOP; label: string; mode: 'words' | 'lines' }[] = [
+    { field: 'title', label: 'Title', mode: 'words' },
+    { field: 'version', label: 'Version', mode: 'words' },
+    { field: 'status', label: 'Status', mode: 'words' },
+    { field: 'category', label: 'Category', mode: 'words' },
+    { field: 'description', label: 'Procedure', mode: 'words' },
+    { field: 'rules', label: 'Rules', mode: 'lines' },
+    { field: 'changeReason', label: 'Reason for change', mode: 'words' },
+    { field: 'proposedBy', label: 'Proposed by', mode: 'words' },
+    { field: 'effectiveDate', label: 'Effective date', mode: 'words' },
+    { field: 'rejectionReason', label: 'Rejection reason', mode: 'words' },
+    { field: 'lastUpdated', label: 'Last updated', mode: 'words' }
+];
+
+// Longest-common-subsequence diff over tokens
+function diffTokens(a: string[], b: string[]): DiffSegment[] {
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    const push = (type: DiffSegment['type'], text: string) => {
+        const last = segments[segments.length - 1];
+        if (last && last.type === type) last.text += text;
+        else segments.push({ type, text });
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) { push('same', a[i]); i++; j++; }
+        else if (lcs[i + 1][j] >= lcs[i][j + 1]) push('removed', a[i++]);
+        else push('added', b[j++]);
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+    return segments;
+}
+
+function fieldText(sop: SOP | null, field: keyof SOP): string {
+    if (!sop) return '';
+    if (field === 'rules') return (sop.rules || []).map(r => `${describeRule(r)}\n`).join('');
+    const value = sop[field];
+    return value === undefined || value === null ? '' : String(value);
+}
+
+// `before` is null for the first version of a lineage, so every field shows as added
+export function diffSops(before: SOP | null, after: SOP): SopFieldDiff[] {
+    return DIFF_FIELDS.map(({ field, label, mode }) => {
+        const a = fieldText(before, field);
+        const b = fieldText(after, field);
+        const tokenize = (text: string) => mode === 'lines' ? text.split(/(?<=\n)/).filter(Boolean) : text.split(/(\s+)/).filter(Boolean);
+        return { field, label, changed: a !== b, segments: diffTokens(tokenize(a), tokenize(b)) };
+    });
+}
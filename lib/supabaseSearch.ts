@@ -1,17 +1,10 @@
 // Client-side wrapper that calls the secure backend API
 // Supabase service role key is now only on the server
 
-export interface ProductMatch {
-    id: string;
-    product_code: string;
-    name: string;
-    category: string;
-    specifications: Record<string, any>;
-    description: string;
-    applications: string | null;
-    pdf_storage_url: string;
-    similarity: number;
-}
+import { KnowledgeBaseStats, ProductMatch } from '../types';
+import { callApi } from './apiClient';
+
+export type { KnowledgeBaseStats, ProductMatch };
 
 // Legacy alias for backward compatibility
 export type PdfChunkMatch = ProductMatch;
@@ -21,18 +14,7 @@ export async function searchProducts(
     matchCount = 5
 ): Promise<ProductMatch[]> {
     try {
-        const response = await fetch('/api/search', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ query: question, matchCount })
-        });
-
-        if (!response.ok) {
-            console.error('Search API error:', response.status);
-            return [];
-        }
-
-        const data = await response.json();
+        const data = await callApi('POST /api/search', { body: { query: question, matchCount } });
         return data.results || [];
     } catch (err) {
         console.error('Search failed:', err);
@@ -43,22 +25,9 @@ export async function searchProducts(
 // Legacy alias
 export const searchPdfChunks = searchProducts;
 
-export interface KnowledgeBaseStats {
-    totalProducts: number;
-    categories?: string[];
-    sampleProducts?: string[];
-}
-
 export async function getKnowledgeBaseStats(): Promise<KnowledgeBaseStats> {
     try {
-        const response = await fetch('/api/stats');
-
-        if (!response.ok) {
-            console.error('Stats API error:', response.status);
-            return { totalProducts: 0 };
-        }
-
-        return await response.json();
+        return await callApi('GET /api/stats');
     } catch (err) {
         console.error('Stats query failed:', err);
         return { totalProducts: 0 };
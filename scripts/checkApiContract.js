@@ -0,0 +1,367 @@
+// Contract tests: server/index.js, server/openapi.js and lib/apiClient.ts must describe the same API
+// Run with: npm run test:contract (exits with 1 on any drift)
+//
+// 1. Routes: every route the server registers is in the spec with the same method and permission guard
+//    (x-permission), and the spec documents nothing the server lacks.
+// 2. Client: lib/apiClient.ts has exactly one ApiRoutes entry per documented operation.
+// 3. Responses: a throwaway server (empty DATA_DIR, no AI or Supabase keys) is taken through a scripted
+//    session; every response must use a documented status and content type, and JSON bodies must match
+//    the schema (event streams: each event's data). Objects are closed: a field the schema doesn't declare
+//    counts as drift.
+
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { openApiSpec } from '../server/openapi.js';
+
+const ROOT = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+const PORT = 18000 + Math.floor(Math.random() * 1000);
+const BASE_URL = `http://127.0.0.1:${PORT}`;
+const ADMIN_PASSWORD = 'contract-check-password';
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+const failures = [];
+const fail = message => failures.push(message);
+
+// Express ':param' paths to OpenAPI '{param}' templates
+const toTemplate = expressPath => expressPath.replace(/:(\w+)/g, '{$1}');
+
+function specOperations() {
+    return Object.entries(openApiSpec.paths).flatMap(([template, item]) =>
+        METHODS.filter(method => item[method]).map(method => ({ key: `${method.toUpperCase()} ${template}`, template, method, operation: item[method] })));
+}
+
+// --- 1. Server routes vs spec ---
+
+function checkServerRoutes(operations) {
+    const source = fs.readFileSync(path.join(ROOT, 'server', 'index.js'), 'utf8');
+    const routePattern = /^app\.(get|post|put|patch|delete)\('(\/api\/[^']*)'(?:,\s*requirePermission\('([^']+)'\))?/gm;
+    const serverRoutes = new Map();
+    for (const [, method, expressPath, permission] of source.matchAll(routePattern)) {
+        serverRoutes.set(`${method.toUpperCase()} ${toTemplate(expressPath)}`, permission);
+    }
+
+    const documented = new Map(operations.map(op => [op.key, op]));
+    for (const [key, permission] of serverRoutes) {
+        const op = documented.get(key);
+        if (!op) {
+            fail(`server route ${key} is not in server/openapi.js`);
+        } else if ((op.operation['x-permission'] || undefined) !== permission) {
+            fail(`${key}: server requires ${permission || 'no permission'}, spec says ${op.operation['x-permission'] || 'none'}`);
+        }
+    }
+    for (const key of documented.keys()) {
+        if (!serverRoutes.has(key)) fail(`spec documents ${key}, which server/index.js does not register`);
+    }
+
+    // Path templates and declared path parameters agree
+    for (const { key, template, operation } of operations) {
+        const inPath = [...template.matchAll(/\{(\w+)\}/g)].map(m => m[1]).sort();
+        const declared = (operation.parameters || []).filter(p => p.in === 'path').map(p => p.name).sort();
+        if (inPath.join() !== declared.join()) fail(`${key}: path parameters ${inPath.join(', ') || 'none'} but declares ${declared.join(', ') || 'none'}`);
+    }
+    return serverRoutes.size;
+}
+
+// --- 2. Typed client vs spec ---
+
+function checkClientRoutes(operations) {
+    const source = fs.readFileSync(path.join(ROOT, 'lib', 'apiClient.ts'), 'utf8');
+    const clientRoutes = new Set([...source.matchAll(/^\s*'(GET|POST|PUT|PATCH|DELETE) (\/api\/[^']+)':/gm)]
+        .map(([, method, expressPath]) => `${method} ${toTemplate(expressPath)}`));
+    const documented = new Set(operations.map(op => op.key));
+
+    for (const key of clientRoutes) {
+        if (!documented.has(key)) fail(`lib/apiClient.ts has ${key}, which the spec does not document`);
+    }
+    for (const key of documented) {
+        if (!clientRoutes.has(key)) fail(`lib/apiClient.ts has no entry for ${key}`);
+    }
+    return clientRoutes.size;
+}
+
+// --- 3. Live responses vs schemas ---
+
+function resolve(schema) {
+    while (schema.$ref) schema = schema.$ref.split('/').slice(1).reduce((node, part) => node[part], openApiSpec);
+    return schema;
+}
+
+const typeOf = value => value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+function matchesType(value, type) {
+    if (type === 'integer') return Number.isInteger(value);
+    return typeOf(value) === type;
+}
+
+// Problems with `value` against `schema`, as "where: what" strings
+function validate(value, rawSchema, where = 'body') {
+    const schema = resolve(rawSchema);
+    if (schema.oneOf) {
+        const matching = schema.oneOf.filter(option => validate(value, option, where).length === 0).length;
+        return matching === 1 ? [] : [`${where}: matches ${matching} of the oneOf schemas (expected exactly 1): ${JSON.stringify(value).slice(0, 200)}`];
+    }
+    if ('const' in schema && value !== schema.const) return [`${where}: expected ${JSON.stringify(schema.const)}, got ${JSON.stringify(value)}`];
+    const types = schema.type ? [].concat(schema.type) : null;
+    if (types && !types.some(type => matchesType(value, type))) {
+        return [`${where}: expected ${types.join(' | ')}, got ${typeOf(value)}`];
+    }
+    const problems = [];
+    if (schema.enum && !schema.enum.includes(value)) problems.push(`${where}: ${JSON.stringify(value)} is not one of ${schema.enum.join(', ')}`);
+    if (schema.format === 'date-time' && typeof value === 'string' && Number.isNaN(Date.parse(value))) problems.push(`${where}: "${value}" is not a date-time`);
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, i) => problems.push(...validate(item, schema.items, `${where}[${i}]`)));
+    }
+    if (typeOf(value) === 'object' && (schema.properties || schema.required)) {
+        const properties = schema.properties || {};
+        for (const key of schema.required || []) {
+            if (!(key in value)) problems.push(`${where}.${key}: required but missing`);
+        }
+        for (const [key, field] of Object.entries(value)) {
+            if (properties[key]) problems.push(...validate(field, properties[key], `${where}.${key}`));
+            else if (typeof schema.additionalProperties === 'object') problems.push(...validate(field, schema.additionalProperties, `${where}.${key}`));
+            else if (schema.additionalProperties !== true) problems.push(`${where}.${key}: not declared in the spec`);
+        }
+    }
+    return problems;
+}
+
+function findOperation(operations, method, url) {
+    const pathname = new URL(url, BASE_URL).pathname;
+    return operations.find(op => op.method === method.toLowerCase()
+        && new RegExp(`^${op.template.replace(/\{\w+\}/g, '[^/]+')}$`).test(pathname));
+}
+
+async function startServer(dataDir) {
+    const env = { ...process.env, PORT: String(PORT), DATA_DIR: dataDir, ADMIN_USERNAME: 'admin', ADMIN_PASSWORD };
+    // Keep the run offline and deterministic
+    for (const key of Object.keys(env)) {
+        if (key.includes('GEMINI') || key.includes('SUPABASE')) env[key] = '';
+    }
+    const server = spawn(process.execPath, [path.join(ROOT, 'server', 'index.js')], { env, stdio: ['ignore', 'ignore', 'pipe'] });
+    let stderr = '';
+    server.stderr.on('data', chunk => { stderr += chunk; });
+
+    for (let attempt = 0; attempt < 50; attempt++) {
+        if (server.exitCode !== null) throw new Error(`Server exited during startup:\n${stderr}`);
+        try {
+            if ((await fetch(`${BASE_URL}/api/ping`)).ok) return server;
+        } catch { /* not listening yet */ }
+        await new Promise(r => setTimeout(r, 200));
+    }
+    server.kill();
+    throw new Error(`Server did not start on port ${PORT}:\n${stderr}`);
+}
+
+async function runScenario(operations) {
+    const exercised = new Set();
+    const tokens = {};
+    let lastHeaders = new Headers(); // Of the latest response
+
+    // Sends a request, checks it against the spec and returns the parsed JSON body (if any)
+    async function call(method, url, { as, body, apiKey, status, headers: extraHeaders } = {}) {
+        const headers = { 'Content-Type': 'application/json', ...extraHeaders };
+        if (as) headers.Authorization = `Bearer ${tokens[as]}`;
+        if (apiKey) headers['X-API-Key'] = apiKey;
+        const response = await fetch(`${BASE_URL}${url}`, { method, headers, body: body === undefined ? undefined : JSON.stringify(body) });
+        const label = `${method} ${url} -> ${response.status}`;
+        const mediaType = (response.headers.get('Content-Type') || '').split(';')[0];
+        const text = await response.text();
+        lastHeaders = response.headers;
+
+        if (status && response.status !== status) fail(`${label}: expected ${status} (${text.slice(0, 200)})`);
+
+        const found = findOperation(operations, method, url);
+        if (!found) {
+            fail(`${label}: no documented operation`);
+            return null;
+        }
+        exercised.add(found.key);
+        const documented = found.operation.responses[response.status];
+        if (!documented) {
+            fail(`${label}: status ${response.status} is not documented for ${found.key}`);
+            return null;
+        }
+        if (!documented.content) {
+            if (text) fail(`${label}: documented without a body but returned one`);
+            return null;
+        }
+        const media = documented.content[mediaType];
+        if (!media) {
+            fail(`${label}: content type ${mediaType || 'none'} is not documented (${Object.keys(documented.content).join(', ')})`);
+            return null;
+        }
+        if (mediaType === 'text/event-stream' && media['x-data-schema']) {
+            const events = text.split('\n').filter(line => line.startsWith('data: ')).map((line, i) => {
+                try {
+                    return JSON.parse(line.slice(6));
+                } catch {
+                    fail(`${label}: event ${i} is not JSON: ${line.slice(0, 200)}`);
+                    return null;
+                }
+            });
+            events.forEach((event, i) => {
+                if (event) validate(event, media['x-data-schema'], `event[${i}]`).forEach(problem => fail(`${label}: ${problem}`));
+            });
+            return events;
+        }
+        if (mediaType !== 'application/json') return text;
+
+        const json = JSON.parse(text);
+        for (const problem of validate(json, media.schema)) fail(`${label}: ${problem}`);
+        return json;
+    }
+
+    // Public routes and authentication
+    await call('GET', '/api/ping', { status: 200 });
+    await call('POST', '/api/ping', { status: 200 });
+    await call('GET', '/api/openapi.json', { status: 200 });
+    await call('GET', '/api/config', { status: 200 });
+    await call('GET', '/api/sops', { status: 401 });
+    await call('POST', '/api/auth/login', { body: { username: 'admin', password: 'wrong-password' }, status: 401 });
+    tokens.admin = (await call('POST', '/api/auth/login', { body: { username: 'admin', password: ADMIN_PASSWORD }, status: 200 })).token;
+    await call('GET', '/api/auth/me', { as: 'admin', status: 200 });
+
+    // Users and roles
+    await call('GET', '/api/users', { as: 'admin', status: 200 });
+    await call('POST', '/api/users', { as: 'admin', body: { username: 'contract-sales', name: 'Contract Sales', role: 'sales', password: 'sales-password-1' }, status: 201 });
+    await call('PATCH', '/api/users/contract-sales', { as: 'admin', body: { name: 'Contract Sales Rep' }, status: 200 });
+    tokens.sales = (await call('POST', '/api/auth/login', { body: { username: 'contract-sales', password: 'sales-password-1' }, status: 200 })).token;
+    await call('GET', '/api/audit', { as: 'sales', status: 403 });
+
+    // API keys and the public API
+    const created = await call('POST', '/api/api-keys', { as: 'admin', body: { name: 'Contract check' }, status: 201 });
+    await call('GET', '/api/api-keys', { as: 'admin', status: 200 });
+    await call('POST', '/api/v1/selection', { body: { query: 'JB08' }, status: 401 });
+    await call('POST', '/api/v1/selection', { apiKey: created.key, body: { query: '' }, status: 400 });
+    await call('DELETE', `/api/api-keys/${created.id}`, { as: 'admin', status: 200 });
+
+    // Selection (validation only: no AI calls)
+    await call('POST', '/api/chat', { as: 'sales', body: { query: 'JB08', history: 'not-an-array' }, status: 400 });
+    await call('POST', '/api/chat/stream', { as: 'sales', body: {}, status: 200 });
+    const events = await call('POST', '/api/chat/stream', { as: 'sales', body: { query: 'Which cabinet holds 12 lifejackets?' }, status: 200 });
+    if (!events?.some(event => event?.type === 'stage' && event.stage === 'generating')) fail('POST /api/chat/stream: no generating stage event');
+    const streamId = lastHeaders.get('X-Stream-Id');
+    if (!streamId) fail('POST /api/chat/stream: no X-Stream-Id header');
+    const resumed = await call('GET', `/api/chat/stream/${streamId}`, { as: 'sales', headers: { 'Last-Event-ID': '1' }, status: 200 });
+    if (JSON.stringify(resumed) !== JSON.stringify(events?.slice(1))) fail('GET /api/chat/stream/{id}: resuming after event 1 did not replay the remaining events');
+    await call('GET', `/api/chat/stream/${streamId}`, { as: 'admin', status: 404 });
+    await call('DELETE', `/api/chat/stream/${streamId}`, { as: 'sales', status: 204 });
+    await call('DELETE', '/api/chat/stream/unknown-stream', { as: 'sales', status: 404 });
+
+    // Catalog tools
+    await call('GET', '/api/stats', { as: 'sales', status: 200 });
+    await call('GET', '/api/stats?category=fire', { as: 'sales', status: 200 });
+    await call('POST', '/api/search', { as: 'sales', body: {}, status: 400 });
+    await call('GET', '/api/insulation', { as: 'sales', status: 200 });
+    await call('GET', '/api/insulation/jb08', { as: 'sales', status: 200 });
+    await call('GET', '/api/insulation/NOPE', { as: 'sales', status: 404 });
+    await call('POST', '/api/stacking-plan', { as: 'sales', body: { lifejackets: 40, deckHeightMm: 2400 }, status: 200 });
+    await call('POST', '/api/stacking-plan', { as: 'sales', body: { lifejackets: -1 }, status: 400 });
+    await call('POST', '/api/configurations/evaluate', { as: 'sales', body: { modelId: 'JB08', insulationMm: 50, options: ['heater'] }, status: 200 });
+    await call('POST', '/api/configurations/evaluate', { as: 'sales', body: { modelId: 'NOPE' }, status: 400 });
+    await call('POST', '/api/configurations/evaluate', { as: 'sales', body: { modelId: 'JB08', equipment: 'x' }, status: 400 });
+
+    // Feedback, change requests and the SOP lifecycle
+    const feedback = await call('POST', '/api/feedback', {
+        as: 'sales',
+        body: { task: 'Quote JB08 with 50mm insulation', issue: 'Internal depth looked wrong', urgency: 'Medium', context: { cabinetId: 'JB08', insulation: '50mm' } },
+        status: 201
+    });
+    await call('GET', '/api/feedback', { as: 'sales', status: 200 });
+    await call('PATCH', `/api/feedback/${feedback.id}`, { as: 'admin', body: { status: 'triaged', assignee: 'admin' }, status: 200 });
+    await call('POST', `/api/feedback/${feedback.id}/comments`, { as: 'admin', body: { text: 'Checking the deduction table' }, status: 201 });
+    const changeRequest = await call('POST', `/api/feedback/${feedback.id}/promote`, { as: 'admin', body: {}, status: 201 });
+    await call('GET', '/api/change-requests', { as: 'sales', status: 200 });
+
+    const workflow = await call('GET', '/api/sops/workflow', { as: 'sales', status: 200 });
+    const fallback = workflow.workflow.find(rule => rule.category === '*') || workflow.workflow[0];
+    await call('PUT', `/api/sops/workflow/${encodeURIComponent(fallback.category)}`, { as: 'admin', body: { reviews: fallback.reviews }, status: 200 });
+    const sops = await call('GET', '/api/sops', { as: 'sales', status: 200 });
+    await call('GET', '/api/sops?status=Active', { as: 'sales', status: 200 });
+    await call('POST', '/api/sops', { as: 'sales', body: { id: 'SOP-CONTRACT-00', title: 'Sales draft', description: 'Not allowed', version: '1.0.0', category: 'Engineering' }, status: 403 });
+    const draft = await call('POST', '/api/sops', {
+        as: 'admin',
+        body: { id: 'SOP-CONTRACT-01', title: 'Contract check', description: 'Draft raised by the contract check', version: '1.0.0', category: 'Engineering', rules: [{ kind: 'weightThreshold', maxShelfKg: 12 }] },
+        status: 201
+    });
+    await call('POST', `/api/change-requests/${changeRequest.id}/sops`, { as: 'admin', body: { sopId: draft.id }, status: 200 });
+    await call('POST', `/api/sops/${draft.id}/reviews`, { as: 'admin', body: { decision: 'approve', comment: 'Looks right' } });
+    await call('GET', `/api/sops/${draft.id}/history`, { as: 'sales', status: 200 });
+    const active = sops.sops.find(sop => sop.status === 'Active');
+    await call('POST', `/api/sops/${active.id}/deprecate`, { as: 'admin', body: { reason: 'Superseded in the contract check' }, status: 200 });
+
+    // Audit log (after the changes above, so there are entries to check)
+    await call('GET', '/api/audit?pageSize=5', { as: 'admin', status: 200 });
+    await call('GET', '/api/audit?from=yesterday', { as: 'admin', status: 400 });
+    await call('GET', '/api/audit/export?format=json', { as: 'admin', status: 200 });
+    await call('GET', '/api/audit/export', { as: 'admin', status: 200 });
+    await call('GET', '/api/audit/verify', { as: 'admin', status: 200 });
+
+    // Chat sessions, shares and reports
+    const now = new Date().toISOString();
+    const datasheets = [{ filename: 'JB02.pdf', displayName: 'JB02', productCode: 'JB02' }];
+    // An edited question: the first version (stopped early) is kept as a branch
+    const firstVersion = [
+        { role: 'user', content: 'Which cabinet fits a fire hose?', timestamp: now },
+        { role: 'assistant', content: 'The', timestamp: now, stopped: true }
+    ];
+    const messages = [
+        { role: 'user', content: 'Which cabinet fits two 30m fire hoses?', timestamp: now, branches: [{ messages: firstVersion, datasheets: [] }, { messages: [], datasheets: [] }], branchIndex: 1 },
+        { role: 'assistant', content: 'The **JB02** holds two 30m hoses.', timestamp: now, datasheets, citedSops: [{ sopId: 'SOP-JB-05', sopVersion: '1.4.2', title: 'Heavy Equipment Placement' }] }
+    ];
+    const sessionId = 'contract-session-1';
+    await call('PUT', `/api/chat-sessions/${sessionId}`, { as: 'sales', body: { title: 'Fire hoses', messages, datasheets, sessionFiles: [{ name: 'spec.txt', content: 'Two hoses' }], timestamp: now }, status: 200 });
+    await call('GET', '/api/chat-sessions', { as: 'sales', status: 200 });
+    await call('GET', '/api/chat-sessions/search?q=hoses', { as: 'sales', status: 200 });
+    await call('GET', `/api/chat-sessions/${sessionId}`, { as: 'sales', status: 200 });
+    await call('PATCH', `/api/chat-sessions/${sessionId}`, { as: 'sales', body: { pinned: true, tags: [{ kind: 'customer', value: 'Contract Marine' }] }, status: 200 });
+    const share = await call('POST', `/api/chat-sessions/${sessionId}/shares`, { as: 'sales', body: { expiresInDays: 7 }, status: 201 });
+    await call('POST', `/api/chat-sessions/${sessionId}/shares`, { as: 'sales', body: { expiresInDays: 0 }, status: 400 });
+    await call('GET', `/api/chat-sessions/${sessionId}/shares`, { as: 'sales', status: 200 });
+    await call('GET', `/api/shares/${share.token}`, { as: 'admin', status: 200 });
+    await call('DELETE', `/api/shares/${share.token}`, { as: 'sales', status: 200 });
+    await call('GET', `/api/shares/${share.token}`, { as: 'admin', status: 404 });
+    await call('POST', '/api/reports/selection', { as: 'sales', body: { title: 'Fire hoses', messages, datasheets, selectedModelId: 'JB02' }, status: 200 });
+    await call('POST', '/api/reports/selection', { as: 'sales', body: { title: 'Fire hoses' }, status: 400 });
+    await call('DELETE', `/api/chat-sessions/${sessionId}`, { as: 'sales', status: 204 });
+    await call('GET', `/api/chat-sessions/${sessionId}`, { as: 'sales', status: 404 });
+
+    await call('GET', '/api/diag', { as: 'admin', status: 200 });
+    await call('POST', '/api/auth/logout', { as: 'sales', status: 204 });
+    await call('GET', '/api/auth/me', { as: 'sales', status: 401 });
+
+    return exercised;
+}
+
+async function main() {
+    const operations = specOperations();
+    const serverCount = checkServerRoutes(operations);
+    const clientCount = checkClientRoutes(operations);
+    console.log(`Routes: ${serverCount} on the server, ${operations.length} in the spec, ${clientCount} in lib/apiClient.ts`);
+
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobird-contract-'));
+    let server;
+    try {
+        server = await startServer(dataDir);
+        const exercised = await runScenario(operations);
+        const untested = operations.map(op => op.key).filter(key => !exercised.has(key));
+        console.log(`Responses: ${exercised.size} of ${operations.length} operations exercised${untested.length ? ` (not exercised: ${untested.join(', ')})` : ''}`);
+    } catch (error) {
+        fail(`Live check aborted: ${error.stack || error.message}`);
+    } finally {
+        server?.kill();
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+
+    if (failures.length > 0) {
+        console.error(`\n${failures.length} contract failure(s):`);
+        failures.forEach(f => console.error(`  - ${f}`));
+        process.exit(1);
+    }
+    console.log('API contract OK');
+}
+
+main();
@@ -0,0 +1,66 @@
+// API keys for the versioned public API (/api/v1), used by the quoting system and partner portals
+// Only a SHA-256 of each key is stored; the key itself is shown once, when it is created.
+
+import crypto from 'crypto';
+import { createCollection } from './store.js';
+import { recordAudit } from './auditLog.js';
+import { HttpError } from './httpError.js';
+
+const KEY_PREFIX = 'jbk_';
+const MAX_NAME_LENGTH = 100;
+// lastUsedAt is only rewritten this often, so busy integrations don't rewrite the file on every call
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const apiKeyStore = createCollection('apiKeys');
+
+const hashKey = key => crypto.createHash('sha256').update(key).digest('hex');
+
+// What admins see of a key (never the hash)
+const describe = ({ keyHash, ...apiKey }) => apiKey;
+
+export const isApiKey = token => String(token || '').startsWith(KEY_PREFIX);
+
+export function listApiKeys() {
+    return apiKeyStore.all()
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(describe);
+}
+
+// Returns the key record plus the plaintext key, which is not kept
+export function createApiKey({ name } = {}, user) {
+    if (typeof name !== 'string' || !name.trim()) throw new HttpError(400, 'name is required (e.g. the system that will use the key)');
+    const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+    const apiKey = apiKeyStore.insert({
+        id: `key-${crypto.randomUUID()}`,
+        name: name.trim().slice(0, MAX_NAME_LENGTH),
+        keyHash: hashKey(key),
+        prefix: key.slice(0, KEY_PREFIX.length + 6),
+        createdBy: user,
+        createdAt: new Date().toISOString()
+    });
+    recordAudit(user, 'Create API Key', `API key "${apiKey.name}" (${apiKey.prefix}…) created`);
+    return { ...describe(apiKey), key };
+}
+
+export function revokeApiKey(id, user) {
+    const apiKey = apiKeyStore.get(id);
+    if (!apiKey) throw new HttpError(404, `Unknown API key: ${id}`);
+    if (apiKey.revokedAt) return describe(apiKey);
+    const revoked = apiKeyStore.update(id, { revokedAt: new Date().toISOString(), revokedBy: user });
+    recordAudit(user, 'Revoke API Key', `API key "${apiKey.name}" (${apiKey.prefix}…) revoked`);
+    return describe(revoked);
+}
+
+// The key's client { id, name }, or null for an unknown or revoked key
+export function authenticateApiKey(key) {
+    if (!isApiKey(key)) return null;
+    const keyHash = hashKey(key);
+    const apiKey = apiKeyStore.find(k => k.keyHash === keyHash)[0];
+    if (!apiKey || apiKey.revokedAt) return null;
+
+    const now = Date.now();
+    if (!apiKey.lastUsedAt || now - Date.parse(apiKey.lastUsedAt) > LAST_USED_RESOLUTION_MS) {
+        apiKeyStore.update(apiKey.id, { lastUsedAt: new Date(now).toISOString() });
+    }
+    return { id: apiKey.id, name: apiKey.name };
+}
@@ -0,0 +1,182 @@
+// Append-only, hash-chained audit log
+// One JSON entry per line in audit.jsonl. Each entry's hash covers its content and the previous
+// entry's hash, so editing, deleting or reordering any line breaks verification from that point on.
+// The chain alone can't tell a log cut short from an intact one, so every append also writes a checkpoint
+// (last seq and hash, signed with the server secret) to a separate file. The log is checked against it
+// on load; a mismatch is recorded in the log itself.
+
+import fs from 'fs';
+import crypto from 'crypto';
+import { dataFilePath } from './store.js';
+import { signingKey } from './secrets.js';
+
+const AUDIT_FILE = dataFilePath('audit.jsonl');
+const CHECKPOINT_FILE = dataFilePath('audit.checkpoint.json');
+const CHECKPOINT_KEY = signingKey('audit-checkpoint');
+const GENESIS_HASH = '0'.repeat(64);
+
+const entryId = seq => `LOG-${String(seq).padStart(6, '0')}`;
+
+function hashEntry(entry) {
+    const { seq, id, user, action, timestamp, changeDetail, prevHash } = entry;
+    return crypto.createHash('sha256')
+        .update(JSON.stringify([seq, id, user, action, timestamp, changeDetail, prevHash]))
+        .digest('hex');
+}
+
+function readEntries() {
+    let raw;
+    try {
+        raw = fs.readFileSync(AUDIT_FILE, 'utf8');
+    } catch (err) {
+        if (err.code === 'ENOENT') return [];
+        throw err;
+    }
+    // Unparseable lines stay in place as null so verification can report where they are
+    return raw.split('\n').filter(Boolean).map(line => {
+        try {
+            return JSON.parse(line);
+        } catch {
+            return null;
+        }
+    });
+}
+
+const signCheckpoint = (seq, hash) => crypto.createHmac('sha256', CHECKPOINT_KEY).update(`${seq}:${hash}`).digest('hex');
+
+function readCheckpoint() {
+    try {
+        return JSON.parse(fs.readFileSync(CHECKPOINT_FILE, 'utf8'));
+    } catch (err) {
+        if (err.code === 'ENOENT') return null;
+        return {}; // Unreadable: fails the signature check
+    }
+}
+
+function writeCheckpoint({ seq, hash }) {
+    const checkpoint = { seq, hash, signature: signCheckpoint(seq, hash) };
+    const tmp = `${CHECKPOINT_FILE}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(checkpoint));
+    fs.renameSync(tmp, CHECKPOINT_FILE);
+    return checkpoint;
+}
+
+// Where the log (an array of entries, as read from disk) disagrees with the checkpoint, or null
+function checkpointMismatch(log, checkpoint) {
+    if (!checkpoint) {
+        return log.length === 0 ? null : { seq: 1, id: entryId(1), reason: 'checkpoint is missing (deleted, or the log predates checkpoints)' };
+    }
+    const { seq, hash, signature } = checkpoint;
+    if (!Number.isInteger(seq) || typeof hash !== 'string' || signature !== signCheckpoint(seq, hash)) {
+        return { seq: 1, id: entryId(1), reason: 'checkpoint signature does not match (checkpoint edited)' };
+    }
+    if (log.length < seq) {
+        return { seq: log.length + 1, id: entryId(log.length + 1), reason: 'entries truncated from the end of the log' };
+    }
+    if (log[seq - 1]?.hash !== hash) {
+        return { seq, id: entryId(seq), reason: 'entry does not match the checkpoint (log rewritten)' };
+    }
+    if (log.length > seq) {
+        return { seq: seq + 1, id: entryId(seq + 1), reason: 'entries appended after the checkpoint (written outside the server)' };
+    }
+    return null;
+}
+
+// Loaded once; the file is only ever appended to after that. The checkpoint is kept in memory too, so
+// an older (validly signed) checkpoint copied back over the file doesn't hide a truncation.
+const entries = readEntries().filter(Boolean);
+let checkpoint = readCheckpoint();
+
+export function recordAudit(user, action, changeDetail) {
+    const last = entries[entries.length - 1];
+    const seq = last ? last.seq + 1 : 1;
+    const entry = {
+        seq,
+        id: entryId(seq),
+        user: user || 'anonymous',
+        action,
+        timestamp: new Date().toISOString(),
+        changeDetail,
+        prevHash: last ? last.hash : GENESIS_HASH
+    };
+    entry.hash = hashEntry(entry);
+
+    fs.appendFileSync(AUDIT_FILE, JSON.stringify(entry) + '\n');
+    checkpoint = writeCheckpoint(entry);
+    entries.push(entry);
+    return entry;
+}
+
+// A log that no longer matches its checkpoint (cut short or edited while the server was down) stays invalid
+// for this process, and the finding is written into the log, so it remains visible after the next restart
+const startupMismatch = checkpointMismatch(entries, checkpoint);
+if (startupMismatch) {
+    console.error(`[audit] Log does not match its checkpoint at ${startupMismatch.id}: ${startupMismatch.reason}`);
+    recordAudit('system', 'Audit Log Tampered', `On startup: ${startupMismatch.reason} (at ${startupMismatch.id}, ${entries.length} entries on disk)`);
+}
+
+// Newest first, as the admin panel shows them
+export function listAudit() {
+    return [...entries].reverse();
+}
+
+// Re-reads the file from disk, so edits made behind the server's back are caught too
+export function verifyAuditLog() {
+    const onDisk = readEntries();
+    let prevHash = GENESIS_HASH;
+
+    for (let i = 0; i < onDisk.length; i++) {
+        const entry = onDisk[i];
+        if (!entry) {
+            return { valid: false, checked: i, total: onDisk.length, firstInvalid: { seq: i + 1, id: null, reason: 'line is not valid JSON' } };
+        }
+        const problem = entry.seq !== i + 1 ? `expected sequence ${i + 1}, found ${entry.seq}`
+            : entry.prevHash !== prevHash ? 'previous-hash link is broken (entry removed or reordered)'
+            : entry.hash !== hashEntry(entry) ? 'content does not match its hash (entry edited)'
+            : null;
+        if (problem) {
+            return { valid: false, checked: i, total: onDisk.length, firstInvalid: { seq: entry.seq, id: entry.id, reason: problem } };
+        }
+        prevHash = entry.hash;
+    }
+
+    const mismatch = startupMismatch || checkpointMismatch(onDisk, checkpoint) || checkpointMismatch(onDisk, readCheckpoint());
+    if (mismatch) {
+        return { valid: false, checked: Math.min(onDisk.length, mismatch.seq - 1), total: Math.max(onDisk.length, entries.length), firstInvalid: mismatch };
+    }
+    return { valid: true, checked: onDisk.length, total: onDisk.length, headHash: prevHash };
+}
+
+// Filter (user, action, date range, free text), newest first, then paginate.
+// `from` / `to` are inclusive YYYY-MM-DD dates in UTC.
+export function queryAudit({ user, action, from, to, q } = {}) {
+    const needle = q ? q.toLowerCase() : '';
+    const fromTs = from ? `${from}T00:00:00.000Z` : '';
+    const toTs = to ? `${to}T23:59:59.999Z` : '';
+
+    return listAudit().filter(e =>
+        (!user || e.user.toLowerCase() === user.toLowerCase())
+        && (!action || e.action === action)
+        && (!fromTs || e.timestamp >= fromTs)
+        && (!toTs || e.timestamp <= toTs)
+        && (!needle || e.changeDetail.toLowerCase().includes(needle) || e.id.toLowerCase().includes(needle))
+    );
+}
+
+export function auditFacets() {
+    return {
+        users: [...new Set(entries.map(e => e.user))].sort(),
+        actions: [...new Set(entries.map(e => e.action))].sort()
+    };
+}
+
+const CSV_COLUMNS = ['seq', 'id', 'timestamp', 'user', 'action', 'changeDetail', 'prevHash', 'hash'];
+
+function csvCell(value) {
+    const text = String(value ?? '');
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditToCsv(list) {
+    return [CSV_COLUMNS.join(','), ...list.map(e => CSV_COLUMNS.map(c => csvCell(e[c])).join(','))].join('\r\n') + '\r\n';
+}
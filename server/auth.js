@@ -0,0 +1,203 @@
+// User accounts and sessions
+// Passwords are scrypt-hashed; a session token is an HMAC-signed { sid, sub, exp } payload whose sid must
+// still be live in the `sessions` record store, so logout (or disabling an account) revokes it server-side.
+// Sessions are read from DATA_DIR on every request, so any instance sharing it accepts any other's tokens.
+
+import crypto from 'crypto';
+import { createCollection, createRecordStore } from './store.js';
+import { recordAudit } from './auditLog.js';
+import { SERVER_SECRET } from './secrets.js';
+import { HttpError } from './httpError.js';
+
+export const USER_ROLES = ['sales', 'engineering', 'admin'];
+
+const SESSION_TTL_MS = (Number(process.env.SESSION_TTL_HOURS) || 12) * 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+
+const userStore = createCollection('users', [], 'username');
+const sessionStore = createRecordStore('sessions'); // Grouped by username
+
+// Production needs ADMIN_PASSWORD, so no fresh instance generates an admin password of its own
+// (and SESSION_SECRET, see secrets.js)
+if (process.env.NODE_ENV === 'production' && !process.env.ADMIN_PASSWORD) {
+    throw new Error('[auth] ADMIN_PASSWORD must be set in production');
+}
+
+function hashPassword(password) {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+    return `scrypt$${salt}$${hash}`;
+}
+
+function verifyPassword(password, stored) {
+    const [scheme, salt, hash] = String(stored || '').split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+    const expected = Buffer.from(hash, 'hex');
+    const actual = crypto.scryptSync(password, salt, expected.length);
+    return crypto.timingSafeEqual(actual, expected);
+}
+
+const sign = payload => crypto.createHmac('sha256', SERVER_SECRET).update(payload).digest('base64url');
+
+function issueToken(session) {
+    const payload = Buffer.from(JSON.stringify({ sid: session.id, sub: session.username, exp: session.expiresAt })).toString('base64url');
+    return `${payload}.${sign(payload)}`;
+}
+
+function readToken(token) {
+    const [payload, signature] = String(token || '').split('.');
+    if (!payload || !signature) return null;
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+    try {
+        return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+        return null;
+    }
+}
+
+// What the client and other modules see of an account (never the hash)
+const publicUser = ({ passwordHash, ...user }) => user;
+
+function validatePassword(password) {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        throw new HttpError(400, `password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+}
+
+function validateRole(role) {
+    if (!USER_ROLES.includes(role)) throw new HttpError(400, `role must be one of: ${USER_ROLES.join(', ')}`);
+}
+
+// Revoking a session deletes its record
+function revokeSessions(username) {
+    sessionStore.list(username).forEach(s => sessionStore.remove(username, s.id));
+}
+
+// Drop the user's expired sessions so their directory doesn't grow without bound
+function pruneSessions(username) {
+    const now = new Date().toISOString();
+    sessionStore.list(username).filter(s => s.expiresAt < now).forEach(s => sessionStore.remove(username, s.id));
+}
+
+// Placeholder passwords published in old copies of .env.example; an admin is never created with one
+const KNOWN_PASSWORDS = ['change_me_please'];
+
+// First start: create the initial admin from ADMIN_USERNAME / ADMIN_PASSWORD (or a generated password)
+if (userStore.all().length === 0) {
+    const username = (process.env.ADMIN_USERNAME || 'admin').trim().toLowerCase();
+    const configured = process.env.ADMIN_PASSWORD || '';
+    if (KNOWN_PASSWORDS.includes(configured) || (configured && configured.length < MIN_PASSWORD_LENGTH)) {
+        throw new Error(`[auth] Refusing to create the admin account "${username}": ADMIN_PASSWORD is a published example or shorter than ${MIN_PASSWORD_LENGTH} characters. Choose another or leave it empty.`);
+    }
+    const password = configured || crypto.randomBytes(12).toString('base64url');
+    userStore.insert({ username, name: 'Administrator', role: 'admin', passwordHash: hashPassword(password), createdAt: new Date().toISOString() });
+    if (configured) {
+        console.warn(`[auth] Created initial admin account "${username}" with the ADMIN_PASSWORD password`);
+    } else {
+        console.warn(`[auth] WARNING: ADMIN_PASSWORD is empty. Created initial admin account "${username}" with the generated one-off password: ${password}`);
+        console.warn('[auth] Sign in and change it now; it is not shown again.');
+    }
+}
+
+export function login(username, password) {
+    const key = typeof username === 'string' ? username.trim().toLowerCase() : '';
+    const user = key ? userStore.get(key) : undefined;
+    // Same answer for unknown user, wrong password and disabled account
+    if (!user || user.disabled || typeof password !== 'string' || !verifyPassword(password, user.passwordHash)) {
+        recordAudit('anonymous', 'Sign In Failed', `Rejected sign-in for "${key}"`);
+        throw new HttpError(401, 'Invalid username or password');
+    }
+
+    pruneSessions(user.username);
+    const now = Date.now();
+    const id = crypto.randomUUID();
+    const session = sessionStore.put(user.username, id, {
+        id,
+        username: user.username,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + SESSION_TTL_MS).toISOString()
+    });
+    recordAudit(user.username, 'Sign In', `${user.name} (${user.role}) signed in`);
+    return { token: issueToken(session), user: publicUser(user), expiresAt: session.expiresAt };
+}
+
+export function logout(session) {
+    sessionStore.remove(session.username, session.id);
+    recordAudit(session.username, 'Sign Out', `Session ended`);
+}
+
+// Resolve a bearer token to its live session and account, or null
+export function authenticate(token) {
+    const claims = readToken(token);
+    if (!claims || typeof claims.exp !== 'string' || claims.exp < new Date().toISOString()) return null;
+
+    if (typeof claims.sub !== 'string' || typeof claims.sid !== 'string') return null;
+    const session = sessionStore.get(claims.sub, claims.sid);
+    if (!session || session.username !== claims.sub) return null;
+
+    const user = userStore.get(session.username);
+    if (!user || user.disabled) return null;
+    return { user: publicUser(user), session };
+}
+
+export function listUsers() {
+    return userStore.all().map(publicUser);
+}
+
+export function createUser({ username, name, role, password } = {}, actor) {
+    if (typeof username !== 'string' || !/^[a-z0-9._-]{2,50}$/i.test(username.trim())) {
+        throw new HttpError(400, 'username must be 2-50 letters, digits, dots, dashes or underscores');
+    }
+    if (typeof name !== 'string' || !name.trim()) throw new HttpError(400, 'name is required');
+    validateRole(role);
+    validatePassword(password);
+
+    const key = username.trim().toLowerCase();
+    if (userStore.get(key)) throw new HttpError(409, `User ${key} already exists`);
+
+    const user = userStore.insert({ username: key, name: name.trim(), role, passwordHash: hashPassword(password), createdAt: new Date().toISOString() });
+    recordAudit(actor, 'Create User', `Account ${key} created with role ${role}`);
+    return publicUser(user);
+}
+
+// Change name, role, password or disabled; a new password or disabling ends the user's sessions
+export function updateUser(username, { name, role, password, disabled } = {}, actor) {
+    const user = userStore.get(username);
+    if (!user) throw new HttpError(404, `Unknown user: ${username}`);
+
+    const patch = {};
+    const changes = [];
+    if (name !== undefined) {
+        if (typeof name !== 'string' || !name.trim()) throw new HttpError(400, 'name must be a non-empty string');
+        patch.name = name.trim();
+        changes.push(`name "${patch.name}"`);
+    }
+    if (role !== undefined && role !== user.role) {
+        validateRole(role);
+        patch.role = role;
+        changes.push(`role ${user.role} -> ${role}`);
+    }
+    if (password !== undefined) {
+        validatePassword(password);
+        patch.passwordHash = hashPassword(password);
+        changes.push('password reset');
+    }
+    if (disabled !== undefined && !!disabled !== !!user.disabled) {
+        patch.disabled = !!disabled;
+        changes.push(disabled ? 'disabled' : 're-enabled');
+    }
+    if (changes.length === 0) return publicUser(user);
+
+    // Never leave the system without an enabled admin
+    const losesAdmin = user.role === 'admin' && !user.disabled && ((patch.role && patch.role !== 'admin') || patch.disabled);
+    if (losesAdmin && userStore.find(u => u.role === 'admin' && !u.disabled).length <= 1) {
+        throw new HttpError(409, 'At least one enabled admin account is required');
+    }
+
+    const updated = userStore.update(username, patch);
+    if (patch.passwordHash || patch.disabled) revokeSessions(username);
+    recordAudit(actor, 'Update User', `Account ${username}: ${changes.join(', ')}`);
+    return publicUser(updated);
+}
@@ -0,0 +1,100 @@
+// Change requests: field problems (usually promoted sales feedback) tracked through to the SOP change that fixes them
+// open -> in-review (SOP drafts linked) -> closed (a linked SOP approved, originating feedback resolved)
+
+import { getSop } from './sops.js';
+import { getFeedback, markFeedbackPromoted, resolveFeedback } from './feedback.js';
+import { createCollection } from './store.js';
+import { recordAudit } from './auditLog.js';
+import { HttpError } from './httpError.js';
+
+// Requests logged before the subsystem existed
+const SEED_CHANGE_REQUESTS = [
+    { id: 'REQ-992', source: 'Sales Case #JB-8821', suggestion: 'Increase depth on JB08 to accommodate new BA set manufacturer dimensions.', timestamp: '2024-03-08T14:20:00.000Z', status: 'open', sopIds: [] },
+    { id: 'REQ-995', source: 'External Sales Portal', suggestion: 'Clarify if roller shutters can be fitted with 50mm insulation.', timestamp: '2024-03-09T09:15:00.000Z', status: 'open', sopIds: [] }
+];
+
+const changeRequestStore = createCollection('changeRequests', SEED_CHANGE_REQUESTS);
+
+function nextId() {
+    const max = changeRequestStore.all().reduce((n, cr) => Math.max(n, parseInt(cr.id.replace('CR-', ''), 10) || 0), 0);
+    return `CR-${String(max + 1).padStart(4, '0')}`;
+}
+
+// Newest first
+export function listChangeRequests() {
+    return [...changeRequestStore.all()].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+export function getOpenChangeRequest(id) {
+    const cr = changeRequestStore.get(id);
+    if (!cr) throw new HttpError(404, `Unknown change request: ${id}`);
+    if (cr.status === 'closed') throw new HttpError(409, `${id} is already closed`);
+    return cr;
+}
+
+export function promoteFeedback(feedbackId, suggestion, user) {
+    const feedback = getFeedback(feedbackId);
+    if (!feedback) throw new HttpError(404, `Unknown feedback: ${feedbackId}`);
+    if (feedback.changeRequestId) throw new HttpError(409, `${feedbackId} was already promoted to ${feedback.changeRequestId}`);
+    if (feedback.status === 'resolved' || feedback.status === 'wont-fix') {
+        throw new HttpError(409, `${feedbackId} is closed (${feedback.status}); reopen it before promoting`);
+    }
+
+    const { cabinetId, equipment, insulation } = feedback.context || {};
+    const linkedConfig = [cabinetId, equipment, insulation && `${insulation} insulation`].filter(Boolean).join(' · ');
+    const cr = changeRequestStore.insert({
+        id: nextId(),
+        source: `Feedback ${feedback.id} (${feedback.userId})`,
+        suggestion: typeof suggestion === 'string' && suggestion.trim() ? suggestion.trim() : `${feedback.task}: ${feedback.issue}`,
+        timestamp: new Date().toISOString(),
+        ...(linkedConfig ? { linkedConfig } : {}),
+        urgency: feedback.urgency,
+        status: 'open',
+        feedbackId: feedback.id,
+        sopIds: [],
+        createdBy: user
+    });
+    recordAudit(user, 'Create Change Request', `${cr.id} raised from feedback ${feedback.id}: ${cr.suggestion}`);
+    markFeedbackPromoted(feedback.id, cr.id, user);
+    return cr;
+}
+
+// Link an SOP draft written to address the request
+export function linkSopDraft(id, sopId, user) {
+    const cr = getOpenChangeRequest(id);
+    if (typeof sopId !== 'string' || !sopId) throw new HttpError(400, 'sopId is required');
+    const sop = getSop(sopId);
+    if (!sop) throw new HttpError(400, `Unknown SOP: ${sopId}`);
+    if (sop.status !== 'Draft') throw new HttpError(409, `${sopId} is ${sop.status}; only Drafts can be linked`);
+    if (cr.sopIds.includes(sopId)) throw new HttpError(409, `${sopId} is already linked to ${id}`);
+
+    const updated = changeRequestStore.update(id, { sopIds: [...cr.sopIds, sopId], status: 'in-review' });
+    recordAudit(user, 'Link SOP to Change Request', `SOP draft ${sopId} v${sop.version} linked to ${id}`);
+    return updated;
+}
+
+// Called after an SOP review: a request closes once one of its SOPs is approved and no linked draft is still
+// under review (all rejected reopens it). Closing resolves the feedback it was promoted from.
+export function syncChangeRequestsForSop(sopId, user) {
+    const affected = changeRequestStore.find(cr => cr.status !== 'closed' && cr.sopIds.includes(sopId));
+    const closed = [];
+
+    for (const cr of affected) {
+        const sops = cr.sopIds.map(getSop).filter(Boolean);
+        const approved = sops.filter(s => s.status === 'Approved' || s.status === 'Active');
+        if (sops.some(s => s.status === 'Draft')) continue;
+        if (approved.length === 0) {
+            // Every linked draft was rejected: back to open until a new draft is linked
+            changeRequestStore.update(cr.id, { status: 'open' });
+            continue;
+        }
+
+        const resolution = `Closed by ${approved.map(s => `${s.id} v${s.version}`).join(', ')} (effective ${approved[0].effectiveDate || approved[0].lastUpdated})`;
+        closed.push(changeRequestStore.update(cr.id, { status: 'closed', closedAt: new Date().toISOString(), resolution }));
+        recordAudit(user, 'Close Change Request', `${cr.id} ${resolution}`);
+        if (cr.feedbackId) {
+            resolveFeedback(cr.feedbackId, `${cr.id} ${resolution}`, user);
+        }
+    }
+    return closed;
+}
@@ -0,0 +1,188 @@
+// Selection chat sessions, saved per user so a conversation survives a refresh or a new device
+// One file per session in the `chatSessions` record store, grouped by owner; the client saves the whole
+// session after each change. Uploaded files are kept by name only: their text stays in the browser.
+
+import fs from 'fs';
+import { createRecordStore, dataFilePath } from './store.js';
+import { HttpError } from './httpError.js';
+
+const MAX_TITLE_LENGTH = 200;
+const TAG_KINDS = ['customer', 'project', 'case'];
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 100;
+
+const chatSessionStore = createRecordStore('chatSessions');
+
+const fileNames = sessionFiles => sessionFiles.map(({ name }) => ({ name }));
+
+// Sessions used to share one chatSessions.json collection: move them into their own files once
+function migrateCollection() {
+    const legacy = dataFilePath('chatSessions.json');
+    if (!fs.existsSync(legacy)) return;
+    const sessions = JSON.parse(fs.readFileSync(legacy, 'utf8'));
+    sessions.forEach(s => chatSessionStore.put(s.owner, s.id, { ...s, sessionFiles: fileNames(s.sessionFiles || []) }));
+    fs.renameSync(legacy, `${legacy}.migrated`);
+    console.log(`[chatSessions] Moved ${sessions.length} session(s) from ${legacy} to one file each`);
+}
+
+migrateCollection();
+
+// What the sidebar needs before a session is opened
+const summarize = ({ id, title, timestamp, updatedAt, messages, pinned = false, archived = false, tags = [] }) => ({
+    id, title, timestamp, updatedAt, messageCount: messages.length, pinned, archived, tags
+});
+
+// Sessions are stored under their owner, so someone else's id is unknown
+function getOwnSession(id, user) {
+    const session = typeof id === 'string' ? chatSessionStore.get(user, id) : undefined;
+    if (!session) throw new HttpError(404, `Unknown chat session: ${id}`);
+    return session;
+}
+
+function validateSession({ title, messages, datasheets, sessionFiles }) {
+    if (typeof title !== 'string' || !title.trim()) throw new HttpError(400, 'title is required');
+    if (!Array.isArray(messages) || messages.some(m => (m?.role !== 'user' && m?.role !== 'assistant') || typeof m.content !== 'string')) {
+        throw new HttpError(400, "messages must be an array of { role: 'user' | 'assistant', content }");
+    }
+    if (datasheets !== undefined && (!Array.isArray(datasheets) || datasheets.some(d => typeof d?.filename !== 'string'))) {
+        throw new HttpError(400, 'datasheets must be an array of { filename, displayName }');
+    }
+    if (sessionFiles !== undefined && (!Array.isArray(sessionFiles) || sessionFiles.some(f => typeof f?.name !== 'string'))) {
+        throw new HttpError(400, 'sessionFiles must be an array of { name }');
+    }
+}
+
+// Rename, pin, archive and tag; each field is optional and validated the same for save and patch
+function cleanMeta({ title, pinned, archived, tags }) {
+    const meta = {};
+    if (title !== undefined) {
+        if (typeof title !== 'string' || !title.trim()) throw new HttpError(400, 'title must be a non-empty string');
+        meta.title = title.trim().slice(0, MAX_TITLE_LENGTH);
+    }
+    for (const [field, value] of [['pinned', pinned], ['archived', archived]]) {
+        if (value === undefined) continue;
+        if (typeof value !== 'boolean') throw new HttpError(400, `${field} must be true or false`);
+        meta[field] = value;
+    }
+    if (tags !== undefined) {
+        if (!Array.isArray(tags) || tags.length > MAX_TAGS
+            || tags.some(t => !TAG_KINDS.includes(t?.kind) || typeof t.value !== 'string' || !t.value.trim() || t.value.length > MAX_TAG_LENGTH)) {
+            throw new HttpError(400, `tags must be up to ${MAX_TAGS} { kind: ${TAG_KINDS.join(' | ')}, value } entries`);
+        }
+        // One entry per kind + value, compared case-insensitively
+        const seen = new Set();
+        meta.tags = tags
+            .map(t => ({ kind: t.kind, value: t.value.trim() }))
+            .filter(t => !seen.has(`${t.kind}:${t.value.toLowerCase()}`) && seen.add(`${t.kind}:${t.value.toLowerCase()}`));
+    }
+    return meta;
+}
+
+// Most recently updated first
+export function listChatSessions(user) {
+    return chatSessionStore
+        .list(user)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(summarize);
+}
+
+export function getChatSession(id, user) {
+    const { owner, ...session } = getOwnSession(id, user);
+    return session;
+}
+
+// Create or replace a session; the client picks the id when the chat starts
+export function saveChatSession(id, input, user) {
+    if (typeof id !== 'string' || !/^[\w-]{1,100}$/.test(id)) throw new HttpError(400, 'Invalid chat session id');
+    validateSession(input || {});
+
+    const { messages, datasheets = [], sessionFiles = [], timestamp } = input;
+    const existing = chatSessionStore.get(user, id);
+
+    const now = new Date().toISOString();
+    const record = {
+        ...cleanMeta(input),
+        messages,
+        datasheets,
+        sessionFiles: fileNames(sessionFiles), // Older clients still send the contents
+        updatedAt: now
+    };
+    const saved = existing
+        ? { ...existing, ...record }
+        : { id, owner: user, timestamp: typeof timestamp === 'string' ? timestamp : now, ...record };
+    return summarize(chatSessionStore.put(user, id, saved));
+}
+
+// Organise a session without resending its messages
+export function updateChatSessionMeta(id, patch, user) {
+    const session = getOwnSession(id, user);
+    const meta = cleanMeta(patch || {});
+    if (Object.keys(meta).length === 0) throw new HttpError(400, 'Nothing to update: provide title, pinned, archived and/or tags');
+    return summarize(chatSessionStore.put(user, id, { ...session, ...meta, updatedAt: new Date().toISOString() }));
+}
+
+export function deleteChatSession(id, user) {
+    getOwnSession(id, user);
+    chatSessionStore.remove(user, id);
+}
+
+// Full-text search across a user's sessions
+// Every query term must occur somewhere in a session (title, tags, messages, datasheet names or product codes);
+// each hit points at the message that matches best so the client can jump straight to it.
+// Includes the words people use to describe the chat itself ("that conversation about ...")
+const STOP_WORDS = new Set(['a', 'an', 'and', 'about', 'chat', 'conversation', 'for', 'in', 'of', 'on', 'or', 'regarding', 'the', 'that', 'to', 'with']);
+const SNIPPET_RADIUS = 80;
+const HITS_PER_SESSION = 3;
+
+function searchTerms(query) {
+    return [...new Set(String(query || '').toLowerCase().split(/[^\p{L}\p{N}.]+/u)
+        .map(t => t.replace(/^\.+|\.+$/g, ''))
+        .filter(t => t && !STOP_WORDS.has(t)))];
+}
+
+const plainText = content => content.replace(/\[\[\/?HIGHLIGHT\]\]/g, '');
+
+function snippetAround(text, terms) {
+    const lower = text.toLowerCase();
+    const at = Math.min(...terms.map(t => lower.indexOf(t)).filter(i => i >= 0));
+    const start = Math.max(0, at - SNIPPET_RADIUS);
+    const end = Math.min(text.length, at + SNIPPET_RADIUS * 2);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+}
+
+export function searchChatSessions(user, query) {
+    const terms = searchTerms(query);
+    if (terms.length === 0) return { terms, results: [] };
+
+    const results = [];
+    for (const session of chatSessionStore.list(user)) {
+        const datasheetText = session.datasheets.map(d => [d.productCode, d.displayName, d.filename, d.productName].filter(Boolean).join(' '));
+        const datasheetLabels = session.datasheets.map(d => d.productCode ? `${d.displayName} (${d.productCode})` : d.displayName || d.filename);
+        const messageText = session.messages.map(m => plainText(m.content));
+        const haystack = [session.title, ...(session.tags || []).map(t => t.value), ...messageText, ...datasheetText].join('\n').toLowerCase();
+        if (!terms.every(t => haystack.includes(t))) continue;
+
+        const scored = messageText
+            .map((text, index) => ({ index, text, score: terms.filter(t => text.toLowerCase().includes(t)).length }))
+            .filter(m => m.score > 0)
+            .sort((a, b) => b.score - a.score || a.index - b.index)
+            .slice(0, HITS_PER_SESSION);
+
+        const hits = scored.map(m => ({ messageIndex: m.index, role: session.messages[m.index].role, snippet: snippetAround(m.text, terms) }));
+        // Terms only found outside the messages: point at the datasheet, else the tags or title
+        const datasheetHit = datasheetText.findIndex(text => terms.some(t => text.toLowerCase().includes(t)));
+        if (hits.length === 0 && datasheetHit >= 0) hits.push({ snippet: `Datasheet: ${datasheetLabels[datasheetHit]}` });
+        if (hits.length === 0) hits.push({ snippet: (session.tags || []).map(t => t.value).join(' · ') || session.title });
+
+        results.push({
+            sessionId: session.id,
+            title: session.title,
+            updatedAt: session.updatedAt,
+            score: scored[0]?.score || 0,
+            hits
+        });
+    }
+
+    results.sort((a, b) => b.score - a.score || b.updatedAt.localeCompare(a.updatedAt));
+    return { terms, results: results.map(({ score, ...r }) => r) };
+}
@@ -0,0 +1,127 @@
+// Sales feedback raised from the chat, triaged by engineering in the admin panel
+// Persisted in the `feedback` collection; every change is recorded in the audit log
+
+import { isFeedbackStatus, feedbackStatusLabel, FEEDBACK_STATUSES } from '../shared/feedbackTriage.js';
+import { createCollection } from './store.js';
+import { recordAudit } from './auditLog.js';
+import { HttpError } from './httpError.js';
+
+const URGENCIES = ['Low', 'Medium', 'High'];
+const CONTEXT_FIELDS = ['cabinetId', 'equipment', 'insulation', 'sopVersion'];
+
+const feedbackStore = createCollection('feedback');
+
+const requiredText = (value, field) => {
+    if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `${field} is required`);
+    return value.trim();
+};
+
+function nextId() {
+    const max = feedbackStore.all().reduce((n, fb) => Math.max(n, parseInt(fb.id.replace('FB-', ''), 10) || 0), 0);
+    return `FB-${String(max + 1).padStart(4, '0')}`;
+}
+
+// Newest first, optionally narrowed to one status and/or assignee
+export function listFeedback({ status, assignee } = {}) {
+    return feedbackStore
+        .find(fb => (!status || fb.status === status) && (!assignee || fb.assignee === assignee))
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+export function getFeedback(id) {
+    return feedbackStore.get(id);
+}
+
+export function submitFeedback(input, user) {
+    const { task, issue, urgency, context } = input || {};
+    if (!URGENCIES.includes(urgency)) throw new HttpError(400, `urgency must be one of: ${URGENCIES.join(', ')}`);
+
+    // Only the known context keys are kept; the client fills them from the chat session
+    const cleanContext = {};
+    for (const field of CONTEXT_FIELDS) {
+        const value = context?.[field];
+        if (typeof value === 'string' && value.trim()) cleanContext[field] = value.trim().slice(0, 500);
+    }
+
+    const now = new Date().toISOString();
+    const feedback = feedbackStore.insert({
+        id: nextId(),
+        userId: user,
+        timestamp: now,
+        context: cleanContext,
+        task: requiredText(task, 'task'),
+        issue: requiredText(issue, 'issue'),
+        urgency,
+        status: 'new',
+        comments: [],
+        updatedAt: now
+    });
+    recordAudit(user, 'Submit Feedback', `Feedback ${feedback.id} received from ${user}: ${feedback.task}${cleanContext.cabinetId ? ` (${cleanContext.cabinetId})` : ''}`);
+    return feedback;
+}
+
+// Move through the triage states and/or (re)assign; an empty assignee unassigns
+export function updateFeedback(id, { status, assignee } = {}, user) {
+    const feedback = feedbackStore.get(id);
+    if (!feedback) throw new HttpError(404, `Unknown feedback: ${id}`);
+    if (status === undefined && assignee === undefined) throw new HttpError(400, 'Nothing to update: provide status and/or assignee');
+    if (status !== undefined && !isFeedbackStatus(status)) {
+        throw new HttpError(400, `status must be one of: ${FEEDBACK_STATUSES.map(s => s.status).join(', ')}`);
+    }
+    if (assignee !== undefined && assignee !== null && typeof assignee !== 'string') throw new HttpError(400, 'assignee must be a string');
+
+    const patch = { updatedAt: new Date().toISOString() };
+    const changes = [];
+    if (status !== undefined && status !== feedback.status) {
+        patch.status = status;
+        changes.push(`${feedbackStatusLabel(feedback.status)} -> ${feedbackStatusLabel(status)}`);
+    }
+    if (assignee !== undefined) {
+        const next = assignee ? assignee.trim().slice(0, 100) : undefined;
+        if (next !== feedback.assignee) {
+            patch.assignee = next;
+            changes.push(next ? `assigned to ${next}` : 'unassigned');
+        }
+    }
+    if (changes.length === 0) return feedback;
+
+    const updated = feedbackStore.update(id, patch);
+    recordAudit(user, 'Triage Feedback', `Feedback ${id} ${changes.join(', ')}`);
+    return updated;
+}
+
+export function addFeedbackComment(id, text, user) {
+    const feedback = feedbackStore.get(id);
+    if (!feedback) throw new HttpError(404, `Unknown feedback: ${id}`);
+    const comment = { author: user, text: requiredText(text, 'text').slice(0, 2000), timestamp: new Date().toISOString() };
+
+    const updated = feedbackStore.update(id, { comments: [...(feedback.comments || []), comment], updatedAt: comment.timestamp });
+    recordAudit(user, 'Comment on Feedback', `Feedback ${id}: ${comment.text.length > 120 ? `${comment.text.slice(0, 117)}...` : comment.text}`);
+    return updated;
+}
+
+// Promotion to a change request: remember the link and move the feedback into progress
+export function markFeedbackPromoted(id, changeRequestId, user) {
+    const feedback = feedbackStore.get(id);
+    if (!feedback) throw new HttpError(404, `Unknown feedback: ${id}`);
+
+    const updated = feedbackStore.update(id, { changeRequestId, status: 'in-progress', updatedAt: new Date().toISOString() });
+    const transition = feedback.status === 'in-progress' ? '' : ` ${feedbackStatusLabel(feedback.status)} -> In progress,`;
+    recordAudit(user, 'Triage Feedback', `Feedback ${id}${transition} promoted to ${changeRequestId}`);
+    return updated;
+}
+
+// Closing the loop once the procedure change it asked for is approved
+export function resolveFeedback(id, resolution, user) {
+    const feedback = feedbackStore.get(id);
+    if (!feedback || feedback.status === 'resolved') return feedback;
+
+    const now = new Date().toISOString();
+    const updated = feedbackStore.update(id, {
+        status: 'resolved',
+        comments: [...(feedback.comments || []), { author: user, text: resolution, timestamp: now }],
+        updatedAt: now
+    });
+    recordAudit(user, 'Triage Feedback', `Feedback ${id} ${feedbackStatusLabel(feedback.status)} -> Resolved: ${resolution}`);
+    return updated;
+}
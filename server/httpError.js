@@ -0,0 +1,18 @@
+// Errors the routes turn into an HTTP answer
+// Domain modules throw HttpError(status, message) for anything the caller got wrong (validation,
+// unknown ids, permissions); the route's catch hands it to sendHttpError. Anything else is a bug: 500.
+
+export class HttpError extends Error {
+    constructor(status, message) {
+        super(message);
+        this.status = status;
+    }
+}
+
+export function sendHttpError(res, error) {
+    if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+    }
+    console.error(`[server] ${res.req.method} ${res.req.originalUrl} failed:`, error);
+    res.status(500).json({ error: error.message || 'Internal server error' });
+}
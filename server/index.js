@@ -4,6 +4,25 @@ import { fileURLToPath } from 'url';
 import 'dotenv/config';
 import { GoogleGenAI, Modality } from '@google/genai';
 import { createClient } from '@supabase/supabase-js';
+import { CABINET_CATALOG } from '../shared/catalog.js';
+import { getSop, listSops, getSopsInForce, proposeSop, reviewSop, deprecateSop, getSopHistory, getSopWorkflow, setSopWorkflow } from './sops.js';
+import { listFeedback, submitFeedback, updateFeedback, addFeedbackComment } from './feedback.js';
+import { listChangeRequests, getOpenChangeRequest, promoteFeedback, linkSopDraft, syncChangeRequestsForSop } from './changeRequests.js';
+import { searchChatSessions, listChatSessions, getChatSession, saveChatSession, updateChatSessionMeta, deleteChatSession } from './chatSessions.js';
+import { listShares, createShare, revokeShare, openShare } from './sessionShares.js';
+import { buildSelectionReport } from './selectionReport.js';
+import { listApiKeys, createApiKey, revokeApiKey, authenticateApiKey } from './apiKeys.js';
+import { USER_ROLES, login, logout, authenticate, listUsers, createUser, updateUser } from './auth.js';
+import { can, canGiveApproval } from '../shared/permissions.js';
+import { recordAudit, queryAudit, auditFacets, auditToCsv, verifyAuditLog } from './auditLog.js';
+import { findRelevantSops, buildSopContext, extractSopCitations, findSopContradictions } from './sopContext.js';
+import { getInsulatedDimensions, getInsulationSop } from '../shared/insulation.js';
+import { getPlacementSop } from '../shared/placement.js';
+import { planChestStacking } from '../shared/stacking.js';
+import { evaluateConfiguration } from '../shared/sopRules.js';
+import { openApiSpec } from './openapi.js';
+import { HttpError, sendHttpError } from './httpError.js';
+import { startSelectionStream, sendSelectionStream, cancelSelectionStream } from './selectionStreams.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -27,7 +46,6 @@ Object.keys(process.env).forEach(key => {
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.VITE_GEMINI_API_KEY;
 const SUPABASE_URL = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_SERVICE_ROLE_KEY;
-const APP_PASSWORD = process.env.APP_PASSWORD || process.env.VITE_APP_PASSWORD || 'jobird2026';
 const PDF_STORAGE_BASE = 'https://atmvjoymebksyajxfhwo.supabase.co/storage/v1/object/public/datasheets';
 
 let aiInstance = null;
@@ -114,7 +132,14 @@ Constraint (No Questions): No question marks.
 
 Format: [[FOLLOWUP]] Action 1 | Action 2 | Action 3 | Action 4.
 
-Permitted Examples: "See internal dimensions," "Compare material specs," "View mounting options," "Explore all [Category] cabinets."`;
+Permitted Examples: "See internal dimensions," "Compare material specs," "View mounting options," "Explore all [Category] cabinets."
+
+5. ENGINEERING SOPs
+SOPs supplied in the context are mandatory engineering procedures and override general product knowledge.
+
+Citation: Whenever a recommendation relies on an SOP, cite it inline exactly as [SOP-JB-01 v2.1.0] using the id and version given.
+
+Compliance: Never contradict an SOP in force. If the enquiry conflicts with one, say so and explain what the SOP requires.`;
 // Embed query using Gemini
 async function embedQuery(text) {
     const ai = getAI();
@@ -489,6 +514,52 @@ function extractProductCodesFromHistory(history) {
     return Array.from(codes);
 }
 
+// Insulation deductions from the active SOP, injected when the query is about insulated/arctic builds
+function buildInsulationContext(query) {
+    if (!/insulat|arctic|cold|frost|heated|winteri[sz]/i.test(query)) return '';
+
+    const sops = getSopsInForce();
+    const source = getInsulationSop(sops);
+    if (!source) return '';
+
+    const modelLines = CABINET_CATALOG.map(model => {
+        const { options } = getInsulatedDimensions(model, sops);
+        const dims = options
+            .map(o => `${o.thicknessMm ? `${o.thicknessMm}mm` : 'none'}: ${o.internalDims.h}x${o.internalDims.w}x${o.internalDims.d}`)
+            .join(' | ');
+        return `  ${model.id} (${model.title}) internal HxWxD mm — ${dims}`;
+    }).join('\n');
+    const ruleLines = source.rules
+        .map(r => `  - ${r.thicknessMm}mm insulation removes ${r.deductionMm}mm from each of internal H, W and D`)
+        .join('\n');
+
+    return `\n\nINSULATION DEDUCTIONS (${source.sop.id} v${source.sop.version} — authoritative, apply to ALL products):
+${ruleLines}
+Pre-computed effective internal dimensions for standard models:
+${modelLines}
+`;
+}
+
+// Heavy-equipment placement rule, injected when the query mentions weights or shelving
+function buildPlacementContext(query) {
+    const weights = [...query.matchAll(/(\d+(?:\.\d+)?)\s*kg\b/gi)].map(m => parseFloat(m[1]));
+    if (weights.length === 0 && !/heavy|shelf|shelves|base[- ]load/i.test(query)) return '';
+
+    const source = getPlacementSop(getSopsInForce());
+    if (!source) return '';
+
+    const { sop, rule } = source;
+    const heavy = weights.filter(w => w > rule.maxShelfKg);
+    const verdict = heavy.length > 0
+        ? `The enquiry mentions ${heavy.map(w => `${w}kg`).join(', ')} — these items MUST be base-loaded. Never recommend shelving them.`
+        : `Items up to ${rule.maxShelfKg}kg may be shelved.`;
+
+    return `\n\nPLACEMENT RULE (${sop.id} v${sop.version} — mandatory, cite "${sop.id} v${sop.version}" when applied):
+  - Equipment exceeding ${rule.maxShelfKg}kg must be base-loaded.
+  - ${verdict}
+`;
+}
+
 // Get knowledge base stats from products table
 async function getKnowledgeBaseStats() {
     const supabase = getSupabase();
@@ -542,14 +613,110 @@ async function getKnowledgeBaseStats() {
 
 // API Routes
 
-// Password verification
-// Password verification
+// Everything under /api needs a live session except these (config is loaded before sign-in)
+// and the versioned public API, which authenticates with API keys instead
+const PUBLIC_API_PATHS = ['/ping', '/config', '/auth/login', '/openapi.json'];
+
+app.use('/api', (req, res, next) => {
+    if (PUBLIC_API_PATHS.includes(req.path) || req.path.startsWith('/v1/')) return next();
+    const header = req.get('Authorization') || '';
+    const auth = header.startsWith('Bearer ') ? authenticate(header.slice(7)) : null;
+    if (!auth) {
+        return res.status(401).json({ error: 'Authentication required' });
+    }
+    req.user = auth.user;
+    req.session = auth.session;
+    next();
+});
+
 app.get('/api/ping', (req, res) => res.send('pong-get'));
 app.post('/api/ping', (req, res) => res.send('pong-post'));
 
-app.post('/api/verify-password', (req, res) => {
-    const { password } = req.body;
-    res.json({ valid: password === APP_PASSWORD });
+// API description (server/openapi.js), kept in step with these routes by `npm run test:contract`
+app.get('/api/openapi.json', (req, res) => res.json(openApiSpec));
+
+// Sessions
+app.post('/api/auth/login', (req, res) => {
+    try {
+        const { username, password } = req.body || {};
+        res.json(login(username, password));
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+app.post('/api/auth/logout', (req, res) => {
+    logout(req.session);
+    res.status(204).end();
+});
+
+app.get('/api/auth/me', (req, res) => {
+    res.json({ user: req.user, expiresAt: req.session.expiresAt });
+});
+
+// Role checks (shared/permissions.js); refusals are written to the audit log
+function denyAccess(req, res, permission) {
+    recordAudit(req.user.username, 'Access Denied', `${req.method} ${req.originalUrl} refused: ${req.user.role} lacks ${permission}`);
+    res.status(403).json({ error: `Your role (${req.user.role}) is not allowed to do this` });
+}
+
+function requirePermission(permission) {
+    return (req, res, next) => can(req.user.role, permission) ? next() : denyAccess(req, res, permission);
+}
+
+// User administration
+
+app.get('/api/users', requirePermission('users.manage'), (req, res) => {
+    res.json({ users: listUsers(), roles: USER_ROLES });
+});
+
+app.post('/api/users', requirePermission('users.manage'), (req, res) => {
+    try {
+        res.status(201).json(createUser(req.body, req.user.username));
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+app.patch('/api/users/:username', requirePermission('users.manage'), (req, res) => {
+    try {
+        const { name, role, password, disabled } = req.body || {};
+        res.json(updateUser(req.params.username, { name, role, password, disabled }, req.user.username));
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+// API keys for the public API; the plaintext key is only in the create response
+app.get('/api/api-keys', requirePermission('apiKeys.manage'), (req, res) => {
+    res.json({ apiKeys: listApiKeys() });
+});
+
+app.post('/api/api-keys', requirePermission('apiKeys.manage'), (req, res) => {
+    try {
+        res.status(201).json(createApiKey(req.body, requestUser(req)));
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+app.delete('/api/api-keys/:id', requirePermission('apiKeys.manage'), (req, res) => {
+    try {
+        res.json(revokeApiKey(req.params.id, requestUser(req)));
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+// Versioned public API: `X-API-Key: jbk_...` (or `Authorization: Bearer jbk_...`) on every request
+app.use('/api/v1', (req, res, next) => {
+    const header = req.get('Authorization') || '';
+    const client = authenticateApiKey(req.get('X-API-Key') || (header.startsWith('Bearer ') ? header.slice(7) : ''));
+    if (!client) {
+        return res.status(401).json({ error: 'A valid API key is required' });
+    }
+    req.apiClient = client;
+    next();
 });
 
 // Runtime configuration for the frontend
@@ -568,157 +735,91 @@ app.get('/api/config', (req, res) => {
     });
 });
 
-// Chat endpoint
-app.post('/api/chat/stream', async (req, res) => {
-    console.log('[server] Incoming POST /api/chat/stream');
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-
-    // === GLOBAL SAFETY NET ===
-    // Hard kill after 60 seconds — nothing can bypass this
-    const GLOBAL_TIMEOUT = 60000;
-    let requestDone = false;
-    const globalTimer = setTimeout(() => {
-        if (!requestDone) {
-            console.error('[server] GLOBAL TIMEOUT: Request exceeded 60s, force-ending.');
-            try {
-                res.write(`data: ${JSON.stringify({ type: 'error', error: 'Request timed out. Please try again.' })}\n\n`);
-                res.end();
-            } catch (e) { /* already closed */ }
-        }
-    }, GLOBAL_TIMEOUT);
-
-    // Keepalive heartbeat every 8s so client/browser doesn't assume we died
-    const heartbeat = setInterval(() => {
-        if (!requestDone) {
-            try { res.write(': keepalive\n\n'); } catch (e) { /* ignore */ }
-        }
-    }, 8000);
-
-    const cleanup = () => { requestDone = true; clearTimeout(globalTimer); clearInterval(heartbeat); };
-    res.on('close', cleanup);
+// Selection pipeline: search the knowledge base for the query (and conversation), then have Gemini answer
+// with datasheet links and SOP citations. Shared by the SSE endpoint and the JSON endpoints; progress and
+// partial text are reported through the callbacks so each transport can relay them its own way.
 
-    // Immediate heartbeat/progress to prevent browser timeout
-    res.write('data: ' + JSON.stringify({ type: 'status', message: 'Analyzing query...' }) + '\n\n');
-
-    try {
-        const { query, history, files } = req.body;
-        const uploadedContext = (files || [])
-            .map(f => `[File: ${f.name}]\n${f.content}`)
-            .join('\n\n');
-
-        if (!query) {
-            // SSE headers already sent, so use SSE error event instead of res.status()
-            res.write(`data: ${JSON.stringify({ type: 'error', error: 'Query is required' })}\n\n`);
-            cleanup();
-            return res.end();
-        }
+function validateSelectionRequest({ query, history, files }) {
+    if (typeof query !== 'string' || !query.trim()) throw new HttpError(400, 'Query is required');
+    if (history !== undefined && (!Array.isArray(history) || history.some(m => (m?.role !== 'user' && m?.role !== 'assistant') || typeof m.content !== 'string'))) {
+        throw new HttpError(400, "history must be an array of { role: 'user' | 'assistant', content }");
+    }
+    if (files !== undefined && (!Array.isArray(files) || files.some(f => typeof f?.name !== 'string' || typeof f.content !== 'string'))) {
+        throw new HttpError(400, 'files must be an array of { name, content }');
+    }
+}
 
-        console.log('[server] Processing query:', query);
+// `signal` aborts when the caller stops the answer or goes away; the Gemini request is cancelled with it
+async function runSelection(input, { onStage = () => {}, onChunk = () => {}, signal } = {}) {
+    validateSelectionRequest(input || {});
+    const { query, history = [], files = [] } = input;
+    const startedAt = Date.now();
+    const stage = (name, message, detail = {}) => onStage({ type: 'stage', stage: name, message, elapsedMs: Date.now() - startedAt, ...detail });
+    const uploadedContext = files
+        .map(f => `[File: ${f.name}]\n${f.content}`)
+        .join('\n\n');
+
+    console.log('[server] Processing query:', query);
+
+    // Extract product codes from history for follow-up context retention
+    const historyProductCodes = extractProductCodesFromHistory(history);
+    if (historyProductCodes.length > 0) {
+        console.log('[server] Products from history:', historyProductCodes.join(', '));
+    }
 
-        // Extract product codes from history for follow-up context retention
-        const historyProductCodes = extractProductCodesFromHistory(history);
+    // === FOLLOW-UP DETECTION ===
+    // If the query references previous context (pronouns, comparisons) AND we have history,
+    // skip the entire search pipeline — the conversation context has everything we need.
+    const lowerQuery = query.toLowerCase();
+    const hasHistory = history && history.length >= 2;
+    const isFollowUp = hasHistory && (
+        // Only trigger fast-path for queries that clearly reference previous conversation
+        // AND don't involve technical spec lookups that need search
+        (
+            /\b(these|those|they|them|their|its|both|same|above|mentioned|compared?|versus|vs|which one|between them)\b/i.test(lowerQuery)
+            || /\b(do they|are they|can they|does it|is it|can it|how do|how does|what about|tell me more)\b/i.test(lowerQuery)
+        )
+        // Very short questions with history are likely follow-ups (e.g. "what colour?", "dimensions?")
+        || (query.length < 30 && !lowerQuery.match(/[A-Z]{2,3}[\d.]+/i) && !lowerQuery.match(/\b(cabinet|hose|fire|life|jacket|extinguisher|storage|breathing)\b/i))
+    );
+
+    // Even if it's a follow-up, if the user is asking about specs/ratings/dimensions,
+    // or requesting more details about a product, we should re-fetch product data
+    const needsSpecData = /\b(ip\s*rat|dimen|material|weight|height|width|depth|certif|approval|rating|specs|specification|construction|colou?r|locking|insulation|tell me more|more about|more info|details|describe|full|everything about|what is|what are|features|capacity|options?|extras|accessories)/i.test(lowerQuery);
+
+    // If the query explicitly mentions a product code, ALWAYS search the database
+    const queryContainsProductCode = /[A-Z]{2,3}[\d.]+[A-Z\d]*/i.test(query);
+
+    let searchResults = [];
+    let isFollowUpPath = false;
+
+    console.log(`[server] Follow-up check: isFollowUp=${isFollowUp}, needsSpecData=${needsSpecData}, queryContainsProductCode=${queryContainsProductCode}, historyProducts=${historyProductCodes.length}, hasHistory=${hasHistory}`);
+
+    if (isFollowUp && !uploadedContext && !needsSpecData && !queryContainsProductCode) {
+        // === FAST PATH: Skip full search but still fetch history products for sidebar ===
+        console.log('[server] PATH: FAST (follow-up, no spec data needed, no product codes)');
+        isFollowUpPath = true;
+
+        // Fetch products mentioned in conversation history so sidebar stays populated
         if (historyProductCodes.length > 0) {
-            console.log('[server] Products from history:', historyProductCodes.join(', '));
-        }
-
-        // === FOLLOW-UP DETECTION ===
-        // If the query references previous context (pronouns, comparisons) AND we have history,
-        // skip the entire search pipeline — the conversation context has everything we need.
-        const lowerQuery = query.toLowerCase();
-        const hasHistory = history && history.length >= 2;
-        const isFollowUp = hasHistory && (
-            // Only trigger fast-path for queries that clearly reference previous conversation
-            // AND don't involve technical spec lookups that need search
-            (
-                /\b(these|those|they|them|their|its|both|same|above|mentioned|compared?|versus|vs|which one|between them)\b/i.test(lowerQuery)
-                || /\b(do they|are they|can they|does it|is it|can it|how do|how does|what about|tell me more)\b/i.test(lowerQuery)
-            )
-            // Very short questions with history are likely follow-ups (e.g. "what colour?", "dimensions?")
-            || (query.length < 30 && !lowerQuery.match(/[A-Z]{2,3}[\d.]+/i) && !lowerQuery.match(/\b(cabinet|hose|fire|life|jacket|extinguisher|storage|breathing)\b/i))
-        );
-
-        // Even if it's a follow-up, if the user is asking about specs/ratings/dimensions,
-        // or requesting more details about a product, we should re-fetch product data
-        const needsSpecData = /\b(ip\s*rat|dimen|material|weight|height|width|depth|certif|approval|rating|specs|specification|construction|colou?r|locking|insulation|tell me more|more about|more info|details|describe|full|everything about|what is|what are|features|capacity|options?|extras|accessories)/i.test(lowerQuery);
-
-        // If the query explicitly mentions a product code, ALWAYS search the database
-        const queryContainsProductCode = /[A-Z]{2,3}[\d.]+[A-Z\d]*/i.test(query);
-
-        let searchResults = [];
-        let isFollowUpPath = false;
-
-        console.log(`[server] Follow-up check: isFollowUp=${isFollowUp}, needsSpecData=${needsSpecData}, queryContainsProductCode=${queryContainsProductCode}, historyProducts=${historyProductCodes.length}, hasHistory=${hasHistory}`);
-
-        if (isFollowUp && !uploadedContext && !needsSpecData && !queryContainsProductCode) {
-            // === FAST PATH: Skip full search but still fetch history products for sidebar ===
-            console.log('[server] PATH: FAST (follow-up, no spec data needed, no product codes)');
-            res.write('data: ' + JSON.stringify({ type: 'status', message: 'Generating response...' }) + '\n\n');
-            isFollowUpPath = true;
-
-            // Fetch products mentioned in conversation history so sidebar stays populated
-            if (historyProductCodes.length > 0) {
-                const supabase = getSupabase();
-                if (supabase) {
-                    try {
-                        const fastResults = await Promise.race([
-                            Promise.all(historyProductCodes.slice(0, 6).map(code => {
-                                const baseCode = code.replace(/[.\-]/g, '%');
-                                return supabase.from('products')
-                                    .select('id, product_code, name, category, specifications, description, applications, pdf_storage_url')
-                                    .or(`product_code.ilike.%${baseCode}%,name.ilike.%${baseCode}%`)
-                                    .limit(2)
-                                    .then(({ data }) => data || [])
-                                    .catch(() => []);
-                            })),
-                            new Promise((_, reject) => setTimeout(() => reject(new Error('Fast path lookup timeout')), DB_TIMEOUT))
-                        ]);
-                        const seenIds = new Set();
-                        for (const products of fastResults) {
-                            for (const product of products) {
-                                if (!seenIds.has(product.id)) {
-                                    searchResults.push({ ...product, similarity: 2.0 });
-                                    seenIds.add(product.id);
-                                }
-                            }
-                        }
-                        console.log('[server] Fast path fetched', searchResults.length, 'history products for sidebar.');
-                    } catch (err) {
-                        console.warn('[server] Fast path history lookup failed:', err.message);
-                    }
-                }
-            }
-        } else if (isFollowUp && (needsSpecData || queryContainsProductCode) && historyProductCodes.length > 0) {
-            // === SPEC FOLLOW-UP PATH: Fetch specific products by code from history + current query ===
-            // Also extract codes from the current query itself (user may type the code directly)
-            const queryCodeRegex = /\b([A-Z]{2,3}[\d.]+[A-Z\d]*)\b/gi;
-            const queryCodeMatches = [...query.matchAll(queryCodeRegex)].map(m => m[1].toUpperCase());
-            const allCodes = [...new Set([...queryCodeMatches, ...historyProductCodes])];
-
-            console.log('[server] PATH: SPEC FOLLOW-UP — fetching products for codes:', allCodes.join(', '));
-            res.write('data: ' + JSON.stringify({ type: 'status', message: 'Looking up specifications...' }) + '\n\n');
-
+            stage('lookup', 'Fetching products from the conversation...');
             const supabase = getSupabase();
             if (supabase) {
                 try {
-                    const codeResults = await Promise.race([
-                        Promise.all(allCodes.slice(0, 10).map(code => {
-                            // Use wildcard matching to handle dots, dashes, and partial codes
-                            // e.g., "RS300.600LJ" should match "RS300-600LJ" or "RS300600LJ"
+                    const fastResults = await Promise.race([
+                        Promise.all(historyProductCodes.slice(0, 6).map(code => {
                             const baseCode = code.replace(/[.\-]/g, '%');
                             return supabase.from('products')
                                 .select('id, product_code, name, category, specifications, description, applications, pdf_storage_url')
                                 .or(`product_code.ilike.%${baseCode}%,name.ilike.%${baseCode}%`)
-                                .limit(3)
+                                .limit(2)
                                 .then(({ data }) => data || [])
                                 .catch(() => []);
                         })),
-                        new Promise((_, reject) => setTimeout(() => reject(new Error('Spec lookup timeout')), DB_TIMEOUT))
+                        new Promise((_, reject) => setTimeout(() => reject(new Error('Fast path lookup timeout')), DB_TIMEOUT))
                     ]);
-
                     const seenIds = new Set();
-                    for (const products of codeResults) {
+                    for (const products of fastResults) {
                         for (const product of products) {
                             if (!seenIds.has(product.id)) {
                                 searchResults.push({ ...product, similarity: 2.0 });
@@ -726,41 +827,85 @@ app.post('/api/chat/stream', async (req, res) => {
                             }
                         }
                     }
-                    console.log('[server] Spec follow-up fetched', searchResults.length, 'products.');
+                    console.log('[server] Fast path fetched', searchResults.length, 'history products for sidebar.');
                 } catch (err) {
-                    console.warn('[server] Spec follow-up lookup failed:', err.message);
+                    console.warn('[server] Fast path history lookup failed:', err.message);
                 }
             }
+        }
+    } else if (isFollowUp && (needsSpecData || queryContainsProductCode) && historyProductCodes.length > 0) {
+        // === SPEC FOLLOW-UP PATH: Fetch specific products by code from history + current query ===
+        // Also extract codes from the current query itself (user may type the code directly)
+        const queryCodeRegex = /\b([A-Z]{2,3}[\d.]+[A-Z\d]*)\b/gi;
+        const queryCodeMatches = [...query.matchAll(queryCodeRegex)].map(m => m[1].toUpperCase());
+        const allCodes = [...new Set([...queryCodeMatches, ...historyProductCodes])];
+
+        console.log('[server] PATH: SPEC FOLLOW-UP — fetching products for codes:', allCodes.join(', '));
+        stage('lookup', 'Looking up specifications...');
+
+        const supabase = getSupabase();
+        if (supabase) {
+            try {
+                const codeResults = await Promise.race([
+                    Promise.all(allCodes.slice(0, 10).map(code => {
+                        // Use wildcard matching to handle dots, dashes, and partial codes
+                        // e.g., "RS300.600LJ" should match "RS300-600LJ" or "RS300600LJ"
+                        const baseCode = code.replace(/[.\-]/g, '%');
+                        return supabase.from('products')
+                            .select('id, product_code, name, category, specifications, description, applications, pdf_storage_url')
+                            .or(`product_code.ilike.%${baseCode}%,name.ilike.%${baseCode}%`)
+                            .limit(3)
+                            .then(({ data }) => data || [])
+                            .catch(() => []);
+                    })),
+                    new Promise((_, reject) => setTimeout(() => reject(new Error('Spec lookup timeout')), DB_TIMEOUT))
+                ]);
 
-            // FALLBACK: If SPEC FOLLOW-UP found nothing, fall through to the standard search pipeline
-            if (searchResults.length === 0) {
-                console.log('[server] SPEC FOLLOW-UP found 0 results — falling back to STANDARD search.');
-                res.write('data: ' + JSON.stringify({ type: 'status', message: 'Searching Knowledge Base...' }) + '\n\n');
-                const expandedQuery = await expandQuery(query, history);
-                searchResults = await searchProducts(expandedQuery, 15);
+                const seenIds = new Set();
+                for (const products of codeResults) {
+                    for (const product of products) {
+                        if (!seenIds.has(product.id)) {
+                            searchResults.push({ ...product, similarity: 2.0 });
+                            seenIds.add(product.id);
+                        }
+                    }
+                }
+                console.log('[server] Spec follow-up fetched', searchResults.length, 'products.');
+            } catch (err) {
+                console.warn('[server] Spec follow-up lookup failed:', err.message);
             }
-        } else {
-            // === STANDARD PATH: Full search pipeline ===
-            res.write('data: ' + JSON.stringify({ type: 'status', message: 'Searching Knowledge Base...' }) + '\n\n');
-
-            // If files are uploaded, use their content to generate search queries
-            const hasUploadedFiles = uploadedContext && uploadedContext.length > 50;
-            if (hasUploadedFiles) {
-                console.log('[server] File upload detected, extracting requirements for search...');
-                res.write('data: ' + JSON.stringify({ type: 'status', message: 'Extracting requirements from document...' }) + '\n\n');
-
-                // Use the file content to generate targeted search queries
-                const ai = getAI();
-                let searchTerms = [query];
-                if (ai) {
-                    try {
-                        const extractResult = await Promise.race([
-                            ai.models.generateContent({
-                                model: 'models/gemini-2.0-flash',
-                                contents: [{
-                                    role: 'user',
-                                    parts: [{
-                                        text: `You are analyzing a customer requirements document for a marine/offshore GRP cabinet company called JoBird.
+        }
+
+        // FALLBACK: If SPEC FOLLOW-UP found nothing, fall through to the standard search pipeline
+        if (searchResults.length === 0) {
+            console.log('[server] SPEC FOLLOW-UP found 0 results — falling back to STANDARD search.');
+            stage('searching', 'Searching Knowledge Base...');
+            const expandedQuery = await expandQuery(query, history);
+            if (expandedQuery !== query) stage('expanded', `Searching for "${expandedQuery}"`, { expandedQuery });
+            searchResults = await searchProducts(expandedQuery, 15);
+        }
+    } else {
+        // === STANDARD PATH: Full search pipeline ===
+        stage('searching', 'Searching Knowledge Base...');
+
+        // If files are uploaded, use their content to generate search queries
+        const hasUploadedFiles = uploadedContext && uploadedContext.length > 50;
+        if (hasUploadedFiles) {
+            console.log('[server] File upload detected, extracting requirements for search...');
+            stage('extracting', 'Extracting requirements from document...');
+
+            // Use the file content to generate targeted search queries
+            const ai = getAI();
+            let searchTerms = [query];
+            if (ai) {
+                try {
+                    const extractResult = await Promise.race([
+                        ai.models.generateContent({
+                            model: 'models/gemini-2.0-flash',
+                            contents: [{
+                                role: 'user',
+                                parts: [{
+                                    text: `You are analyzing a customer requirements document for a marine/offshore GRP cabinet company called JoBird.
 
 Identify each DISTINCT PRODUCT the customer needs. Output ONE search phrase per product that describes WHAT the cabinet must store and its PRIMARY use case.
 
@@ -781,302 +926,308 @@ DOCUMENT:
 ${uploadedContext.substring(0, 3000)}
 
 RESPONSE: (One search phrase per line, no numbering)`
-                                    }]
-                                }],
-                                config: { temperature: 0.1, maxOutputTokens: 150 }
-                            }),
-                            new Promise((_, reject) => setTimeout(() => reject(new Error('Requirement extraction timeout')), 8000))
-                        ]);
-                        const phrases = extractResult.text?.split('\n').map(p => p.trim().replace(/^[\d.\-*]+\s*/, '')).filter(p => p.length > 5) || [];
-                        if (phrases.length > 0) {
-                            searchTerms = phrases;
-                            console.log('[server] Extracted search terms from upload:', searchTerms);
-                        }
-                    } catch (err) {
-                        console.warn('[server] Requirement extraction failed, falling back to query:', err.message);
+                                }]
+                            }],
+                            config: { temperature: 0.1, maxOutputTokens: 150 }
+                        }),
+                        new Promise((_, reject) => setTimeout(() => reject(new Error('Requirement extraction timeout')), 8000))
+                    ]);
+                    const phrases = extractResult.text?.split('\n').map(p => p.trim().replace(/^[\d.\-*]+\s*/, '')).filter(p => p.length > 5) || [];
+                    if (phrases.length > 0) {
+                        searchTerms = phrases;
+                        console.log('[server] Extracted search terms from upload:', searchTerms);
                     }
+                } catch (err) {
+                    console.warn('[server] Requirement extraction failed, falling back to query:', err.message);
                 }
+            }
 
-                res.write('data: ' + JSON.stringify({ type: 'status', message: `Searching for ${searchTerms.length} requirement(s)...` }) + '\n\n');
+            stage('searching', `Searching for ${searchTerms.length} requirement(s)...`, { requirements: searchTerms.length });
 
-                // Search for each extracted requirement
-                const searchPromises = searchTerms.map(term => searchProducts(term, 5));
-                const resultsArrays = await Promise.all(searchPromises);
+            // Search for each extracted requirement
+            const searchPromises = searchTerms.map(term => searchProducts(term, 5));
+            const resultsArrays = await Promise.all(searchPromises);
 
-                const seenIds = new Set();
-                for (const arr of resultsArrays) {
-                    for (const res of arr) {
-                        if (!seenIds.has(res.id)) {
-                            searchResults.push(res);
-                            seenIds.add(res.id);
-                        }
+            const seenIds = new Set();
+            for (const arr of resultsArrays) {
+                for (const res of arr) {
+                    if (!seenIds.has(res.id)) {
+                        searchResults.push(res);
+                        seenIds.add(res.id);
                     }
                 }
+            }
 
-                // Fallback: if any search term found < 2 results, retry with broader terms
-                for (let i = 0; i < searchTerms.length; i++) {
-                    if ((resultsArrays[i] || []).length < 2) {
-                        console.log(`[server] Low results for "${searchTerms[i]}", trying broader search...`);
-                        const broaderTerms = [
-                            'GRP storage cabinet weatherproof',
-                            'utility cabinet outdoor marine',
-                            'general purpose cabinet IP56'
-                        ];
-                        for (const broader of broaderTerms) {
-                            try {
-                                const fallbackResults = await searchProducts(broader, 3);
-                                for (const res of fallbackResults) {
-                                    if (!seenIds.has(res.id)) {
-                                        searchResults.push(res);
-                                        seenIds.add(res.id);
-                                    }
+            // Fallback: if any search term found < 2 results, retry with broader terms
+            for (let i = 0; i < searchTerms.length; i++) {
+                if ((resultsArrays[i] || []).length < 2) {
+                    console.log(`[server] Low results for "${searchTerms[i]}", trying broader search...`);
+                    const broaderTerms = [
+                        'GRP storage cabinet weatherproof',
+                        'utility cabinet outdoor marine',
+                        'general purpose cabinet IP56'
+                    ];
+                    for (const broader of broaderTerms) {
+                        try {
+                            const fallbackResults = await searchProducts(broader, 3);
+                            for (const res of fallbackResults) {
+                                if (!seenIds.has(res.id)) {
+                                    searchResults.push(res);
+                                    seenIds.add(res.id);
                                 }
-                                if (fallbackResults.length >= 2) break;
-                            } catch (err) {
-                                console.warn('[server] Fallback search failed:', err.message);
                             }
+                            if (fallbackResults.length >= 2) break;
+                        } catch (err) {
+                            console.warn('[server] Fallback search failed:', err.message);
                         }
                     }
                 }
+            }
 
-                searchResults = searchResults.sort((a, b) => (b.similarity || 0) - (a.similarity || 0)).slice(0, 20);
-            } else if (query.length > 200) {
-                const searchTargets = await decomposeEnquiry(query);
-                const searchPromises = searchTargets.map(target => searchProducts(target, 5));
-                const resultsArrays = await Promise.all(searchPromises);
-
-                const seenIds = new Set();
-                for (const arr of resultsArrays) {
-                    for (const res of arr) {
-                        if (!seenIds.has(res.id)) {
-                            searchResults.push(res);
-                            seenIds.add(res.id);
-                        }
+            searchResults = searchResults.sort((a, b) => (b.similarity || 0) - (a.similarity || 0)).slice(0, 20);
+        } else if (query.length > 200) {
+            const searchTargets = await decomposeEnquiry(query);
+            stage('searching', `Searching for ${searchTargets.length} requirement(s)...`, { requirements: searchTargets.length });
+            const searchPromises = searchTargets.map(target => searchProducts(target, 5));
+            const resultsArrays = await Promise.all(searchPromises);
+
+            const seenIds = new Set();
+            for (const arr of resultsArrays) {
+                for (const res of arr) {
+                    if (!seenIds.has(res.id)) {
+                        searchResults.push(res);
+                        seenIds.add(res.id);
                     }
                 }
-                searchResults = searchResults.sort((a, b) => b.similarity - a.similarity).slice(0, 15);
-            } else {
-                // Detect meta/overview questions that don't need product search
-                const isMetaQuery = /how many|total|count|list.*categor|what.*categor|what.*types|overview|what do you (have|know)|what.*available/i.test(lowerQuery)
-                    && !lowerQuery.match(/[A-Z]{2,3}[\d.]+/i);
+            }
+            searchResults = searchResults.sort((a, b) => b.similarity - a.similarity).slice(0, 15);
+        } else {
+            // Detect meta/overview questions that don't need product search
+            const isMetaQuery = /how many|total|count|list.*categor|what.*categor|what.*types|overview|what do you (have|know)|what.*available/i.test(lowerQuery)
+                && !lowerQuery.match(/[A-Z]{2,3}[\d.]+/i);
 
-                if (isMetaQuery) {
-                    console.log('[server] Meta/overview query detected — skipping product search.');
-                } else {
-                    const expandedQuery = await expandQuery(query, history);
-                    searchResults = await searchProducts(expandedQuery, 15);
-                }
+            if (isMetaQuery) {
+                console.log('[server] Meta/overview query detected — skipping product search.');
+            } else {
+                const expandedQuery = await expandQuery(query, history);
+                if (expandedQuery !== query) stage('expanded', `Searching for "${expandedQuery}"`, { expandedQuery });
+                searchResults = await searchProducts(expandedQuery, 15);
             }
+        }
 
-            // === SPEC-VALUE SUPPLEMENT (runs for ALL query paths) ===
-            // This catches products that vector/keyword search misses for queries like 'IP56 rating'
-            const specValueMatch = lowerQuery.match(/\b(ip\s*\d{2}|ip\s*\d{1}x|stainless\s*steel|grp|composite|galvani[sz]ed|aluminium|mild\s*steel)\b/i);
-            if (specValueMatch) {
-                const specValue = specValueMatch[0].replace(/\s+/g, '');
-                console.log('[server] Running structured spec-filter for:', specValue);
-                const supabase = getSupabase();
-                if (supabase) {
-                    try {
-                        const seenIds = new Set(searchResults.map(r => r.id));
-                        const { data: allProducts } = await Promise.race([
-                            supabase.from('products')
-                                .select('id, product_code, name, category, specifications, description, applications, pdf_storage_url')
-                                .limit(200),
-                            new Promise((_, reject) => setTimeout(() => reject(new Error('Spec Filter Timeout')), DB_TIMEOUT))
-                        ]);
+        // === SPEC-VALUE SUPPLEMENT (runs for ALL query paths) ===
+        // This catches products that vector/keyword search misses for queries like 'IP56 rating'
+        const specValueMatch = lowerQuery.match(/\b(ip\s*\d{2}|ip\s*\d{1}x|stainless\s*steel|grp|composite|galvani[sz]ed|aluminium|mild\s*steel)\b/i);
+        if (specValueMatch) {
+            const specValue = specValueMatch[0].replace(/\s+/g, '');
+            console.log('[server] Running structured spec-filter for:', specValue);
+            const supabase = getSupabase();
+            if (supabase) {
+                try {
+                    const seenIds = new Set(searchResults.map(r => r.id));
+                    const { data: allProducts } = await Promise.race([
+                        supabase.from('products')
+                            .select('id, product_code, name, category, specifications, description, applications, pdf_storage_url')
+                            .limit(200),
+                        new Promise((_, reject) => setTimeout(() => reject(new Error('Spec Filter Timeout')), DB_TIMEOUT))
+                    ]);
 
-                        let specAdded = 0;
-                        for (const product of (allProducts || [])) {
-                            if (!seenIds.has(product.id)) {
-                                const specStr = JSON.stringify(product.specifications || {}).toLowerCase();
-                                const descStr = (product.description || '').toLowerCase();
-                                const appsStr = (product.applications || '').toLowerCase();
-                                if (specStr.includes(specValue.toLowerCase()) || descStr.includes(specValue.toLowerCase()) || appsStr.includes(specValue.toLowerCase())) {
-                                    searchResults.push({ ...product, similarity: 1.9, type: 'spec-filter' });
-                                    seenIds.add(product.id);
-                                    specAdded++;
-                                }
+                    let specAdded = 0;
+                    for (const product of (allProducts || [])) {
+                        if (!seenIds.has(product.id)) {
+                            const specStr = JSON.stringify(product.specifications || {}).toLowerCase();
+                            const descStr = (product.description || '').toLowerCase();
+                            const appsStr = (product.applications || '').toLowerCase();
+                            if (specStr.includes(specValue.toLowerCase()) || descStr.includes(specValue.toLowerCase()) || appsStr.includes(specValue.toLowerCase())) {
+                                searchResults.push({ ...product, similarity: 1.9, type: 'spec-filter' });
+                                seenIds.add(product.id);
+                                specAdded++;
                             }
                         }
-                        console.log('[server] Spec-filter added', specAdded, 'products for', specValue);
-                        // Re-sort and limit after adding spec-filter results
-                        searchResults = searchResults.sort((a, b) => (b.similarity || 0) - (a.similarity || 0)).slice(0, 25);
-                    } catch (err) {
-                        console.warn('[server] Spec-filter supplement failed:', err.message);
                     }
+                    console.log('[server] Spec-filter added', specAdded, 'products for', specValue);
+                    // Re-sort and limit after adding spec-filter results
+                    searchResults = searchResults.sort((a, b) => (b.similarity || 0) - (a.similarity || 0)).slice(0, 25);
+                } catch (err) {
+                    console.warn('[server] Spec-filter supplement failed:', err.message);
                 }
             }
+        }
 
-            // === CATEGORY SUPPLEMENT (runs for ALL query paths) ===
-            // When a query mentions a product category, fetch ALL matching products
-            // so the AI can present the full range of options on the first response
-            const categoryPatterns = [
-                { pattern: /life\s*jacket|lifejacket/i, terms: ['lifejacket', 'life jacket', 'automatic life'] },
-                { pattern: /fire\s*hose|firehose|hose\s*pipe|hosepipe|\bhose/i, terms: ['fire hose', 'hose reel', 'hose'] },
-                { pattern: /fire\s*extinguisher/i, terms: ['extinguisher'] },
-                { pattern: /breathing\s*apparatus|\bba\b|scba/i, terms: ['breathing apparatus', 'BA'] },
-                { pattern: /lifebuoy|life\s*buoy|life\s*ring/i, terms: ['lifebuoy', 'life buoy'] },
-                { pattern: /immersion\s*suit/i, terms: ['immersion suit'] },
-                { pattern: /wash\s*down/i, terms: ['wash down', 'washdown'] },
-                { pattern: /first\s*aid/i, terms: ['first aid'] },
-                { pattern: /electrical|ppe/i, terms: ['electrical', 'PPE'] },
-                { pattern: /general\s*purpose|utility|multi.?purpose/i, terms: ['general purpose', 'utility'] },
-                { pattern: /stretcher/i, terms: ['stretcher'] },
-                { pattern: /\bsos\b|rescue\s*line|rescue\s*equipment/i, terms: ['SOS', 'rescue'] },
-                { pattern: /descent\s*device/i, terms: ['descent'] },
-                { pattern: /\bev\b|electric\s*vehicle|fire\s*blanket/i, terms: ['EV', 'fire blanket'] },
-                { pattern: /life\s*raft|liferaft/i, terms: ['liferaft', 'life raft'] },
-                { pattern: /foam/i, terms: ['foam'] },
-            ];
-
-            const matchedCategory = categoryPatterns.find(c => c.pattern.test(lowerQuery));
-            if (matchedCategory) {
-                console.log('[server] Category supplement triggered for:', matchedCategory.terms.join('/'));
-                const supabase = getSupabase();
-                if (supabase) {
-                    try {
-                        const catSeenIds = new Set(searchResults.map(r => r.id));
-                        const orQuery = matchedCategory.terms
-                            .map(t => `name.ilike.%${t}%,category.ilike.%${t}%,description.ilike.%${t}%`)
-                            .join(',');
-                        const { data: catProducts } = await Promise.race([
-                            supabase.from('products')
-                                .select('id, product_code, name, category, specifications, description, applications, pdf_storage_url')
-                                .or(orQuery)
-                                .limit(50),
-                            new Promise((_, reject) => setTimeout(() => reject(new Error('Category Search Timeout')), DB_TIMEOUT))
-                        ]);
+        // === CATEGORY SUPPLEMENT (runs for ALL query paths) ===
+        // When a query mentions a product category, fetch ALL matching products
+        // so the AI can present the full range of options on the first response
+        const categoryPatterns = [
+            { pattern: /life\s*jacket|lifejacket/i, terms: ['lifejacket', 'life jacket', 'automatic life'] },
+            { pattern: /fire\s*hose|firehose|hose\s*pipe|hosepipe|\bhose/i, terms: ['fire hose', 'hose reel', 'hose'] },
+            { pattern: /fire\s*extinguisher/i, terms: ['extinguisher'] },
+            { pattern: /breathing\s*apparatus|\bba\b|scba/i, terms: ['breathing apparatus', 'BA'] },
+            { pattern: /lifebuoy|life\s*buoy|life\s*ring/i, terms: ['lifebuoy', 'life buoy'] },
+            { pattern: /immersion\s*suit/i, terms: ['immersion suit'] },
+            { pattern: /wash\s*down/i, terms: ['wash down', 'washdown'] },
+            { pattern: /first\s*aid/i, terms: ['first aid'] },
+            { pattern: /electrical|ppe/i, terms: ['electrical', 'PPE'] },
+            { pattern: /general\s*purpose|utility|multi.?purpose/i, terms: ['general purpose', 'utility'] },
+            { pattern: /stretcher/i, terms: ['stretcher'] },
+            { pattern: /\bsos\b|rescue\s*line|rescue\s*equipment/i, terms: ['SOS', 'rescue'] },
+            { pattern: /descent\s*device/i, terms: ['descent'] },
+            { pattern: /\bev\b|electric\s*vehicle|fire\s*blanket/i, terms: ['EV', 'fire blanket'] },
+            { pattern: /life\s*raft|liferaft/i, terms: ['liferaft', 'life raft'] },
+            { pattern: /foam/i, terms: ['foam'] },
+        ];
+
+        const matchedCategory = categoryPatterns.find(c => c.pattern.test(lowerQuery));
+        if (matchedCategory) {
+            console.log('[server] Category supplement triggered for:', matchedCategory.terms.join('/'));
+            const supabase = getSupabase();
+            if (supabase) {
+                try {
+                    const catSeenIds = new Set(searchResults.map(r => r.id));
+                    const orQuery = matchedCategory.terms
+                        .map(t => `name.ilike.%${t}%,category.ilike.%${t}%,description.ilike.%${t}%`)
+                        .join(',');
+                    const { data: catProducts } = await Promise.race([
+                        supabase.from('products')
+                            .select('id, product_code, name, category, specifications, description, applications, pdf_storage_url')
+                            .or(orQuery)
+                            .limit(50),
+                        new Promise((_, reject) => setTimeout(() => reject(new Error('Category Search Timeout')), DB_TIMEOUT))
+                    ]);
 
-                        let catAdded = 0;
-                        for (const product of (catProducts || [])) {
-                            if (!catSeenIds.has(product.id)) {
-                                searchResults.push({ ...product, similarity: 1.85, type: 'category' });
-                                catSeenIds.add(product.id);
-                                catAdded++;
-                            }
+                    let catAdded = 0;
+                    for (const product of (catProducts || [])) {
+                        if (!catSeenIds.has(product.id)) {
+                            searchResults.push({ ...product, similarity: 1.85, type: 'category' });
+                            catSeenIds.add(product.id);
+                            catAdded++;
                         }
-                        console.log('[server] Category supplement added', catAdded, 'products for', matchedCategory.terms[0]);
-                        // Allow more results for category queries so AI can list all options
-                        searchResults = searchResults.sort((a, b) => (b.similarity || 0) - (a.similarity || 0)).slice(0, 30);
-                    } catch (err) {
-                        console.warn('[server] Category supplement failed:', err.message);
                     }
+                    console.log('[server] Category supplement added', catAdded, 'products for', matchedCategory.terms[0]);
+                    // Allow more results for category queries so AI can list all options
+                    searchResults = searchResults.sort((a, b) => (b.similarity || 0) - (a.similarity || 0)).slice(0, 30);
+                } catch (err) {
+                    console.warn('[server] Category supplement failed:', err.message);
                 }
             }
+        }
 
-            // === FEATURE/ATTRIBUTE SUPPLEMENT ===
-            // When a query asks about product features (colours, heaters, insulation, locking, extras, etc.)
-            // scan ALL products to find those that mention the relevant feature
-            const featurePatterns = [
-                { pattern: /colou?r|paint|ral|finish/i, terms: ['colour', 'color', 'ral', 'paint', 'finish'] },
-                { pattern: /heater|heated|heating/i, terms: ['heater', 'heated', 'heating'] },
-                { pattern: /insulat/i, terms: ['insulation', 'insulated'] },
-                { pattern: /lock|locking/i, terms: ['lock', 'locking'] },
-                { pattern: /optional|extras|option|upgrade/i, terms: ['optional', 'extras', 'option'] },
-                { pattern: /mount|wall.?mount|bracket/i, terms: ['mount', 'mounting', 'bracket'] },
-                { pattern: /window|glazed|transparent/i, terms: ['window', 'glazed'] },
-                { pattern: /shelf|shelves|rack/i, terms: ['shelf', 'shelves', 'rack'] },
-                { pattern: /arctic|cold|frost/i, terms: ['arctic', 'cold', 'frost'] },
-                { pattern: /door|hinge|seal/i, terms: ['door', 'hinge', 'seal'] },
-            ];
-
-            const matchedFeature = featurePatterns.find(f => f.pattern.test(lowerQuery));
-            if (matchedFeature) {
-                console.log('[server] Feature supplement triggered for:', matchedFeature.terms.join('/'));
-                const supabase = getSupabase();
-                if (supabase) {
-                    try {
-                        const featSeenIds = new Set(searchResults.map(r => r.id));
-                        const { data: allProducts } = await Promise.race([
-                            supabase.from('products')
-                                .select('id, product_code, name, category, specifications, description, applications, pdf_storage_url')
-                                .limit(200),
-                            new Promise((_, reject) => setTimeout(() => reject(new Error('Feature Filter Timeout')), DB_TIMEOUT))
-                        ]);
+        // === FEATURE/ATTRIBUTE SUPPLEMENT ===
+        // When a query asks about product features (colours, heaters, insulation, locking, extras, etc.)
+        // scan ALL products to find those that mention the relevant feature
+        const featurePatterns = [
+            { pattern: /colou?r|paint|ral|finish/i, terms: ['colour', 'color', 'ral', 'paint', 'finish'] },
+            { pattern: /heater|heated|heating/i, terms: ['heater', 'heated', 'heating'] },
+            { pattern: /insulat/i, terms: ['insulation', 'insulated'] },
+            { pattern: /lock|locking/i, terms: ['lock', 'locking'] },
+            { pattern: /optional|extras|option|upgrade/i, terms: ['optional', 'extras', 'option'] },
+            { pattern: /mount|wall.?mount|bracket/i, terms: ['mount', 'mounting', 'bracket'] },
+            { pattern: /window|glazed|transparent/i, terms: ['window', 'glazed'] },
+            { pattern: /shelf|shelves|rack/i, terms: ['shelf', 'shelves', 'rack'] },
+            { pattern: /arctic|cold|frost/i, terms: ['arctic', 'cold', 'frost'] },
+            { pattern: /door|hinge|seal/i, terms: ['door', 'hinge', 'seal'] },
+        ];
+
+        const matchedFeature = featurePatterns.find(f => f.pattern.test(lowerQuery));
+        if (matchedFeature) {
+            console.log('[server] Feature supplement triggered for:', matchedFeature.terms.join('/'));
+            const supabase = getSupabase();
+            if (supabase) {
+                try {
+                    const featSeenIds = new Set(searchResults.map(r => r.id));
+                    const { data: allProducts } = await Promise.race([
+                        supabase.from('products')
+                            .select('id, product_code, name, category, specifications, description, applications, pdf_storage_url')
+                            .limit(200),
+                        new Promise((_, reject) => setTimeout(() => reject(new Error('Feature Filter Timeout')), DB_TIMEOUT))
+                    ]);
 
-                        let featAdded = 0;
-                        for (const product of (allProducts || [])) {
-                            if (!featSeenIds.has(product.id)) {
-                                const specStr = JSON.stringify(product.specifications || {}).toLowerCase();
-                                const descStr = (product.description || '').toLowerCase();
-                                const appsStr = (product.applications || '').toLowerCase();
-                                const combined = specStr + ' ' + descStr + ' ' + appsStr;
-
-                                const hasFeature = matchedFeature.terms.some(term => combined.includes(term.toLowerCase()));
-                                if (hasFeature) {
-                                    searchResults.push({ ...product, similarity: 1.85, type: 'feature-filter' });
-                                    featSeenIds.add(product.id);
-                                    featAdded++;
-                                }
+                    let featAdded = 0;
+                    for (const product of (allProducts || [])) {
+                        if (!featSeenIds.has(product.id)) {
+                            const specStr = JSON.stringify(product.specifications || {}).toLowerCase();
+                            const descStr = (product.description || '').toLowerCase();
+                            const appsStr = (product.applications || '').toLowerCase();
+                            const combined = specStr + ' ' + descStr + ' ' + appsStr;
+
+                            const hasFeature = matchedFeature.terms.some(term => combined.includes(term.toLowerCase()));
+                            if (hasFeature) {
+                                searchResults.push({ ...product, similarity: 1.85, type: 'feature-filter' });
+                                featSeenIds.add(product.id);
+                                featAdded++;
                             }
                         }
-                        console.log('[server] Feature supplement added', featAdded, 'products for', matchedFeature.terms[0]);
-                        searchResults = searchResults.sort((a, b) => (b.similarity || 0) - (a.similarity || 0)).slice(0, 30);
-                    } catch (err) {
-                        console.warn('[server] Feature supplement failed:', err.message);
                     }
+                    console.log('[server] Feature supplement added', featAdded, 'products for', matchedFeature.terms[0]);
+                    searchResults = searchResults.sort((a, b) => (b.similarity || 0) - (a.similarity || 0)).slice(0, 30);
+                } catch (err) {
+                    console.warn('[server] Feature supplement failed:', err.message);
                 }
             }
         }
+    }
 
-        // Skip history supplement and KB stats for follow-up fast path
-        if (!isFollowUpPath) {
-            // Supplement with history product codes that aren't already in results
-            if (historyProductCodes.length > 0) {
-                const existingIds = new Set(searchResults.map(r => r.id));
-                const existingCodes = new Set(searchResults.map(r => r.product_code?.toLowerCase()).filter(Boolean));
+    // Skip history supplement and KB stats for follow-up fast path
+    if (!isFollowUpPath) {
+        // Supplement with history product codes that aren't already in results
+        if (historyProductCodes.length > 0) {
+            const existingIds = new Set(searchResults.map(r => r.id));
+            const existingCodes = new Set(searchResults.map(r => r.product_code?.toLowerCase()).filter(Boolean));
 
-                const missingCodes = historyProductCodes.filter(code => !existingCodes.has(code.toLowerCase()));
+            const missingCodes = historyProductCodes.filter(code => !existingCodes.has(code.toLowerCase()));
 
-                if (missingCodes.length > 0) {
-                    console.log('[server] Supplementing search with history products:', missingCodes.join(', '));
-                    const supabase = getSupabase();
-                    if (supabase) {
-                        try {
-                            const supplementResults = await Promise.race([
-                                Promise.all(missingCodes.slice(0, 3).map(code =>
-                                    supabase.from('products')
-                                        .select('id, product_code, name, category, specifications, description, applications, pdf_storage_url')
-                                        .or(`product_code.ilike.%${code}%,name.ilike.%${code}%`)
-                                        .limit(3)
-                                        .then(({ data }) => data || [])
-                                        .catch(() => [])
-                                )),
-                                new Promise((_, reject) => setTimeout(() => reject(new Error('History Supplement Timeout')), DB_TIMEOUT))
-                            ]);
-
-                            for (const products of supplementResults) {
-                                for (const product of products) {
-                                    if (!existingIds.has(product.id)) {
-                                        searchResults.push({ ...product, similarity: 1.8 });
-                                        existingIds.add(product.id);
-                                    }
+            if (missingCodes.length > 0) {
+                console.log('[server] Supplementing search with history products:', missingCodes.join(', '));
+                const supabase = getSupabase();
+                if (supabase) {
+                    try {
+                        const supplementResults = await Promise.race([
+                            Promise.all(missingCodes.slice(0, 3).map(code =>
+                                supabase.from('products')
+                                    .select('id, product_code, name, category, specifications, description, applications, pdf_storage_url')
+                                    .or(`product_code.ilike.%${code}%,name.ilike.%${code}%`)
+                                    .limit(3)
+                                    .then(({ data }) => data || [])
+                                    .catch(() => [])
+                            )),
+                            new Promise((_, reject) => setTimeout(() => reject(new Error('History Supplement Timeout')), DB_TIMEOUT))
+                        ]);
+
+                        for (const products of supplementResults) {
+                            for (const product of products) {
+                                if (!existingIds.has(product.id)) {
+                                    searchResults.push({ ...product, similarity: 1.8 });
+                                    existingIds.add(product.id);
                                 }
                             }
-                        } catch (suppErr) {
-                            console.warn(`[server] History supplement skipped: ${suppErr.message}`);
                         }
+                    } catch (suppErr) {
+                        console.warn(`[server] History supplement skipped: ${suppErr.message}`);
                     }
                 }
             }
         }
+    }
 
-        console.log('[server] Search matched', searchResults.length, 'products.');
+    console.log('[server] Search matched', searchResults.length, 'products.');
+    if (!isFollowUpPath || historyProductCodes.length > 0) {
+        const found = searchResults.length;
+        stage('found', found === 0 ? 'No matching products found' : `${found} product${found === 1 ? '' : 's'} found`, { productsFound: found });
+    }
 
-        // Build structured product context for Gemini
-        const productContext = searchResults.map(p => {
-            const specs = p.specifications || {};
-            const specLines = Object.entries(specs)
-                .map(([key, val]) => {
-                    if (typeof val === 'object' && val !== null) {
-                        return `  ${key}: ${JSON.stringify(val)}`;
-                    }
-                    return `  ${key}: ${val}`;
-                })
-                .join('\n');
-            const pdfFilename = p.pdf_storage_url || `${p.product_code}.pdf`;
-            const pdfUrl = `${PDF_STORAGE_BASE}/${encodeURIComponent(pdfFilename)}`;
-            return `--- PRODUCT: ${p.product_code} ---
+    // Build structured product context for Gemini
+    const productContext = searchResults.map(p => {
+        const specs = p.specifications || {};
+        const specLines = Object.entries(specs)
+            .map(([key, val]) => {
+                if (typeof val === 'object' && val !== null) {
+                    return `  ${key}: ${JSON.stringify(val)}`;
+                }
+                return `  ${key}: ${val}`;
+            })
+            .join('\n');
+        const pdfFilename = p.pdf_storage_url || `${p.product_code}.pdf`;
+        const pdfUrl = `${PDF_STORAGE_BASE}/${encodeURIComponent(pdfFilename)}`;
+        return `--- PRODUCT: ${p.product_code} ---
 Name: ${p.name || 'N/A'}
 Category: ${p.category || 'N/A'}
 Specifications:
@@ -1085,26 +1236,34 @@ Applications: ${p.applications || 'N/A'}
 Description: ${p.description || 'N/A'}
 OFFICIAL_DATASHEET_URL: ${pdfUrl}
 `;
-        }).join('\n');
-
-        console.log('[server] searchResults count before datasheet extraction:', searchResults.length);
-        console.log('[server] searchResults codes:', searchResults.map(r => r.product_code).filter(Boolean).join(', '));
-        const referencedDatasheets = extractDatasheetReferences(searchResults);
-        const conversationContext = buildConversationContext(history);
-
-        // Get knowledge base stats (skip for follow-ups — not needed)
-        let kbStatsContext = '';
-        if (!isFollowUpPath) {
-            const kbStats = await getKnowledgeBaseStats();
-            const isBroad = searchResults.length < 3 || lowerQuery.includes('how many') || lowerQuery.includes('list') || lowerQuery.includes('categories');
-            kbStatsContext = isBroad
-                ? `\n\nKNOWLEDGE BASE OVERVIEW:\n- Total product entries in catalog: ${kbStats.totalProducts}\n- NOTE: The original master spreadsheet contains 183 product variants. These have been consolidated into ${kbStats.totalProducts} model-specific entries in the database. For example, size variants like JB08LJ.600 and JB08LJ.800 are merged into a single JB08LJ entry that covers all sizes. This consolidation reduces duplication while preserving all technical data.\n- Product Categories:\n  * ${kbStats.categories.join('\n  * ')}\n- Sample products: ${kbStats.sampleProducts.slice(0, 8).join(', ')}\n`
-                : `\n\nKNOWLEDGE BASE OVERVIEW:\n- Total product entries in catalog: ${kbStats.totalProducts}\n- NOTE: The original master spreadsheet contains 183 product variants, consolidated into ${kbStats.totalProducts} model-specific entries (size/colour variants merged into single entries).\n`;
-        }
+    }).join('\n');
+
+    console.log('[server] searchResults count before datasheet extraction:', searchResults.length);
+    console.log('[server] searchResults codes:', searchResults.map(r => r.product_code).filter(Boolean).join(', '));
+    const referencedDatasheets = extractDatasheetReferences(searchResults);
+    const conversationContext = buildConversationContext(history);
+
+    // Get knowledge base stats (skip for follow-ups — not needed)
+    let kbStatsContext = '';
+    if (!isFollowUpPath) {
+        const kbStats = await getKnowledgeBaseStats();
+        const isBroad = searchResults.length < 3 || lowerQuery.includes('how many') || lowerQuery.includes('list') || lowerQuery.includes('categories');
+        kbStatsContext = isBroad
+            ? `\n\nKNOWLEDGE BASE OVERVIEW:\n- Total product entries in catalog: ${kbStats.totalProducts}\n- NOTE: The original master spreadsheet contains 183 product variants. These have been consolidated into ${kbStats.totalProducts} model-specific entries in the database. For example, size variants like JB08LJ.600 and JB08LJ.800 are merged into a single JB08LJ entry that covers all sizes. This consolidation reduces duplication while preserving all technical data.\n- Product Categories:\n  * ${kbStats.categories.join('\n  * ')}\n- Sample products: ${kbStats.sampleProducts.slice(0, 8).join(', ')}\n`
+            : `\n\nKNOWLEDGE BASE OVERVIEW:\n- Total product entries in catalog: ${kbStats.totalProducts}\n- NOTE: The original master spreadsheet contains 183 product variants, consolidated into ${kbStats.totalProducts} model-specific entries (size/colour variants merged into single entries).\n`;
+    }
+
+    const relevantSops = findRelevantSops(query, getSopsInForce(), historyProductCodes);
+    const sopContext = buildSopContext(relevantSops);
+    const insulationContext = buildInsulationContext(query);
+    const placementContext = buildPlacementContext(query);
+    if (relevantSops.length > 0) {
+        console.log('[server] SOPs in context:', relevantSops.map(s => `${s.id} v${s.version}`).join(', '));
+    }
 
-        const promptContext = `
+    const promptContext = `
 ${conversationContext}
-${kbStatsContext}
+${kbStatsContext}${sopContext}${insulationContext}${placementContext}
 
 UPLOADED CONTEXT (PRIORITIZE THIS FOR THE USER'S SPECIFIC ENQUIRY):
 ${uploadedContext || 'No files uploaded.'}
@@ -1112,105 +1271,171 @@ ${uploadedContext || 'No files uploaded.'}
 PRODUCT CATALOG RESULTS:
 ${productContext || 'No matching products found.'}`;
 
-        console.log(`[server] Prompt Context built. Length: ${promptContext.length}. Products: ${searchResults.length}`);
-        // Log individual product URLs for verification
-        searchResults.forEach(p => {
-            const pdfFilename = p.pdf_storage_url || `${p.product_code}.pdf`;
-            console.log(`[server] Product Context Item: ${p.product_code} -> ${PDF_STORAGE_BASE}/${encodeURIComponent(pdfFilename)}`);
-        });
+    console.log(`[server] Prompt Context built. Length: ${promptContext.length}. Products: ${searchResults.length}`);
+    // Log individual product URLs for verification
+    searchResults.forEach(p => {
+        const pdfFilename = p.pdf_storage_url || `${p.product_code}.pdf`;
+        console.log(`[server] Product Context Item: ${p.product_code} -> ${PDF_STORAGE_BASE}/${encodeURIComponent(pdfFilename)}`);
+    });
 
-        res.write('data: ' + JSON.stringify({ type: 'status', message: 'Generating response...' }) + '\n\n');
-        const chatModel = 'models/gemini-2.0-flash';
-        const ai = getAI();
+    if (signal?.aborted) throw new HttpError(499, 'Request cancelled');
+    stage('generating', 'Generating response...', { productsFound: searchResults.length, sopsInContext: relevantSops.length });
+    const chatModel = 'models/gemini-2.0-flash';
+    const ai = getAI();
 
-        console.log(`[server] Calling generateContentStream with model: ${chatModel}`);
+    console.log(`[server] Calling generateContentStream with model: ${chatModel}`);
 
-        let response;
-        try {
-            // Attempt generation with a strict timeout
-            response = await Promise.race([
-                ai.models.generateContentStream({
-                    model: chatModel,
-                    contents: [
-                        ...(history || []).map(m => ({
-                            role: m.role === 'user' ? 'user' : 'model',
-                            parts: [{ text: stripCitations(m.content) }]
-                        })),
-                        {
-                            role: 'user',
-                            parts: [
-                                { text: promptContext },
-                                { text: `CURRENT QUERY: ${query}\n\nSTRICT RULES:\n1. Do NOT include any parenthetical citations, source filenames, or "Source: ..." text in your response.\n2. For every recommended product, you MUST include a [Datasheet PDF](URL) link using ONLY the OFFICIAL_DATASHEET_URL from the PRODUCT CATALOG above. NEVER use jobird.co.uk, jobird.com, or any URL from your training data. Copy the exact URL from the OFFICIAL_DATASHEET_URL field.\n3. If no OFFICIAL_DATASHEET_URL is available for a product, do NOT include any datasheet link for that product.` }
-                            ]
-                        }
-                    ],
-                    config: {
-                        systemInstruction: SYSTEM_INSTRUCTION,
-                        temperature: 0.0
+    let response;
+    try {
+        // Attempt generation with a strict timeout
+        response = await Promise.race([
+            ai.models.generateContentStream({
+                model: chatModel,
+                contents: [
+                    ...(history || []).map(m => ({
+                        role: m.role === 'user' ? 'user' : 'model',
+                        parts: [{ text: stripCitations(m.content) }]
+                    })),
+                    {
+                        role: 'user',
+                        parts: [
+                            { text: promptContext },
+                            { text: `CURRENT QUERY: ${query}\n\nSTRICT RULES:\n1. Do NOT include any parenthetical citations, source filenames, or "Source: ..." text in your response.\n2. For every recommended product, you MUST include a [Datasheet PDF](URL) link using ONLY the OFFICIAL_DATASHEET_URL from the PRODUCT CATALOG above. NEVER use jobird.co.uk, jobird.com, or any URL from your training data. Copy the exact URL from the OFFICIAL_DATASHEET_URL field.\n3. If no OFFICIAL_DATASHEET_URL is available for a product, do NOT include any datasheet link for that product.` }
+                        ]
                     }
-                }),
-                new Promise((_, reject) => setTimeout(() => reject(new Error('AI Generation Timeout (45s)')), 45000))
-            ]);
-            console.log('[server] generateContentStream call successful, starting to iterate chunks...');
-        } catch (genError) {
-            console.error('[server] generateContentStream FAILED:', genError.message);
-            res.write(`data: ${JSON.stringify({ type: 'error', error: `AI Advisor is currently busy or unavailable. Please try again in 30 seconds. (Error: ${genError.message})` })}\n\n`);
-            return res.end();
-        }
-
-        let fullText = '';
-        let chunkCount = 0;
-
-        try {
-            // Per-chunk timeout: if no chunk arrives in 20s, break the loop
-            const CHUNK_TIMEOUT = 20000;
-            for await (const chunk of response) {
-                if (requestDone) break; // Global timeout already fired
-                chunkCount++;
-                const chunkText = chunk.text || '';
-                if (chunkText) {
-                    fullText += chunkText;
-                    // Apply real-time stripping for the stream
-                    const displayOutput = stripCitations(fullText);
-                    res.write(`data: ${JSON.stringify({ type: 'chunk', text: displayOutput })}\n\n`);
+                ],
+                config: {
+                    systemInstruction: SYSTEM_INSTRUCTION,
+                    temperature: 0.0,
+                    abortSignal: signal
                 }
+            }),
+            new Promise((_, reject) => setTimeout(() => reject(new Error('AI Generation Timeout (45s)')), 45000))
+        ]);
+        console.log('[server] generateContentStream call successful, starting to iterate chunks...');
+    } catch (genError) {
+        if (signal?.aborted) throw new HttpError(499, 'Request cancelled');
+        console.error('[server] generateContentStream FAILED:', genError.message);
+        throw new HttpError(503, `AI Advisor is currently busy or unavailable. Please try again in 30 seconds. (Error: ${genError.message})`);
+    }
 
-                if (chunkCount % 5 === 0) {
-                    console.log(`[server] Sent ${chunkCount} chunks so far...`);
-                }
+    let fullText = '';
+    let chunkCount = 0;
+
+    try {
+        // Per-chunk timeout: if no chunk arrives in 20s, break the loop
+        const CHUNK_TIMEOUT = 20000;
+        for await (const chunk of response) {
+            if (signal?.aborted) break; // Caller stopped, timed out or went away
+            chunkCount++;
+            const chunkText = chunk.text || '';
+            if (chunkText) {
+                fullText += chunkText;
+                // Apply real-time stripping for the stream
+                const displayOutput = stripCitations(fullText);
+                onChunk(displayOutput);
             }
-            console.log(`[server] Stream complete. Total chunks: ${chunkCount}, Total chars: ${fullText.length}`);
-        } catch (streamIterError) {
-            console.error('[server] Error during stream iteration:', streamIterError);
-            if (!requestDone) {
-                res.write(`data: ${JSON.stringify({ type: 'chunk', text: fullText + '\n\n[Response was cut short. Please try again.]' })}\n\n`);
+
+            if (chunkCount % 5 === 0) {
+                console.log(`[server] Sent ${chunkCount} chunks so far...`);
             }
         }
+        console.log(`[server] Stream complete. Total chunks: ${chunkCount}, Total chars: ${fullText.length}`);
+    } catch (streamIterError) {
+        console.error('[server] Error during stream iteration:', streamIterError);
+        if (!signal?.aborted) {
+            onChunk(fullText + '\n\n[Response was cut short. Please try again.]');
+        }
+    }
 
-        // Extract citations from the response and filter datasheets
-        console.log(`[server] Extracting citations for final event... Response length: ${fullText.length}`);
-        const citedDatasheets = filterDatasheetsByCitations(fullText, referencedDatasheets, searchResults);
+    // Extract citations from the response and filter datasheets
+    console.log(`[server] Extracting citations for final event... Response length: ${fullText.length}`);
+    const citedDatasheets = filterDatasheetsByCitations(fullText, referencedDatasheets, searchResults);
 
-        // Final safety strip for citations
-        const finalOutput = stripCitations(fullText);
-        if (!requestDone) {
-            console.log(`[server] Sending 'done' payload with ${citedDatasheets.length} datasheets`);
-            res.write(`data: ${JSON.stringify({ type: 'done', text: finalOutput, datasheets: citedDatasheets })}\n\n`);
-            res.end();
-        }
-        cleanup();
+    // Final safety strip for citations
+    const finalOutput = stripCitations(fullText);
+    const citedSops = extractSopCitations(finalOutput, relevantSops);
+    const sopWarnings = findSopContradictions(finalOutput, getSopsInForce());
+    if (sopWarnings.length > 0) {
+        console.warn('[server] Response contradicts SOPs in force:', sopWarnings.join(' | '));
+    }
 
-    } catch (error) {
-        console.error('[server] Top-level Stream endpoint error:', error);
-        console.error(error.stack);
-        cleanup();
+    return { text: finalOutput, referencedDatasheets: citedDatasheets, citedSops, sopWarnings };
+}
+
+// Chat endpoint (SSE): stage, chunk and done events (SelectionStreamEvent in types.ts)
+// The answer is generated under a stream id (X-Stream-Id) that a client resumes after a dropped
+// connection; closing the connection no longer stops it, DELETE /api/chat/stream/:id does.
+app.post('/api/chat/stream', (req, res) => {
+    console.log('[server] Incoming POST /api/chat/stream');
+    const user = requestUser(req);
+    const streamId = startSelectionStream(user, async (signal, emit) => {
+        emit({ type: 'stage', stage: 'analyzing', message: 'Analyzing query...', elapsedMs: 0 });
         try {
-            res.write(`data: ${JSON.stringify({ type: 'error', error: error.message })}\n\n`);
-            res.end();
-        } catch (writeErr) {
-            console.error('[server] Failed to write error to stream:', writeErr);
+            const result = await runSelection(req.body, {
+                onStage: emit,
+                onChunk: text => emit({ type: 'chunk', text }),
+                signal
+            });
+            console.log(`[server] Sending 'done' payload with ${result.referencedDatasheets.length} datasheets and ${result.citedSops.length} SOP citations`);
+            emit({ type: 'done', text: result.text, datasheets: result.referencedDatasheets, sops: result.citedSops, sopWarnings: result.sopWarnings });
+        } catch (error) {
+            if (!(error instanceof HttpError)) {
+                console.error('[server] Top-level Stream endpoint error:', error);
+                console.error(error.stack);
+            }
+            emit({ type: 'error', error: error.message });
         }
+    });
+    sendSelectionStream(res, streamId, user);
+});
+
+// Resume: the events after Last-Event-ID, then the rest of the answer as it is generated
+app.get('/api/chat/stream/:id', (req, res) => {
+    try {
+        sendSelectionStream(res, req.params.id, requestUser(req), Number(req.get('Last-Event-ID')) || 0);
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+app.delete('/api/chat/stream/:id', (req, res) => {
+    try {
+        cancelSelectionStream(req.params.id, requestUser(req));
+        res.status(204).end();
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+// The stream's done event as a single JSON AIResponse, for callers that don't want to parse SSE
+const SELECTION_TIMEOUT = 60000;
+
+async function sendSelection(req, res) {
+    const generation = new AbortController();
+    let timer;
+    res.on('close', () => generation.abort());
+    try {
+        const result = await Promise.race([
+            runSelection(req.body, { signal: generation.signal }),
+            new Promise((_, reject) => {
+                timer = setTimeout(() => reject(new HttpError(504, 'Request timed out. Please try again.')), SELECTION_TIMEOUT);
+            })
+        ]);
+        res.json(result);
+    } catch (error) {
+        generation.abort();
+        sendHttpError(res, error);
+    } finally {
+        clearTimeout(timer);
     }
+}
+
+app.post('/api/chat', sendSelection);
+
+app.post('/api/v1/selection', (req, res) => {
+    console.log(`[server] Incoming POST /api/v1/selection from API client "${req.apiClient.name}"`);
+    sendSelection(req, res);
 });
 
 // Knowledge base stats endpoint
@@ -1222,7 +1447,7 @@ app.get('/api/stats', async (req, res) => {
         if (categoryKeyword) {
             // ... rest remains similar but uses cached stats or limited search ...
             return res.json({
-                totalDatasheets: kbStats.totalDatasheets,
+                ...kbStats,
                 categoryMatches: [{
                     keyword: categoryKeyword,
                     count: 0, // Simplified for performance
@@ -1231,13 +1456,347 @@ app.get('/api/stats', async (req, res) => {
             });
         }
 
-        res.json({ totalDatasheets: kbStats.totalDatasheets });
+        res.json(kbStats);
     } catch (error) {
         console.error('[server] Stats error:', error);
         res.status(500).json({ error: error.message || 'Internal server error' });
     }
 });
 
+// Insulation-aware internal dimensions for the standard catalog
+app.get('/api/insulation', (req, res) => {
+    res.json({ models: CABINET_CATALOG.map(model => getInsulatedDimensions(model, getSopsInForce())) });
+});
+
+app.get('/api/insulation/:modelId', (req, res) => {
+    const model = CABINET_CATALOG.find(m => m.id.toLowerCase() === req.params.modelId.toLowerCase());
+    if (!model) {
+        return res.status(404).json({ error: `Unknown model: ${req.params.modelId}` });
+    }
+    res.json(getInsulatedDimensions(model, getSopsInForce()));
+});
+
+// Lifejacket chest stacking plan (SOP-JB-12 limits)
+app.post('/api/stacking-plan', (req, res) => {
+    const lifejackets = Number(req.body.lifejackets);
+    const deckHeightMm = Number(req.body.deckHeightMm);
+
+    if (!Number.isFinite(lifejackets) || lifejackets <= 0 || !Number.isFinite(deckHeightMm) || deckHeightMm <= 0) {
+        return res.status(400).json({ error: 'lifejackets and deckHeightMm must be positive numbers' });
+    }
+
+    res.json(planChestStacking(lifejackets, deckHeightMm, CABINET_CATALOG, getSopsInForce()));
+});
+
+// What is wrong with a configuration body (CabinetConfiguration), or null
+function configurationError({ modelId, insulationMm, options, equipment, stackTiers }) {
+    const isNonNegative = value => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+    const isDims = dims => !!dims && ['h', 'w', 'd'].every(axis => typeof dims[axis] === 'number' && dims[axis] > 0);
+
+    if (typeof modelId !== 'string' || !modelId.trim()) return 'modelId must be a string';
+    if (insulationMm !== undefined && !isNonNegative(insulationMm)) return 'insulationMm must be a number of 0 or more';
+    if (options !== undefined && (!Array.isArray(options) || options.some(o => typeof o !== 'string'))) {
+        return 'options must be an array of strings';
+    }
+    if (equipment !== undefined && (!Array.isArray(equipment) || equipment.some(item =>
+        !item || typeof item.type !== 'string' || !Number.isInteger(item.qty) || item.qty < 1 || !isDims(item.dims)
+        || !isNonNegative(item.weight) || (item.placement !== undefined && item.placement !== 'base' && item.placement !== 'shelf')))) {
+        return "equipment must be an array of { type, qty, dims: { h, w, d }, weight, placement?: 'base' | 'shelf' }";
+    }
+    if (stackTiers !== undefined && (!Number.isInteger(stackTiers) || stackTiers < 1)) return 'stackTiers must be a positive whole number';
+    return null;
+}
+
+// Evaluate a proposed cabinet configuration against the SOP rules in force
+app.post('/api/configurations/evaluate', (req, res) => {
+    const config = req.body || {};
+    const error = configurationError(config);
+    if (error) {
+        return res.status(400).json({ error });
+    }
+    const model = CABINET_CATALOG.find(m => m.id.toLowerCase() === config.modelId.toLowerCase());
+    if (!model) {
+        return res.status(400).json({ error: `Unknown model: ${config.modelId}` });
+    }
+    res.json(evaluateConfiguration(config, model, getSopsInForce()));
+});
+
+// Who is making the request (set by the session middleware)
+function requestUser(req) {
+    return req.user.username;
+}
+
+// Audit log (append-only, hash-chained)
+function auditFilters(query) {
+    const pick = key => typeof query[key] === 'string' && query[key].trim() ? query[key].trim() : undefined;
+    const filters = { user: pick('user'), action: pick('action'), from: pick('from'), to: pick('to'), q: pick('q') };
+    for (const key of ['from', 'to']) {
+        if (filters[key] && !/^\d{4}-\d{2}-\d{2}$/.test(filters[key])) {
+            return { error: `${key} must be a YYYY-MM-DD date` };
+        }
+    }
+    return { filters };
+}
+
+app.get('/api/audit', requirePermission('audit.view'), (req, res) => {
+    const { filters, error } = auditFilters(req.query);
+    if (error) return res.status(400).json({ error });
+
+    const pageSize = Math.min(Math.max(parseInt(req.query.pageSize, 10) || 50, 1), 500);
+    const matches = queryAudit(filters);
+    const pages = Math.max(1, Math.ceil(matches.length / pageSize));
+    const page = Math.min(Math.max(parseInt(req.query.page, 10) || 1, 1), pages);
+
+    res.json({
+        entries: matches.slice((page - 1) * pageSize, page * pageSize),
+        total: matches.length,
+        page,
+        pageSize,
+        pages,
+        ...auditFacets()
+    });
+});
+
+// Full filtered result (no pagination) as a download
+app.get('/api/audit/export', requirePermission('audit.view'), (req, res) => {
+    const { filters, error } = auditFilters(req.query);
+    if (error) return res.status(400).json({ error });
+
+    const format = req.query.format === 'json' ? 'json' : 'csv';
+    const matches = queryAudit(filters);
+    const filename = `jobird_audit_${new Date().toISOString().split('T')[0]}.${format}`;
+    recordAudit(requestUser(req), 'Export Audit Log', `${matches.length} entries exported as ${format.toUpperCase()} (filters: ${JSON.stringify(filters)})`);
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    if (format === 'json') {
+        return res.json({ exportedAt: new Date().toISOString(), filters, total: matches.length, entries: matches });
+    }
+    res.type('text/csv').send(auditToCsv(matches));
+});
+
+app.get('/api/audit/verify', requirePermission('audit.view'), (req, res) => {
+    const result = verifyAuditLog();
+    if (!result.valid) {
+        console.error('[server] Audit log verification FAILED:', result.firstInvalid);
+    }
+    res.json(result);
+});
+
+// SOP lifecycle: Draft -> reviews -> Approved (scheduled) -> Active -> Deprecated, revisions linked through replacesId
+app.get('/api/sops/workflow', (req, res) => {
+    res.json({ workflow: getSopWorkflow() });
+});
+
+app.put('/api/sops/workflow/:category', requirePermission('sop.workflow'), (req, res) => {
+    try {
+        res.json(setSopWorkflow(req.params.category, req.body?.reviews, requestUser(req)));
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+app.get('/api/sops', (req, res) => {
+    const { status } = req.query;
+    const sops = listSops();
+    res.json({ sops: status ? sops.filter(s => s.status === status) : sops });
+});
+
+// A draft written for a change request can be linked in the same call via changeRequestId
+app.post('/api/sops', requirePermission('sop.propose'), (req, res) => {
+    try {
+        const { changeRequestId } = req.body || {};
+        if (changeRequestId && !can(req.user.role, 'changeRequest.manage')) return denyAccess(req, res, 'changeRequest.manage');
+        if (changeRequestId) getOpenChangeRequest(changeRequestId);
+        const sop = proposeSop(req.body, requestUser(req));
+        console.log(`[server] SOP proposed: ${sop.id} v${sop.version}`);
+        if (changeRequestId) linkSopDraft(changeRequestId, sop.id, requestUser(req));
+        res.status(201).json(sop);
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+// Reviewer decision; the SOP is approved (and scheduled) once every required role has signed off
+app.post('/api/sops/:id/reviews', requirePermission('sop.review'), (req, res) => {
+    try {
+        // Reviews are signed by the session user in their account role
+        const { decision, comment, effectiveDate } = req.body || {};
+        // Engineering can sign off, but a draft is never approved without an admin's approval
+        const draft = getSop(req.params.id);
+        if (decision === 'approve' && draft?.status === 'Draft' && !canGiveApproval(req.user.role, draft, getSopWorkflow())) {
+            return denyAccess(req, res, 'sop.approve');
+        }
+        const sop = reviewSop(req.params.id, { reviewer: req.user.username, role: req.user.role, decision, comment, effectiveDate }, requestUser(req));
+        console.log(`[server] SOP ${sop.id} reviewed (${decision} by ${req.user.username}) -> ${sop.status}`);
+        if (sop.status !== 'Draft') syncChangeRequestsForSop(sop.id, requestUser(req));
+        res.json(sop);
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+app.post('/api/sops/:id/deprecate', requirePermission('sop.deprecate'), (req, res) => {
+    try {
+        const sop = deprecateSop(req.params.id, req.body?.reason, requestUser(req));
+        console.log(`[server] SOP deprecated: ${sop.id}`);
+        res.json(sop);
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+app.get('/api/sops/:id/history', (req, res) => {
+    try {
+        res.json({ history: getSopHistory(req.params.id) });
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+// Sales feedback triage: new -> triaged -> in-progress -> resolved / wont-fix
+app.get('/api/feedback', (req, res) => {
+    const pick = key => typeof req.query[key] === 'string' && req.query[key] ? req.query[key] : undefined;
+    res.json({ feedback: listFeedback({ status: pick('status'), assignee: pick('assignee') }) });
+});
+
+app.post('/api/feedback', requirePermission('feedback.submit'), (req, res) => {
+    try {
+        res.status(201).json(submitFeedback(req.body, requestUser(req)));
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+app.patch('/api/feedback/:id', requirePermission('feedback.triage'), (req, res) => {
+    try {
+        const { status, assignee } = req.body || {};
+        res.json(updateFeedback(req.params.id, { status, assignee }, requestUser(req)));
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+app.post('/api/feedback/:id/comments', requirePermission('feedback.comment'), (req, res) => {
+    try {
+        res.status(201).json(addFeedbackComment(req.params.id, req.body?.text, requestUser(req)));
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+// Change requests: promoted feedback tracked through to the SOP drafts that address it
+app.get('/api/change-requests', (req, res) => {
+    res.json({ changeRequests: listChangeRequests() });
+});
+
+app.post('/api/feedback/:id/promote', requirePermission('changeRequest.manage'), (req, res) => {
+    try {
+        res.status(201).json(promoteFeedback(req.params.id, req.body?.suggestion, requestUser(req)));
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+app.post('/api/change-requests/:id/sops', requirePermission('changeRequest.manage'), (req, res) => {
+    try {
+        res.json(linkSopDraft(req.params.id, req.body?.sopId, requestUser(req)));
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+// Saved selection chats, private to the signed-in user
+app.get('/api/chat-sessions', (req, res) => {
+    res.json({ sessions: listChatSessions(requestUser(req)) });
+});
+
+app.get('/api/chat-sessions/search', (req, res) => {
+    res.json(searchChatSessions(requestUser(req), req.query.q));
+});
+
+app.get('/api/chat-sessions/:id', (req, res) => {
+    try {
+        res.json(getChatSession(req.params.id, requestUser(req)));
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+app.put('/api/chat-sessions/:id', (req, res) => {
+    try {
+        res.json(saveChatSession(req.params.id, req.body, requestUser(req)));
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+app.patch('/api/chat-sessions/:id', (req, res) => {
+    try {
+        const { title, pinned, archived, tags } = req.body || {};
+        res.json(updateChatSessionMeta(req.params.id, { title, pinned, archived, tags }, requestUser(req)));
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+app.delete('/api/chat-sessions/:id', (req, res) => {
+    try {
+        deleteChatSession(req.params.id, requestUser(req));
+        res.status(204).end();
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+// Read-only share links (frozen snapshots of a session)
+app.get('/api/chat-sessions/:id/shares', (req, res) => {
+    try {
+        res.json({ shares: listShares(req.params.id, requestUser(req)) });
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+app.post('/api/chat-sessions/:id/shares', (req, res) => {
+    try {
+        res.status(201).json(createShare(req.params.id, { expiresInDays: req.body?.expiresInDays }, requestUser(req)));
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+app.get('/api/shares/:token', (req, res) => {
+    try {
+        res.json(openShare(req.params.token));
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+app.delete('/api/shares/:token', (req, res) => {
+    try {
+        res.json(revokeShare(req.params.token, requestUser(req)));
+    } catch (error) {
+        sendHttpError(res, error);
+    }
+});
+
+// Customer-ready PDF of the conversation the client is showing (so unsaved edits are included)
+app.post('/api/reports/selection', (req, res) => {
+    let doc;
+    try {
+        doc = buildSelectionReport(req.body, req.user.name);
+    } catch (error) {
+        return sendHttpError(res, error);
+    }
+    const slug = req.body.title.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'selection';
+    recordAudit(requestUser(req), 'Export Selection Report', `PDF report "${req.body.title}" (${req.body.messages.length} messages)`);
+    res.type('application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="jobird_${slug}_${new Date().toISOString().split('T')[0]}.pdf"`);
+    doc.pipe(res);
+    doc.end();
+});
+
 // Search endpoint (for direct searches)
 app.post('/api/search', async (req, res) => {
     try {
@@ -0,0 +1,736 @@
+// OpenAPI 3.1 description of every /api route, served at /api/openapi.json
+// Kept by hand next to the routes; `npm run test:contract` fails when this, server/index.js and
+// lib/apiClient.ts disagree. Object schemas list every field the server sends: the contract check
+// treats undeclared fields as drift unless the schema sets additionalProperties.
+
+const ref = name => ({ $ref: `#/components/schemas/${name}` });
+const arrayOf = items => ({ type: 'array', items });
+const str = { type: 'string' };
+const num = { type: 'number' };
+const int = { type: 'integer' };
+const bool = { type: 'boolean' };
+const isoDate = { type: 'string', format: 'date-time' };
+const dims = ref('Dims');
+
+// `required` fields are always present; `optional` ones only when set
+const obj = (required, optional = {}) => ({
+    type: 'object',
+    properties: { ...required, ...optional },
+    required: Object.keys(required)
+});
+
+const json = (schema, description = 'OK') => ({ description, content: { 'application/json': { schema } } });
+const error = description => json(ref('Error'), description);
+const body = schema => ({ required: true, content: { 'application/json': { schema } } });
+const pathParam = (name, description) => ({ name, in: 'path', required: true, schema: str, description });
+const queryParam = (name, schema, description) => ({ name, in: 'query', required: false, schema, description });
+const headerParam = (name, schema, description) => ({ name, in: 'header', required: false, schema, description });
+
+const UNAUTHORIZED = { 401: error('Missing, expired or revoked session token') };
+const forbidden = permission => ({ 403: error(`The user's role lacks ${permission}`) });
+
+// Operations behind a role check carry x-permission, compared with requirePermission() in the routes
+const guarded = (permission, operation) => ({
+    ...operation,
+    'x-permission': permission,
+    responses: { ...operation.responses, ...forbidden(permission) }
+});
+
+const eventStream = {
+    description: 'Event stream',
+    headers: { 'X-Stream-Id': { description: 'Resume with GET /api/chat/stream/{id}', schema: str } },
+    content: { 'text/event-stream': { schema: str, 'x-data-schema': ref('SelectionStreamEvent') } }
+};
+
+const selectionResponses = {
+    200: json(ref('AIResponse')),
+    400: error('Invalid query, history or files'),
+    503: error('The AI service is unavailable'),
+    504: error('No answer within 60 seconds')
+};
+
+const schemas = {
+    Error: obj({ error: str }),
+
+    Dims: obj({ h: num, w: num, d: num }),
+
+    UserRole: { type: 'string', enum: ['sales', 'engineering', 'admin'] },
+    User: obj(
+        { username: str, name: str, role: ref('UserRole'), createdAt: isoDate },
+        { disabled: bool, updatedAt: isoDate, updatedBy: str, createdBy: str }
+    ),
+    AuthSession: obj({ token: str, user: ref('User'), expiresAt: isoDate }),
+
+    ApiKey: obj(
+        { id: str, name: str, prefix: str, createdBy: str, createdAt: isoDate },
+        { lastUsedAt: isoDate, revokedAt: isoDate, revokedBy: str }
+    ),
+
+    RuntimeConfig: {
+        type: 'object',
+        description: 'Safe-to-expose client configuration; variables that are not set are omitted',
+        properties: Object.fromEntries([
+            'VITE_FIREBASE_API_KEY', 'VITE_FIREBASE_AUTH_DOMAIN', 'VITE_FIREBASE_PROJECT_ID', 'VITE_FIREBASE_STORAGE_BUCKET',
+            'VITE_FIREBASE_MESSAGING_SENDER_ID', 'VITE_FIREBASE_APP_ID', 'VITE_FIREBASE_MEASUREMENT_ID',
+            'VITE_GEMINI_LIVE_API_KEY', 'VITE_SUPABASE_URL'
+        ].map(key => [key, str]))
+    },
+
+    DatasheetReference: obj(
+        { filename: str, displayName: str },
+        { productCode: str, productName: str, url: str, source: str }
+    ),
+    SopReference: obj({ sopId: str, sopVersion: str }),
+    SopCitation: obj({ sopId: str, sopVersion: str, title: str }),
+    AIResponse: obj(
+        { text: str, referencedDatasheets: arrayOf(ref('DatasheetReference')) },
+        { citedSops: arrayOf(ref('SopCitation')), sopWarnings: arrayOf(str) }
+    ),
+
+    // Messages as the client stores them; fitCheck and stackingPlan are the shared/ tool results
+    Message: obj(
+        { role: { type: 'string', enum: ['user', 'assistant'] }, content: str, timestamp: isoDate },
+        {
+            fitCheck: { type: 'object', additionalProperties: true },
+            stackingPlan: { type: 'object', additionalProperties: true },
+            citedSops: arrayOf(ref('SopCitation')),
+            sopWarnings: arrayOf(str),
+            datasheets: arrayOf(ref('DatasheetReference')),
+            stopped: bool,
+            branches: arrayOf(ref('ConversationBranch')),
+            branchIndex: int
+        }
+    ),
+    ConversationBranch: obj({ messages: arrayOf(ref('Message')), datasheets: arrayOf(ref('DatasheetReference')) }),
+    SessionFile: obj({ name: str }, { content: str }),
+    SelectionRequest: obj(
+        { query: str },
+        {
+            history: arrayOf({ type: 'object', required: ['role', 'content'], properties: { role: { type: 'string', enum: ['user', 'assistant'] }, content: str }, additionalProperties: true }),
+            files: arrayOf(obj({ name: str, content: str }))
+        }
+    ),
+
+    // One `data:` line of POST /api/chat/stream (shared/streamEvents.js)
+    SelectionStreamEvent: {
+        oneOf: [
+            obj(
+                {
+                    type: { const: 'stage' },
+                    stage: { type: 'string', enum: ['analyzing', 'lookup', 'searching', 'extracting', 'expanded', 'found', 'generating'] },
+                    message: str,
+                    elapsedMs: int
+                },
+                { expandedQuery: str, requirements: int, productsFound: int, sopsInContext: int }
+            ),
+            obj({ type: { const: 'chunk' }, text: str }),
+            obj({
+                type: { const: 'done' },
+                text: str,
+                datasheets: arrayOf(ref('DatasheetReference')),
+                sops: arrayOf(ref('SopCitation')),
+                sopWarnings: arrayOf(str)
+            }),
+            obj({ type: { const: 'error' }, error: str })
+        ]
+    },
+
+    KnowledgeBaseStats: obj(
+        { totalProducts: int, categories: arrayOf(str), sampleProducts: arrayOf(str) },
+        { categoryMatches: arrayOf(obj({ keyword: str, count: int, datasheets: arrayOf(str) })) }
+    ),
+    ProductMatch: {
+        ...obj({ id: str, product_code: str, name: str, category: str, similarity: num }, {
+            specifications: { type: 'object', additionalProperties: true },
+            description: str,
+            applications: { type: ['string', 'null'] },
+            pdf_storage_url: str
+        }),
+        additionalProperties: true // Raw product rows; columns vary with the search path
+    },
+
+    InsulationOption: obj({ thicknessMm: num, deductionMm: num, internalDims: dims, usable: bool }),
+    InsulatedDimensions: obj(
+        { modelId: str, title: str, options: arrayOf(ref('InsulationOption')) },
+        { sopId: str, sopVersion: str }
+    ),
+    StackingPlan: obj(
+        {
+            modelId: str, title: str, perChest: int, chests: int, tiers: int, stacks: arrayOf(int),
+            stackHeightMm: num, footprint: obj({ w: num, d: num }), spareCapacity: int,
+            limitedBy: { type: 'string', enum: ['sopTiers', 'sopHeight', 'deckHeight'] }
+        },
+        { sopId: str, sopVersion: str }
+    ),
+    StackingPlanResult: obj({
+        lifejackets: num,
+        deckHeightMm: num,
+        plans: arrayOf(ref('StackingPlan')),
+        rejected: arrayOf(obj({ modelId: str, reason: str }))
+    }),
+    EquipmentItem: obj(
+        { type: str, qty: num, dims, weight: num },
+        { placement: { type: 'string', enum: ['base', 'shelf'] } }
+    ),
+    CabinetConfiguration: obj(
+        { modelId: str },
+        { insulationMm: num, equipment: arrayOf(ref('EquipmentItem')), options: arrayOf(str), stackTiers: int }
+    ),
+    SopViolation: obj({ sopId: str, sopVersion: str, rule: str, message: str }, { modelId: str }),
+    ConfigurationEvaluation: obj({
+        modelId: str,
+        internalDims: dims,
+        appliedSops: arrayOf(ref('SopReference')),
+        violations: arrayOf(ref('SopViolation')),
+        warnings: arrayOf(str)
+    }),
+
+    AuditEntry: obj({ seq: int, id: str, user: str, action: str, timestamp: isoDate, changeDetail: str, prevHash: str, hash: str }),
+    AuditPage: obj({
+        entries: arrayOf(ref('AuditEntry')),
+        total: int, page: int, pageSize: int, pages: int,
+        users: arrayOf(str),
+        actions: arrayOf(str)
+    }),
+    AuditVerification: obj(
+        { valid: bool, checked: int, total: int },
+        { headHash: str, firstInvalid: obj({ seq: int, id: { type: ['string', 'null'] }, reason: str }) }
+    ),
+
+    SopRule: {
+        type: 'object',
+        description: 'One of the rule kinds in types.ts (SopRule); the other fields depend on kind',
+        required: ['kind'],
+        properties: { kind: { type: 'string', enum: ['dimensionDeduction', 'weightThreshold', 'stackingLimit', 'clearanceBuffer', 'forbiddenCombination'] } },
+        additionalProperties: true
+    },
+    SopStatus: { type: 'string', enum: ['Draft', 'Approved', 'Active', 'Rejected', 'Deprecated'] },
+    SopReview: obj(
+        { reviewer: str, role: str, decision: { type: 'string', enum: ['approve', 'reject'] }, timestamp: isoDate },
+        { comment: str }
+    ),
+    SOP: obj(
+        { id: str, title: str, description: str, version: str, status: ref('SopStatus'), lastUpdated: str, category: str },
+        {
+            replacesId: str, changeReason: str, proposedBy: str, rules: arrayOf(ref('SopRule')), effectiveDate: str,
+            reviews: arrayOf(ref('SopReview')), rejectionReason: str, deprecatedBy: str, deprecationReason: str
+        }
+    ),
+    SopProposal: obj(
+        { id: str, title: str, description: str, version: str, category: str },
+        { replacesId: str, changeReason: str, proposedBy: str, rules: arrayOf(ref('SopRule')), effectiveDate: str, changeRequestId: str }
+    ),
+    SopWorkflowRule: obj({ category: str, reviews: arrayOf(obj({ role: str, count: int })) }),
+
+    FeedbackStatus: { type: 'string', enum: ['new', 'triaged', 'in-progress', 'resolved', 'wont-fix'] },
+    FeedbackContext: obj({}, { cabinetId: str, equipment: str, insulation: str, sopVersion: str }),
+    FeedbackComment: obj({ author: str, text: str, timestamp: isoDate }),
+    SalesFeedback: obj(
+        {
+            id: str, userId: str, timestamp: isoDate, context: ref('FeedbackContext'), task: str, issue: str,
+            urgency: { type: 'string', enum: ['Low', 'Medium', 'High'] }, status: ref('FeedbackStatus'),
+            comments: arrayOf(ref('FeedbackComment')), updatedAt: isoDate
+        },
+        { assignee: str, changeRequestId: str }
+    ),
+    ChangeRequest: obj(
+        { id: str, source: str, suggestion: str, timestamp: isoDate, status: { type: 'string', enum: ['open', 'in-review', 'closed'] }, sopIds: arrayOf(str) },
+        { linkedConfig: str, urgency: str, feedbackId: str, createdBy: str, closedAt: isoDate, resolution: str }
+    ),
+
+    SessionTag: obj({ kind: { type: 'string', enum: ['customer', 'project', 'case'] }, value: str }),
+    ChatSessionMeta: obj({}, { title: str, pinned: bool, archived: bool, tags: arrayOf(ref('SessionTag')) }),
+    ChatSessionSummary: obj(
+        { id: str, title: str, timestamp: isoDate, messageCount: int },
+        { updatedAt: isoDate, pinned: bool, archived: bool, tags: arrayOf(ref('SessionTag')) }
+    ),
+    ChatSession: obj(
+        {
+            id: str, title: str, timestamp: isoDate, messages: arrayOf(ref('Message')),
+            datasheets: arrayOf(ref('DatasheetReference')), sessionFiles: arrayOf(ref('SessionFile'))
+        },
+        { updatedAt: isoDate, pinned: bool, archived: bool, tags: arrayOf(ref('SessionTag')) }
+    ),
+    ChatSessionInput: obj(
+        { title: str, messages: arrayOf(ref('Message')) },
+        {
+            timestamp: isoDate, datasheets: arrayOf(ref('DatasheetReference')), sessionFiles: arrayOf(ref('SessionFile')),
+            pinned: bool, archived: bool, tags: arrayOf(ref('SessionTag'))
+        }
+    ),
+    ChatSearchResult: obj({
+        sessionId: str,
+        title: str,
+        updatedAt: isoDate,
+        hits: arrayOf(obj({ snippet: str }, { messageIndex: int, role: { type: 'string', enum: ['user', 'assistant'] } }))
+    }),
+    SessionShare: obj(
+        { token: str, sessionId: str, title: str, createdAt: isoDate, viewCount: int },
+        { expiresAt: isoDate, revokedAt: isoDate, lastViewedAt: isoDate }
+    ),
+    SharedSession: obj(
+        {
+            token: str, sharedBy: str, createdAt: isoDate, title: str, timestamp: isoDate,
+            messages: arrayOf(ref('Message')), datasheets: arrayOf(ref('DatasheetReference'))
+        },
+        { expiresAt: isoDate }
+    ),
+    SelectionReportRequest: obj(
+        { title: str, messages: arrayOf(ref('Message')), datasheets: arrayOf(ref('DatasheetReference')) },
+        { selectedModelId: str }
+    )
+};
+
+const paths = {
+    '/api/ping': {
+        get: { summary: 'Liveness check', tags: ['System'], security: [], responses: { 200: { description: 'pong-get', content: { 'text/html': { schema: str } } } } },
+        post: { summary: 'Liveness check for POST routing', tags: ['System'], security: [], responses: { 200: { description: 'pong-post', content: { 'text/html': { schema: str } } } } }
+    },
+    '/api/openapi.json': {
+        get: { summary: 'This document', tags: ['System'], security: [], responses: { 200: json({ type: 'object', additionalProperties: true }) } }
+    },
+    '/api/config': {
+        get: { summary: 'Runtime configuration for the frontend', tags: ['System'], security: [], responses: { 200: json(ref('RuntimeConfig')) } }
+    },
+
+    '/api/auth/login': {
+        post: {
+            summary: 'Sign in',
+            tags: ['Auth'],
+            security: [],
+            requestBody: body(obj({ username: str, password: str })),
+            responses: { 200: json(ref('AuthSession')), 401: error('Unknown user, wrong password or disabled account') }
+        }
+    },
+    '/api/auth/logout': {
+        post: { summary: 'End the current session', tags: ['Auth'], responses: { 204: { description: 'Signed out' }, ...UNAUTHORIZED } }
+    },
+    '/api/auth/me': {
+        get: { summary: 'The signed-in user', tags: ['Auth'], responses: { 200: json(obj({ user: ref('User'), expiresAt: isoDate })), ...UNAUTHORIZED } }
+    },
+
+    '/api/users': {
+        get: guarded('users.manage', {
+            summary: 'List user accounts and the assignable roles',
+            tags: ['Users'],
+            responses: { 200: json(obj({ users: arrayOf(ref('User')), roles: arrayOf(ref('UserRole')) })), ...UNAUTHORIZED }
+        }),
+        post: guarded('users.manage', {
+            summary: 'Create a user account',
+            tags: ['Users'],
+            requestBody: body(obj({ username: str, name: str, role: ref('UserRole'), password: str })),
+            responses: { 201: json(ref('User'), 'Created'), 400: error('Invalid username, name, role or password'), 409: error('Username taken'), ...UNAUTHORIZED }
+        })
+    },
+    '/api/users/{username}': {
+        patch: guarded('users.manage', {
+            summary: 'Rename, change role, reset password or disable an account',
+            tags: ['Users'],
+            parameters: [pathParam('username')],
+            requestBody: body(obj({}, { name: str, role: ref('UserRole'), password: str, disabled: bool })),
+            responses: { 200: json(ref('User')), 400: error('Invalid change'), 404: error('Unknown user'), ...UNAUTHORIZED }
+        })
+    },
+
+    '/api/api-keys': {
+        get: guarded('apiKeys.manage', {
+            summary: 'List keys for the /api/v1 public API',
+            tags: ['API keys'],
+            responses: { 200: json(obj({ apiKeys: arrayOf(ref('ApiKey')) })), ...UNAUTHORIZED }
+        }),
+        post: guarded('apiKeys.manage', {
+            summary: 'Create a key; the response is the only time the key itself is returned',
+            tags: ['API keys'],
+            requestBody: body(obj({ name: str })),
+            responses: {
+                201: json({ ...schemas.ApiKey, properties: { ...schemas.ApiKey.properties, key: str }, required: [...schemas.ApiKey.required, 'key'] }, 'Created'),
+                400: error('name is required'),
+                ...UNAUTHORIZED
+            }
+        })
+    },
+    '/api/api-keys/{id}': {
+        delete: guarded('apiKeys.manage', {
+            summary: 'Revoke a key',
+            tags: ['API keys'],
+            parameters: [pathParam('id')],
+            responses: { 200: json(ref('ApiKey')), 404: error('Unknown key'), ...UNAUTHORIZED }
+        })
+    },
+
+    '/api/chat/stream': {
+        post: {
+            summary: 'Ask the selection assistant, streamed as server-sent events',
+            description: 'Each event is one `data: <json>` line (x-data-schema) after an `id: <n>` line: stage events as the pipeline '
+                + 'progresses, chunk events carrying the answer so far, then done or error. Comment lines keep the connection alive. '
+                + 'Clients must ignore event types they do not know. The answer is generated under the X-Stream-Id stream: '
+                + 'closing the connection does not stop it (see DELETE /api/chat/stream/{id}).',
+            tags: ['Selection'],
+            requestBody: body(ref('SelectionRequest')),
+            responses: { 200: eventStream, ...UNAUTHORIZED }
+        }
+    },
+    '/api/chat/stream/{id}': {
+        get: {
+            summary: 'Resume a selection stream after a dropped connection',
+            description: 'Replays the events after Last-Event-ID (only the latest chunk, which carries the whole answer so far), '
+                + 'then follows the answer until it finishes. Finished streams can be read for 5 minutes.',
+            tags: ['Selection'],
+            parameters: [pathParam('id', 'X-Stream-Id of the stream'), headerParam('Last-Event-ID', str, 'The id of the last event received')],
+            responses: { 200: eventStream, 404: error('Unknown or expired stream'), ...UNAUTHORIZED }
+        },
+        delete: {
+            summary: 'Stop generating an answer',
+            description: 'Connected clients receive an error event and the stream ends.',
+            tags: ['Selection'],
+            parameters: [pathParam('id', 'X-Stream-Id of the stream')],
+            responses: { 204: { description: 'Cancelled (or already finished)' }, 404: error('Unknown or expired stream'), ...UNAUTHORIZED }
+        }
+    },
+    '/api/chat': {
+        post: {
+            summary: 'Ask the selection assistant and wait for the full answer',
+            tags: ['Selection'],
+            requestBody: body(ref('SelectionRequest')),
+            responses: { ...selectionResponses, ...UNAUTHORIZED }
+        }
+    },
+    '/api/v1/selection': {
+        post: {
+            summary: 'Selection for integrations (quoting system, partner portals)',
+            tags: ['Public API'],
+            security: [{ apiKey: [] }],
+            requestBody: body(ref('SelectionRequest')),
+            responses: { ...selectionResponses, 401: error('Missing, unknown or revoked API key') }
+        }
+    },
+
+    '/api/stats': {
+        get: {
+            summary: 'Knowledge base statistics',
+            tags: ['Catalog'],
+            parameters: [queryParam('category', str, 'Also list sample products whose name contains this keyword')],
+            responses: { 200: json(ref('KnowledgeBaseStats')), 500: error('Stats could not be read'), ...UNAUTHORIZED }
+        }
+    },
+    '/api/search': {
+        post: {
+            summary: 'Search the product knowledge base',
+            tags: ['Catalog'],
+            requestBody: body(obj({ query: str }, { matchCount: int })),
+            responses: { 200: json(obj({ results: arrayOf(ref('ProductMatch')) })), 400: error('Query is required'), 500: error('Search failed'), ...UNAUTHORIZED }
+        }
+    },
+    '/api/insulation': {
+        get: {
+            summary: 'Internal dimensions of every catalog model at each insulation thickness',
+            tags: ['Catalog'],
+            responses: { 200: json(obj({ models: arrayOf(ref('InsulatedDimensions')) })), ...UNAUTHORIZED }
+        }
+    },
+    '/api/insulation/{modelId}': {
+        get: {
+            summary: 'Insulated internal dimensions of one model',
+            tags: ['Catalog'],
+            parameters: [pathParam('modelId', 'Catalog model id, e.g. JB08 (case-insensitive)')],
+            responses: { 200: json(ref('InsulatedDimensions')), 404: error('Unknown model'), ...UNAUTHORIZED }
+        }
+    },
+    '/api/stacking-plan': {
+        post: {
+            summary: 'Lifejacket chest stacking plans for a deck height',
+            tags: ['Catalog'],
+            requestBody: body(obj({ lifejackets: num, deckHeightMm: num })),
+            responses: { 200: json(ref('StackingPlanResult')), 400: error('lifejackets and deckHeightMm must be positive numbers'), ...UNAUTHORIZED }
+        }
+    },
+    '/api/configurations/evaluate': {
+        post: {
+            summary: 'Check a proposed configuration against the SOP rules in force',
+            tags: ['Catalog'],
+            requestBody: body(ref('CabinetConfiguration')),
+            responses: { 200: json(ref('ConfigurationEvaluation')), 400: error('Malformed configuration or unknown model'), ...UNAUTHORIZED }
+        }
+    },
+
+    '/api/audit': {
+        get: guarded('audit.view', {
+            summary: 'Page through the audit log',
+            tags: ['Audit'],
+            parameters: [
+                queryParam('user', str), queryParam('action', str),
+                queryParam('from', str, 'YYYY-MM-DD, inclusive'), queryParam('to', str, 'YYYY-MM-DD, inclusive'),
+                queryParam('q', str, 'Free text over the change detail and entry id'),
+                queryParam('page', int), queryParam('pageSize', int, '1-500, default 50')
+            ],
+            responses: { 200: json(ref('AuditPage')), 400: error('Malformed date filter'), ...UNAUTHORIZED }
+        })
+    },
+    '/api/audit/export': {
+        get: guarded('audit.view', {
+            summary: 'Download every entry matching the filters',
+            tags: ['Audit'],
+            parameters: [
+                queryParam('user', str), queryParam('action', str), queryParam('from', str), queryParam('to', str), queryParam('q', str),
+                queryParam('format', { type: 'string', enum: ['csv', 'json'] }, 'Default csv')
+            ],
+            responses: {
+                200: {
+                    description: 'Attachment',
+                    content: {
+                        'text/csv': { schema: str },
+                        'application/json': {
+                            schema: obj({ exportedAt: isoDate, filters: { type: 'object', additionalProperties: true }, total: int, entries: arrayOf(ref('AuditEntry')) })
+                        }
+                    }
+                },
+                400: error('Malformed date filter'),
+                ...UNAUTHORIZED
+            }
+        })
+    },
+    '/api/audit/verify': {
+        get: guarded('audit.view', {
+            summary: 'Check the audit log hash chain',
+            tags: ['Audit'],
+            responses: { 200: json(ref('AuditVerification')), ...UNAUTHORIZED }
+        })
+    },
+
+    '/api/sops/workflow': {
+        get: {
+            summary: 'Reviews required per SOP category',
+            tags: ['SOPs'],
+            responses: { 200: json(obj({ workflow: arrayOf(ref('SopWorkflowRule')) })), ...UNAUTHORIZED }
+        }
+    },
+    '/api/sops/workflow/{category}': {
+        put: guarded('sop.workflow', {
+            summary: "Set a category's review requirements",
+            tags: ['SOPs'],
+            parameters: [pathParam('category', "SOP category, or '*' for the fallback")],
+            requestBody: body(obj({ reviews: arrayOf(obj({ role: str, count: int })) })),
+            responses: { 200: json(ref('SopWorkflowRule')), 400: error('Invalid review requirements'), ...UNAUTHORIZED }
+        })
+    },
+    '/api/sops': {
+        get: {
+            summary: 'List SOPs',
+            tags: ['SOPs'],
+            parameters: [queryParam('status', ref('SopStatus'))],
+            responses: { 200: json(obj({ sops: arrayOf(ref('SOP')) })), ...UNAUTHORIZED }
+        },
+        post: guarded('sop.propose', {
+            summary: 'Propose a draft SOP or revision',
+            description: 'Setting changeRequestId links the draft to that change request, which also needs changeRequest.manage.',
+            tags: ['SOPs'],
+            requestBody: body(ref('SopProposal')),
+            responses: { 201: json(ref('SOP'), 'Created'), 400: error('Invalid proposal'), 404: error('Unknown change request'), 409: error('Id/version already exists'), ...UNAUTHORIZED }
+        })
+    },
+    '/api/sops/{id}/reviews': {
+        post: guarded('sop.review', {
+            summary: 'Approve or reject a draft as the signed-in reviewer',
+            tags: ['SOPs'],
+            parameters: [pathParam('id')],
+            requestBody: body(obj({ decision: { type: 'string', enum: ['approve', 'reject'] } }, { comment: str, effectiveDate: str })),
+            responses: { 200: json(ref('SOP')), 400: error('Invalid review'), 404: error('Unknown SOP'), 409: error('Not a draft'), ...UNAUTHORIZED }
+        })
+    },
+    '/api/sops/{id}/deprecate': {
+        post: guarded('sop.deprecate', {
+            summary: 'Withdraw an active SOP',
+            tags: ['SOPs'],
+            parameters: [pathParam('id')],
+            requestBody: body(obj({ reason: str })),
+            responses: { 200: json(ref('SOP')), 400: error('reason is required'), 404: error('Unknown SOP'), 409: error('Not active'), ...UNAUTHORIZED }
+        })
+    },
+    '/api/sops/{id}/history': {
+        get: {
+            summary: 'Every version of an SOP, newest first',
+            tags: ['SOPs'],
+            parameters: [pathParam('id')],
+            responses: { 200: json(obj({ history: arrayOf(ref('SOP')) })), 404: error('Unknown SOP'), ...UNAUTHORIZED }
+        }
+    },
+
+    '/api/feedback': {
+        get: {
+            summary: 'List sales feedback',
+            tags: ['Feedback'],
+            parameters: [queryParam('status', ref('FeedbackStatus')), queryParam('assignee', str)],
+            responses: { 200: json(obj({ feedback: arrayOf(ref('SalesFeedback')) })), ...UNAUTHORIZED }
+        },
+        post: guarded('feedback.submit', {
+            summary: 'Report a problem from the field',
+            tags: ['Feedback'],
+            requestBody: body(obj({ task: str, issue: str, urgency: { type: 'string', enum: ['Low', 'Medium', 'High'] } }, { context: ref('FeedbackContext') })),
+            responses: { 201: json(ref('SalesFeedback'), 'Created'), 400: error('Invalid feedback'), ...UNAUTHORIZED }
+        })
+    },
+    '/api/feedback/{id}': {
+        patch: guarded('feedback.triage', {
+            summary: 'Change status or assignee',
+            tags: ['Feedback'],
+            parameters: [pathParam('id')],
+            requestBody: body(obj({}, { status: ref('FeedbackStatus'), assignee: str })),
+            responses: { 200: json(ref('SalesFeedback')), 400: error('Invalid change'), 404: error('Unknown feedback'), ...UNAUTHORIZED }
+        })
+    },
+    '/api/feedback/{id}/comments': {
+        post: guarded('feedback.comment', {
+            summary: 'Comment on feedback',
+            tags: ['Feedback'],
+            parameters: [pathParam('id')],
+            requestBody: body(obj({ text: str })),
+            responses: { 201: json(ref('SalesFeedback'), 'Created'), 400: error('text is required'), 404: error('Unknown feedback'), ...UNAUTHORIZED }
+        })
+    },
+    '/api/feedback/{id}/promote': {
+        post: guarded('changeRequest.manage', {
+            summary: 'Raise a change request from feedback',
+            tags: ['Change requests'],
+            parameters: [pathParam('id')],
+            requestBody: body(obj({}, { suggestion: str })),
+            responses: { 201: json(ref('ChangeRequest'), 'Created'), 404: error('Unknown feedback'), 409: error('Already promoted'), ...UNAUTHORIZED }
+        })
+    },
+    '/api/change-requests': {
+        get: {
+            summary: 'List change requests',
+            tags: ['Change requests'],
+            responses: { 200: json(obj({ changeRequests: arrayOf(ref('ChangeRequest')) })), ...UNAUTHORIZED }
+        }
+    },
+    '/api/change-requests/{id}/sops': {
+        post: guarded('changeRequest.manage', {
+            summary: 'Link an SOP draft to a change request',
+            tags: ['Change requests'],
+            parameters: [pathParam('id')],
+            requestBody: body(obj({ sopId: str })),
+            responses: { 200: json(ref('ChangeRequest')), 404: error('Unknown change request or SOP'), 409: error('Change request closed'), ...UNAUTHORIZED }
+        })
+    },
+
+    '/api/chat-sessions': {
+        get: {
+            summary: "The signed-in user's saved chats, most recently updated first",
+            tags: ['Chat sessions'],
+            responses: { 200: json(obj({ sessions: arrayOf(ref('ChatSessionSummary')) })), ...UNAUTHORIZED }
+        }
+    },
+    '/api/chat-sessions/search': {
+        get: {
+            summary: "Full-text search over the signed-in user's chats",
+            tags: ['Chat sessions'],
+            parameters: [queryParam('q', str)],
+            responses: { 200: json(obj({ terms: arrayOf(str), results: arrayOf(ref('ChatSearchResult')) })), ...UNAUTHORIZED }
+        }
+    },
+    '/api/chat-sessions/{id}': {
+        get: {
+            summary: 'Open a saved chat',
+            tags: ['Chat sessions'],
+            parameters: [pathParam('id')],
+            responses: { 200: json(ref('ChatSession')), 404: error('Unknown chat session'), ...UNAUTHORIZED }
+        },
+        put: {
+            summary: 'Create or replace a chat (the client picks the id)',
+            tags: ['Chat sessions'],
+            parameters: [pathParam('id')],
+            requestBody: body(ref('ChatSessionInput')),
+            responses: { 200: json(ref('ChatSessionSummary')), 400: error('Invalid session'), 404: error("Another user's session"), ...UNAUTHORIZED }
+        },
+        patch: {
+            summary: 'Rename, pin, archive or retag a chat',
+            tags: ['Chat sessions'],
+            parameters: [pathParam('id')],
+            requestBody: body(ref('ChatSessionMeta')),
+            responses: { 200: json(ref('ChatSessionSummary')), 400: error('Nothing to update or invalid value'), 404: error('Unknown chat session'), ...UNAUTHORIZED }
+        },
+        delete: {
+            summary: 'Delete a chat',
+            tags: ['Chat sessions'],
+            parameters: [pathParam('id')],
+            responses: { 204: { description: 'Deleted' }, 404: error('Unknown chat session'), ...UNAUTHORIZED }
+        }
+    },
+    '/api/chat-sessions/{id}/shares': {
+        get: {
+            summary: "A chat's share links",
+            tags: ['Shares'],
+            parameters: [pathParam('id')],
+            responses: { 200: json(obj({ shares: arrayOf(ref('SessionShare')) })), 404: error('Unknown chat session'), ...UNAUTHORIZED }
+        },
+        post: {
+            summary: 'Create a read-only link to a snapshot of the chat',
+            tags: ['Shares'],
+            parameters: [pathParam('id')],
+            requestBody: body(obj({}, { expiresInDays: { type: 'integer', minimum: 1, maximum: 365 } })),
+            responses: { 201: json(ref('SessionShare'), 'Created'), 400: error('Invalid expiry'), 404: error('Unknown chat session'), ...UNAUTHORIZED }
+        }
+    },
+    '/api/shares/{token}': {
+        get: {
+            summary: 'Open a share link',
+            tags: ['Shares'],
+            parameters: [pathParam('token')],
+            responses: { 200: json(ref('SharedSession')), 404: error('Unknown or revoked link'), 410: error('Link expired'), ...UNAUTHORIZED }
+        },
+        delete: {
+            summary: 'Revoke a share link (owner only)',
+            tags: ['Shares'],
+            parameters: [pathParam('token')],
+            responses: { 200: json(ref('SessionShare')), 404: error('Unknown link'), ...UNAUTHORIZED }
+        }
+    },
+
+    '/api/reports/selection': {
+        post: {
+            summary: 'Render the conversation as a branded PDF selection report',
+            tags: ['Reports'],
+            requestBody: body(ref('SelectionReportRequest')),
+            responses: {
+                200: { description: 'PDF attachment', content: { 'application/pdf': { schema: { type: 'string', format: 'binary' } } } },
+                400: error('Invalid report request'),
+                ...UNAUTHORIZED
+            }
+        }
+    },
+
+    '/api/diag': {
+        get: {
+            summary: 'Configuration diagnostics (no secret values)',
+            tags: ['System'],
+            responses: { 200: json({ type: 'object', additionalProperties: true }), ...UNAUTHORIZED }
+        }
+    },
+    '/api/test-ai': {
+        get: {
+            summary: 'One-off Gemini call to check the AI connection',
+            tags: ['System'],
+            responses: { 200: json(obj({ result: str })), 500: error('AI not configured or the call failed'), ...UNAUTHORIZED }
+        }
+    }
+};
+
+export const openApiSpec = {
+    openapi: '3.1.0',
+    info: {
+        title: 'Jobird Cabinet Selection Assistant API',
+        version: '1.0.0',
+        description: 'Everything under /api needs a session token (POST /api/auth/login) unless the operation says otherwise; '
+            + '/api/v1 authenticates with API keys created in the admin panel.'
+    },
+    servers: [{ url: '/' }],
+    security: [{ sessionToken: [] }],
+    components: {
+        securitySchemes: {
+            sessionToken: { type: 'http', scheme: 'bearer', description: 'Token from POST /api/auth/login' },
+            apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key', description: 'Also accepted as `Authorization: Bearer jbk_...`' }
+        },
+        schemas
+    },
+    paths
+};
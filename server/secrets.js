@@ -0,0 +1,27 @@
+// The server's signing secret (session tokens, audit log checkpoints)
+// SESSION_SECRET from the environment. Every instance must sign with the same secret and a redeploy must not
+// change it, so production requires it; in development one is generated on first start and kept next to the data.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { dataFilePath } from './store.js';
+
+function loadSecret() {
+    if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+    if (process.env.NODE_ENV === 'production') throw new Error('[secrets] SESSION_SECRET must be set in production');
+    const file = dataFilePath('session.secret');
+    try {
+        return fs.readFileSync(file, 'utf8').trim();
+    } catch (err) {
+        if (err.code !== 'ENOENT') throw err;
+        const secret = crypto.randomBytes(32).toString('hex');
+        fs.writeFileSync(file, secret, { mode: 0o600 });
+        console.log(`[secrets] Generated session secret at ${file}`);
+        return secret;
+    }
+}
+
+export const SERVER_SECRET = loadSecret();
+
+// A separate key per use, so a signature made for one purpose never passes for another
+export const signingKey = purpose => crypto.createHmac('sha256', SERVER_SECRET).update(purpose).digest();
@@ -0,0 +1,318 @@
+// Customer-ready PDF report of a selection conversation
+// Rendered on the server with pdfkit so every rep gets the same document whatever browser they use:
+// recommended products with their spec tables, the configuration chosen, datasheet links and SOP notes.
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import PDFDocument from 'pdfkit';
+import { CABINET_CATALOG } from '../shared/catalog.js';
+import { getInternalDimsForInsulation } from '../shared/insulation.js';
+import { describeRule } from '../shared/sopRules.js';
+import { getSop, getSopsInForce } from './sops.js';
+import { HttpError } from './httpError.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+// public/ in development; the production image only ships the built copy in dist/
+const LOGO_PATH = ['dist', 'public'].map(dir => path.join(__dirname, '..', dir, 'logo_full.png')).find(file => fs.existsSync(file));
+
+const RED = '#D94637';
+const NAVY = '#23398f';
+const TEXT = '#1e293b';
+const MUTED = '#64748b';
+const LIGHT_GREY = '#f4f4f4';
+
+function validateReportInput({ title, messages, datasheets, selectedModelId }) {
+    if (typeof title !== 'string' || !title.trim()) throw new HttpError(400, 'title is required');
+    if (!Array.isArray(messages) || messages.some(m => (m?.role !== 'user' && m?.role !== 'assistant') || typeof m.content !== 'string')) {
+        throw new HttpError(400, "messages must be an array of { role: 'user' | 'assistant', content }");
+    }
+    if (datasheets !== undefined && (!Array.isArray(datasheets) || datasheets.some(d => typeof d?.filename !== 'string'))) {
+        throw new HttpError(400, 'datasheets must be an array of { filename, displayName }');
+    }
+    if (selectedModelId !== undefined && selectedModelId !== null && typeof selectedModelId !== 'string') {
+        throw new HttpError(400, 'selectedModelId must be a string');
+    }
+}
+
+// The standard PDF fonts only cover WinAnsi; map the symbols the assistant likes and drop the rest
+const SYMBOLS = { '→': '->', '←': '<-', '≤': '<=', '≥': '>=', '≈': '~', '✓': 'Yes', '✔': 'Yes', '✗': 'No', '✘': 'No', '⚠': '!', '−': '-', ' ': ' ' };
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+const pdfSafe = text => String(text ?? '')
+    .replace(/\[\[\/?HIGHLIGHT\]\]/g, '')
+    .replace(/./gsu, ch => SYMBOLS[ch] ?? ((ch <= 'ÿ' || WIN_ANSI_EXTRAS.includes(ch)) ? ch : ''));
+
+const dims = d => `${d.h} x ${d.w} x ${d.d} mm`;
+
+// Newest tool result wins, like the feedback context
+function latest(messages, field) {
+    return [...messages].reverse().find(m => m[field])?.[field];
+}
+
+// Catalog models the conversation settled on: the chosen model, tool results, then models named in answers
+function recommendedModels({ messages, datasheets = [], selectedModelId }) {
+    const fitCheck = latest(messages, 'fitCheck');
+    const stackingPlan = latest(messages, 'stackingPlan');
+    const ids = [selectedModelId, fitCheck?.fits?.[0]?.modelId, stackingPlan?.plans?.[0]?.modelId, ...datasheets.map(d => d.productCode)];
+
+    const catalogIds = CABINET_CATALOG.map(m => m.id);
+    for (const msg of messages.filter(m => m.role === 'assistant')) {
+        for (const id of catalogIds) {
+            if (new RegExp(`\\b${id}\\b`, 'i').test(msg.content)) ids.push(id);
+        }
+    }
+
+    const seen = new Set();
+    return ids
+        .map(id => id && CABINET_CATALOG.find(m => m.id.toLowerCase() === String(id).toLowerCase()))
+        .filter(model => model && !seen.has(model.id) && seen.add(model.id));
+}
+
+// Every SOP version the conversation relied on, plus the conflicts the checker flagged
+function sopNotes(messages) {
+    const ids = new Set();
+    const warnings = new Set();
+    for (const msg of messages) {
+        (msg.citedSops || []).forEach(ref => ids.add(ref.sopId));
+        (msg.fitCheck?.fits?.[0]?.appliedSops || []).forEach(ref => ids.add(ref.sopId));
+        if (msg.fitCheck?.placement?.sopId) ids.add(msg.fitCheck.placement.sopId);
+        (msg.stackingPlan?.plans || []).forEach(plan => plan.sopId && ids.add(plan.sopId));
+        (msg.sopWarnings || []).forEach(w => warnings.add(w));
+    }
+    const inForce = new Set(getSopsInForce().map(s => s.id));
+    const sops = [...ids].map(id => getSop(id)).filter(Boolean).map(sop => ({ sop, inForce: inForce.has(sop.id) }));
+    return { sops, warnings: [...warnings] };
+}
+
+// Split an answer into markdown tables and plain lines
+function markdownBlocks(content) {
+    const blocks = [];
+    for (const line of pdfSafe(content).split('\n')) {
+        const isTableLine = /^\s*\|.*\|\s*$/.test(line);
+        const last = blocks[blocks.length - 1];
+        if (isTableLine && last?.type === 'table') last.lines.push(line);
+        else if (isTableLine) blocks.push({ type: 'table', lines: [line] });
+        else blocks.push({ type: 'line', text: line });
+    }
+    return blocks;
+}
+
+const tableCells = line => line.trim().replace(/^\||\|$/g, '').split('|').map(c => c.trim().replace(/\*\*/g, ''));
+
+// Paragraph text with **bold** runs and [label](url) links
+function richText(doc, text, options = {}) {
+    const parts = text.split(/(\*\*.*?\*\*|\[[^\]]+\]\(https?:\/\/[^)]+\))/).filter(Boolean);
+    if (parts.length === 0) return;
+    parts.forEach((part, i) => {
+        const continued = i < parts.length - 1;
+        const link = part.match(/^\[([^\]]+)\]\((https?:\/\/[^)]+)\)$/);
+        if (link) {
+            doc.font('Helvetica').fillColor(NAVY).text(link[1], { ...options, link: link[2], underline: true, continued });
+        } else if (part.startsWith('**') && part.endsWith('**')) {
+            doc.font('Helvetica-Bold').fillColor(TEXT).text(part.slice(2, -2), { ...options, link: null, underline: false, continued });
+        } else {
+            doc.font('Helvetica').fillColor(TEXT).text(part, { ...options, link: null, underline: false, continued });
+        }
+    });
+}
+
+function heading(doc, text) {
+    doc.moveDown(1.2);
+    if (doc.y > doc.page.height - doc.page.margins.bottom - 80) doc.addPage();
+    doc.font('Helvetica-Bold').fontSize(13).fillColor(RED).text(pdfSafe(text).toUpperCase(), { characterSpacing: 0.5 });
+    const y = doc.y + 2;
+    doc.moveTo(doc.page.margins.left, y).lineTo(doc.page.width - doc.page.margins.right, y).lineWidth(1).strokeColor(RED).stroke();
+    doc.moveDown(0.6).fontSize(10).fillColor(TEXT);
+}
+
+// First row is the header
+function dataTable(doc, rows) {
+    doc.x = doc.page.margins.left;
+    doc.fontSize(9).table({
+        data: rows.map(row => row.map(cell => pdfSafe(cell))),
+        defaultStyle: { padding: 4, border: 0.5, borderColor: '#cbd5e1' },
+        rowStyles: i => i === 0
+            ? { backgroundColor: RED, textColor: '#ffffff', font: { src: 'Helvetica-Bold' } }
+            : { backgroundColor: i % 2 === 1 ? '#ffffff' : LIGHT_GREY, textColor: TEXT }
+    });
+    doc.moveDown(0.5).fontSize(10);
+}
+
+function renderAnswer(doc, content) {
+    for (const block of markdownBlocks(content)) {
+        if (block.type === 'table') {
+            const rows = block.lines.filter(l => !/^\s*\|[\s:|-]+\|\s*$/.test(l)).map(tableCells);
+            const width = Math.max(...rows.map(r => r.length));
+            dataTable(doc, rows.map(r => [...r, ...Array(width - r.length).fill('')]));
+            continue;
+        }
+        const line = block.text.trim();
+        if (!line) {
+            doc.moveDown(0.4);
+        } else if (/^#{1,6}\s/.test(line)) {
+            doc.font('Helvetica-Bold').fontSize(11).fillColor(NAVY).text(line.replace(/^#+\s*/, '').replace(/\*\*/g, ''));
+            doc.fontSize(10);
+        } else if (/^[-*]\s/.test(line)) {
+            richText(doc, `•  ${line.slice(1).trim()}`, { indent: 10 });
+        } else if (line.includes('*Source:')) {
+            doc.font('Helvetica-Oblique').fontSize(8).fillColor(MUTED).text(line.replace(/\*/g, ''));
+            doc.fontSize(10);
+        } else {
+            richText(doc, line);
+        }
+    }
+}
+
+function renderProducts(doc, models, insulationMm) {
+    const sops = getSopsInForce();
+    for (const model of models) {
+        doc.font('Helvetica-Bold').fontSize(11).fillColor(NAVY).text(pdfSafe(`${model.id} - ${model.title}`));
+        doc.font('Helvetica').fontSize(9).fillColor(MUTED).text(pdfSafe(model.description)).moveDown(0.3);
+        const insulated = insulationMm ? getInternalDimsForInsulation(model, insulationMm, sops) : null;
+        dataTable(doc, [
+            ['Specification', 'Value'],
+            ['Type', model.type],
+            ['Category', model.category],
+            ['External dimensions (H x W x D)', dims(model.externalDims)],
+            ['Internal dimensions (H x W x D)', dims(model.internalDimsBase)],
+            ...(insulated ? [[`Internal dimensions with ${insulationMm}mm insulation`, dims(insulated)]] : []),
+            ...(model.capacity?.lifejackets ? [['Rated capacity', `${model.capacity.lifejackets} lifejackets`]] : [])
+        ]);
+    }
+}
+
+function renderConfiguration(doc, { messages, selectedModelId }) {
+    const fitCheck = latest(messages, 'fitCheck');
+    const stackingPlan = latest(messages, 'stackingPlan');
+    const rows = [['Option', 'Chosen']];
+    if (selectedModelId) rows.push(['Selected model', selectedModelId]);
+    if (fitCheck) {
+        fitCheck.equipment.forEach(item => rows.push([
+            'Equipment',
+            `${item.qty} x ${item.type} (${dims(item.dims)}${item.weight ? `, ${item.weight}kg` : ''}${item.placement ? `, ${item.placement}` : ''})`
+        ]));
+        rows.push(['Insulation', fitCheck.insulationMm ? `${fitCheck.insulationMm}mm` : 'None']);
+        const best = fitCheck.fits[0];
+        if (best) rows.push(['Best fit', `${best.modelId} - ${best.utilisation}% utilised, ${best.minClearance}mm minimum clearance`]);
+        (fitCheck.placement?.items || []).forEach(item => rows.push([
+            'Placement',
+            `${item.qty} x ${item.type}: ${item.suggested === 'base' ? 'base-load' : 'shelf'}${item.mandatory ? ' (required by SOP)' : ''}`
+        ]));
+    }
+    if (stackingPlan) {
+        rows.push(['Lifejackets', String(stackingPlan.lifejackets)], ['Deck height', `${stackingPlan.deckHeightMm}mm`]);
+        const plan = stackingPlan.plans[0];
+        if (plan) {
+            rows.push(['Stacking plan', `${plan.chests} x ${plan.modelId} in ${plan.stacks.length} stack(s) of up to ${plan.tiers}, ${plan.stackHeightMm}mm high`]);
+            rows.push(['Deck footprint', `${plan.footprint.w} x ${plan.footprint.d} mm`]);
+        }
+    }
+    if (rows.length === 1) return false;
+    dataTable(doc, rows);
+    return true;
+}
+
+function renderDatasheets(doc, datasheets) {
+    for (const ds of datasheets) {
+        const label = pdfSafe(ds.productCode ? `${ds.displayName} (${ds.productCode})` : ds.displayName || ds.filename);
+        if (ds.url) {
+            doc.font('Helvetica').fontSize(10).fillColor(TEXT).text('•  ', { continued: true })
+                .fillColor(NAVY).text(label, { link: ds.url, underline: true });
+        } else {
+            doc.font('Helvetica').fontSize(10).fillColor(TEXT).text(`•  ${label}`);
+        }
+    }
+}
+
+function renderSopNotes(doc, { sops, warnings }) {
+    for (const { sop, inForce } of sops) {
+        doc.font('Helvetica-Bold').fontSize(10).fillColor(TEXT).text(pdfSafe(`${sop.id} v${sop.version} - ${sop.title}`), { continued: !inForce });
+        if (!inForce) doc.font('Helvetica-Oblique').fillColor(MUTED).text('  (no longer in force)');
+        doc.font('Helvetica').fontSize(9).fillColor(TEXT).text(pdfSafe(sop.description));
+        (sop.rules || []).forEach(rule => doc.fillColor(MUTED).text(pdfSafe(`•  ${describeRule(rule)}`), { indent: 10 }));
+        doc.moveDown(0.5);
+    }
+    if (warnings.length > 0) {
+        doc.font('Helvetica-Bold').fontSize(10).fillColor(RED).text('Flagged for verification against SOPs in force');
+        warnings.forEach(w => doc.font('Helvetica').fontSize(9).fillColor(TEXT).text(pdfSafe(`•  ${w}`), { indent: 10 }));
+    }
+}
+
+function renderFooters(doc, title) {
+    const { start, count } = doc.bufferedPageRange();
+    for (let i = start; i < start + count; i++) {
+        doc.switchToPage(i);
+        const bottom = doc.page.margins.bottom;
+        doc.page.margins.bottom = 0;
+        doc.font('Helvetica').fontSize(8).fillColor(MUTED).text(
+            pdfSafe(`JoBird Cabinet Selection Report - ${title} - page ${i + 1} of ${count}`),
+            doc.page.margins.left, doc.page.height - 35,
+            { width: doc.page.width - doc.page.margins.left - doc.page.margins.right, align: 'center', lineBreak: false }
+        );
+        doc.page.margins.bottom = bottom;
+    }
+}
+
+// Validates the conversation and lays out the report; the caller pipes the returned document and ends it
+export function buildSelectionReport(input, preparedBy) {
+    validateReportInput(input || {});
+    const { title, messages, datasheets = [], selectedModelId } = input;
+    const generatedAt = new Date();
+
+    const doc = new PDFDocument({
+        size: 'A4',
+        margins: { top: 50, bottom: 60, left: 50, right: 50 },
+        bufferPages: true,
+        info: { Title: `Cabinet Selection Report - ${title}`, Author: 'JoBird', Creator: 'JoBird Cabinet Selection Assistant' }
+    });
+
+    if (LOGO_PATH) doc.image(LOGO_PATH, doc.page.margins.left, 40, { width: 110 });
+    doc.font('Helvetica-Bold').fontSize(18).fillColor(TEXT)
+        .text('Cabinet Selection Report', 180, 55, { align: 'right' });
+    doc.font('Helvetica').fontSize(10).fillColor(MUTED)
+        .text(pdfSafe(title), { align: 'right' })
+        .text(`Prepared by ${pdfSafe(preparedBy)} on ${generatedAt.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })}`, { align: 'right' });
+    doc.x = doc.page.margins.left;
+    doc.y = Math.max(doc.y, 40 + 110 * 682 / 1024) + 10;
+
+    const models = recommendedModels(input);
+    const insulationMm = latest(messages, 'fitCheck')?.insulationMm;
+    if (models.length > 0) {
+        heading(doc, 'Recommended products');
+        renderProducts(doc, models, insulationMm);
+    }
+
+    heading(doc, 'Configuration');
+    if (!renderConfiguration(doc, input)) {
+        doc.font('Helvetica-Oblique').fontSize(10).fillColor(MUTED).text('No fit check or stacking plan was run in this conversation.');
+    }
+
+    // Skip the opening greeting; each answer is shown under the question it responds to
+    const answers = messages
+        .map((msg, i) => ({ msg, question: messages[i - 1]?.role === 'user' ? messages[i - 1].content : undefined }))
+        .filter(({ msg, question }) => msg.role === 'assistant' && question !== undefined && !msg.fitCheck && !msg.stackingPlan);
+    if (answers.length > 0) {
+        heading(doc, 'Selection notes');
+        answers.forEach(({ msg, question }) => {
+            doc.font('Helvetica-Bold').fontSize(10).fillColor(MUTED).text(pdfSafe(`Q: ${question}`)).moveDown(0.3);
+            doc.fontSize(10);
+            renderAnswer(doc, msg.content);
+            doc.moveDown(0.8);
+        });
+    }
+
+    if (datasheets.length > 0) {
+        heading(doc, 'Datasheets');
+        renderDatasheets(doc, datasheets);
+    }
+
+    const notes = sopNotes(messages);
+    if (notes.sops.length > 0 || notes.warnings.length > 0) {
+        heading(doc, 'SOP notes');
+        renderSopNotes(doc, notes);
+    }
+
+    renderFooters(doc, title);
+    return doc;
+}
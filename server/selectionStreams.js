@@ -0,0 +1,105 @@
+// In-flight chat answers, buffered so a client whose connection drops can reconnect and carry on
+// Each generation runs under a stream id and numbers its events (the SSE `id:` field). Resuming with
+// Last-Event-ID replays the events after that number and then follows the live ones, so the search and
+// generation pipeline never runs twice. Chunk events carry the whole answer so far, so only the latest
+// chunk is buffered. Streams live in this process's memory: they don't survive a restart, and a reconnect
+// that reaches another instance gets a 404 (the client then reports the answer as lost), hence the
+// single-instance deployment (README.md, "Deploying").
+
+import crypto from 'crypto';
+import { formatStreamEvent } from '../shared/streamEvents.js';
+import { HttpError } from './httpError.js';
+
+const GENERATION_TIMEOUT = 60000; // Hard limit for one answer, reconnects or not
+const ORPHAN_TIMEOUT = 45000; // Cancel when no client has been connected for this long
+const RETENTION = 5 * 60 * 1000; // A finished stream can still be read for this long
+const HEARTBEAT = 8000; // Keepalive comments so clients and proxies don't assume the connection died
+
+const streams = new Map();
+
+const isFinal = event => event.type === 'done' || event.type === 'error';
+
+function emit(stream, event) {
+    if (stream.finished) return;
+    const entry = { id: ++stream.lastId, event };
+    if (event.type === 'chunk') stream.buffer = stream.buffer.filter(e => e.event.type !== 'chunk');
+    stream.buffer.push(entry);
+    stream.clients.forEach(client => client(entry));
+    if (isFinal(event)) finish(stream);
+}
+
+function finish(stream) {
+    stream.finished = true;
+    clearTimeout(stream.generationTimer);
+    clearTimeout(stream.orphanTimer);
+    stream.controller.abort(); // Stops the generation if it is still running (timeout, cancel)
+    setTimeout(() => streams.delete(stream.id), RETENTION).unref();
+}
+
+// The stream if it exists and belongs to `owner`; other users' streams look the same as unknown ones
+function getStream(id, owner) {
+    const stream = streams.get(id);
+    if (!stream || stream.owner !== owner) throw new HttpError(404, 'Unknown or expired stream');
+    return stream;
+}
+
+/**
+ * Starts `run(signal, emit)` under a new stream id. The generation carries on when its client
+ * disconnects; it ends with a done or error event, a cancel, the timeout or when left without a client.
+ */
+export function startSelectionStream(owner, run) {
+    const stream = {
+        id: crypto.randomUUID(),
+        owner,
+        buffer: [],
+        lastId: 0,
+        clients: new Set(),
+        finished: false,
+        controller: new AbortController()
+    };
+    streams.set(stream.id, stream);
+    stream.generationTimer = setTimeout(() => emit(stream, { type: 'error', error: 'Request timed out. Please try again.' }), GENERATION_TIMEOUT);
+
+    run(stream.controller.signal, event => emit(stream, event))
+        .catch(error => emit(stream, { type: 'error', error: error.message || 'Internal server error' }));
+    return stream.id;
+}
+
+/**
+ * Writes the stream's events after `lastEventId` to an SSE response, then follows it until the
+ * final event. Closing the response only detaches this client.
+ */
+export function sendSelectionStream(res, id, owner, lastEventId = 0) {
+    const stream = getStream(id, owner);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Stream-Id', stream.id);
+
+    const write = ({ id: eventId, event }) => {
+        res.write(formatStreamEvent(event, eventId));
+        if (isFinal(event)) res.end();
+    };
+    stream.buffer.filter(entry => entry.id > lastEventId).forEach(write);
+    if (stream.finished) {
+        if (!res.writableEnded) res.end();
+        return;
+    }
+
+    clearTimeout(stream.orphanTimer);
+    stream.clients.add(write);
+    const heartbeat = setInterval(() => res.write(': keepalive\n\n'), HEARTBEAT);
+    res.on('close', () => {
+        clearInterval(heartbeat);
+        stream.clients.delete(write);
+        if (stream.clients.size === 0 && !stream.finished) {
+            stream.orphanTimer = setTimeout(() => emit(stream, { type: 'error', error: 'Request cancelled' }), ORPHAN_TIMEOUT);
+        }
+    });
+}
+
+// Stop button: ends the generation for every connected client
+export function cancelSelectionStream(id, owner) {
+    const stream = getStream(id, owner);
+    emit(stream, { type: 'error', error: 'Request cancelled' });
+}
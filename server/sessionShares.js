@@ -0,0 +1,65 @@
+// Read-only share links for chat sessions
+// A share freezes the session (title, messages, datasheets) at the moment it is created, so later
+// messages in the live session don't leak into it. Owners can revoke a link; links may expire.
+
+import crypto from 'crypto';
+import { getChatSession } from './chatSessions.js';
+import { createCollection } from './store.js';
+import { recordAudit } from './auditLog.js';
+import { HttpError } from './httpError.js';
+
+const MAX_EXPIRY_DAYS = 365;
+
+const shareStore = createCollection('sessionShares', [], 'token');
+
+// The owner's view of a share (no snapshot)
+const describe = ({ snapshot, owner, ...share }) => share;
+
+export function listShares(sessionId, user) {
+    getChatSession(sessionId, user);
+    return shareStore
+        .find(s => s.sessionId === sessionId && s.owner === user)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(describe);
+}
+
+export function createShare(sessionId, { expiresInDays } = {}, user) {
+    const session = getChatSession(sessionId, user);
+    if (expiresInDays !== undefined && expiresInDays !== null
+        && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)) {
+        throw new HttpError(400, `expiresInDays must be a whole number from 1 to ${MAX_EXPIRY_DAYS}`);
+    }
+
+    const now = new Date();
+    const share = shareStore.insert({
+        token: crypto.randomBytes(18).toString('base64url'),
+        sessionId,
+        owner: user,
+        title: session.title,
+        createdAt: now.toISOString(),
+        ...(expiresInDays ? { expiresAt: new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000).toISOString() } : {}),
+        viewCount: 0,
+        snapshot: { title: session.title, timestamp: session.timestamp, messages: session.messages, datasheets: session.datasheets }
+    });
+    recordAudit(user, 'Share Chat Session', `"${session.title}" shared read-only${share.expiresAt ? ` until ${share.expiresAt}` : ''}`);
+    return describe(share);
+}
+
+export function revokeShare(token, user) {
+    const share = shareStore.get(token);
+    if (!share || share.owner !== user) throw new HttpError(404, 'Unknown share link');
+    if (share.revokedAt) return describe(share);
+    const revoked = shareStore.update(token, { revokedAt: new Date().toISOString() });
+    recordAudit(user, 'Revoke Chat Share', `Share link for "${share.title}" revoked`);
+    return describe(revoked);
+}
+
+// Any signed-in user holding the link can read the snapshot until it is revoked or expires
+export function openShare(token) {
+    const share = shareStore.get(token);
+    if (!share || share.revokedAt) throw new HttpError(404, 'This share link does not exist or has been revoked');
+    if (share.expiresAt && share.expiresAt < new Date().toISOString()) throw new HttpError(410, 'This share link has expired');
+
+    shareStore.update(token, { viewCount: share.viewCount + 1, lastViewedAt: new Date().toISOString() });
+    return { token, sharedBy: share.owner, createdAt: share.createdAt, expiresAt: share.expiresAt, ...share.snapshot };
+}
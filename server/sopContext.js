@@ -0,0 +1,117 @@
+// Chat pipeline integration for SOPs: retrieval, prompt context, citation extraction
+// and deterministic checks for answers that contradict an SOP in force
+
+import { describeRule } from '../shared/sopRules.js';
+
+// Terms that make each rule kind relevant to a query
+const RULE_TRIGGERS = {
+    dimensionDeduction: /insulat|arctic|cold|frost|heated|internal dim/i,
+    weightThreshold: /\d\s*kg\b|heavy|weigh|shelf|shelves|base[- ]load/i,
+    stackingLimit: /stack|tier|chest|lifejacket|life jacket|deck height/i,
+    clearanceBuffer: /clearance|buffer|track|shutter/i,
+    forbiddenCombination: /option|combin|insulat|heater|window/i
+};
+
+// "reduces each internal dimension by 60mm", "removes 60mm" — the number right after the verb
+const DEDUCTION_CLAIM = /(?:reduc|remov|deduct)\w*\s+(?:(?:each|every|all|the|internal|dimensions?|of|by|height|width|depth|h|w|d|and|,)\s*)*(\d+)\s*mm/i;
+
+const STOP_WORDS = /^(with|from|that|this|than|into|over|under|each|must|only|have|been|will|shall|models?|equipment|standard)$/i;
+
+// SOP ids, model prefixes and option names are typed in by users; match them literally
+const escapeRegExp = text => String(text).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function keywords(text) {
+    return (text || '').toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 3 && !STOP_WORDS.test(w));
+}
+
+export function sopLabel(sop) {
+    return `${sop.id} v${sop.version}`;
+}
+
+// Rank SOPs in force by relevance to the query (and recent product codes); irrelevant ones are dropped
+export function findRelevantSops(query, sops, productCodes = []) {
+    const queryWords = new Set(keywords(query));
+    const codes = productCodes.map(c => c.toUpperCase());
+
+    return sops
+        .map(sop => {
+            let score = 0;
+            if (query.toUpperCase().includes(sop.id.toUpperCase())) score += 10;
+            for (const rule of sop.rules || []) {
+                if (RULE_TRIGGERS[rule.kind]?.test(query)) score += 3;
+                const prefix = rule.appliesTo?.modelPrefix?.toUpperCase();
+                if (prefix && (new RegExp(`\\b${escapeRegExp(prefix)}\\d`, 'i').test(query) || codes.some(c => c.startsWith(prefix)))) score += 3;
+            }
+            for (const word of keywords(`${sop.title} ${sop.description}`)) {
+                if (queryWords.has(word)) score += 1;
+            }
+            return { sop, score };
+        })
+        .filter(r => r.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .map(r => r.sop);
+}
+
+export function buildSopContext(sops) {
+    if (sops.length === 0) return '';
+
+    const blocks = sops.map(sop => {
+        const rules = (sop.rules || []).map(r => `    * ${describeRule(r)}`).join('\n');
+        return `  [${sopLabel(sop)}] ${sop.title} (${sop.category}): ${sop.description}${rules ? `\n${rules}` : ''}`;
+    }).join('\n');
+
+    return `\n\nENGINEERING SOPs IN FORCE (mandatory — cite as [SOP-ID vVERSION] whenever your answer relies on one, never contradict them):
+${blocks}
+`;
+}
+
+// SOPs the answer actually cites, resolved against those supplied in context
+export function extractSopCitations(text, sops) {
+    if (!text) return [];
+    const cited = new Set([...text.matchAll(/\bSOP-[A-Z]{2,4}-\d{2,3}(?:-[A-Z]+)?\b/gi)].map(m => m[0].toUpperCase()));
+    return sops
+        .filter(sop => cited.has(sop.id.toUpperCase()))
+        .map(sop => ({ sopId: sop.id, sopVersion: sop.version, title: sop.title }));
+}
+
+// Deterministic checks for statements that contradict a structured SOP rule
+export function findSopContradictions(text, sops) {
+    if (!text) return [];
+    const warnings = [];
+    const sentences = text.split(/(?<=[.!?\n])\s+/);
+
+    for (const sop of sops) {
+        // Cited with the wrong version
+        const versionPattern = new RegExp(`${escapeRegExp(sop.id)}\\s*v(\\d+\\.\\d+\\.\\d+[\\w-]*)`, 'gi');
+        for (const m of text.matchAll(versionPattern)) {
+            if (m[1] !== sop.version) {
+                warnings.push(`Cites ${sop.id} v${m[1]}, but v${sop.version} is in force`);
+            }
+        }
+
+        for (const rule of sop.rules || []) {
+            for (const sentence of sentences) {
+                if (rule.kind === 'dimensionDeduction' && new RegExp(`\\b${escapeRegExp(rule.thicknessMm)}\\s*mm\\s+${escapeRegExp(rule.option)}`, 'i').test(sentence)) {
+                    const stated = sentence.match(DEDUCTION_CLAIM);
+                    if (stated && Number(stated[1]) !== rule.deductionMm) {
+                        warnings.push(`States a ${stated[1]}mm deduction for ${rule.thicknessMm}mm ${rule.option}; ${sopLabel(sop)} specifies ${rule.deductionMm}mm`);
+                    }
+                }
+                if (rule.kind === 'weightThreshold' && /shel(f|v)/i.test(sentence) && !/\b(base|floor|never|not|must not|cannot)\b/i.test(sentence)) {
+                    const heavy = [...sentence.matchAll(/(\d+(?:\.\d+)?)\s*kg\b/gi)].map(m => parseFloat(m[1])).filter(w => w > rule.maxShelfKg);
+                    if (heavy.length > 0) {
+                        warnings.push(`Suggests shelving ${heavy.map(w => `${w}kg`).join(', ')} equipment; ${sopLabel(sop)} requires base-loading above ${rule.maxShelfKg}kg`);
+                    }
+                }
+                if (rule.kind === 'stackingLimit' && /stack/i.test(sentence)) {
+                    const tiers = sentence.match(/(\d+)\s*(?:high|tiers?|levels?)\b/i);
+                    if (tiers && Number(tiers[1]) > rule.maxTiers) {
+                        warnings.push(`Proposes stacking ${tiers[1]} high; ${sopLabel(sop)} limits ${rule.appliesToType} models to ${rule.maxTiers}`);
+                    }
+                }
+            }
+        }
+    }
+
+    return [...new Set(warnings)];
+}
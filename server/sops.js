@@ -0,0 +1,266 @@
+// Server-side SOP library
+// Persisted in the `sops` collection (seeded from the shared SOP data); everything server-side reads SOPs through here
+
+import { ACTIVE_SOPS, PROPOSED_CHANGES } from '../shared/sops.js';
+import { resolveActiveSops } from '../shared/activeSops.js';
+import { DEFAULT_SOP_WORKFLOW, requiredReviews, isReviewComplete } from '../shared/sopWorkflow.js';
+import { PERMISSIONS } from '../shared/permissions.js';
+import { createCollection } from './store.js';
+import { recordAudit } from './auditLog.js';
+import { HttpError } from './httpError.js';
+
+const MODEL_TYPES = ['Cabinet', 'Chest', 'Roller Shutter'];
+const AXES = ['h', 'w', 'd'];
+
+const isPositive = value => typeof value === 'number' && Number.isFinite(value) && value > 0;
+const isText = value => typeof value === 'string' && value.trim() !== '';
+
+// The fields each rule kind needs, as [check, description]. The rule engine and the chat prompts read them
+// once the SOP is in force, so a malformed rule is refused when it is proposed.
+const RULE_FIELDS = {
+    dimensionDeduction: {
+        option: [value => value === 'insulation', "'insulation'"],
+        thicknessMm: [isPositive, 'a positive number'],
+        deductionMm: [isPositive, 'a positive number']
+    },
+    weightThreshold: {
+        maxShelfKg: [isPositive, 'a positive number']
+    },
+    stackingLimit: {
+        appliesToType: [value => MODEL_TYPES.includes(value), `one of ${MODEL_TYPES.join(', ')}`],
+        maxTiers: [value => Number.isInteger(value) && value > 0, 'a positive whole number'],
+        maxStackHeightMm: [isPositive, 'a positive number']
+    },
+    clearanceBuffer: {
+        appliesTo: [
+            value => !!value && typeof value === 'object' && (value.type !== undefined || value.modelPrefix !== undefined)
+                && (value.type === undefined || MODEL_TYPES.includes(value.type))
+                && (value.modelPrefix === undefined || isText(value.modelPrefix)),
+            `{ type?, modelPrefix? } with at least one set (type one of ${MODEL_TYPES.join(', ')})`
+        ],
+        axes: [value => Array.isArray(value) && value.length > 0 && value.every(axis => AXES.includes(axis)), `a non-empty array of ${AXES.join(', ')}`],
+        bufferMm: [isPositive, 'a positive number']
+    },
+    forbiddenCombination: {
+        options: [value => Array.isArray(value) && value.length > 0 && value.every(isText), 'a non-empty array of option tags'],
+        reason: [isText, 'a non-empty string']
+    }
+};
+const RULE_KINDS = Object.keys(RULE_FIELDS);
+
+const sopStore = createCollection('sops', [...ACTIVE_SOPS, ...PROPOSED_CHANGES]);
+const workflowStore = createCollection('sopWorkflow', DEFAULT_SOP_WORKFLOW, 'category');
+
+const today = () => new Date().toISOString().split('T')[0];
+const isDate = value => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+
+// Approved SOPs switch to Active once their effective date arrives. Run lazily before every read,
+// so the active set changes over on the date without a scheduler.
+function activateDueSops() {
+    const due = sopStore.find(s => s.status === 'Approved' && (s.effectiveDate || '') <= today());
+    if (due.length === 0) return;
+
+    sopStore.transaction(t => {
+        for (const sop of due) {
+            if (sop.replacesId) {
+                const replaced = t.get(sop.replacesId);
+                if (replaced && replaced.status === 'Active') {
+                    t.update(replaced.id, { status: 'Deprecated', changeReason: `Superseded by ${sop.id} v${sop.version}`, lastUpdated: today() });
+                }
+            }
+            t.update(sop.id, { status: 'Active', lastUpdated: today() });
+            console.log(`[sops] ${sop.id} v${sop.version} became Active (effective ${sop.effectiveDate})`);
+        }
+    });
+
+    for (const sop of due) {
+        recordAudit('system', 'Activate SOP', `SOP ${sop.id} v${sop.version} in force from ${sop.effectiveDate}${sop.replacesId ? `, superseding ${sop.replacesId}` : ''}`);
+    }
+}
+
+export function listSops() {
+    activateDueSops();
+    return sopStore.all();
+}
+
+export function getSop(id) {
+    activateDueSops();
+    return sopStore.get(id);
+}
+
+// SOPs currently in force (Active and not replaced by a newer Active version)
+export function getSopsInForce() {
+    activateDueSops();
+    return resolveActiveSops(sopStore.all());
+}
+
+export function getSopWorkflow() {
+    return workflowStore.all();
+}
+
+// Replace the review requirements for one category ('*' is the fallback for all others)
+export function setSopWorkflow(category, reviews, user) {
+    if (!category || !Array.isArray(reviews) || reviews.length === 0
+        || reviews.some(r => typeof r?.role !== 'string' || !r.role.trim() || !Number.isInteger(r.count) || r.count < 1)) {
+        throw new HttpError(400, 'reviews must be a non-empty array of { role, count } with count >= 1');
+    }
+    const rule = { category, reviews: reviews.map(r => ({ role: r.role.trim(), count: r.count })) };
+    // Drafts are only approved with an admin's sign-off, so every rule must ask for one
+    if (!rule.reviews.some(r => PERMISSIONS['sop.approve'].includes(r.role))) {
+        throw new HttpError(400, `reviews must include one of: ${PERMISSIONS['sop.approve'].join(', ')}`);
+    }
+    const saved = workflowStore.transaction(t => t.get(category) ? t.update(category, rule) : t.insert(rule));
+    recordAudit(user, 'Update SOP Workflow', `${category === '*' ? 'Default' : category} SOPs now require ${rule.reviews.map(r => `${r.count}x ${r.role}`).join(', ')}`);
+    return saved;
+}
+
+function validateRules(rules) {
+    if (rules === undefined) return;
+    if (!Array.isArray(rules) || rules.some(r => !r || !RULE_KINDS.includes(r.kind))) {
+        throw new HttpError(400, `rules must be an array of { kind } objects where kind is one of: ${RULE_KINDS.join(', ')}`);
+    }
+    rules.forEach((rule, i) => {
+        for (const [field, [check, description]] of Object.entries(RULE_FIELDS[rule.kind])) {
+            if (!check(rule[field])) throw new HttpError(400, `rules[${i}] (${rule.kind}): ${field} must be ${description}`);
+        }
+    });
+}
+
+// Create a Draft, either a new SOP or a revision of an Active one (via replacesId)
+export function proposeSop(input, user) {
+    const { id, title, description, version, category, replacesId, changeReason, rules, effectiveDate } = input || {};
+    for (const [field, value] of Object.entries({ id, title, description, version, category })) {
+        if (typeof value !== 'string' || !value.trim()) {
+            throw new HttpError(400, `${field} is required`);
+        }
+    }
+    if (sopStore.get(id.trim())) {
+        throw new HttpError(409, `${id} already exists`);
+    }
+    if (replacesId) {
+        const replaced = sopStore.get(replacesId);
+        if (!replaced) throw new HttpError(400, `replacesId ${replacesId} does not exist`);
+        if (replaced.status !== 'Active') throw new HttpError(409, `${replacesId} is ${replaced.status}; only Active SOPs can be revised`);
+    }
+    validateRules(rules);
+    if (effectiveDate !== undefined && effectiveDate !== '' && !isDate(effectiveDate)) {
+        throw new HttpError(400, 'effectiveDate must be a YYYY-MM-DD date');
+    }
+
+    const sop = sopStore.insert({
+        id: id.trim(),
+        title: title.trim(),
+        description: description.trim(),
+        version: version.trim().endsWith('-draft') ? version.trim() : `${version.trim()}-draft`,
+        status: 'Draft',
+        lastUpdated: today(),
+        category: category.trim(),
+        ...(replacesId ? { replacesId } : {}),
+        ...(changeReason ? { changeReason } : {}),
+        proposedBy: user,
+        ...(rules ? { rules } : {}),
+        ...(effectiveDate ? { effectiveDate } : {}),
+        reviews: []
+    });
+    recordAudit(user, 'Propose SOP', `New draft created: ${sop.id} v${sop.version}${replacesId ? ` (revision of ${replacesId})` : ''}`);
+    return sop;
+}
+
+// Record one reviewer's decision on a Draft. A rejection ends the review; once every required
+// role has approved, the SOP is Approved and scheduled for its effective date (today if unset).
+export function reviewSop(id, { reviewer, role, decision, comment, effectiveDate } = {}, user) {
+    reviewer = reviewer || user;
+    if (typeof reviewer !== 'string' || !reviewer.trim()) throw new HttpError(400, 'reviewer is required');
+    if (decision !== 'approve' && decision !== 'reject') throw new HttpError(400, "decision must be 'approve' or 'reject'");
+    if (decision === 'reject' && (typeof comment !== 'string' || !comment.trim())) throw new HttpError(400, 'A reason is required to reject');
+    if (effectiveDate && !isDate(effectiveDate)) throw new HttpError(400, 'effectiveDate must be a YYYY-MM-DD date');
+
+    const result = sopStore.transaction(t => {
+        const sop = t.get(id);
+        if (!sop) throw new HttpError(404, `Unknown SOP: ${id}`);
+        if (sop.status !== 'Draft') throw new HttpError(409, `${id} is ${sop.status}; only Drafts can be reviewed`);
+
+        const reviews = sop.reviews || [];
+        if (reviews.some(r => r.reviewer.toLowerCase() === reviewer.trim().toLowerCase())) {
+            throw new HttpError(409, `${reviewer} has already reviewed ${id}`);
+        }
+
+        const workflow = workflowStore.all();
+        if (decision === 'approve') {
+            const requirement = requiredReviews(sop, workflow).find(r => r.role === role);
+            if (!requirement) {
+                throw new HttpError(400, `${sop.category} SOPs need reviews from: ${requiredReviews(sop, workflow).map(r => r.role).join(', ')}`);
+            }
+            const approvals = reviews.filter(r => r.decision === 'approve' && r.role === role).length;
+            if (approvals >= requirement.count) {
+                throw new HttpError(409, `${id} already has the ${requirement.count} ${role} approval(s) it needs`);
+            }
+        }
+
+        const review = { reviewer: reviewer.trim(), role, decision, ...(comment?.trim() ? { comment: comment.trim() } : {}), timestamp: new Date().toISOString() };
+        const updated = { ...sop, reviews: [...reviews, review], ...(effectiveDate ? { effectiveDate } : {}) };
+
+        if (decision === 'reject') {
+            return t.update(id, { reviews: updated.reviews, status: 'Rejected', rejectionReason: review.comment, lastUpdated: today() });
+        }
+        if (isReviewComplete(updated, workflow)) {
+            return t.update(id, {
+                reviews: updated.reviews,
+                status: 'Approved',
+                version: sop.version.replace('-draft', ''),
+                effectiveDate: updated.effectiveDate && updated.effectiveDate > today() ? updated.effectiveDate : today(),
+                lastUpdated: today()
+            });
+        }
+        return t.update(id, { reviews: updated.reviews, ...(effectiveDate ? { effectiveDate } : {}) });
+    });
+
+    if (decision === 'reject') {
+        recordAudit(user, 'Reject SOP', `SOP ${id} rejected by ${reviewer} (${role}): ${comment.trim()}`);
+    } else {
+        recordAudit(user, 'Review SOP', `SOP ${id} approved by ${reviewer} (${role})${comment?.trim() ? `: ${comment.trim()}` : ''}`);
+        if (result.status === 'Approved') {
+            recordAudit(user, 'Approve SOP', `SOP ${id} v${result.version} fully approved, effective ${result.effectiveDate}`);
+        }
+    }
+
+    // An approval effective today goes live immediately
+    activateDueSops();
+    return sopStore.get(result.id);
+}
+
+export function deprecateSop(id, reason, user) {
+    const sop = sopStore.get(id);
+    if (!sop) throw new HttpError(404, `Unknown SOP: ${id}`);
+    if (sop.status !== 'Active') throw new HttpError(409, `${id} is ${sop.status}; only Active SOPs can be deprecated`);
+    if (typeof reason !== 'string' || !reason.trim()) throw new HttpError(400, 'reason is required');
+
+    const deprecated = sopStore.update(id, { status: 'Deprecated', changeReason: reason.trim(), lastUpdated: today() });
+    recordAudit(user, 'Deprecate SOP', `SOP ${id} v${sop.version} marked as Deprecated: ${reason.trim()}`);
+    return deprecated;
+}
+
+// Every version in the replacesId chain containing `id`, oldest first
+export function getSopHistory(id) {
+    activateDueSops();
+    const start = sopStore.get(id);
+    if (!start) throw new HttpError(404, `Unknown SOP: ${id}`);
+
+    const chain = [start];
+    const seen = new Set([start.id]);
+    for (let cur = start; cur.replacesId && !seen.has(cur.replacesId);) {
+        const prev = sopStore.get(cur.replacesId);
+        if (!prev) break;
+        chain.unshift(prev);
+        seen.add(prev.id);
+        cur = prev;
+    }
+    for (let cur = start; ;) {
+        const next = sopStore.all().find(s => s.replacesId === cur.id && !seen.has(s.id));
+        if (!next) break;
+        chain.push(next);
+        seen.add(next.id);
+        cur = next;
+    }
+    return chain;
+}
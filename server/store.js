@@ -0,0 +1,139 @@
+// File-backed JSON collections for server-side state (SOPs, audit, feedback, ...)
+// Each collection is one JSON file under DATA_DIR, loaded once and rewritten atomically on change.
+// Record stores keep one file per record instead and read it on every call (see createRecordStore).
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, '..', 'data');
+
+// In production (NODE_ENV=production, set by the Dockerfile) the container's own filesystem is thrown away on
+// every redeploy, so DATA_DIR must name a mounted persistent volume. It is never created here: a missing
+// directory means the volume isn't mounted, and the server refuses to start rather than lose its state.
+function checkPersistentDataDir() {
+    if (!process.env.DATA_DIR) {
+        throw new Error('[store] DATA_DIR must be set in production, to the mount path of a persistent volume');
+    }
+    if (!fs.statSync(DATA_DIR, { throwIfNoEntry: false })?.isDirectory()) {
+        throw new Error(`[store] DATA_DIR ${DATA_DIR} does not exist; mount a persistent volume there`);
+    }
+    try {
+        fs.accessSync(DATA_DIR, fs.constants.W_OK);
+    } catch {
+        throw new Error(`[store] DATA_DIR ${DATA_DIR} is not writable`);
+    }
+}
+
+if (process.env.NODE_ENV === 'production') checkPersistentDataDir();
+
+function writeAtomic(file, records) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    // Unique per write: instances sharing DATA_DIR can run under the same pid (1 in a container)
+    const tmp = `${file}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(records, null, 2));
+    fs.renameSync(tmp, file);
+}
+
+// Path for modules that manage their own file format (e.g. the append-only audit log)
+export function dataFilePath(filename) {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+    return path.join(DATA_DIR, filename);
+}
+
+// A collection is seeded on first use when its file does not exist yet
+export function createCollection(name, seed = [], key = 'id') {
+    const file = path.join(DATA_DIR, `${name}.json`);
+    let records;
+
+    try {
+        records = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (err) {
+        if (err.code !== 'ENOENT') {
+            console.error(`[store] Failed to read ${file}: ${err.message}`);
+            throw err;
+        }
+        records = seed.map(r => ({ ...r }));
+        writeAtomic(file, records);
+        console.log(`[store] Seeded ${name} with ${records.length} record(s) at ${file}`);
+    }
+
+    const ops = {
+        get: id => records.find(r => r[key] === id),
+        insert(record) {
+            records.push(record);
+            return record;
+        },
+        update(id, patch) {
+            const idx = records.findIndex(r => r[key] === id);
+            if (idx === -1) return undefined;
+            records[idx] = { ...records[idx], ...patch };
+            return records[idx];
+        },
+        remove(id) {
+            const idx = records.findIndex(r => r[key] === id);
+            return idx === -1 ? undefined : records.splice(idx, 1)[0];
+        }
+    };
+
+    // Apply one or more changes and persist once; nothing is kept if fn throws
+    function transaction(fn) {
+        const snapshot = records.map(r => ({ ...r }));
+        try {
+            const result = fn(ops);
+            writeAtomic(file, records);
+            return result;
+        } catch (err) {
+            records = snapshot;
+            throw err;
+        }
+    }
+
+    return {
+        all: () => records,
+        get: ops.get,
+        find: predicate => records.filter(predicate),
+        insert: record => transaction(t => t.insert(record)),
+        update: (id, patch) => transaction(t => t.update(id, patch)),
+        remove: id => transaction(t => t.remove(id)),
+        transaction
+    };
+}
+
+// File names for record stores; dots are encoded too, so no key can name `.` or `..`
+const fileName = key => encodeURIComponent(key).replace(/\./g, '%2E');
+
+function readRecord(file) {
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (err) {
+        if (err.code === 'ENOENT') return undefined;
+        throw err;
+    }
+}
+
+/**
+ * Records grouped by owner, one JSON file each: DATA_DIR/<name>/<group>/<id>.json. Nothing is cached, so
+ * every server instance sharing DATA_DIR sees the others' writes, and a save rewrites a single small file.
+ */
+export function createRecordStore(name) {
+    const root = path.join(DATA_DIR, name);
+    const groupDir = group => path.join(root, fileName(group));
+    const recordFile = (group, id) => path.join(groupDir(group), `${fileName(id)}.json`);
+
+    return {
+        get: (group, id) => readRecord(recordFile(group, id)),
+        list(group) {
+            const dir = groupDir(group);
+            const files = fs.existsSync(dir) ? fs.readdirSync(dir).filter(f => f.endsWith('.json')) : [];
+            return files.map(f => readRecord(path.join(dir, f))).filter(Boolean);
+        },
+        put(group, id, record) {
+            writeAtomic(recordFile(group, id), record);
+            return record;
+        },
+        remove: (group, id) => fs.rmSync(recordFile(group, id), { force: true })
+    };
+}
@@ -0,0 +1,31 @@
+// @ts-check
+// Which SOP versions are in force. Every deterministic tool reads rules through here,
+// so approving, deprecating or replacing an SOP changes their behaviour immediately.
+
+/** @typedef {import('../types').SOP} SOP */
+/** @typedef {import('../types').SopRule} SopRule */
+
+/**
+ * Active SOPs, minus any that a newer active SOP replaces.
+ * @param {SOP[]} sops
+ * @returns {SOP[]}
+ */
+export function resolveActiveSops(sops) {
+    const active = sops.filter(s => s.status === 'Active');
+    const superseded = new Set(active.map(s => s.replacesId).filter(Boolean));
+    return active.filter(s => !superseded.has(s.id));
+}
+
+/**
+ * Every rule of a given kind from the SOPs in force, paired with the SOP it came from.
+ * @template {SopRule['kind']} K
+ * @param {SOP[]} sops
+ * @param {K} kind
+ * @returns {{ sop: SOP, rule: Extract<SopRule, { kind: K }> }[]}
+ */
+export function findActiveRules(sops, kind) {
+    return resolveActiveSops(sops).flatMap(sop =>
+        (sop.rules || [])
+            .filter(r => r.kind === kind)
+            .map(rule => ({ sop, rule: /** @type {Extract<SopRule, { kind: K }>} */ (rule) })));
+}
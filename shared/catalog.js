@@ -0,0 +1,85 @@
+// @ts-check
+// Standard cabinet catalog, shared by the browser and the Express server
+
+/** @typedef {import('../types').CabinetModel} CabinetModel */
+
+/** @type {CabinetModel[]} */
+export const CABINET_CATALOG = [
+  // Fire Safety
+  {
+    id: 'JB01',
+    title: 'Fire Extinguisher Cabinet (Single)',
+    type: 'Cabinet',
+    externalDims: { h: 750, w: 300, d: 250 },
+    internalDimsBase: { h: 700, w: 250, d: 200 },
+    description: 'The industry standard single extinguisher cabinet. Manufactured from high-quality GRP.',
+    category: 'Fire Safety'
+  },
+  {
+    id: 'JB02',
+    title: 'Fire Extinguisher Cabinet (Double)',
+    type: 'Cabinet',
+    externalDims: { h: 750, w: 550, d: 250 },
+    internalDimsBase: { h: 700, w: 500, d: 200 },
+    description: 'Designed for the storage of two fire extinguishers up to 9kg/9L capacity.',
+    category: 'Fire Safety'
+  },
+  {
+    id: 'JB03',
+    title: 'Fire Hose Cabinet',
+    type: 'Cabinet',
+    externalDims: { h: 750, w: 750, d: 300 },
+    internalDimsBase: { h: 700, w: 700, d: 250 },
+    description: 'Compact storage for fire hoses and nozzles. Weatherproof and IP56 rated.',
+    category: 'Fire Safety'
+  },
+  // Marine Safety
+  {
+    id: 'JB08',
+    title: 'Lifejacket Chest (800L)',
+    type: 'Chest',
+    externalDims: { h: 900, w: 1200, d: 800 },
+    internalDimsBase: { h: 800, w: 1100, d: 700 },
+    description: 'High capacity chest for multiple lifejackets or immersion suits.',
+    category: 'Marine Safety',
+    capacity: { lifejackets: 24 }
+  },
+  {
+    id: 'JB10',
+    title: 'Survival Suit Cabinet',
+    type: 'Cabinet',
+    externalDims: { h: 1050, w: 700, d: 450 },
+    internalDimsBase: { h: 1000, w: 650, d: 400 },
+    description: 'Purpose-built for survival suits or immersion suits on offshore platforms.',
+    category: 'Marine Safety'
+  },
+  // Medical & Emergency
+  {
+    id: 'JB15',
+    title: 'Breathing Apparatus Cabinet',
+    type: 'Cabinet',
+    externalDims: { h: 1000, w: 700, d: 450 },
+    internalDimsBase: { h: 900, w: 650, d: 400 },
+    description: 'Secure storage for SCBA sets. Features high-visibility window options.',
+    category: 'Medical & Emergency'
+  },
+  {
+    id: 'JB17',
+    title: 'Stretcher Cabinet',
+    type: 'Cabinet',
+    externalDims: { h: 2300, w: 500, d: 450 },
+    internalDimsBase: { h: 2200, w: 450, d: 400 },
+    description: 'Tall, slim cabinet specifically designed for Stokes or Basket stretchers.',
+    category: 'Medical & Emergency'
+  },
+  // Operations / Industrial
+  {
+    id: 'RS300',
+    title: 'Roller Shutter Cabinet',
+    type: 'Roller Shutter',
+    externalDims: { h: 2000, w: 1000, d: 600 },
+    internalDimsBase: { h: 1800, w: 900, d: 500 },
+    description: 'Large capacity cabinet with roller shutter door for restricted deck spaces.',
+    category: 'Industrial'
+  }
+];
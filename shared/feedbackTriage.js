@@ -0,0 +1,28 @@
+// @ts-check
+// Sales feedback triage states, shared by the server (validation) and the admin triage board (columns).
+
+/** @typedef {import('../types').FeedbackStatus} FeedbackStatus */
+
+/** @type {{ status: FeedbackStatus, label: string }[]} */
+export const FEEDBACK_STATUSES = [
+  { status: 'new', label: 'New' },
+  { status: 'triaged', label: 'Triaged' },
+  { status: 'in-progress', label: 'In progress' },
+  { status: 'resolved', label: 'Resolved' },
+  { status: 'wont-fix', label: "Won't fix" }
+];
+
+/**
+ * @param {string} status
+ * @returns {status is FeedbackStatus}
+ */
+export function isFeedbackStatus(status) {
+    return FEEDBACK_STATUSES.some(s => s.status === status);
+}
+
+/**
+ * @param {FeedbackStatus} status
+ */
+export function feedbackStatusLabel(status) {
+    return FEEDBACK_STATUSES.find(s => s.status === status)?.label || status;
+}
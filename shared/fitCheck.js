@@ -0,0 +1,232 @@
+// @ts-check
+// Deterministic equipment-fit engine
+// Shared by the browser and the Express server, so it must stay plain JS with no dependencies
+
+/** @typedef {import('../types').CabinetModel} CabinetModel */
+/** @typedef {import('../types').EquipmentItem} EquipmentItem */
+/** @typedef {import('../types').Dims} Dims */
+/** @typedef {import('../types').FitPlacement} FitPlacement */
+/** @typedef {import('../types').CabinetFit} CabinetFit */
+/** @typedef {import('../types').FitCheckResult} FitCheckResult */
+/** @typedef {import('../types').SOP} SOP */
+
+import { evaluatePlacement, summarizePlacement } from './placement.js';
+import { evaluateConfiguration } from './sopRules.js';
+
+// Above this many orientation combinations we stop brute-forcing and pick per item type
+const MAX_ORIENTATION_COMBOS = 4096;
+
+/**
+ * All distinct ways an item can be loaded (the 6 axis permutations, duplicates removed).
+ * @param {Dims} dims
+ * @returns {Dims[]}
+ */
+export function getOrientations(dims) {
+    const { h, w, d } = dims;
+    const candidates = [
+        { h, w, d }, { h, w: d, d: w },
+        { h: w, w: h, d }, { h: w, w: d, d: h },
+        { h: d, w: h, d: w }, { h: d, w, d: h }
+    ];
+    const seen = new Set();
+    return candidates.filter(o => {
+        const key = `${o.h}x${o.w}x${o.d}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+/**
+ * Pack one orientation choice per item type into the cabinet.
+ * Identical units stack into columns, columns are laid out in rows across the width
+ * and rows run front-to-back. Items heavier than `baseLoadAboveKg` never stack,
+ * so every unit sits on the base. Returns null if the layout does not fit.
+ * @param {EquipmentItem[]} items
+ * @param {Dims[]} orientations
+ * @param {Dims} internal
+ * @param {number} baseLoadAboveKg
+ * @returns {{ used: Dims, placements: FitPlacement[] } | null}
+ */
+function packLayout(items, orientations, internal, baseLoadAboveKg) {
+    /** @type {FitPlacement[]} */
+    const placements = [];
+    /** @type {{ w: number, d: number, h: number }[]} */
+    const columns = [];
+
+    for (let i = 0; i < items.length; i++) {
+        const o = orientations[i];
+        if (o.h > internal.h || o.w > internal.w || o.d > internal.d) return null;
+
+        const perColumn = items[i].weight > baseLoadAboveKg ? 1 : Math.max(1, Math.floor(internal.h / o.h));
+        const columnCount = Math.ceil(items[i].qty / perColumn);
+        let remaining = items[i].qty;
+        for (let c = 0; c < columnCount; c++) {
+            const units = Math.min(perColumn, remaining);
+            columns.push({ w: o.w, d: o.d, h: units * o.h });
+            remaining -= units;
+        }
+        placements.push({ type: items[i].type, qty: items[i].qty, orientation: o, perColumn, columns: columnCount });
+    }
+
+    // Deepest columns first so each row's depth is set by its first column
+    columns.sort((a, b) => b.d - a.d || b.w - a.w);
+
+    let rowWidth = 0;
+    let rowDepth = 0;
+    let usedDepth = 0;
+    let usedWidth = 0;
+    let usedHeight = 0;
+    for (const col of columns) {
+        if (rowWidth + col.w > internal.w) {
+            usedDepth += rowDepth;
+            rowWidth = 0;
+            rowDepth = 0;
+        }
+        rowWidth += col.w;
+        rowDepth = Math.max(rowDepth, col.d);
+        usedWidth = Math.max(usedWidth, rowWidth);
+        usedHeight = Math.max(usedHeight, col.h);
+    }
+    usedDepth += rowDepth;
+
+    if (usedDepth > internal.d) return null;
+    return { used: { h: usedHeight, w: usedWidth, d: usedDepth }, placements };
+}
+
+/**
+ * Orientation combinations to try. Brute force while it is cheap, otherwise
+ * fall back to the smallest-footprint orientation for each item type.
+ * @param {Dims[][]} options
+ * @returns {Dims[][]}
+ */
+function orientationCombos(options) {
+    const total = options.reduce((n, o) => n * o.length, 1);
+    if (total > MAX_ORIENTATION_COMBOS) {
+        return [options.map(opts => [...opts].sort((a, b) => a.w * a.d - b.w * b.d)[0])];
+    }
+    /** @type {Dims[][]} */
+    let combos = [[]];
+    for (const opts of options) {
+        combos = combos.flatMap(prefix => opts.map(o => [...prefix, o]));
+    }
+    return combos;
+}
+
+/**
+ * Check one cabinet against the equipment list. Picks the layout with the
+ * largest minimum clearance so the quoted margins are as robust as possible.
+ * @param {EquipmentItem[]} items
+ * @param {CabinetModel} model
+ * @param {Dims} [internal] Override for the usable internal space (e.g. after insulation)
+ * @param {number} [baseLoadAboveKg] Weight above which units must sit on the base
+ * @returns {{ fit: CabinetFit } | { reason: string }}
+ */
+export function checkModelFit(items, model, internal = model.internalDimsBase, baseLoadAboveKg = Infinity) {
+    const options = items.map(item => getOrientations(item.dims));
+
+    for (let i = 0; i < items.length; i++) {
+        const fitsSomehow = options[i].some(o => o.h <= internal.h && o.w <= internal.w && o.d <= internal.d);
+        if (!fitsSomehow) {
+            return { reason: `${items[i].type} exceeds internal dimensions in every orientation` };
+        }
+    }
+
+    /** @type {CabinetFit | null} */
+    let best = null;
+    for (const combo of orientationCombos(options)) {
+        const layout = packLayout(items, combo, internal, baseLoadAboveKg);
+        if (!layout) continue;
+
+        const clearance = {
+            h: internal.h - layout.used.h,
+            w: internal.w - layout.used.w,
+            d: internal.d - layout.used.d
+        };
+        const minClearance = Math.min(clearance.h, clearance.w, clearance.d);
+        if (best && minClearance <= best.minClearance) continue;
+
+        const itemVolume = items.reduce((sum, it) => sum + it.dims.h * it.dims.w * it.dims.d * it.qty, 0);
+        best = {
+            modelId: model.id,
+            title: model.title,
+            internalDims: internal,
+            clearance,
+            minClearance,
+            utilisation: Math.round((itemVolume / (internal.h * internal.w * internal.d)) * 1000) / 10,
+            placements: layout.placements
+        };
+    }
+
+    if (!best) {
+        const units = items.reduce((sum, it) => sum + it.qty, 0);
+        return { reason: `Insufficient floor space for ${units} unit${units !== 1 ? 's' : ''}` };
+    }
+    return { fit: best };
+}
+
+/**
+ * Check an equipment list against every model in the catalog.
+ * Fitting models are ranked smallest internal volume first, then by clearance.
+ * Each model is run through the SOP rule engine first, so insulation deductions,
+ * clearance buffers and forbidden combinations shape the usable space.
+ * @param {EquipmentItem[]} items
+ * @param {CabinetModel[]} catalog
+ * @param {SOP[]} [sops]
+ * @param {number} [insulationMm]
+ * @returns {FitCheckResult}
+ */
+export function checkEquipmentFit(items, catalog, sops = [], insulationMm = 0) {
+    const equipment = items.filter(it => it.qty > 0 && it.dims.h > 0 && it.dims.w > 0 && it.dims.d > 0);
+    /** @type {CabinetFit[]} */
+    const fits = [];
+    /** @type {{ modelId: string, reason: string }[]} */
+    const rejected = [];
+
+    if (equipment.length === 0) {
+        return { equipment, insulationMm, fits, rejected };
+    }
+
+    const placement = evaluatePlacement(equipment, sops) || undefined;
+    const baseLoadAboveKg = placement ? placement.thresholdKg : Infinity;
+
+    for (const model of catalog) {
+        const evaluation = evaluateConfiguration({ modelId: model.id, insulationMm, equipment }, model, sops);
+        // Placement violations belong to the equipment, not the model, and are reported once below
+        const blocking = evaluation.violations.filter(v => v.rule !== 'weightThreshold');
+        if (blocking.length > 0) {
+            rejected.push({ modelId: model.id, reason: blocking.map(v => `${v.message} (${v.sopId} v${v.sopVersion})`).join('; ') });
+            continue;
+        }
+
+        const result = checkModelFit(equipment, model, evaluation.internalDims, baseLoadAboveKg);
+        if ('fit' in result) {
+            fits.push({ ...result.fit, appliedSops: evaluation.appliedSops });
+        } else {
+            rejected.push({ modelId: model.id, reason: result.reason });
+        }
+    }
+
+    const volume = (/** @type {Dims} */ d) => d.h * d.w * d.d;
+    fits.sort((a, b) => volume(a.internalDims) - volume(b.internalDims) || b.minClearance - a.minClearance);
+    return { equipment, insulationMm, fits, rejected, placement };
+}
+
+/**
+ * Plain-text summary for chat history and exports.
+ * @param {FitCheckResult} result
+ * @returns {string}
+ */
+export function summarizeFitCheck(result) {
+    const kit = result.equipment
+        .map(it => `${it.qty} x ${it.type} (${it.dims.h}x${it.dims.w}x${it.dims.d}mm, ${it.weight}kg)`)
+        .join(', ') + (result.insulationMm ? ` with ${result.insulationMm}mm insulation` : '');
+    const placement = result.placement ? ` Placement (${summarizePlacement(result.placement)})` : '';
+    if (result.fits.length === 0) {
+        return `Fit check for ${kit}: no standard model fits.${placement}`;
+    }
+    const top = result.fits.slice(0, 3)
+        .map(f => `${f.modelId} (spare H ${f.clearance.h} / W ${f.clearance.w} / D ${f.clearance.d} mm)`)
+        .join('; ');
+    return `Fit check for ${kit}: ${result.fits.length} model${result.fits.length !== 1 ? 's' : ''} fit. Best: ${top}.${placement}`;
+}
@@ -0,0 +1,75 @@
+// @ts-check
+// Insulation-aware internal dimensions, derived from whichever active SOP carries the deduction rules
+// (SOP-JB-01 today). Approving a new SOP version changes the output without a code change.
+
+/** @typedef {import('../types').CabinetModel} CabinetModel */
+/** @typedef {import('../types').SOP} SOP */
+/** @typedef {import('../types').DimensionDeductionRule} DimensionDeductionRule */
+/** @typedef {import('../types').InsulationOption} InsulationOption */
+/** @typedef {import('../types').InsulatedDimensions} InsulatedDimensions */
+
+import { findActiveRules } from './activeSops.js';
+
+/**
+ * The SOP in force that defines insulation deductions, with its rules sorted by thickness.
+ * @param {SOP[]} sops
+ * @returns {{ sop: SOP, rules: DimensionDeductionRule[] } | null}
+ */
+export function getInsulationSop(sops) {
+    const matches = findActiveRules(sops, 'dimensionDeduction').filter(m => m.rule.option === 'insulation');
+    if (matches.length === 0) return null;
+
+    const sop = matches[0].sop;
+    const rules = matches
+        .filter(m => m.sop === sop)
+        .map(m => m.rule)
+        .sort((a, b) => a.thicknessMm - b.thicknessMm);
+    return { sop, rules };
+}
+
+/**
+ * Effective internal dimensions of one model for every insulation option.
+ * @param {CabinetModel} model
+ * @param {SOP[]} sops
+ * @returns {InsulatedDimensions}
+ */
+export function getInsulatedDimensions(model, sops) {
+    const source = getInsulationSop(sops);
+    const base = model.internalDimsBase;
+
+    /** @type {InsulationOption[]} */
+    const options = [{ thicknessMm: 0, deductionMm: 0, internalDims: { ...base }, usable: true }];
+    for (const rule of source?.rules || []) {
+        const internalDims = {
+            h: Math.max(0, base.h - rule.deductionMm),
+            w: Math.max(0, base.w - rule.deductionMm),
+            d: Math.max(0, base.d - rule.deductionMm)
+        };
+        options.push({
+            thicknessMm: rule.thicknessMm,
+            deductionMm: rule.deductionMm,
+            internalDims,
+            usable: internalDims.h > 0 && internalDims.w > 0 && internalDims.d > 0
+        });
+    }
+
+    return {
+        modelId: model.id,
+        title: model.title,
+        sopId: source?.sop.id,
+        sopVersion: source?.sop.version,
+        options
+    };
+}
+
+/**
+ * Internal dimensions of a model for a specific insulation thickness.
+ * Returns null if no active SOP defines that thickness.
+ * @param {CabinetModel} model
+ * @param {number} thicknessMm
+ * @param {SOP[]} sops
+ */
+export function getInternalDimsForInsulation(model, thicknessMm, sops) {
+    const option = getInsulatedDimensions(model, sops).options.find(o => o.thicknessMm === thicknessMm);
+    return option ? option.internalDims : null;
+}
@@ -0,0 +1,46 @@
+// @ts-check
+// What each account role may do. The server rejects (and audits) anything outside this map;
+// the client uses the same map to hide actions the signed-in user can't take.
+
+import { completesReview } from './sopWorkflow.js';
+
+/** @typedef {import('../types').UserRole} UserRole */
+/** @typedef {import('../types').Permission} Permission */
+/** @typedef {import('../types').SOP} SOP */
+/** @typedef {import('../types').SopWorkflowRule} SopWorkflowRule */
+
+/** @type {Record<Permission, UserRole[]>} */
+export const PERMISSIONS = {
+  'feedback.submit': ['sales', 'engineering', 'admin'],
+  'feedback.comment': ['sales', 'engineering', 'admin'],
+  'feedback.triage': ['engineering', 'admin'],
+  'sop.propose': ['engineering', 'admin'], // Sales raise feedback, promoted to change requests
+  'sop.review': ['engineering', 'admin'],
+  'sop.approve': ['admin'],
+  'sop.deprecate': ['admin'],
+  'sop.workflow': ['admin'],
+  'changeRequest.manage': ['engineering', 'admin'],
+  'audit.view': ['engineering', 'admin'],
+  'users.manage': ['admin'],
+  'apiKeys.manage': ['admin']
+};
+
+/**
+ * @param {UserRole | undefined} role
+ * @param {Permission} permission
+ */
+export function can(role, permission) {
+    return !!role && PERMISSIONS[permission].includes(role);
+}
+
+/**
+ * Engineering can sign off a draft, but it only becomes Approved once someone holding sop.approve has
+ * approved it: the approval that would complete the workflow is refused if no admin has signed yet.
+ * @param {UserRole} role
+ * @param {SOP} sop
+ * @param {SopWorkflowRule[]} workflow
+ */
+export function canGiveApproval(role, sop, workflow) {
+    if (can(role, 'sop.approve') || !completesReview(sop, workflow, role)) return true;
+    return (sop.reviews || []).some(r => r.decision === 'approve' && can(/** @type {UserRole} */ (r.role), 'sop.approve'));
+}
@@ -0,0 +1,72 @@
+// @ts-check
+// Heavy-equipment placement rules, read from whichever active SOP carries a weight threshold (SOP-JB-05 today)
+
+/** @typedef {import('../types').SOP} SOP */
+/** @typedef {import('../types').EquipmentItem} EquipmentItem */
+/** @typedef {import('../types').WeightThresholdRule} WeightThresholdRule */
+/** @typedef {import('../types').PlacementAdvice} PlacementAdvice */
+/** @typedef {import('../types').SopViolation} SopViolation */
+
+import { findActiveRules } from './activeSops.js';
+
+/**
+ * The SOP in force that defines the base-loading weight threshold.
+ * @param {SOP[]} sops
+ * @returns {{ sop: SOP, rule: WeightThresholdRule } | null}
+ */
+export function getPlacementSop(sops) {
+    return findActiveRules(sops, 'weightThreshold')[0] || null;
+}
+
+/**
+ * Suggest base or shelf placement for each item and flag requested placements that break the SOP.
+ * Returns null if no active SOP defines a weight threshold.
+ * @param {EquipmentItem[]} items
+ * @param {SOP[]} sops
+ * @returns {PlacementAdvice | null}
+ */
+export function evaluatePlacement(items, sops) {
+    const source = getPlacementSop(sops);
+    if (!source) return null;
+
+    const { sop, rule } = source;
+    /** @type {SopViolation[]} */
+    const violations = [];
+
+    const advice = items.map(item => {
+        const mandatory = item.weight > rule.maxShelfKg;
+        if (mandatory && item.placement === 'shelf') {
+            violations.push({
+                sopId: sop.id,
+                sopVersion: sop.version,
+                rule: 'weightThreshold',
+                message: `${item.type} (${item.weight}kg) exceeds ${rule.maxShelfKg}kg and must be base-loaded, not shelved`
+            });
+        }
+        return {
+            type: item.type,
+            weight: item.weight,
+            qty: item.qty,
+            suggested: /** @type {'base' | 'shelf'} */ (mandatory ? 'base' : item.placement || 'shelf'),
+            mandatory
+        };
+    });
+
+    return { sopId: sop.id, sopVersion: sop.version, thresholdKg: rule.maxShelfKg, items: advice, violations };
+}
+
+/**
+ * One-line placement notes for chat history and exports.
+ * @param {PlacementAdvice} advice
+ * @returns {string}
+ */
+export function summarizePlacement(advice) {
+    const heavy = advice.items.filter(it => it.mandatory);
+    const notes = heavy.length > 0
+        ? `base-load ${heavy.map(it => `${it.type} (${it.weight}kg)`).join(', ')}`
+        : `no items exceed ${advice.thresholdKg}kg`;
+    const violations = advice.violations.length > 0
+        ? ` VIOLATIONS: ${advice.violations.map(v => v.message).join('; ')}.`
+        : '';
+    return `${advice.sopId} v${advice.sopVersion}: ${notes}.${violations}`;
+}
@@ -0,0 +1,165 @@
+// @ts-check
+// SOP rule engine: evaluates a proposed cabinet configuration against the structured rules
+// of every SOP in force and reports each violation with the SOP id and version it comes from
+
+/** @typedef {import('../types').CabinetModel} CabinetModel */
+/** @typedef {import('../types').SOP} SOP */
+/** @typedef {import('../types').SopReference} SopReference */
+/** @typedef {import('../types').SopViolation} SopViolation */
+/** @typedef {import('../types').CabinetConfiguration} CabinetConfiguration */
+/** @typedef {import('../types').ConfigurationEvaluation} ConfigurationEvaluation */
+/** @typedef {import('../types').ClearanceBufferRule} ClearanceBufferRule */
+/** @typedef {import('../types').SopRule} SopRule */
+
+import { findActiveRules } from './activeSops.js';
+import { getInsulationSop } from './insulation.js';
+import { evaluatePlacement } from './placement.js';
+import { getStackingSop } from './stacking.js';
+
+/**
+ * @param {SOP} sop
+ * @returns {SopReference}
+ */
+const refOf = sop => ({ sopId: sop.id, sopVersion: sop.version });
+
+/**
+ * @param {ClearanceBufferRule['appliesTo']} appliesTo
+ * @param {CabinetModel} model
+ */
+function ruleAppliesTo(appliesTo, model) {
+    if (appliesTo.type && appliesTo.type !== model.type) return false;
+    if (appliesTo.modelPrefix && !model.id.toUpperCase().startsWith(appliesTo.modelPrefix.toUpperCase())) return false;
+    return true;
+}
+
+/**
+ * One-line human-readable statement of a rule, used in prompts and version diffs.
+ * @param {SopRule} rule
+ * @returns {string}
+ */
+export function describeRule(rule) {
+    switch (rule.kind) {
+        case 'dimensionDeduction':
+            return `${rule.thicknessMm}mm ${rule.option} removes ${rule.deductionMm}mm from each internal dimension`;
+        case 'weightThreshold':
+            return `equipment over ${rule.maxShelfKg}kg must be base-loaded`;
+        case 'stackingLimit':
+            return `${rule.appliesToType} models stack at most ${rule.maxTiers} high and ${rule.maxStackHeightMm}mm overall`;
+        case 'clearanceBuffer':
+            return `keep ${rule.bufferMm}mm extra clearance on ${rule.axes.join('/').toUpperCase()} for ${rule.appliesTo.modelPrefix ? `${rule.appliesTo.modelPrefix} series` : `${rule.appliesTo.type} models`}`;
+        case 'forbiddenCombination':
+            return `not permitted: ${rule.options.join(' + ')} (${rule.reason})`;
+        default:
+            return '';
+    }
+}
+
+/**
+ * Option tags a configuration carries, explicit and implied, normalised for matching
+ * against forbidden-combination rules.
+ * @param {CabinetConfiguration} config
+ * @param {CabinetModel} model
+ * @returns {Set<string>}
+ */
+export function configurationTags(config, model) {
+    const tags = [
+        ...(config.options || []),
+        `model:${model.id}`,
+        `type:${model.type}`,
+        `insulation:${config.insulationMm || 0}`
+    ];
+    return new Set(tags.map(t => t.trim().toLowerCase()));
+}
+
+/**
+ * Evaluate one configuration against every SOP rule in force.
+ * @param {CabinetConfiguration} config
+ * @param {CabinetModel} model
+ * @param {SOP[]} sops
+ * @returns {ConfigurationEvaluation}
+ */
+export function evaluateConfiguration(config, model, sops) {
+    /** @type {SopViolation[]} */
+    const violations = [];
+    /** @type {string[]} */
+    const warnings = [];
+    /** @type {Map<string, SopReference>} */
+    const applied = new Map();
+    const apply = (/** @type {SOP} */ sop) => applied.set(sop.id, refOf(sop));
+    const internalDims = { ...model.internalDimsBase };
+
+    // Dimension deductions (insulation)
+    const insulationMm = config.insulationMm || 0;
+    if (insulationMm > 0) {
+        const source = getInsulationSop(sops);
+        const rule = source?.rules.find(r => r.thicknessMm === insulationMm);
+        if (source && rule) {
+            internalDims.h -= rule.deductionMm;
+            internalDims.w -= rule.deductionMm;
+            internalDims.d -= rule.deductionMm;
+            apply(source.sop);
+        } else if (source) {
+            violations.push({
+                ...refOf(source.sop), rule: 'dimensionDeduction', modelId: model.id,
+                message: `${insulationMm}mm insulation is not an approved option (approved: ${source.rules.map(r => `${r.thicknessMm}mm`).join(', ')})`
+            });
+        } else {
+            warnings.push(`No SOP in force defines insulation deductions; ${insulationMm}mm insulation not applied`);
+        }
+    }
+
+    // Clearance buffers
+    for (const { sop, rule } of findActiveRules(sops, 'clearanceBuffer')) {
+        if (!ruleAppliesTo(rule.appliesTo, model)) continue;
+        for (const axis of rule.axes) internalDims[axis] -= rule.bufferMm;
+        apply(sop);
+    }
+
+    if (internalDims.h <= 0 || internalDims.w <= 0 || internalDims.d <= 0) {
+        for (const ref of applied.values()) {
+            violations.push({ ...ref, rule: 'dimensionDeduction', modelId: model.id, message: `Deductions leave no usable internal space in ${model.id}` });
+        }
+    }
+
+    // Weight / placement
+    if (config.equipment && config.equipment.length > 0) {
+        const placement = evaluatePlacement(config.equipment, sops);
+        if (placement) {
+            applied.set(placement.sopId, { sopId: placement.sopId, sopVersion: placement.sopVersion });
+            violations.push(...placement.violations.map(v => ({ ...v, modelId: model.id })));
+        } else if (config.equipment.some(it => it.placement)) {
+            warnings.push('No SOP in force defines a base-loading weight threshold');
+        }
+    }
+
+    // Stacking limits
+    if (config.stackTiers && config.stackTiers > 1) {
+        const source = getStackingSop(model.type, sops);
+        if (source) {
+            apply(source.sop);
+            const { rule } = source;
+            const stackHeight = config.stackTiers * model.externalDims.h;
+            if (config.stackTiers > rule.maxTiers) {
+                violations.push({ ...refOf(source.sop), rule: 'stackingLimit', modelId: model.id, message: `${config.stackTiers} tiers exceeds the ${rule.maxTiers}-tier limit for ${model.type} models` });
+            } else if (stackHeight > rule.maxStackHeightMm) {
+                violations.push({ ...refOf(source.sop), rule: 'stackingLimit', modelId: model.id, message: `Stack height ${stackHeight}mm exceeds the ${rule.maxStackHeightMm}mm limit` });
+            }
+        }
+    }
+
+    // Forbidden option combinations
+    const tags = configurationTags(config, model);
+    for (const { sop, rule } of findActiveRules(sops, 'forbiddenCombination')) {
+        if (rule.options.every(opt => tags.has(opt.trim().toLowerCase()))) {
+            violations.push({ ...refOf(sop), rule: 'forbiddenCombination', modelId: model.id, message: rule.reason });
+        }
+    }
+
+    return {
+        modelId: model.id,
+        internalDims,
+        appliedSops: [...applied.values()],
+        violations,
+        warnings
+    };
+}
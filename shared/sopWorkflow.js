@@ -0,0 +1,60 @@
+// @ts-check
+// SOP approval workflow: which reviewer roles a draft needs and how far it has got.
+// The server enforces it; the admin UI uses the same helpers to show progress.
+
+/** @typedef {import('../types').SOP} SOP */
+/** @typedef {import('../types').SopReview} SopReview */
+/** @typedef {import('../types').SopReviewRequirement} SopReviewRequirement */
+/** @typedef {import('../types').SopWorkflowRule} SopWorkflowRule */
+
+/** @type {SopWorkflowRule[]} */
+export const DEFAULT_SOP_WORKFLOW = [
+  { category: '*', reviews: [{ role: 'engineering', count: 1 }, { role: 'admin', count: 1 }] },
+  { category: 'Safety', reviews: [{ role: 'engineering', count: 2 }, { role: 'admin', count: 1 }] }
+];
+
+/**
+ * Review requirements for an SOP's category, falling back to the '*' rule.
+ * @param {SOP} sop
+ * @param {SopWorkflowRule[]} workflow
+ * @returns {SopReviewRequirement[]}
+ */
+export function requiredReviews(sop, workflow) {
+    const rule = workflow.find(w => w.category === sop.category) || workflow.find(w => w.category === '*');
+    return rule ? rule.reviews : [];
+}
+
+/**
+ * Approving reviews collected against each requirement.
+ * @param {SOP} sop
+ * @param {SopWorkflowRule[]} workflow
+ * @returns {(SopReviewRequirement & { approvals: SopReview[] })[]}
+ */
+export function reviewProgress(sop, workflow) {
+    const approvals = (sop.reviews || []).filter(r => r.decision === 'approve');
+    return requiredReviews(sop, workflow).map(req => ({
+        ...req,
+        approvals: approvals.filter(r => r.role === req.role)
+    }));
+}
+
+/**
+ * @param {SOP} sop
+ * @param {SopWorkflowRule[]} workflow
+ */
+export function isReviewComplete(sop, workflow) {
+    return reviewProgress(sop, workflow).every(p => p.approvals.length >= p.count);
+}
+
+/**
+ * Whether one more approval in `role` would finish the review (the final sign-off that approves the SOP).
+ * @param {SOP} sop
+ * @param {SopWorkflowRule[]} workflow
+ * @param {string} role
+ */
+export function completesReview(sop, workflow, role) {
+    const progress = reviewProgress(sop, workflow);
+    const slot = progress.find(p => p.role === role);
+    if (!slot || slot.approvals.length >= slot.count) return false;
+    return progress.every(p => p === slot ? p.approvals.length + 1 >= p.count : p.approvals.length >= p.count);
+}
@@ -0,0 +1,38 @@
+// @ts-check
+// Seed SOP library, shared by the browser and the Express server
+// Structured `rules` are what the deterministic tools read; `description` stays the human-readable summary
+
+/** @typedef {import('../types').SOP} SOP */
+
+/** @type {SOP[]} */
+export const ACTIVE_SOPS = [
+  {
+    id: 'SOP-JB-01', title: 'Standard Insulation Deductions', description: '25mm insulation reduces internal H/W/D by 50mm total. 50mm insulation reduces internal H/W/D by 100mm total.', version: '2.1.0', status: 'Active', lastUpdated: '2024-02-01', category: 'Engineering',
+    rules: [
+      { kind: 'dimensionDeduction', option: 'insulation', thicknessMm: 25, deductionMm: 50 },
+      { kind: 'dimensionDeduction', option: 'insulation', thicknessMm: 50, deductionMm: 100 }
+    ]
+  },
+  {
+    id: 'SOP-JB-05', title: 'Heavy Equipment Placement', description: 'Mandatory base-loading for equipment exceeding 15kg.', version: '1.4.2', status: 'Active', lastUpdated: '2023-11-15', category: 'Safety',
+    rules: [
+      { kind: 'weightThreshold', maxShelfKg: 15 }
+    ]
+  },
+  {
+    id: 'SOP-JB-12', title: 'Chest Stacking Constraints', description: 'Vertical stacking limits for lifejacket chest models.', version: '3.0.1', status: 'Active', lastUpdated: '2024-01-20', category: 'Logistics',
+    rules: [
+      { kind: 'stackingLimit', appliesToType: 'Chest', maxTiers: 2, maxStackHeightMm: 1800 }
+    ]
+  }
+];
+
+/** @type {SOP[]} */
+export const PROPOSED_CHANGES = [
+  {
+    id: 'SOP-JB-15', title: 'RS Series Clearance Upgrade', description: 'Proposed 10mm buffer increase for RS shutter tracks.', version: '4.0.0-draft', status: 'Draft', lastUpdated: '2024-03-10', category: 'R&D',
+    rules: [
+      { kind: 'clearanceBuffer', appliesTo: { modelPrefix: 'RS' }, axes: ['w', 'd'], bufferMm: 10 }
+    ]
+  }
+];
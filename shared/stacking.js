@@ -0,0 +1,120 @@
+// @ts-check
+// Lifejacket chest stacking planner, bounded by whichever active SOP carries stacking limits (SOP-JB-12 today)
+
+/** @typedef {import('../types').CabinetModel} CabinetModel */
+/** @typedef {import('../types').SOP} SOP */
+/** @typedef {import('../types').StackingLimitRule} StackingLimitRule */
+/** @typedef {import('../types').StackingPlan} StackingPlan */
+/** @typedef {import('../types').StackingPlanResult} StackingPlanResult */
+
+import { findActiveRules } from './activeSops.js';
+
+/**
+ * The SOP stacking limit in force for a model type.
+ * @param {CabinetModel['type']} type
+ * @param {SOP[]} sops
+ * @returns {{ sop: SOP, rule: StackingLimitRule } | null}
+ */
+export function getStackingSop(type, sops) {
+    return findActiveRules(sops, 'stackingLimit').find(m => m.rule.appliesToType === type) || null;
+}
+
+/**
+ * Plan one chest model: how many chests, how many tiers, and how to split them into stacks.
+ * @param {number} lifejackets
+ * @param {number} deckHeightMm
+ * @param {CabinetModel} model
+ * @param {SOP[]} sops
+ * @returns {{ plan: StackingPlan } | { reason: string }}
+ */
+export function planModelStacking(lifejackets, deckHeightMm, model, sops) {
+    const perChest = model.capacity?.lifejackets;
+    if (!perChest) return { reason: 'No rated lifejacket capacity' };
+
+    const chestHeight = model.externalDims.h;
+    const deckTiers = Math.floor(deckHeightMm / chestHeight);
+    if (deckTiers < 1) {
+        return { reason: `Deck height ${deckHeightMm}mm is below the ${chestHeight}mm chest height` };
+    }
+
+    const source = getStackingSop(model.type, sops);
+    const sopTiers = source ? source.rule.maxTiers : Infinity;
+    const sopHeightTiers = source ? Math.floor(source.rule.maxStackHeightMm / chestHeight) : Infinity;
+    // Even a single chest breaks the SOP: no plan rather than a 1-tier stack that isn't allowed
+    if (source && sopHeightTiers < 1) {
+        return { reason: `The ${chestHeight}mm chest is taller than the ${source.rule.maxStackHeightMm}mm stack limit in ${source.sop.id} v${source.sop.version}` };
+    }
+    const tiers = Math.min(deckTiers, sopTiers, sopHeightTiers);
+
+    /** @type {StackingPlan['limitedBy']} */
+    let limitedBy = 'deckHeight';
+    if (tiers === sopTiers && sopTiers < deckTiers) limitedBy = 'sopTiers';
+    else if (tiers === sopHeightTiers && sopHeightTiers < deckTiers) limitedBy = 'sopHeight';
+
+    const chests = Math.ceil(lifejackets / perChest);
+    const stackCount = Math.ceil(chests / tiers);
+    // Spread evenly so no stack is taller than it needs to be
+    const stacks = Array.from({ length: stackCount }, (_, i) =>
+        Math.floor(chests / stackCount) + (i < chests % stackCount ? 1 : 0));
+
+    return {
+        plan: {
+            modelId: model.id,
+            title: model.title,
+            perChest,
+            chests,
+            tiers,
+            stacks,
+            stackHeightMm: Math.max(...stacks) * chestHeight,
+            footprint: { w: stackCount * model.externalDims.w, d: model.externalDims.d },
+            spareCapacity: chests * perChest - lifejackets,
+            limitedBy,
+            sopId: source?.sop.id,
+            sopVersion: source?.sop.version
+        }
+    };
+}
+
+/**
+ * Propose stacking plans for every chest model in the catalog.
+ * Plans are ranked by deck footprint, then by number of chests.
+ * @param {number} lifejackets
+ * @param {number} deckHeightMm
+ * @param {CabinetModel[]} catalog
+ * @param {SOP[]} sops
+ * @returns {StackingPlanResult}
+ */
+export function planChestStacking(lifejackets, deckHeightMm, catalog, sops) {
+    /** @type {StackingPlan[]} */
+    const plans = [];
+    /** @type {{ modelId: string, reason: string }[]} */
+    const rejected = [];
+
+    if (lifejackets > 0 && deckHeightMm > 0) {
+        for (const model of catalog.filter(m => m.type === 'Chest')) {
+            const result = planModelStacking(lifejackets, deckHeightMm, model, sops);
+            if ('plan' in result) {
+                plans.push(result.plan);
+            } else {
+                rejected.push({ modelId: model.id, reason: result.reason });
+            }
+        }
+    }
+
+    plans.sort((a, b) => a.footprint.w * a.footprint.d - b.footprint.w * b.footprint.d || a.chests - b.chests);
+    return { lifejackets, deckHeightMm, plans, rejected };
+}
+
+/**
+ * Plain-text summary for chat history and exports.
+ * @param {StackingPlanResult} result
+ * @returns {string}
+ */
+export function summarizeStackingPlan(result) {
+    const ask = `Stacking plan for ${result.lifejackets} lifejackets under ${result.deckHeightMm}mm deck height`;
+    const best = result.plans[0];
+    if (!best) return `${ask}: no chest model can be used.`;
+
+    const sop = best.sopId ? ` (${best.sopId} v${best.sopVersion}: max ${best.tiers} high)` : '';
+    return `${ask}: ${best.chests} x ${best.modelId} in ${best.stacks.length} stack${best.stacks.length !== 1 ? 's' : ''} of ${best.stacks.join('/')}${sop}, ${best.stackHeightMm}mm tall, ${best.footprint.w}x${best.footprint.d}mm footprint.`;
+}
@@ -0,0 +1,42 @@
+// @ts-check
+// Wire format of the selection stream (POST /api/chat/stream): one `data: <json>` line per event,
+// preceded by an `id: <n>` line numbering it for Last-Event-ID resumes (GET /api/chat/stream/:id).
+// Comment lines (": keepalive") carry no event; readers skip event types they don't know.
+
+/** @typedef {import('../types').SelectionStreamEvent} SelectionStreamEvent */
+
+/**
+ * One event, ready to write to the response.
+ * @param {SelectionStreamEvent} event
+ * @param {number} [id]
+ * @returns {string}
+ */
+export function formatStreamEvent(event, id) {
+    return `${id === undefined ? '' : `id: ${id}\n`}data: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * The event number on an `id:` line, or null for any other line.
+ * @param {string} line
+ * @returns {string | null}
+ */
+export function parseStreamEventId(line) {
+    const trimmed = line.trim();
+    return trimmed.startsWith('id: ') ? trimmed.slice(4) : null;
+}
+
+/**
+ * The event on one line of the stream, or null for comments, blank lines and malformed data.
+ * @param {string} line
+ * @returns {SelectionStreamEvent | null}
+ */
+export function parseStreamEvent(line) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data: ')) return null;
+    try {
+        const event = JSON.parse(trimmed.slice(6));
+        return event && typeof event.type === 'string' ? event : null;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,133 @@
+// Hash-chained audit log (server/auditLog.js): verification catches edits, removals and truncation on disk,
+// including those made while the server was down
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { useTempDataDir } from './tempDataDir.js';
+
+const dataDir = useTempDataDir();
+const { recordAudit, verifyAuditLog } = await import('../server/auditLog.js');
+
+const auditFile = path.join(dataDir, 'audit.jsonl');
+const checkpointFile = path.join(dataDir, 'audit.checkpoint.json');
+const readLines = () => fs.readFileSync(auditFile, 'utf8').split('\n').filter(Boolean);
+
+// Runs `tamper` on the log lines, verifies, then puts the original file back
+function verifyTampered(tamper) {
+    const original = fs.readFileSync(auditFile, 'utf8');
+    try {
+        fs.writeFileSync(auditFile, tamper(readLines()).map(line => line + '\n').join(''));
+        return verifyAuditLog();
+    } finally {
+        fs.writeFileSync(auditFile, original);
+    }
+}
+
+recordAudit('alice', 'Approve SOP', 'SOP-JB-01 v1.1 approved');
+recordAudit('bob', 'Create User', 'Created carol (sales)');
+recordAudit('alice', 'Deprecate SOP', 'SOP-JB-05 deprecated');
+
+test('an untouched log verifies and links every entry to the previous one', () => {
+    const result = verifyAuditLog();
+    assert.equal(result.valid, true);
+    assert.equal(result.checked, 3);
+
+    const entries = readLines().map(line => JSON.parse(line));
+    assert.equal(entries[0].prevHash, '0'.repeat(64));
+    assert.equal(entries[1].prevHash, entries[0].hash);
+    assert.equal(result.headHash, entries[2].hash);
+});
+
+test('an edited entry fails verification at that entry', () => {
+    const result = verifyTampered(lines => lines.map((line, i) =>
+        i === 1 ? JSON.stringify({ ...JSON.parse(line), changeDetail: 'Created carol (admin)' }) : line));
+    assert.equal(result.valid, false);
+    assert.equal(result.checked, 1);
+    assert.deepEqual(result.firstInvalid, { seq: 2, id: 'LOG-000002', reason: 'content does not match its hash (entry edited)' });
+});
+
+test('an entry re-hashed after editing still breaks the link from the next one', () => {
+    const result = verifyTampered(lines => {
+        const entries = lines.map(line => JSON.parse(line));
+        const forged = { ...entries[1], changeDetail: 'Created carol (admin)' };
+        const { seq, id, user, action, timestamp, changeDetail, prevHash } = forged;
+        forged.hash = crypto.createHash('sha256').update(JSON.stringify([seq, id, user, action, timestamp, changeDetail, prevHash])).digest('hex');
+        return [entries[0], forged, entries[2]].map(entry => JSON.stringify(entry));
+    });
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.firstInvalid, { seq: 3, id: 'LOG-000003', reason: 'previous-hash link is broken (entry removed or reordered)' });
+});
+
+test('a removed entry is reported', () => {
+    const result = verifyTampered(lines => [lines[0], lines[2]]);
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.firstInvalid, { seq: 3, id: 'LOG-000003', reason: 'expected sequence 2, found 3' });
+});
+
+test('a line that is no longer JSON is reported', () => {
+    const result = verifyTampered(lines => [lines[0], '{ not json', lines[2]]);
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.firstInvalid, { seq: 2, id: null, reason: 'line is not valid JSON' });
+});
+
+test('entries truncated from the end are reported', () => {
+    const result = verifyTampered(lines => lines.slice(0, 2));
+    assert.equal(result.valid, false);
+    assert.equal(result.firstInvalid.reason, 'entries truncated from the end of the log');
+    assert.equal(result.firstInvalid.id, 'LOG-000003');
+});
+
+test('the log verifies again once the original file is back', () => {
+    assert.equal(verifyAuditLog().valid, true);
+});
+
+// Runs `tamper` on the log lines, then loads a fresh copy of the module as a restarted server would
+// and verifies with it; the log and checkpoint are put back afterwards
+let restarts = 0;
+async function verifyAfterRestart(tamper, tamperCheckpoint = checkpoint => checkpoint) {
+    const original = { log: fs.readFileSync(auditFile, 'utf8'), checkpoint: fs.readFileSync(checkpointFile, 'utf8') };
+    try {
+        fs.writeFileSync(auditFile, tamper(readLines()).map(line => line + '\n').join(''));
+        const checkpoint = tamperCheckpoint(JSON.parse(original.checkpoint));
+        if (checkpoint) fs.writeFileSync(checkpointFile, JSON.stringify(checkpoint));
+        else fs.rmSync(checkpointFile);
+        const restarted = await import(`../server/auditLog.js?restart=${++restarts}`);
+        return { result: restarted.verifyAuditLog(), recorded: restarted.listAudit()[0] };
+    } finally {
+        fs.writeFileSync(auditFile, original.log);
+        fs.writeFileSync(checkpointFile, original.checkpoint);
+    }
+}
+
+test('after a restart, an intact log still verifies and nothing is recorded', async () => {
+    const { result, recorded } = await verifyAfterRestart(lines => lines);
+    assert.equal(result.valid, true);
+    assert.equal(recorded.id, 'LOG-000003');
+});
+
+test('after a restart, entries deleted from the end are caught by the checkpoint', async () => {
+    const { result, recorded } = await verifyAfterRestart(lines => lines.slice(0, 2));
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.firstInvalid, { seq: 3, id: 'LOG-000003', reason: 'entries truncated from the end of the log' });
+    // The finding goes into the log, where it outlives this process
+    assert.equal(recorded.action, 'Audit Log Tampered');
+    assert.match(recorded.changeDetail, /entries truncated from the end of the log \(at LOG-000003, 2 entries on disk\)/);
+});
+
+test('after a restart, a checkpoint rewritten to match a shortened log is rejected', async () => {
+    const { result } = await verifyAfterRestart(
+        lines => lines.slice(0, 2),
+        checkpoint => ({ ...checkpoint, seq: 2, hash: JSON.parse(readLines()[1]).hash })
+    );
+    assert.equal(result.valid, false);
+    assert.equal(result.firstInvalid.reason, 'checkpoint signature does not match (checkpoint edited)');
+});
+
+test('after a restart, a deleted checkpoint is reported', async () => {
+    const { result } = await verifyAfterRestart(lines => lines, () => null);
+    assert.equal(result.valid, false);
+    assert.match(result.firstInvalid.reason, /^checkpoint is missing/);
+});
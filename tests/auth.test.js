@@ -0,0 +1,107 @@
+// Sessions (server/auth.js): signed tokens are rejected once expired, revoked or altered, and accepted
+// by every server instance sharing DATA_DIR
+
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { useTempDataDir } from './tempDataDir.js';
+
+useTempDataDir();
+const { login, logout, authenticate, createUser, updateUser } = await import('../server/auth.js');
+
+createUser({ username: 'carol', name: 'Carol Sales', role: 'sales', password: 'carol-password' }, 'admin');
+createUser({ username: 'dave', name: 'Dave Engineer', role: 'engineering', password: 'dave-password' }, 'admin');
+
+const HOUR = 60 * 60 * 1000;
+const decode = part => JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+const encode = claims => Buffer.from(JSON.stringify(claims)).toString('base64url');
+
+test('a fresh token resolves to its user', () => {
+    const { token, user } = login('carol', 'carol-password');
+    assert.equal(user.passwordHash, undefined);
+    assert.equal(authenticate(token).user.username, 'carol');
+});
+
+test('wrong passwords and unknown users get the same 401', () => {
+    for (const [username, password] of [['carol', 'wrong-password'], ['nobody', 'carol-password']]) {
+        assert.throws(() => login(username, password), { status: 401, message: 'Invalid username or password' });
+    }
+});
+
+test('a token stops working once it expires (12 hours by default)', () => {
+    mock.timers.enable({ apis: ['Date'], now: Date.now() });
+    try {
+        const { token } = login('carol', 'carol-password');
+        mock.timers.tick(11 * HOUR);
+        assert.ok(authenticate(token));
+        mock.timers.tick(2 * HOUR);
+        assert.equal(authenticate(token), null);
+    } finally {
+        mock.timers.reset();
+    }
+});
+
+test('a token whose claims were edited is rejected', () => {
+    const carol = login('carol', 'carol-password').token;
+    const dave = login('dave', 'dave-password').token;
+    const [payload, signature] = carol.split('.');
+
+    // Someone else's name, or a later expiry, under carol's signature
+    assert.equal(authenticate(`${encode({ ...decode(payload), sub: 'dave' })}.${signature}`), null);
+    assert.equal(authenticate(`${encode({ ...decode(payload), exp: '2999-01-01T00:00:00.000Z' })}.${signature}`), null);
+    // Carol's claims with dave's signature
+    assert.equal(authenticate(`${payload}.${dave.split('.')[1]}`), null);
+});
+
+test('a token signed with another secret is rejected', () => {
+    const [payload] = login('carol', 'carol-password').token.split('.');
+    const forged = crypto.createHmac('sha256', 'not-the-server-secret').update(payload).digest('base64url');
+    assert.equal(authenticate(`${payload}.${forged}`), null);
+});
+
+test('malformed tokens are rejected', () => {
+    for (const token of [undefined, '', 'abc', 'abc.', '.abc', 'a.b.c', `${encode('not claims')}.x`]) {
+        assert.equal(authenticate(token), null);
+    }
+});
+
+test('logging out revokes the token', () => {
+    const { token } = login('carol', 'carol-password');
+    logout(authenticate(token).session);
+    assert.equal(authenticate(token), null);
+});
+
+test('disabling an account or resetting its password ends its sessions', () => {
+    const before = login('dave', 'dave-password').token;
+    updateUser('dave', { password: 'dave-new-password' }, 'admin');
+    assert.equal(authenticate(before), null);
+
+    const after = login('dave', 'dave-new-password').token;
+    updateUser('dave', { disabled: true }, 'admin');
+    assert.equal(authenticate(after), null);
+    assert.throws(() => login('dave', 'dave-new-password'), { status: 401 });
+});
+
+test('another server instance sharing DATA_DIR accepts the token and sees the logout', async () => {
+    const other = await import('../server/auth.js?instance=2');
+    const { token } = login('carol', 'carol-password');
+    assert.equal(other.authenticate(token).user.username, 'carol');
+
+    other.logout(other.authenticate(token).session);
+    assert.equal(authenticate(token), null);
+});
+
+test('production refuses to start without SESSION_SECRET or ADMIN_PASSWORD', async () => {
+    try {
+        process.env.NODE_ENV = 'production';
+        delete process.env.SESSION_SECRET;
+        await assert.rejects(import('../server/secrets.js?instance=3'), /SESSION_SECRET must be set in production/);
+        process.env.SESSION_SECRET = 'test-session-secret';
+        delete process.env.ADMIN_PASSWORD;
+        await assert.rejects(import('../server/auth.js?instance=4'), /ADMIN_PASSWORD must be set in production/);
+    } finally {
+        delete process.env.NODE_ENV;
+        process.env.SESSION_SECRET = 'test-session-secret';
+        process.env.ADMIN_PASSWORD = 'test-admin-password';
+    }
+});
@@ -0,0 +1,69 @@
+// Saved chat sessions (server/chatSessions.js): one file per session under its owner, uploads kept by name only
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { useTempDataDir } from './tempDataDir.js';
+
+const dataDir = useTempDataDir();
+
+// A session saved by an older server, in the single shared collection
+const legacySession = {
+    id: 'chat-old', owner: 'carol', title: 'Old enquiry', timestamp: '2026-01-05T09:00:00.000Z', updatedAt: '2026-01-05T09:10:00.000Z',
+    messages: [{ role: 'user', content: 'Fire hose cabinet for two hoses' }], datasheets: [],
+    sessionFiles: [{ name: 'spec.txt', content: 'Two 30m hoses' }]
+};
+fs.writeFileSync(path.join(dataDir, 'chatSessions.json'), JSON.stringify([legacySession]));
+
+const { saveChatSession, getChatSession, listChatSessions, updateChatSessionMeta, deleteChatSession } = await import('../server/chatSessions.js');
+
+const sessionFile = (owner, id) => path.join(dataDir, 'chatSessions', owner, `${id}.json`);
+const input = (title, extra = {}) => ({ title, messages: [{ role: 'user', content: 'Lifejacket chest for 40' }], datasheets: [], ...extra });
+
+test('sessions from the old shared collection are moved to their own files', () => {
+    assert.equal(fs.existsSync(path.join(dataDir, 'chatSessions.json')), false);
+    assert.deepEqual(getChatSession('chat-old', 'carol').sessionFiles, [{ name: 'spec.txt' }]);
+    assert.equal(listChatSessions('carol')[0].title, 'Old enquiry');
+});
+
+test('each save rewrites only that session, under its owner', () => {
+    saveChatSession('chat-1', input('Lifejackets'), 'carol');
+    saveChatSession('chat-2', input('Fire hoses'), 'carol');
+    assert.ok(fs.existsSync(sessionFile('carol', 'chat-1')));
+    assert.ok(fs.existsSync(sessionFile('carol', 'chat-2')));
+
+    const untouched = fs.statSync(sessionFile('carol', 'chat-2')).mtimeMs;
+    saveChatSession('chat-1', input('Lifejackets, revised'), 'carol');
+    assert.equal(fs.statSync(sessionFile('carol', 'chat-2')).mtimeMs, untouched);
+    assert.equal(getChatSession('chat-1', 'carol').title, 'Lifejackets, revised');
+});
+
+test('uploaded files are stored by name, never their text', () => {
+    saveChatSession('chat-3', input('With a spec', { sessionFiles: [{ name: 'tender.txt', content: 'Confidential tender text' }] }), 'carol');
+    assert.deepEqual(getChatSession('chat-3', 'carol').sessionFiles, [{ name: 'tender.txt' }]);
+    assert.doesNotMatch(fs.readFileSync(sessionFile('carol', 'chat-3'), 'utf8'), /Confidential tender text/);
+});
+
+test("another user's session is unknown, and the same id can be theirs too", () => {
+    assert.throws(() => getChatSession('chat-1', 'dave'), { status: 404 });
+    assert.throws(() => updateChatSessionMeta('chat-1', { pinned: true }, 'dave'), { status: 404 });
+    assert.throws(() => deleteChatSession('chat-1', 'dave'), { status: 404 });
+
+    saveChatSession('chat-1', input('Dave\'s own'), 'dave');
+    assert.equal(getChatSession('chat-1', 'dave').title, 'Dave\'s own');
+    assert.equal(getChatSession('chat-1', 'carol').title, 'Lifejackets, revised');
+});
+
+test('ids that could escape the owner directory are unknown', () => {
+    for (const id of ['..', '../dave/chat-1', '.']) {
+        assert.throws(() => getChatSession(id, 'carol'), { status: 404 });
+    }
+});
+
+test('pinning and deleting touch only that session', () => {
+    assert.equal(updateChatSessionMeta('chat-2', { pinned: true }, 'carol').pinned, true);
+    deleteChatSession('chat-2', 'carol');
+    assert.equal(fs.existsSync(sessionFile('carol', 'chat-2')), false);
+    assert.deepEqual(listChatSessions('carol').map(s => s.id).sort(), ['chat-1', 'chat-3', 'chat-old']);
+});
@@ -0,0 +1,62 @@
+// Equipment fit engine (shared/fitCheck.js): clearances, rotation and SOP-shaped internal space
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkModelFit, checkEquipmentFit, getOrientations } from '../shared/fitCheck.js';
+
+const cabinet = (id, internal = { h: 1000, w: 800, d: 600 }) => ({
+    id, title: `${id} cabinet`, type: 'Cabinet', category: 'Test', description: '',
+    externalDims: { h: internal.h + 50, w: internal.w + 50, d: internal.d + 50 },
+    internalDimsBase: internal
+});
+
+const item = (h, w, d, qty = 1, weight = 5) => ({ type: 'Pump', qty, dims: { h, w, d }, weight });
+
+const bufferSop = (bufferMm, status = 'Active') => ({
+    id: 'SOP-JB-15', title: 'RS Series Clearance Upgrade', version: '4.0.0', status, category: 'R&D',
+    rules: [{ kind: 'clearanceBuffer', appliesTo: { modelPrefix: 'RS' }, axes: ['w', 'd'], bufferMm }]
+});
+
+test('an item exactly the internal size fits with zero clearance', () => {
+    const result = checkModelFit([item(1000, 800, 600)], cabinet('JB'));
+    assert.ok('fit' in result, `expected a fit, got: ${'reason' in result && result.reason}`);
+    assert.deepEqual(result.fit.clearance, { h: 0, w: 0, d: 0 });
+    assert.equal(result.fit.minClearance, 0);
+    assert.equal(result.fit.utilisation, 100);
+});
+
+test('an item 1mm over the internal size does not fit in any orientation', () => {
+    const result = checkModelFit([item(1001, 800, 600)], cabinet('JB'));
+    assert.deepEqual(result, { reason: 'Pump exceeds internal dimensions in every orientation' });
+});
+
+test('of the orientations that fit, the one with the most clearance wins', () => {
+    // Two orientations fit; 550 across leaves at least 100mm spare, 400 across only 50mm of depth
+    const result = checkModelFit([item(900, 550, 400)], cabinet('JB'));
+    assert.ok('fit' in result);
+    assert.deepEqual(result.fit.placements[0].orientation, { h: 900, w: 550, d: 400 });
+    assert.equal(result.fit.minClearance, 100);
+    assert.equal(getOrientations({ h: 100, w: 100, d: 200 }).length, 3);
+});
+
+test('units side by side fit up to the width and no further', () => {
+    assert.ok('fit' in checkModelFit([item(1000, 400, 600, 2, 20)], cabinet('JB'), undefined, 15));
+    assert.deepEqual(checkModelFit([item(1000, 400, 600, 3, 20)], cabinet('JB'), undefined, 15), { reason: 'Insufficient floor space for 3 units' });
+});
+
+test('an SOP clearance buffer takes the boundary fit away from matching models only', () => {
+    const kit = [item(1000, 800, 600)];
+    const sops = [bufferSop(10)];
+    const result = checkEquipmentFit(kit, [cabinet('JB'), cabinet('RS1')], sops);
+    assert.deepEqual(result.fits.map(f => f.modelId), ['JB']);
+    assert.deepEqual(result.rejected, [{ modelId: 'RS1', reason: 'Pump exceeds internal dimensions in every orientation' }]);
+
+    // 10mm narrower and shallower still fits, with nothing to spare
+    const snug = checkEquipmentFit([item(1000, 790, 590)], [cabinet('RS1')], sops);
+    assert.equal(snug.fits.length, 1);
+    assert.deepEqual(snug.fits[0].clearance, { h: 0, w: 0, d: 0 });
+    assert.deepEqual(snug.fits[0].appliedSops, [{ sopId: 'SOP-JB-15', sopVersion: '4.0.0' }]);
+
+    // A draft buffer is not in force
+    assert.equal(checkEquipmentFit(kit, [cabinet('RS1')], [bufferSop(10, 'Draft')]).fits.length, 1);
+});
@@ -0,0 +1,52 @@
+// Insulation deductions (shared/insulation.js): internal dimensions per thickness under SOP-JB-01 style rules
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getInsulatedDimensions, getInternalDimsForInsulation, getInsulationSop } from '../shared/insulation.js';
+
+const cabinet = { id: 'JB08', title: 'JB08 cabinet', type: 'Cabinet', category: 'Test', description: '',
+    externalDims: { h: 1050, w: 850, d: 650 }, internalDimsBase: { h: 1000, w: 800, d: 600 } };
+
+const insulationSop = (version, rules, status = 'Active', extra = {}) => ({
+    id: 'SOP-JB-01', title: 'Standard Insulation Deductions', version, status, category: 'Engineering', ...extra,
+    rules: rules.map(([thicknessMm, deductionMm]) => ({ kind: 'dimensionDeduction', option: 'insulation', thicknessMm, deductionMm }))
+});
+
+const seeded = insulationSop('2.1.0', [[50, 100], [25, 50]]);
+
+test('each insulation thickness removes its deduction from every internal dimension', () => {
+    const result = getInsulatedDimensions(cabinet, [seeded]);
+    assert.equal(result.sopId, 'SOP-JB-01');
+    assert.equal(result.sopVersion, '2.1.0');
+    assert.deepEqual(result.options, [
+        { thicknessMm: 0, deductionMm: 0, internalDims: { h: 1000, w: 800, d: 600 }, usable: true },
+        { thicknessMm: 25, deductionMm: 50, internalDims: { h: 950, w: 750, d: 550 }, usable: true },
+        { thicknessMm: 50, deductionMm: 100, internalDims: { h: 900, w: 700, d: 500 }, usable: true }
+    ]);
+});
+
+test('a thickness no SOP defines has no internal dimensions', () => {
+    assert.deepEqual(getInternalDimsForInsulation(cabinet, 25, [seeded]), { h: 950, w: 750, d: 550 });
+    assert.equal(getInternalDimsForInsulation(cabinet, 40, [seeded]), null);
+});
+
+test('a deduction that uses up a dimension marks the option unusable', () => {
+    const small = { ...cabinet, internalDimsBase: { h: 400, w: 300, d: 100 } };
+    const option = getInsulatedDimensions(small, [seeded]).options.find(o => o.thicknessMm === 50);
+    assert.deepEqual(option.internalDims, { h: 300, w: 200, d: 0 });
+    assert.equal(option.usable, false);
+});
+
+test('a replacement SOP version changes the deductions', () => {
+    const next = insulationSop('3.0.0', [[25, 60], [50, 110]], 'Active', { id: 'SOP-JB-01-R3', replacesId: 'SOP-JB-01' });
+    const result = getInsulatedDimensions(cabinet, [seeded, next]);
+    assert.equal(result.sopId, 'SOP-JB-01-R3');
+    assert.deepEqual(result.options.map(o => o.deductionMm), [0, 60, 110]);
+    assert.equal(getInsulationSop([insulationSop('2.1.0', [[25, 50]], 'Deprecated')]), null);
+});
+
+test('without an insulation SOP only the uninsulated option is offered', () => {
+    const result = getInsulatedDimensions(cabinet, []);
+    assert.equal(result.sopId, undefined);
+    assert.deepEqual(result.options.map(o => o.thicknessMm), [0]);
+});
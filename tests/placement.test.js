@@ -0,0 +1,42 @@
+// Heavy-equipment placement (shared/placement.js): base-loading around the SOP-JB-05 style weight threshold
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluatePlacement, summarizePlacement } from '../shared/placement.js';
+
+const placementSop = (maxShelfKg, status = 'Active') => ({
+    id: 'SOP-JB-05', title: 'Heavy Equipment Placement', version: '1.4.2', status, category: 'Safety',
+    rules: [{ kind: 'weightThreshold', maxShelfKg }]
+});
+
+const item = (type, weight, placement) => ({ type, qty: 1, dims: { h: 300, w: 200, d: 200 }, weight, placement });
+
+test('equipment at the weight limit may be shelved', () => {
+    const advice = evaluatePlacement([item('Extinguisher', 15, 'shelf')], [placementSop(15)]);
+    assert.equal(advice.thresholdKg, 15);
+    assert.deepEqual(advice.items, [{ type: 'Extinguisher', weight: 15, qty: 1, suggested: 'shelf', mandatory: false }]);
+    assert.deepEqual(advice.violations, []);
+});
+
+test('equipment just over the weight limit must be base-loaded', () => {
+    const advice = evaluatePlacement([item('Pump', 15.1)], [placementSop(15)]);
+    assert.deepEqual(advice.items, [{ type: 'Pump', weight: 15.1, qty: 1, suggested: 'base', mandatory: true }]);
+    assert.deepEqual(advice.violations, []);
+});
+
+test('shelving equipment over the limit is a violation citing the SOP', () => {
+    const advice = evaluatePlacement([item('Pump', 15.1, 'shelf'), item('Hose', 4, 'base')], [placementSop(15)]);
+    assert.deepEqual(advice.violations, [{
+        sopId: 'SOP-JB-05', sopVersion: '1.4.2', rule: 'weightThreshold',
+        message: 'Pump (15.1kg) exceeds 15kg and must be base-loaded, not shelved'
+    }]);
+    // A requested base placement for light equipment is kept, not overridden
+    assert.equal(advice.items[1].suggested, 'base');
+    assert.equal(summarizePlacement(advice),
+        'SOP-JB-05 v1.4.2: base-load Pump (15.1kg). VIOLATIONS: Pump (15.1kg) exceeds 15kg and must be base-loaded, not shelved.');
+});
+
+test('without an active weight threshold there is no placement advice', () => {
+    assert.equal(evaluatePlacement([item('Pump', 40, 'shelf')], []), null);
+    assert.equal(evaluatePlacement([item('Pump', 40, 'shelf')], [placementSop(15, 'Draft')]), null);
+});
@@ -0,0 +1,122 @@
+// Resumable selection streams (server/selectionStreams.js): Last-Event-ID replays what was missed,
+// then follows the live answer
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { parseStreamEvent, parseStreamEventId } from '../shared/streamEvents.js';
+import { startSelectionStream, sendSelectionStream, cancelSelectionStream } from '../server/selectionStreams.js';
+
+// Just enough of an Express response for an SSE client
+class FakeResponse extends EventEmitter {
+    headers = {};
+    body = '';
+    writableEnded = false;
+    setHeader(name, value) { this.headers[name] = value; }
+    write(chunk) { this.body += chunk; }
+    end() {
+        this.writableEnded = true;
+        this.emit('close');
+    }
+    // [id, event] for every event written so far
+    events() {
+        const events = [];
+        let id = null;
+        for (const line of this.body.split('\n')) {
+            id = parseStreamEventId(line) ?? id;
+            const event = parseStreamEvent(line);
+            if (event) events.push([Number(id), event]);
+        }
+        return events;
+    }
+}
+
+// A generation the test drives by hand: `emit` sends its next event
+function startStream(owner = 'carol') {
+    const generation = {};
+    generation.id = startSelectionStream(owner, (signal, emit) => {
+        generation.emit = emit;
+        generation.signal = signal;
+        return new Promise(resolve => signal.addEventListener('abort', resolve));
+    });
+    return generation;
+}
+
+const searching = { type: 'stage', stage: 'searching', message: 'Searching datasheets', elapsedMs: 40 };
+const done = text => ({ type: 'done', text, datasheets: [], sops: [], sopWarnings: [] });
+
+test('a client that reconnects gets the events after Last-Event-ID, then the live ones', () => {
+    const generation = startStream();
+    const first = new FakeResponse();
+    sendSelectionStream(first, generation.id, 'carol');
+    assert.equal(first.headers['Content-Type'], 'text/event-stream');
+    assert.equal(first.headers['X-Stream-Id'], generation.id);
+
+    generation.emit(searching);
+    generation.emit({ type: 'chunk', text: 'Four' });
+    first.emit('close'); // Connection dropped after event 2
+    generation.emit({ type: 'chunk', text: 'Four LC-500' });
+
+    const resumed = new FakeResponse();
+    sendSelectionStream(resumed, generation.id, 'carol', 2);
+    assert.deepEqual(resumed.events(), [[3, { type: 'chunk', text: 'Four LC-500' }]]);
+
+    generation.emit(done('Four LC-500 chests'));
+    assert.deepEqual(resumed.events().map(([id, event]) => [id, event.type]), [[3, 'chunk'], [4, 'done']]);
+    assert.equal(resumed.writableEnded, true);
+    assert.equal(generation.signal.aborted, true);
+    assert.equal(first.events().length, 2);
+});
+
+test('only the latest chunk is replayed, since each one carries the whole answer so far', () => {
+    const generation = startStream();
+    generation.emit(searching);
+    generation.emit({ type: 'chunk', text: 'Four' });
+    generation.emit({ type: 'chunk', text: 'Four LC-500' });
+    generation.emit(done('Four LC-500 chests'));
+
+    const late = new FakeResponse();
+    sendSelectionStream(late, generation.id, 'carol');
+    assert.deepEqual(late.events().map(([id, event]) => [id, event.type]), [[1, 'stage'], [3, 'chunk'], [4, 'done']]);
+    assert.equal(late.writableEnded, true);
+
+    // Resuming after the final event just closes the response
+    const after = new FakeResponse();
+    sendSelectionStream(after, generation.id, 'carol', 4);
+    assert.deepEqual(after.events(), []);
+    assert.equal(after.writableEnded, true);
+});
+
+test('cancelling ends the generation for every connected client', () => {
+    const generation = startStream();
+    const clients = [new FakeResponse(), new FakeResponse()];
+    clients.forEach(res => sendSelectionStream(res, generation.id, 'carol'));
+
+    cancelSelectionStream(generation.id, 'carol');
+    assert.equal(generation.signal.aborted, true);
+    for (const res of clients) {
+        assert.deepEqual(res.events(), [[1, { type: 'error', error: 'Request cancelled' }]]);
+        assert.equal(res.writableEnded, true);
+    }
+    // Anything the generation still sends is dropped
+    generation.emit({ type: 'chunk', text: 'Too late' });
+    assert.equal(clients[0].events().length, 1);
+});
+
+test('a failed generation ends the stream with its error', async () => {
+    const id = startSelectionStream('carol', async () => { throw new Error('Search index unavailable'); });
+    await new Promise(resolve => setImmediate(resolve));
+
+    const res = new FakeResponse();
+    sendSelectionStream(res, id, 'carol');
+    assert.deepEqual(res.events(), [[1, { type: 'error', error: 'Search index unavailable' }]]);
+});
+
+test("another user's stream is answered like an unknown one", () => {
+    const generation = startStream('carol');
+    for (const [id, owner] of [[generation.id, 'dave'], ['no-such-stream', 'carol']]) {
+        assert.throws(() => sendSelectionStream(new FakeResponse(), id, owner), { status: 404, message: 'Unknown or expired stream' });
+        assert.throws(() => cancelSelectionStream(id, owner), { status: 404 });
+    }
+    cancelSelectionStream(generation.id, 'carol');
+});
@@ -0,0 +1,64 @@
+// Chat share links (server/sessionShares.js): a frozen snapshot, readable until revoked or expired
+
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { useTempDataDir } from './tempDataDir.js';
+
+useTempDataDir();
+const { saveChatSession } = await import('../server/chatSessions.js');
+const { createShare, revokeShare, openShare, listShares } = await import('../server/sessionShares.js');
+
+const DAY = 24 * 60 * 60 * 1000;
+const question = { role: 'user', content: 'Which chest holds 40 lifejackets?' };
+const answer = { role: 'assistant', content: 'Four LC-500 chests stacked two high.' };
+
+saveChatSession('chat-1', { title: 'Lifejacket storage', messages: [question, answer], datasheets: [] }, 'carol');
+
+test('a share opens the session as it was when the link was made', () => {
+    const { token } = createShare('chat-1', {}, 'carol');
+    saveChatSession('chat-1', { title: 'Lifejacket storage', messages: [question, answer, question], datasheets: [] }, 'carol');
+
+    const shared = openShare(token);
+    assert.equal(shared.sharedBy, 'carol');
+    assert.deepEqual(shared.messages.map(m => m.content), [question.content, answer.content]);
+    openShare(token);
+    assert.equal(listShares('chat-1', 'carol').find(s => s.token === token).viewCount, 2);
+});
+
+test('a revoked link is answered like an unknown one', () => {
+    const { token } = createShare('chat-1', {}, 'carol');
+    const revoked = revokeShare(token, 'carol');
+    assert.ok(revoked.revokedAt);
+    assert.throws(() => openShare(token), { status: 404 });
+    assert.throws(() => openShare('no-such-token'), { status: 404 });
+    // Revoking again is a no-op
+    assert.equal(revokeShare(token, 'carol').revokedAt, revoked.revokedAt);
+});
+
+test('only the owner can share or revoke', () => {
+    const { token } = createShare('chat-1', {}, 'carol');
+    assert.throws(() => revokeShare(token, 'dave'), { status: 404, message: 'Unknown share link' });
+    assert.throws(() => createShare('chat-1', {}, 'dave'), { status: 404 });
+    assert.ok(openShare(token));
+});
+
+test('a link with an expiry stops working after that many days', () => {
+    mock.timers.enable({ apis: ['Date'], now: Date.now() });
+    try {
+        const share = createShare('chat-1', { expiresInDays: 7 }, 'carol');
+        assert.equal(Date.parse(share.expiresAt), Date.now() + 7 * DAY);
+        mock.timers.tick(6 * DAY);
+        assert.ok(openShare(share.token));
+        mock.timers.tick(2 * DAY);
+        assert.throws(() => openShare(share.token), { status: 410, message: 'This share link has expired' });
+    } finally {
+        mock.timers.reset();
+    }
+});
+
+test('expiry must be a whole number of days up to a year', () => {
+    for (const expiresInDays of [0, 1.5, 366, '7']) {
+        assert.throws(() => createShare('chat-1', { expiresInDays }, 'carol'), { status: 400 });
+    }
+    assert.equal(createShare('chat-1', { expiresInDays: null }, 'carol').expiresAt, undefined);
+});
@@ -0,0 +1,28 @@
+// SOPs in chat answers (server/sopContext.js): user-entered ids, model prefixes and options are matched literally
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findRelevantSops, findSopContradictions } from '../server/sopContext.js';
+
+// Every field that ends up in a pattern carries regex syntax
+const oddSop = {
+    id: 'SOP-JB-(20+', title: 'Bracket test', description: 'Odd characters', version: '1.0.0', status: 'Active', lastUpdated: '2024-01-01', category: 'R&D',
+    rules: [
+        { kind: 'clearanceBuffer', appliesTo: { modelPrefix: 'RS[' }, axes: ['w'], bufferMm: 10 },
+        { kind: 'dimensionDeduction', option: 'foam (closed-cell', thicknessMm: 30, deductionMm: 60 }
+    ]
+};
+
+test('an SOP whose fields contain regex syntax does not break retrieval', () => {
+    assert.deepEqual(findRelevantSops('Which RS[4 fits?', [oddSop]), [oddSop]);
+    assert.deepEqual(findRelevantSops('Anything about SOP-JB-(20+?', [oddSop]), [oddSop]);
+    assert.deepEqual(findRelevantSops('Which RS4 fits?', [oddSop]), []);
+});
+
+test('an SOP whose fields contain regex syntax is still checked for contradictions', () => {
+    const answer = 'Per SOP-JB-(20+ v0.9.0, 30mm foam (closed-cell reduces each internal dimension by 40mm.';
+    assert.deepEqual(findSopContradictions(answer, [oddSop]), [
+        'Cites SOP-JB-(20+ v0.9.0, but v1.0.0 is in force',
+        'States a 40mm deduction for 30mm foam (closed-cell; SOP-JB-(20+ v1.0.0 specifies 60mm'
+    ]);
+});
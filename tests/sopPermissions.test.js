@@ -0,0 +1,92 @@
+// Who may draft and review SOPs (shared/permissions.js, enforced by POST /api/sops, POST /api/sops/:id/reviews
+// and server/sops.js)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { useTempDataDir } from './tempDataDir.js';
+
+useTempDataDir();
+const { can, canGiveApproval } = await import('../shared/permissions.js');
+const { proposeSop, reviewSop, getSopWorkflow, setSopWorkflow } = await import('../server/sops.js');
+
+let drafts = 0;
+// What POST /api/sops does: sop.propose to draft at all
+function propose(username, role, category = 'Logistics') {
+    if (!can(role, 'sop.propose')) return 403;
+    return proposeSop({ id: `SOP-TEST-${++drafts}`, title: 'Test draft', description: 'Draft under review', version: '1.0.0', category }, username);
+}
+const draft = category => propose('dave', 'engineering', category);
+
+// What the route does: sop.review to take part, and canGiveApproval before an approval counts
+function review(sop, username, role, decision, comment) {
+    if (!can(role, 'sop.review')) return 403;
+    if (decision === 'approve' && !canGiveApproval(role, sop, getSopWorkflow())) return 403;
+    return reviewSop(sop.id, { reviewer: username, role, decision, comment }, username);
+}
+
+test('only engineering and admin may review; only admin may approve outright or change the workflow', () => {
+    assert.deepEqual(['sales', 'engineering', 'admin'].map(role => can(role, 'sop.review')), [false, true, true]);
+    assert.deepEqual(['sales', 'engineering', 'admin'].map(role => can(role, 'sop.approve')), [false, false, true]);
+    assert.deepEqual(['sales', 'engineering', 'admin'].map(role => can(role, 'sop.workflow')), [false, false, true]);
+    assert.equal(can(undefined, 'sop.review'), false);
+});
+
+test('sales cannot draft an SOP; engineering and admin can', () => {
+    assert.equal(propose('carol', 'sales'), 403);
+    assert.equal(propose('dave', 'engineering').status, 'Draft');
+    assert.equal(propose('admin', 'admin').proposedBy, 'admin');
+});
+
+test('sales can neither approve nor reject a draft', () => {
+    const sop = draft();
+    assert.equal(review(sop, 'carol', 'sales', 'approve'), 403);
+    assert.equal(review(sop, 'carol', 'sales', 'reject', 'Too strict'), 403);
+});
+
+test('engineering and admin sign-offs together approve a draft, in either order', () => {
+    const first = draft();
+    assert.equal(review(first, 'dave', 'engineering', 'approve').status, 'Draft');
+    assert.equal(review(first, 'admin', 'admin', 'approve').status, 'Active');
+
+    const second = draft();
+    const signed = review(second, 'admin', 'admin', 'approve');
+    assert.equal(signed.status, 'Draft');
+    assert.equal(review(signed, 'dave', 'engineering', 'approve').status, 'Active');
+});
+
+test('Safety drafts need two engineering approvals besides the admin', () => {
+    let sop = review(draft('Safety'), 'admin', 'admin', 'approve');
+    sop = review(sop, 'dave', 'engineering', 'approve');
+    assert.equal(sop.status, 'Draft');
+    assert.equal(review(sop, 'erin', 'engineering', 'approve').status, 'Active');
+});
+
+test('either reviewing role can reject a draft', () => {
+    for (const [username, role] of [['dave', 'engineering'], ['admin', 'admin']]) {
+        const rejected = review(draft(), username, role, 'reject', 'Breaks the RS clearance');
+        assert.equal(rejected.status, 'Rejected');
+        assert.equal(rejected.rejectionReason, 'Breaks the RS clearance');
+    }
+});
+
+test('an approval beyond what the role is needed for is refused', () => {
+    const sop = review(draft(), 'dave', 'engineering', 'approve');
+    assert.throws(() => review(sop, 'erin', 'engineering', 'approve'), { status: 409 });
+});
+
+test('engineering cannot give the approval that completes a review no admin has signed', () => {
+    // Rules can't be saved without an admin review any more, but older ones may still be stored
+    const workflow = [{ category: '*', reviews: [{ role: 'engineering', count: 2 }] }];
+    const sop = { ...draft(), reviews: [] };
+    assert.equal(canGiveApproval('engineering', sop, workflow), true);
+
+    const oneApproval = { ...sop, reviews: [{ reviewer: 'dave', role: 'engineering', decision: 'approve', timestamp: '' }] };
+    assert.equal(canGiveApproval('engineering', oneApproval, workflow), false);
+    assert.equal(canGiveApproval('admin', oneApproval, workflow), true);
+});
+
+test('workflow rules must keep an admin sign-off', () => {
+    assert.throws(() => setSopWorkflow('Logistics', [{ role: 'engineering', count: 2 }], 'admin'), { status: 400 });
+    setSopWorkflow('Logistics', [{ role: 'engineering', count: 2 }, { role: 'admin', count: 1 }], 'admin');
+    assert.equal(getSopWorkflow().find(rule => rule.category === 'Logistics').reviews.length, 2);
+});
@@ -0,0 +1,75 @@
+// SOP rule engine (shared/sopRules.js): every violation names the SOP id and version it comes from
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateConfiguration, configurationTags } from '../shared/sopRules.js';
+
+const chest = { id: 'LJC', title: 'Lifejacket chest', type: 'Chest', category: 'Test', description: '',
+    externalDims: { h: 800, w: 1200, d: 600 }, internalDimsBase: { h: 750, w: 1150, d: 550 } };
+const shutter = { id: 'RS2', title: 'Roller shutter', type: 'Roller Shutter', category: 'Test', description: '',
+    externalDims: { h: 1800, w: 1000, d: 600 }, internalDimsBase: { h: 1700, w: 900, d: 500 } };
+
+const sops = [
+    {
+        id: 'SOP-JB-01', title: 'Standard Insulation Deductions', version: '2.1.0', status: 'Active', category: 'Engineering',
+        rules: [{ kind: 'dimensionDeduction', option: 'insulation', thicknessMm: 25, deductionMm: 50 }]
+    },
+    {
+        id: 'SOP-JB-12', title: 'Chest Stacking Constraints', version: '3.0.1', status: 'Active', category: 'Logistics',
+        rules: [{ kind: 'stackingLimit', appliesToType: 'Chest', maxTiers: 2, maxStackHeightMm: 1800 }]
+    },
+    {
+        id: 'SOP-JB-20', title: 'Shutter Insulation', version: '1.2.0', status: 'Active', category: 'Engineering',
+        rules: [{ kind: 'forbiddenCombination', options: ['Type:Roller Shutter', 'insulation:25'], reason: 'Roller shutters cannot take insulated liners' }]
+    }
+];
+
+test('a forbidden combination is reported with its SOP id and version', () => {
+    const result = evaluateConfiguration({ modelId: 'RS2', insulationMm: 25 }, shutter, sops);
+    assert.deepEqual(result.violations, [{
+        sopId: 'SOP-JB-20', sopVersion: '1.2.0', rule: 'forbiddenCombination', modelId: 'RS2',
+        message: 'Roller shutters cannot take insulated liners'
+    }]);
+    // The deduction still applies, so the rest of the evaluation stays accurate
+    assert.deepEqual(result.internalDims, { h: 1650, w: 850, d: 450 });
+    assert.deepEqual(result.appliedSops, [{ sopId: 'SOP-JB-01', sopVersion: '2.1.0' }]);
+});
+
+test('a combination needs every option present to be forbidden', () => {
+    assert.deepEqual(evaluateConfiguration({ modelId: 'RS2' }, shutter, sops).violations, []);
+    assert.deepEqual(evaluateConfiguration({ modelId: 'LJC', insulationMm: 25 }, chest, sops).violations, []);
+    assert.ok(configurationTags({ modelId: 'RS2', options: [' Locking Bar '] }, shutter).has('locking bar'));
+});
+
+test('stacking over the tier limit is reported with its SOP id and version', () => {
+    const result = evaluateConfiguration({ modelId: 'LJC', stackTiers: 3 }, chest, sops);
+    assert.deepEqual(result.violations, [{
+        sopId: 'SOP-JB-12', sopVersion: '3.0.1', rule: 'stackingLimit', modelId: 'LJC',
+        message: '3 tiers exceeds the 2-tier limit for Chest models'
+    }]);
+    assert.deepEqual(result.appliedSops, [{ sopId: 'SOP-JB-12', sopVersion: '3.0.1' }]);
+    assert.deepEqual(evaluateConfiguration({ modelId: 'LJC', stackTiers: 2 }, chest, sops).violations, []);
+});
+
+test('stacking within the tier limit but over the height limit is reported', () => {
+    const tall = { ...chest, externalDims: { ...chest.externalDims, h: 950 } };
+    const result = evaluateConfiguration({ modelId: 'LJC', stackTiers: 2 }, tall, sops);
+    assert.deepEqual(result.violations.map(v => [v.sopId, v.sopVersion, v.message]), [
+        ['SOP-JB-12', '3.0.1', 'Stack height 1900mm exceeds the 1800mm limit']
+    ]);
+});
+
+test('an unapproved insulation thickness is a violation of the insulation SOP', () => {
+    const result = evaluateConfiguration({ modelId: 'LJC', insulationMm: 40 }, chest, sops);
+    assert.deepEqual(result.violations.map(v => [v.sopId, v.sopVersion, v.rule, v.message]), [
+        ['SOP-JB-01', '2.1.0', 'dimensionDeduction', '40mm insulation is not an approved option (approved: 25mm)']
+    ]);
+    assert.deepEqual(result.internalDims, chest.internalDimsBase);
+});
+
+test('rules of SOPs not in force are ignored', () => {
+    const drafts = sops.map(sop => ({ ...sop, status: 'Draft' }));
+    const result = evaluateConfiguration({ modelId: 'RS2', insulationMm: 25, stackTiers: 3 }, shutter, drafts);
+    assert.deepEqual(result.violations, []);
+    assert.deepEqual(result.warnings, ['No SOP in force defines insulation deductions; 25mm insulation not applied']);
+});
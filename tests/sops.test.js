@@ -0,0 +1,45 @@
+// SOP drafts (server/sops.js): structured rules are checked field by field when proposed
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { useTempDataDir } from './tempDataDir.js';
+
+useTempDataDir();
+const { ACTIVE_SOPS, PROPOSED_CHANGES } = await import('../shared/sops.js');
+const { proposeSop } = await import('../server/sops.js');
+
+let drafts = 0;
+const propose = rules => proposeSop({
+    id: `SOP-TEST-${++drafts}`, title: 'Test draft', description: 'Rule validation', version: '1.0.0', category: 'Engineering', rules
+}, 'dave');
+
+test('every seeded rule is accepted', () => {
+    const rules = [...ACTIVE_SOPS, ...PROPOSED_CHANGES].flatMap(sop => sop.rules || []);
+    assert.equal(propose(rules).rules.length, rules.length);
+});
+
+test('a rule missing a field its kind needs is refused', () => {
+    const cases = [
+        [{ kind: 'dimensionDeduction', option: 'insulation', thicknessMm: 25 }, /rules\[0\] \(dimensionDeduction\): deductionMm must be a positive number/],
+        [{ kind: 'weightThreshold', maxShelfKg: '15' }, /maxShelfKg must be a positive number/],
+        [{ kind: 'stackingLimit', appliesToType: 'Chest', maxTiers: 2.5, maxStackHeightMm: 1800 }, /maxTiers must be a positive whole number/],
+        [{ kind: 'stackingLimit', appliesToType: 'Crate', maxTiers: 2, maxStackHeightMm: 1800 }, /appliesToType must be one of/],
+        [{ kind: 'clearanceBuffer', appliesTo: {}, axes: ['w'], bufferMm: 10 }, /appliesTo must be/],
+        [{ kind: 'clearanceBuffer', appliesTo: { modelPrefix: 'RS' }, axes: 'w', bufferMm: 10 }, /axes must be a non-empty array of h, w, d/],
+        [{ kind: 'clearanceBuffer', appliesTo: { modelPrefix: 'RS' }, axes: ['x'], bufferMm: 10 }, /axes must be/],
+        [{ kind: 'forbiddenCombination', options: 'heater', reason: 'Fire risk' }, /options must be a non-empty array of option tags/],
+        [{ kind: 'forbiddenCombination', options: ['heater', 'insulation:50'] }, /reason must be a non-empty string/]
+    ];
+    for (const [rule, message] of cases) {
+        assert.throws(() => propose([rule]), { status: 400, message }, JSON.stringify(rule));
+    }
+});
+
+test('the failing rule is named by its position', () => {
+    assert.throws(() => propose([{ kind: 'weightThreshold', maxShelfKg: 15 }, { kind: 'weightThreshold', maxShelfKg: -1 }]),
+        { status: 400, message: 'rules[1] (weightThreshold): maxShelfKg must be a positive number' });
+});
+
+test('unknown rule kinds are still refused', () => {
+    assert.throws(() => propose([{ kind: 'colour', value: 'red' }]), { status: 400, message: /kind is one of/ });
+});
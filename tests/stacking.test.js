@@ -0,0 +1,98 @@
+// Chest stacking planner (shared/stacking.js): tiers, chest counts and stack splits under SOP-JB-12 style limits
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { planModelStacking, planChestStacking } from '../shared/stacking.js';
+
+// 500mm tall chests holding 10 lifejackets each
+const chest = (id, w = 1000) => ({
+    id, title: `${id} chest`, type: 'Chest',
+    externalDims: { h: 500, w, d: 600 },
+    capacity: { lifejackets: 10 }
+});
+
+const stackingSop = (maxTiers, maxStackHeightMm, status = 'Active') => ({
+    id: 'SOP-JB-12', title: 'Chest Stacking Constraints', version: '3.0.1', status, category: 'Logistics',
+    rules: [{ kind: 'stackingLimit', appliesToType: 'Chest', maxTiers, maxStackHeightMm }]
+});
+
+const plan = (lifejackets, deckHeightMm, sops, model = chest('LJC')) => {
+    const result = planModelStacking(lifejackets, deckHeightMm, model, sops);
+    assert.ok('plan' in result, `expected a plan, got: ${result.reason}`);
+    return result.plan;
+};
+
+test('tiers are capped by the SOP maxTiers', () => {
+    const result = plan(40, 3000, [stackingSop(2, 5000)]);
+    assert.equal(result.tiers, 2);
+    assert.equal(result.limitedBy, 'sopTiers');
+    assert.equal(result.sopId, 'SOP-JB-12');
+    assert.equal(result.sopVersion, '3.0.1');
+});
+
+test('tiers are capped by the SOP maxStackHeightMm', () => {
+    // 1200mm allows two 500mm chests, although four tiers are allowed and the deck fits six
+    const result = plan(40, 3000, [stackingSop(4, 1200)]);
+    assert.equal(result.tiers, 2);
+    assert.equal(result.limitedBy, 'sopHeight');
+});
+
+test('a chest taller than the SOP maxStackHeightMm rejects the model, citing the SOP', () => {
+    const result = planModelStacking(20, 3000, chest('LJC'), [stackingSop(2, 450)]);
+    assert.deepEqual(result, { reason: 'The 500mm chest is taller than the 450mm stack limit in SOP-JB-12 v3.0.1' });
+
+    const all = planChestStacking(20, 3000, [chest('LJC')], [stackingSop(2, 450)]);
+    assert.deepEqual(all.plans, []);
+    assert.deepEqual(all.rejected, [{ modelId: 'LJC', reason: result.reason }]);
+});
+
+test('tiers are capped by the deck height', () => {
+    const result = plan(40, 1400, [stackingSop(4, 5000)]);
+    assert.equal(result.tiers, 2);
+    assert.equal(result.limitedBy, 'deckHeight');
+    assert.equal(result.stackHeightMm, 1000);
+});
+
+test('chests are rounded up and the spare capacity is reported', () => {
+    const result = plan(45, 3000, [stackingSop(2, 5000)]);
+    assert.equal(result.perChest, 10);
+    assert.equal(result.chests, 5);
+    assert.equal(result.spareCapacity, 5);
+
+    const exact = plan(40, 3000, [stackingSop(2, 5000)]);
+    assert.equal(exact.chests, 4);
+    assert.equal(exact.spareCapacity, 0);
+});
+
+test('chests are spread evenly over the fewest stacks', () => {
+    // 7 chests, 3 high: three stacks, never taller than needed
+    const result = plan(70, 3000, [stackingSop(3, 5000)]);
+    assert.deepEqual(result.stacks, [3, 2, 2]);
+    assert.equal(result.stackHeightMm, 1500);
+    assert.deepEqual(result.footprint, { w: 3000, d: 600 });
+});
+
+test('without an active stacking SOP only the deck height limits the tiers', () => {
+    for (const sops of [[], [stackingSop(2, 1000, 'Deprecated')]]) {
+        const result = plan(60, 2600, sops);
+        assert.equal(result.tiers, 5);
+        assert.equal(result.limitedBy, 'deckHeight');
+        assert.deepEqual(result.stacks, [3, 3]);
+        assert.equal(result.sopId, undefined);
+    }
+});
+
+test('a deck lower than one chest rejects the model', () => {
+    const result = planModelStacking(20, 400, chest('LJC'), [stackingSop(2, 1800)]);
+    assert.deepEqual(result, { reason: 'Deck height 400mm is below the 500mm chest height' });
+
+    const all = planChestStacking(20, 400, [chest('LJC'), chest('LJC-W', 1200)], [stackingSop(2, 1800)]);
+    assert.deepEqual(all.plans, []);
+    assert.deepEqual(all.rejected.map(r => r.modelId), ['LJC', 'LJC-W']);
+});
+
+test('plans are ranked by deck footprint', () => {
+    const result = planChestStacking(40, 3000, [chest('WIDE', 1200), chest('NARROW', 800)], [stackingSop(2, 1800)]);
+    assert.deepEqual(result.plans.map(p => p.modelId), ['NARROW', 'WIDE']);
+    assert.deepEqual(result.rejected, []);
+});
@@ -0,0 +1,38 @@
+// JSON stores (server/store.js): in production DATA_DIR must be an existing, persistent directory
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { useTempDataDir } from './tempDataDir.js';
+
+const dataDir = useTempDataDir();
+
+// A fresh copy of the module each time: the check runs when it loads
+let loads = 0;
+async function loadStoreWith(env) {
+    const setEnv = values => Object.entries(values).forEach(([name, value]) => {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+    });
+    const saved = Object.fromEntries(Object.keys(env).map(name => [name, process.env[name]]));
+    setEnv(env);
+    try {
+        return await import(`../server/store.js?load=${++loads}`);
+    } finally {
+        setEnv(saved);
+    }
+}
+
+test('production refuses to start without DATA_DIR', async () => {
+    await assert.rejects(loadStoreWith({ NODE_ENV: 'production', DATA_DIR: undefined }), /DATA_DIR must be set in production/);
+});
+
+test('production refuses a DATA_DIR that is not mounted', async () => {
+    await assert.rejects(loadStoreWith({ NODE_ENV: 'production', DATA_DIR: path.join(dataDir, 'not-mounted') }), /does not exist; mount a persistent volume/);
+});
+
+test('production starts with an existing DATA_DIR; other environments need none', async () => {
+    const { createCollection } = await loadStoreWith({ NODE_ENV: 'production', DATA_DIR: dataDir });
+    assert.deepEqual(createCollection('things', [{ id: 'a' }]).all(), [{ id: 'a' }]);
+    await loadStoreWith({ NODE_ENV: undefined, DATA_DIR: undefined });
+});
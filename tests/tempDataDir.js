@@ -0,0 +1,16 @@
+// Points the server's stores (server/store.js) at a throwaway DATA_DIR. Call before importing any
+// server module: stores read DATA_DIR when they load. Each test file runs in its own process.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after } from 'node:test';
+
+export function useTempDataDir() {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobird-test-'));
+    process.env.DATA_DIR = dir;
+    process.env.SESSION_SECRET = 'test-session-secret';
+    process.env.ADMIN_PASSWORD = 'test-admin-password';
+    after(() => fs.rmSync(dir, { recursive: true, force: true }));
+    return dir;
+}
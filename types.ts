@@ -7,19 +7,170 @@ export interface CabinetModel {
   internalDimsBase: { h: number; w: number; d: number }; // Dimensions without insulation
   description: string;
   category: string;
+  capacity?: { lifejackets?: number }; // Rated storage capacity, where the model is sized for a count
 }
 
+export type Placement = 'base' | 'shelf';
+
 export interface EquipmentItem {
   type: string;
   qty: number;
   dims: { h: number; w: number; d: number };
   weight: number;
+  placement?: Placement; // Requested placement, if the customer specified one
+}
+
+export interface Dims {
+  h: number;
+  w: number;
+  d: number;
+}
+
+export interface FitPlacement {
+  type: string;
+  qty: number;
+  orientation: Dims; // Item dims as loaded (after rotation)
+  perColumn: number; // Units stacked on top of each other
+  columns: number;
+}
+
+export interface CabinetFit {
+  modelId: string;
+  title: string;
+  internalDims: Dims;
+  clearance: Dims; // Spare mm on each axis after loading
+  minClearance: number;
+  utilisation: number; // % of internal volume occupied
+  placements: FitPlacement[];
+  appliedSops?: SopReference[];
+}
+
+export interface FitCheckResult {
+  equipment: EquipmentItem[];
+  insulationMm?: number;
+  fits: CabinetFit[]; // Ranked: smallest fitting cabinet first
+  rejected: { modelId: string; reason: string }[];
+  placement?: PlacementAdvice;
+}
+
+export interface StackingPlan {
+  modelId: string;
+  title: string;
+  perChest: number;
+  chests: number;
+  tiers: number; // Max chests per stack allowed for this deck
+  stacks: number[]; // Chests in each stack
+  stackHeightMm: number; // Tallest stack
+  footprint: { w: number; d: number }; // Stacks placed side by side
+  spareCapacity: number;
+  limitedBy: 'sopTiers' | 'sopHeight' | 'deckHeight';
+  sopId?: string;
+  sopVersion?: string;
+}
+
+export interface StackingPlanResult {
+  lifejackets: number;
+  deckHeightMm: number;
+  plans: StackingPlan[]; // Smallest deck footprint first
+  rejected: { modelId: string; reason: string }[];
 }
 
 export interface Message {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  fitCheck?: FitCheckResult;
+  stackingPlan?: StackingPlanResult;
+  citedSops?: SopCitation[];
+  sopWarnings?: string[];
+  datasheets?: DatasheetReference[]; // Cited by this answer
+  stopped?: boolean; // The user stopped the answer before it finished
+  // On an edited (or regenerated) user message: every version of the conversation from here on.
+  // The version being shown lives in the conversation itself, so its slot is left empty.
+  branches?: ConversationBranch[];
+  branchIndex?: number; // The version being shown
+}
+
+// One version of a conversation from an edited user message onwards
+export interface ConversationBranch {
+  messages: Message[]; // Starting with that version of the user message
+  datasheets: DatasheetReference[]; // The session's referenced datasheets while this version was shown
+}
+
+// Machine-readable constraints carried by an SOP version
+export interface DimensionDeductionRule {
+  kind: 'dimensionDeduction';
+  option: 'insulation';
+  thicknessMm: number;
+  deductionMm: number; // Removed from each of internal H, W and D
+}
+
+export interface WeightThresholdRule {
+  kind: 'weightThreshold';
+  maxShelfKg: number; // Anything heavier must be base-loaded
+}
+
+export interface StackingLimitRule {
+  kind: 'stackingLimit';
+  appliesToType: CabinetModel['type'];
+  maxTiers: number;
+  maxStackHeightMm: number;
+}
+
+export interface ClearanceBufferRule {
+  kind: 'clearanceBuffer';
+  appliesTo: { type?: CabinetModel['type']; modelPrefix?: string };
+  axes: ('h' | 'w' | 'd')[];
+  bufferMm: number; // Extra clearance kept free on each listed axis
+}
+
+export interface ForbiddenCombinationRule {
+  kind: 'forbiddenCombination';
+  options: string[]; // All must be present to trigger, e.g. ['type:Roller Shutter', 'insulation:50']
+  reason: string;
+}
+
+export type SopRule = DimensionDeductionRule | WeightThresholdRule | StackingLimitRule | ClearanceBufferRule | ForbiddenCombinationRule;
+
+export interface SopReference {
+  sopId: string;
+  sopVersion: string;
+}
+
+// An SOP the advisor relied on in a chat answer
+export interface SopCitation extends SopReference {
+  title: string;
+}
+
+export interface SopViolation extends SopReference {
+  rule: SopRule['kind'];
+  message: string;
+  modelId?: string;
+}
+
+// A proposed build, as evaluated by the SOP rule engine
+export interface CabinetConfiguration {
+  modelId: string;
+  insulationMm?: number;
+  equipment?: EquipmentItem[];
+  options?: string[]; // Free-form option tags, e.g. 'heater', 'window'
+  stackTiers?: number; // Chests only
+}
+
+export interface ConfigurationEvaluation {
+  modelId: string;
+  internalDims: Dims; // After every applicable deduction and buffer
+  appliedSops: SopReference[];
+  violations: SopViolation[];
+  warnings: string[]; // Checks that could not be made because no active SOP covers them
+}
+
+export interface PlacementAdvice {
+  sopId: string;
+  sopVersion: string;
+  thresholdKg: number;
+  items: { type: string; weight: number; qty: number; suggested: Placement; mandatory: boolean }[];
+  violations: SopViolation[];
 }
 
 export interface SOP {
@@ -27,44 +178,261 @@ export interface SOP {
   title: string;
   description: string;
   version: string;
-  status: 'Active' | 'Draft' | 'Deprecated';
+  status: SopStatus;
   lastUpdated: string;
   category: string;
   replacesId?: string;
   changeReason?: string;
   proposedBy?: string;
+  rules?: SopRule[];
+  effectiveDate?: string; // YYYY-MM-DD; an Approved SOP becomes Active on this date
+  reviews?: SopReview[];
+  rejectionReason?: string;
+}
+
+// Draft -> Approved (scheduled) -> Active -> Deprecated, or Draft -> Rejected
+export type SopStatus = 'Draft' | 'Approved' | 'Active' | 'Rejected' | 'Deprecated';
+
+export interface SopReview {
+  reviewer: string;
+  role: string;
+  decision: 'approve' | 'reject';
+  comment?: string;
+  timestamp: string;
+}
+
+export interface SopReviewRequirement {
+  role: string;
+  count: number; // Distinct approving reviewers needed in this role
+}
+
+// Reviews required before a draft in `category` is approved ('*' is the fallback)
+export interface SopWorkflowRule {
+  category: string;
+  reviews: SopReviewRequirement[];
+}
+
+export interface InsulationOption {
+  thicknessMm: number; // 0 = uninsulated
+  deductionMm: number;
+  internalDims: Dims;
+  usable: boolean; // False when the deduction leaves no internal space
+}
+
+export interface InsulatedDimensions {
+  modelId: string;
+  title: string;
+  sopId?: string; // SOP the deductions were taken from
+  sopVersion?: string;
+  options: InsulationOption[];
+}
+
+export type FeedbackStatus = 'new' | 'triaged' | 'in-progress' | 'resolved' | 'wont-fix';
+
+// Chat state at the moment the feedback was raised, captured automatically
+export interface FeedbackContext {
+  cabinetId?: string;
+  equipment?: string;
+  insulation?: string;
+  sopVersion?: string;
+}
+
+export interface FeedbackComment {
+  author: string;
+  text: string;
+  timestamp: string; // ISO
 }
 
 export interface SalesFeedback {
   id: string;
   userId: string;
-  timestamp: string;
-  context: {
-    cabinetId?: string;
-    equipment?: string;
-    insulation?: string;
-    sopVersion?: string;
-  };
+  timestamp: string; // ISO
+  context: FeedbackContext;
   task: string;
   issue: string;
   urgency: 'Low' | 'Medium' | 'High';
+  status: FeedbackStatus;
+  assignee?: string;
+  comments: FeedbackComment[];
+  updatedAt: string; // ISO
+  changeRequestId?: string; // Set once promoted to a change request
 }
 
+// open: no SOP draft yet; in-review: drafts linked; closed: a linked SOP was approved
+export type ChangeRequestStatus = 'open' | 'in-review' | 'closed';
+
 export interface ChangeRequest {
   id: string;
-  source: string; // e.g., "Sales Case #1024"
+  source: string; // e.g., "Sales Case #1024" or "Feedback FB-0001"
   suggestion: string;
-  timestamp: string;
+  timestamp: string; // ISO
   linkedConfig?: string;
   urgency?: string;
+  status: ChangeRequestStatus;
+  feedbackId?: string; // Feedback it was promoted from
+  sopIds: string[]; // SOP drafts raised to address it
+  createdBy?: string;
+  closedAt?: string; // ISO
+  resolution?: string;
+}
+
+export type UserRole = 'sales' | 'engineering' | 'admin';
+
+// Actions gated by role (see shared/permissions.js)
+export type Permission =
+  | 'feedback.submit'
+  | 'feedback.comment'
+  | 'feedback.triage'
+  | 'sop.propose'
+  | 'sop.review'
+  | 'sop.approve'
+  | 'sop.deprecate'
+  | 'sop.workflow'
+  | 'changeRequest.manage'
+  | 'audit.view'
+  | 'users.manage'
+  | 'apiKeys.manage';
+
+export interface User {
+  username: string;
+  name: string;
+  role: UserRole;
+  disabled?: boolean;
+  createdAt: string; // ISO
+}
+
+// A key for the versioned public API (/api/v1); the key itself is only returned when it is created
+export interface ApiKey {
+  id: string;
+  name: string; // The system using it, e.g. "Quoting system"
+  prefix: string; // First characters of the key, to tell keys apart
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+  revokedBy?: string;
+}
+
+export interface AuthSession {
+  token: string;
+  user: User;
+  expiresAt: string; // ISO
 }
 
 export interface AuditEntry {
+  seq: number;
   id: string;
   user: string;
   action: string;
-  timestamp: string;
+  timestamp: string; // ISO 8601, set by the server
   changeDetail: string;
+  prevHash: string;
+  hash: string; // sha256 over this entry's fields and prevHash
+}
+
+export interface AuditQuery {
+  user?: string;
+  action?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;   // YYYY-MM-DD, inclusive
+  q?: string;    // Free text over changeDetail and entry id
+  page?: number;
+  pageSize?: number;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  pages: number;
+  users: string[];   // Every user in the log, for filter dropdowns
+  actions: string[];
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  total: number;
+  headHash?: string;
+  firstInvalid?: { seq: number; id: string | null; reason: string };
+}
+
+// A document uploaded into a chat; its text is sent with every query in that session
+export interface SessionFile {
+  name: string;
+  content?: string; // Only in this browser: the server keeps the names of a session's files, not their text
+}
+
+export type SessionTagKind = 'customer' | 'project' | 'case'; // case = sales case number
+
+export interface SessionTag {
+  kind: SessionTagKind;
+  value: string;
+}
+
+// How a rep organises a session; editable without touching the conversation
+export interface ChatSessionMeta {
+  title: string;
+  pinned?: boolean;
+  archived?: boolean;
+  tags?: SessionTag[];
+}
+
+// A selection conversation, saved per user on the server and cached in IndexedDB
+export interface ChatSession extends ChatSessionMeta {
+  id: string;
+  messages: Message[];
+  datasheets: DatasheetReference[];
+  sessionFiles: SessionFile[];
+  timestamp: Date; // Started
+  updatedAt?: string; // ISO, last saved; unset until the first save
+}
+
+// Sidebar entry; the full session is fetched when it is opened
+export interface ChatSessionSummary extends ChatSessionMeta {
+  id: string;
+  timestamp: Date;
+  updatedAt?: string;
+  messageCount: number;
+}
+
+// A read-only link to a frozen copy of a session, as its owner sees it
+export interface SessionShare {
+  token: string;
+  sessionId: string;
+  title: string;
+  createdAt: string;
+  expiresAt?: string; // Unset = never expires
+  revokedAt?: string;
+  viewCount: number;
+  lastViewedAt?: string;
+}
+
+// What a colleague opening the link receives
+export interface SharedSession {
+  token: string;
+  sharedBy: string;
+  createdAt: string;
+  expiresAt?: string;
+  title: string;
+  timestamp: Date;
+  messages: Message[];
+  datasheets: DatasheetReference[];
+}
+
+// One place a search matched: a message (jump target) or, failing that, the session's datasheet list
+export interface ChatSearchHit {
+  messageIndex?: number;
+  role?: Message['role'];
+  snippet: string;
+}
+
+export interface ChatSearchResult {
+  sessionId: string;
+  title: string;
+  updatedAt: string;
+  hits: ChatSearchHit[];
 }
 
 export interface DatasheetReference {
@@ -79,10 +447,61 @@ export interface DatasheetReference {
 export interface AIResponse {
   text: string;
   referencedDatasheets: DatasheetReference[];
+  citedSops?: SopCitation[];
+  sopWarnings?: string[]; // Statements in the answer that contradict an SOP in force
+}
+
+// Steps of the selection pipeline, reported on the chat stream as each one starts
+export type SelectionStage = 'analyzing' | 'lookup' | 'searching' | 'extracting' | 'expanded' | 'found' | 'generating';
+
+export interface SelectionStageEvent {
+  type: 'stage';
+  stage: SelectionStage;
+  message: string; // Ready to show, e.g. "12 products found"
+  elapsedMs: number; // Since the request started
+  expandedQuery?: string; // expanded: what the knowledge base is searched for
+  requirements?: number; // searching: separate searches run for a document or long enquiry
+  productsFound?: number; // found, generating
+  sopsInContext?: number; // generating
 }
 
+// Events on POST /api/chat/stream (wire format in shared/streamEvents.js); unknown types are ignored
+export type SelectionStreamEvent =
+  | SelectionStageEvent
+  | { type: 'chunk'; text: string } // The whole answer so far, not a delta
+  | { type: 'done'; text: string; datasheets: DatasheetReference[]; sops: SopCitation[]; sopWarnings: string[] }
+  | { type: 'error'; error: string };
+
 export interface KnowledgeBaseStats {
   totalProducts: number;
   categories?: string[];
   sampleProducts?: string[];
+  categoryMatches?: { keyword: string; count: number; datasheets: string[] }[]; // Only with ?category=
 }
+
+// A product row returned by the knowledge base search
+export interface ProductMatch {
+  id: string;
+  product_code: string;
+  name: string;
+  category: string;
+  specifications: Record<string, any>;
+  description: string;
+  applications: string | null;
+  pdf_storage_url: string;
+  similarity: number;
+}
+
+// Safe-to-expose settings from GET /api/config; unset variables are omitted
+export type RuntimeConfig = Partial<Record<
+  | 'VITE_FIREBASE_API_KEY'
+  | 'VITE_FIREBASE_AUTH_DOMAIN'
+  | 'VITE_FIREBASE_PROJECT_ID'
+  | 'VITE_FIREBASE_STORAGE_BUCKET'
+  | 'VITE_FIREBASE_MESSAGING_SENDER_ID'
+  | 'VITE_FIREBASE_APP_ID'
+  | 'VITE_FIREBASE_MEASUREMENT_ID'
+  | 'VITE_GEMINI_LIVE_API_KEY'
+  | 'VITE_SUPABASE_URL',
+  string
+>>;